@@ -0,0 +1,24 @@
+CREATE TABLE "memberships" (
+	"organization_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "memberships_organization_id_user_id_pk" PRIMARY KEY("organization_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(120) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "organization_id" uuid;--> statement-breakpoint
+-- Backfill: every existing user gets a personal organization (sharing the user's id)
+-- and their leads move into it.
+INSERT INTO "organizations" ("id", "name") SELECT "id", COALESCE("name", "email") FROM "users";--> statement-breakpoint
+INSERT INTO "memberships" ("organization_id", "user_id") SELECT "id", "id" FROM "users";--> statement-breakpoint
+UPDATE "buyers" SET "organization_id" = "owner_id";--> statement-breakpoint
+ALTER TABLE "buyers" ALTER COLUMN "organization_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "memberships" ADD CONSTRAINT "memberships_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "buyers" ADD CONSTRAINT "buyers_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."role" AS ENUM('admin', 'manager', 'agent', 'viewer');--> statement-breakpoint
+ALTER TABLE "memberships" ADD COLUMN "role" "role" DEFAULT 'agent' NOT NULL;--> statement-breakpoint
+-- The earliest member of every existing organization becomes its admin.
+UPDATE "memberships" SET "role" = 'admin' WHERE ("organization_id", "created_at") IN (SELECT "organization_id", MIN("created_at") FROM "memberships" GROUP BY "organization_id");
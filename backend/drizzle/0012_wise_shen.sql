@@ -0,0 +1,21 @@
+CREATE TYPE "public"."property_status" AS ENUM('Available', 'On Hold', 'Closed');--> statement-breakpoint
+CREATE TABLE "properties" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"title" varchar(120) NOT NULL,
+	"city" "city" NOT NULL,
+	"locality" varchar(120),
+	"property_type" "property_type" NOT NULL,
+	"bhk" "bhk",
+	"purpose" "purpose" NOT NULL,
+	"price" integer NOT NULL,
+	"area_sqft" integer,
+	"status" "property_status" DEFAULT 'Available' NOT NULL,
+	"notes" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "properties" ADD CONSTRAINT "properties_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "properties" ADD CONSTRAINT "properties_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "public"."drop_reason" AS ENUM('Budget', 'Location', 'Bought Elsewhere', 'Not Responding', 'Not Interested', 'Other');--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "drop_reason" "drop_reason";--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "drop_note" text;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "visited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "deal_value" integer;
\ No newline at end of file
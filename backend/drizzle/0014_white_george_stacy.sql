@@ -0,0 +1,13 @@
+CREATE TYPE "public"."history_action" AS ENUM('create', 'update', 'import', 'delete', 'restore');--> statement-breakpoint
+ALTER TABLE "buyer_history" DROP CONSTRAINT "buyer_history_buyer_id_buyers_id_fk";
+--> statement-breakpoint
+ALTER TABLE "buyer_history" ADD COLUMN "action" "history_action" DEFAULT 'update' NOT NULL;--> statement-breakpoint
+ALTER TABLE "buyer_history" ADD COLUMN "source" varchar(32) DEFAULT 'web' NOT NULL;--> statement-breakpoint
+ALTER TABLE "buyer_history" ADD COLUMN "meta" jsonb;--> statement-breakpoint
+-- Create entries used to carry a placeholder `created` key.
+UPDATE "buyer_history" SET "action" = 'create', "diff" = "diff" - 'created' WHERE "diff" ? 'created';--> statement-breakpoint
+-- Import entries stored the whole row as {from: {}, to: row}; spread it into field diffs.
+UPDATE "buyer_history" SET "action" = 'import', "source" = 'import', "diff" = COALESCE((SELECT jsonb_object_agg("key", jsonb_build_object('from', NULL, 'to', "value")) FROM jsonb_each("diff"->'to') WHERE "key" NOT IN ('organizationId', 'createdAt', 'updatedAt')), '{}'::jsonb) WHERE jsonb_typeof("diff"->'from') = 'object' AND jsonb_typeof("diff"->'to') = 'object';--> statement-breakpoint
+-- Site visit and revert markers are event details, not buyer fields.
+UPDATE "buyer_history" SET "source" = 'visit', "meta" = jsonb_build_object('siteVisit', "diff"->'siteVisit'), "diff" = "diff" - 'siteVisit' WHERE "diff" ? 'siteVisit';--> statement-breakpoint
+UPDATE "buyer_history" SET "source" = 'revert', "meta" = jsonb_build_object('revertedTo', "diff"->'revertedTo'), "diff" = "diff" - 'revertedTo' WHERE "diff" ? 'revertedTo';
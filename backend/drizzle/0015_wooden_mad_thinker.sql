@@ -0,0 +1,3 @@
+ALTER TABLE "buyers" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "deleted_by" uuid;--> statement-breakpoint
+ALTER TABLE "buyers" ADD CONSTRAINT "buyers_deleted_by_users_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,27 @@
+ALTER TABLE "buyers" ALTER COLUMN "phone" SET DATA TYPE varchar(32);--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "alt_phones" jsonb DEFAULT '[]'::jsonb;--> statement-breakpoint
+-- Existing numbers were bare 10-15 digit strings: ten digits are Indian numbers,
+-- a leading 0 is the domestic trunk prefix, and anything longer already carries
+-- its country code.
+UPDATE "buyers" SET "phone" = CASE
+  WHEN length("phone") = 10 THEN '+91' || "phone"
+  WHEN length("phone") = 11 AND "phone" LIKE '0%' THEN '+91' || substr("phone", 2)
+  ELSE '+' || "phone"
+END WHERE "phone" ~ '^\d{10,15}$';--> statement-breakpoint
+-- Report leads in one organization that now share a number ("9876543210" and
+-- "919876543210" used to look different). They are left in place to be reviewed
+-- and merged from the Duplicates page.
+DO $$
+DECLARE
+  conflict record;
+BEGIN
+  FOR conflict IN
+    SELECT "organization_id", "phone", count(*) AS "leads"
+    FROM "buyers"
+    WHERE "deleted_at" IS NULL
+    GROUP BY "organization_id", "phone"
+    HAVING count(*) > 1
+  LOOP
+    RAISE NOTICE 'Phone % is shared by % leads in organization %', conflict.phone, conflict.leads, conflict.organization_id;
+  END LOOP;
+END $$;
@@ -0,0 +1,13 @@
+-- Full text and fuzzy search over buyers. The vector is a generated column kept
+-- out of the Drizzle schema (see frontend/src/lib/search.ts): names weigh most,
+-- then email and tags, then notes. The 'simple' configuration leaves names
+-- unstemmed, and pg_trgm catches misspelt names.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("full_name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("email", '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce("tags"::text, '')), 'B') ||
+  setweight(to_tsvector('simple', coalesce("notes", '')), 'C')
+) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "buyers_search_vector_idx" ON "buyers" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "buyers_full_name_trgm_idx" ON "buyers" USING gin ("full_name" gin_trgm_ops);
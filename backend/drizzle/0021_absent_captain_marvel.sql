@@ -0,0 +1,8 @@
+CREATE INDEX "buyers_organization_updated_at_idx" ON "buyers" USING btree ("organization_id","updated_at","id");--> statement-breakpoint
+CREATE INDEX "buyers_organization_created_at_idx" ON "buyers" USING btree ("organization_id","created_at","id");--> statement-breakpoint
+CREATE INDEX "buyers_organization_full_name_idx" ON "buyers" USING btree ("organization_id","full_name","id");--> statement-breakpoint
+CREATE INDEX "buyers_organization_budget_min_idx" ON "buyers" USING btree ("organization_id","budget_min","id");--> statement-breakpoint
+CREATE INDEX "buyers_organization_budget_max_idx" ON "buyers" USING btree ("organization_id","budget_max","id");--> statement-breakpoint
+CREATE INDEX "buyers_organization_status_idx" ON "buyers" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "buyers_organization_city_idx" ON "buyers" USING btree ("organization_id","city");--> statement-breakpoint
+CREATE INDEX "buyers_owner_id_idx" ON "buyers" USING btree ("owner_id");
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TYPE "public"."import_job_status" AS ENUM('queued', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "import_job_rows" (
+	"job_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"sheet" varchar(100),
+	"row_number" integer NOT NULL,
+	"data" jsonb NOT NULL,
+	"errors" jsonb,
+	"buyer_id" uuid,
+	CONSTRAINT "import_job_rows_job_id_position_pk" PRIMARY KEY("job_id","position")
+);
+--> statement-breakpoint
+CREATE TABLE "import_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" uuid NOT NULL,
+	"created_by" uuid NOT NULL,
+	"file_name" varchar(255) NOT NULL,
+	"status" "import_job_status" DEFAULT 'queued' NOT NULL,
+	"total_rows" integer NOT NULL,
+	"processed_rows" integer DEFAULT 0 NOT NULL,
+	"imported_rows" integer DEFAULT 0 NOT NULL,
+	"failed_rows" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"heartbeat_at" timestamp,
+	"started_at" timestamp,
+	"finished_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "import_job_rows" ADD CONSTRAINT "import_job_rows_job_id_import_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."import_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_jobs_organization_created_at_idx" ON "import_jobs" USING btree ("organization_id","created_at");--> statement-breakpoint
+CREATE INDEX "import_jobs_status_idx" ON "import_jobs" USING btree ("status");
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TYPE "public"."import_match" AS ENUM('phone', 'email', 'externalId');--> statement-breakpoint
+CREATE TYPE "public"."import_mode" AS ENUM('skip', 'update', 'merge');--> statement-breakpoint
+ALTER TABLE "buyers" ADD COLUMN "external_id" varchar(100);--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "mode" "import_mode" DEFAULT 'skip' NOT NULL;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "match_by" "import_match" DEFAULT 'phone' NOT NULL;--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "updated_rows" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX "buyers_organization_external_id_idx" ON "buyers" USING btree ("organization_id","external_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "buyers" ALTER COLUMN "created_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "buyers" ALTER COLUMN "created_at" SET DEFAULT now();--> statement-breakpoint
+ALTER TABLE "buyers" ALTER COLUMN "updated_at" SET DATA TYPE timestamp (3);--> statement-breakpoint
+ALTER TABLE "buyers" ALTER COLUMN "updated_at" SET DEFAULT now();
\ No newline at end of file
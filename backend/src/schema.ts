@@ -4,10 +4,13 @@ import {
   varchar,
   text,
   integer,
+  boolean,
   timestamp,
   jsonb,
   pgEnum,
   primaryKey,
+  index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -29,6 +32,23 @@ export const statusEnum = pgEnum("status", [
   "Converted",
   "Dropped",
 ]);
+export const dropReasonEnum = pgEnum("drop_reason", [
+  "Budget",
+  "Location",
+  "Bought Elsewhere",
+  "Not Responding",
+  "Not Interested",
+  "Other",
+]);
+export const historyActionEnum = pgEnum("history_action", ["create", "update", "import", "delete", "restore", "merge"]);
+export const importJobStatusEnum = pgEnum("import_job_status", ["queued", "running", "completed", "failed"]);
+// What an import does with rows matching an existing lead, and what it matches them by
+export const importModeEnum = pgEnum("import_mode", ["skip", "update", "merge"]);
+export const importMatchEnum = pgEnum("import_match", ["phone", "email", "externalId"]);
+export const roleEnum = pgEnum("role", ["admin", "manager", "agent", "viewer"]);
+export const taskTypeEnum = pgEnum("task_type", ["call", "visit", "email"]);
+export const visitStatusEnum = pgEnum("visit_status", ["scheduled", "completed", "cancelled"]);
+export const propertyStatusEnum = pgEnum("property_status", ["Available", "On Hold", "Closed"]);
 
 // ===================
 // Users table
@@ -43,14 +63,52 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// ===================
+// Organizations table
+// ===================
+export const organizations = pgTable("organizations", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: varchar("name", { length: 120 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ===================
+// Memberships table
+// ===================
+export const memberships = pgTable(
+  "memberships",
+  {
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: roleEnum("role").notNull().default("agent"),
+    // Secret for the member's subscribable visit calendar feed
+    calendarToken: uuid("calendar_token").notNull().defaultRandom().unique(),
+    // Saved view the buyer list opens with when no filters are given
+    defaultViewId: uuid("default_view_id").references(() => savedViews.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.organizationId, table.userId] }),
+  })
+);
+
 // ===================
 // Buyers table
 // ===================
+// Also has a generated "search_vector" column for full text search, created by
+// migration 0020 and read only through lib/search.ts in the frontend.
 export const buyers = pgTable("buyers", {
   id: uuid("id").primaryKey().defaultRandom(),
   fullName: varchar("full_name", { length: 80 }).notNull(),
   email: varchar("email", { length: 255 }),
-  phone: varchar("phone", { length: 15 }).notNull(),
+  // E.164, e.g. +919876543210, with an optional ";ext=204"
+  phone: varchar("phone", { length: 32 }).notNull(),
+  altPhones: jsonb("alt_phones").$type<string[]>().default([]),
   city: cityEnum("city").notNull(),
   propertyType: propertyTypeEnum("property_type").notNull(),
   bhk: bhkEnum("bhk"),
@@ -60,9 +118,59 @@ export const buyers = pgTable("buyers", {
   timeline: timelineEnum("timeline").notNull(),
   source: sourceEnum("source").notNull(),
   status: statusEnum("status").notNull().default("New"),
+  // Stage data, required when a lead enters the matching status
+  dropReason: dropReasonEnum("drop_reason"),
+  dropNote: text("drop_note"),
+  visitedAt: timestamp("visited_at"),
+  dealValue: integer("deal_value"),
   notes: text("notes"),
   tags: jsonb("tags").$type<string[]>().default([]),
+  // The lead's id in the system it was imported from, e.g. a website CRM
+  externalId: varchar("external_id", { length: 100 }),
   ownerId: uuid("owner_id").notNull().references(() => users.id),
+  organizationId: uuid("organization_id").notNull().references(() => organizations.id),
+  // Set while the lead sits in the trash; purged once older than the retention period
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: uuid("deleted_by").references(() => users.id, { onDelete: "set null" }),
+  // Milliseconds, like a JS Date, so a list cursor holds the exact value and
+  // the row it points at is found again (see lib/pagination.ts)
+  createdAt: timestamp("created_at", { precision: 3 }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { precision: 3 }).defaultNow().notNull(),
+}, (table) => ({
+  // The list filters by organization and pages through one sort key at a
+  // time, with the id breaking ties (see lib/pagination.ts)
+  organizationUpdatedAtIdx: index("buyers_organization_updated_at_idx").on(table.organizationId, table.updatedAt, table.id),
+  organizationCreatedAtIdx: index("buyers_organization_created_at_idx").on(table.organizationId, table.createdAt, table.id),
+  organizationFullNameIdx: index("buyers_organization_full_name_idx").on(table.organizationId, table.fullName, table.id),
+  organizationBudgetMinIdx: index("buyers_organization_budget_min_idx").on(table.organizationId, table.budgetMin, table.id),
+  organizationBudgetMaxIdx: index("buyers_organization_budget_max_idx").on(table.organizationId, table.budgetMax, table.id),
+  organizationStatusIdx: index("buyers_organization_status_idx").on(table.organizationId, table.status),
+  organizationCityIdx: index("buyers_organization_city_idx").on(table.organizationId, table.city),
+  ownerIdx: index("buyers_owner_id_idx").on(table.ownerId),
+  organizationExternalIdIdx: index("buyers_organization_external_id_idx").on(table.organizationId, table.externalId),
+}));
+
+// ===================
+// Properties table
+// ===================
+// Inventory on the supply side, described with the same vocabulary as buyers.
+// `price` is the asking price for sale listings and the monthly rent for rentals.
+export const properties = pgTable("properties", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 120 }).notNull(),
+  city: cityEnum("city").notNull(),
+  locality: varchar("locality", { length: 120 }),
+  propertyType: propertyTypeEnum("property_type").notNull(),
+  bhk: bhkEnum("bhk"),
+  purpose: purposeEnum("purpose").notNull(),
+  price: integer("price").notNull(),
+  areaSqft: integer("area_sqft"),
+  status: propertyStatusEnum("status").notNull().default("Available"),
+  notes: text("notes"),
+  createdBy: uuid("created_by").notNull().references(() => users.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -72,10 +180,224 @@ export const buyers = pgTable("buyers", {
 // ===================
 export const buyerHistory = pgTable("buyer_history", {
   id: uuid("id").primaryKey().defaultRandom(),
-  buyerId: uuid("buyer_id").notNull().references(() => buyers.id, { onDelete: "cascade" }),
+  // No foreign key: the audit trail outlives the lead, so deletes stay on record
+  buyerId: uuid("buyer_id").notNull(),
+  action: historyActionEnum("action").notNull().default("update"),
+  // Which feature made the change, e.g. web, import, reassign, visit, revert, bulk
+  source: varchar("source", { length: 32 }).notNull().default("web"),
   changedBy: uuid("changed_by").notNull().references(() => users.id),
   changedAt: timestamp("changed_at").defaultNow().notNull(),
+  // Field-level changes only; event details that are not buyer fields go in meta
   diff: jsonb("diff").notNull().$type<Record<string, { from: any; to: any }>>(),
+  meta: jsonb("meta").$type<Record<string, any>>(),
+});
+
+// ===================
+// Tasks table
+// ===================
+export const tasks = pgTable("tasks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  buyerId: uuid("buyer_id").notNull().references(() => buyers.id, { onDelete: "cascade" }),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  type: taskTypeEnum("type").notNull(),
+  title: varchar("title", { length: 120 }).notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  assigneeId: uuid("assignee_id").notNull().references(() => users.id),
+  done: boolean("done").notNull().default(false),
+  completedAt: timestamp("completed_at"),
+  createdBy: uuid("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ===================
+// Site visits table
+// ===================
+export const siteVisits = pgTable("site_visits", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  buyerId: uuid("buyer_id").notNull().references(() => buyers.id, { onDelete: "cascade" }),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  agentId: uuid("agent_id").notNull().references(() => users.id),
+  location: varchar("location", { length: 200 }).notNull(),
+  scheduledAt: timestamp("scheduled_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  status: visitStatusEnum("status").notNull().default("scheduled"),
+  outcomeNotes: text("outcome_notes"),
+  completedAt: timestamp("completed_at"),
+  createdBy: uuid("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ===================
+// Assignment rules table
+// ===================
+// New leads are handed out round-robin across a rule's agent pool. A null
+// city or property type matches any lead; rules are tried in priority order.
+export const assignmentRules = pgTable("assignment_rules", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 80 }).notNull(),
+  city: cityEnum("city"),
+  propertyType: propertyTypeEnum("property_type"),
+  agentIds: jsonb("agent_ids").$type<string[]>().notNull().default([]),
+  cursor: integer("cursor").notNull().default(0),
+  priority: integer("priority").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ===================
+// Saved views table
+// ===================
+// A named buyer list setup: the query string parameters (filters, sort and
+// columns) that produce it. Shared views are offered to the whole organization.
+export const savedViews = pgTable("saved_views", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  ownerId: uuid("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 80 }).notNull(),
+  params: jsonb("params").$type<Record<string, string>>().notNull().default({}),
+  shared: boolean("shared").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// ===================
+// Saved search alerts
+// ===================
+// Members subscribe to a saved view to hear about new leads that match it
+export const viewSubscriptions = pgTable(
+  "view_subscriptions",
+  {
+    viewId: uuid("view_id")
+      .notNull()
+      .references(() => savedViews.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Also send an email, on top of the in-app notification
+    email: boolean("email").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.viewId, table.userId] }),
+  })
+);
+
+// ===================
+// Import mappings
+// ===================
+// How the columns and values of files from one source (e.g. a portal's
+// export) map onto lead fields, saved so the next file maps itself
+export const importMappings = pgTable(
+  "import_mappings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 80 }).notNull(),
+    // { columns: { header: { field, unit? } }, aliases: { field: { value: option } }, source? }
+    mapping: jsonb("mapping").$type<{
+      columns: Record<string, { field: string; unit?: "lakh" | "crore" }>;
+      aliases: Record<string, Record<string, string>>;
+      source?: string;
+    }>().notNull(),
+    createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationNameIdx: uniqueIndex("import_mappings_organization_name_idx").on(table.organizationId, table.name),
+  })
+);
+
+// ===================
+// Import jobs
+// ===================
+// Files too big to import within a request are stored row by row and
+// imported in batches in the background
+export const importJobs = pgTable(
+  "import_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    organizationId: uuid("organization_id")
+      .notNull()
+      .references(() => organizations.id, { onDelete: "cascade" }),
+    createdBy: uuid("created_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+    fileName: varchar("file_name", { length: 255 }).notNull(),
+    status: importJobStatusEnum("status").notNull().default("queued"),
+    mode: importModeEnum("mode").notNull().default("skip"),
+    matchBy: importMatchEnum("match_by").notNull().default("phone"),
+    totalRows: integer("total_rows").notNull(),
+    // Rows taken care of so far, in file order; also where the next batch starts
+    processedRows: integer("processed_rows").notNull().default(0),
+    importedRows: integer("imported_rows").notNull().default(0),
+    // Rows that matched an existing lead and were applied to it
+    updatedRows: integer("updated_rows").notNull().default(0),
+    failedRows: integer("failed_rows").notNull().default(0),
+    // Why the job stopped, when it failed as a whole
+    error: text("error"),
+    // Last sign of life from the worker; a stale one means its process died
+    heartbeatAt: timestamp("heartbeat_at"),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    organizationCreatedAtIdx: index("import_jobs_organization_created_at_idx").on(table.organizationId, table.createdAt),
+    statusIdx: index("import_jobs_status_idx").on(table.status),
+  })
+);
+
+export const importJobRows = pgTable(
+  "import_job_rows",
+  {
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => importJobs.id, { onDelete: "cascade" }),
+    // Order within the job
+    position: integer("position").notNull(),
+    sheet: varchar("sheet", { length: 100 }),
+    rowNumber: integer("row_number").notNull(),
+    // The row keyed by import field, after any column mapping
+    data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+    // Problems found once processed; an empty list means it was imported or applied to a lead
+    errors: jsonb("errors").$type<Array<{ field?: string; message: string }>>(),
+    // The lead the row created
+    buyerId: uuid("buyer_id"),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.jobId, table.position] }),
+  })
+);
+
+// ===================
+// Notifications table
+// ===================
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  organizationId: uuid("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  title: varchar("title", { length: 200 }).notNull(),
+  // Where the notification leads, e.g. the matching lead or the saved view
+  href: varchar("href", { length: 1000 }).notNull(),
+  viewId: uuid("view_id").references(() => savedViews.id, { onDelete: "set null" }),
+  buyerId: uuid("buyer_id").references(() => buyers.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // ===================
@@ -133,17 +455,42 @@ export const verificationTokens = pgTable(
 // ===================
 export const usersRelations = relations(users, ({ many }) => ({
   buyers: many(buyers),
+  memberships: many(memberships),
   buyerHistory: many(buyerHistory),
   accounts: many(accounts),
   sessions: many(sessions),
 }));
 
+export const organizationsRelations = relations(organizations, ({ many }) => ({
+  memberships: many(memberships),
+  buyers: many(buyers),
+  assignmentRules: many(assignmentRules),
+  properties: many(properties),
+}));
+
+export const membershipsRelations = relations(memberships, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [memberships.organizationId],
+    references: [organizations.id],
+  }),
+  user: one(users, {
+    fields: [memberships.userId],
+    references: [users.id],
+  }),
+}));
+
 export const buyersRelations = relations(buyers, ({ one, many }) => ({
   owner: one(users, {
     fields: [buyers.ownerId],
     references: [users.id],
   }),
+  organization: one(organizations, {
+    fields: [buyers.organizationId],
+    references: [organizations.id],
+  }),
   history: many(buyerHistory),
+  tasks: many(tasks),
+  siteVisits: many(siteVisits),
 }));
 
 export const buyerHistoryRelations = relations(buyerHistory, ({ one }) => ({
@@ -170,3 +517,39 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
     references: [users.id],
   }),
 }));
+
+export const assignmentRulesRelations = relations(assignmentRules, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [assignmentRules.organizationId],
+    references: [organizations.id],
+  }),
+}));
+
+export const tasksRelations = relations(tasks, ({ one }) => ({
+  buyer: one(buyers, {
+    fields: [tasks.buyerId],
+    references: [buyers.id],
+  }),
+  assignee: one(users, {
+    fields: [tasks.assigneeId],
+    references: [users.id],
+  }),
+}));
+
+export const siteVisitsRelations = relations(siteVisits, ({ one }) => ({
+  buyer: one(buyers, {
+    fields: [siteVisits.buyerId],
+    references: [buyers.id],
+  }),
+  agent: one(users, {
+    fields: [siteVisits.agentId],
+    references: [users.id],
+  }),
+}));
+
+export const propertiesRelations = relations(properties, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [properties.organizationId],
+    references: [organizations.id],
+  }),
+}));
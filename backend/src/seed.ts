@@ -1,6 +1,6 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { users, buyers } from './schema.js';
+import { users, buyers, organizations, memberships } from './schema.js';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -21,12 +21,25 @@ async function seed() {
 
   console.log('Created demo user:', demoUser.id);
 
+  // Create a demo organization and add the demo user to it
+  const [demoOrg] = await db.insert(organizations).values({
+    name: 'Demo Realty',
+  }).returning();
+
+  await db.insert(memberships).values({
+    organizationId: demoOrg.id,
+    userId: demoUser.id,
+    role: 'admin',
+  });
+
+  console.log('Created demo organization:', demoOrg.id);
+
   // Create sample buyers
   const sampleBuyers = [
     {
       fullName: 'Rajesh Kumar',
       email: 'rajesh@example.com',
-      phone: '9876543210',
+      phone: '+919876543210',
       city: 'Chandigarh' as const,
       propertyType: 'Apartment' as const,
       bhk: '3' as const,
@@ -39,11 +52,12 @@ async function seed() {
       notes: 'Looking for a 3BHK apartment in Sector 22',
       tags: ['urgent', 'verified'],
       ownerId: demoUser.id,
+      organizationId: demoOrg.id,
     },
     {
       fullName: 'Priya Sharma',
       email: 'priya@example.com',
-      phone: '9876543211',
+      phone: '+919876543211',
       city: 'Mohali' as const,
       propertyType: 'Villa' as const,
       bhk: '4' as const,
@@ -56,10 +70,11 @@ async function seed() {
       notes: 'Prefers independent villa with parking',
       tags: ['high-budget', 'ready-to-buy'],
       ownerId: demoUser.id,
+      organizationId: demoOrg.id,
     },
     {
       fullName: 'Amit Singh',
-      phone: '9876543212',
+      phone: '+919876543212',
       city: 'Zirakpur' as const,
       propertyType: 'Plot' as const,
       purpose: 'Buy' as const,
@@ -71,6 +86,7 @@ async function seed() {
       notes: 'Looking for residential plot for future construction',
       tags: ['investment'],
       ownerId: demoUser.id,
+      organizationId: demoOrg.id,
     }
   ];
 
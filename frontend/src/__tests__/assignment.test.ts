@@ -0,0 +1,39 @@
+import { groupByRule, pickAgent, ruleMatches, type AssignmentRule } from '@/lib/assignment';
+
+describe('Assignment rules', () => {
+  const lead = { city: 'Mohali', propertyType: 'Apartment' };
+
+  it('should match rules whose criteria are unset or equal', () => {
+    expect(ruleMatches({ city: null, propertyType: null }, lead)).toBe(true);
+    expect(ruleMatches({ city: 'Mohali', propertyType: null }, lead)).toBe(true);
+    expect(ruleMatches({ city: 'Mohali', propertyType: 'Apartment' }, lead)).toBe(true);
+  });
+
+  it('should not match rules for another city or property type', () => {
+    expect(ruleMatches({ city: 'Chandigarh', propertyType: null }, lead)).toBe(false);
+    expect(ruleMatches({ city: 'Mohali', propertyType: 'Villa' }, lead)).toBe(false);
+  });
+
+  it('should hand out turns round-robin', () => {
+    const pool = ['a', 'b', 'c'];
+    expect([0, 1, 2, 3, 4].map((turn) => pickAgent(pool, turn))).toEqual(['a', 'b', 'c', 'a', 'b']);
+  });
+
+  it('should return null for an empty pool', () => {
+    expect(pickAgent([], 3)).toBeNull();
+  });
+
+  it('should give each lead of a batch to the first rule with agents to take it', () => {
+    const rule = (id: string, city: string | null, agentIds: string[]) => ({ id, city, propertyType: null, agentIds }) as unknown as AssignmentRule;
+    const mohali = rule('r1', 'Mohali', ['a', 'gone']);
+    const removed = rule('r2', 'Zirakpur', ['gone']);
+    const fallback = rule('r3', null, ['b', 'c']);
+    const leads = ['Mohali', 'Zirakpur', 'Mohali', 'Panchkula'].map((city) => ({ city, propertyType: 'Plot' }));
+
+    expect(groupByRule([mohali, removed, fallback], new Set(['a', 'b', 'c']), leads)).toEqual([
+      { rule: mohali, pool: ['a'], leadIndexes: [0, 2] },
+      { rule: fallback, pool: ['b', 'c'], leadIndexes: [1, 3] },
+    ]);
+    expect(groupByRule([mohali], new Set(['a']), [{ city: 'Panchkula', propertyType: 'Plot' }])).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
 import { buyerSchema } from '@/lib/validations';
+import { formatBudget, formatBudgetRange, parseBudget, parseBudgetRange } from '@/lib/utils';
 
 describe('Budget Validation', () => {
   it('should reject when budgetMax < budgetMin', () => {
@@ -43,4 +44,105 @@ describe('Budget Validation', () => {
     const result = buyerSchema.safeParse(validData);
     expect(result.success).toBe(true);
   });
+
+  it('should read budgets written in lakh and crore shorthand', () => {
+    const result = buyerSchema.safeParse({
+      fullName: 'Test User',
+      phone: '9876543210',
+      city: 'Chandigarh',
+      propertyType: 'Plot',
+      purpose: 'Buy',
+      budgetMin: '45L',
+      budgetMax: '1.2 Cr',
+      timeline: '3-6m',
+      source: 'Website',
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.budgetMin).toBe(4500000);
+      expect(result.data.budgetMax).toBe(12000000);
+    }
+  });
+
+  it('should treat a blank budget as not specified and reject unreadable ones', () => {
+    const lead = {
+      fullName: 'Test User',
+      phone: '9876543210',
+      city: 'Chandigarh',
+      propertyType: 'Plot',
+      purpose: 'Buy',
+      timeline: '3-6m',
+      source: 'Website',
+    };
+    const blank = buyerSchema.safeParse({ ...lead, budgetMin: '' });
+    expect(blank.success).toBe(true);
+    if (blank.success) {
+      expect(blank.data.budgetMin).toBeUndefined();
+    }
+
+    const unreadable = buyerSchema.safeParse({ ...lead, budgetMin: 'a lot' });
+    expect(unreadable.success).toBe(false);
+    if (!unreadable.success) {
+      expect(unreadable.error.issues[0].path).toEqual(['budgetMin']);
+    }
+  });
+});
+
+describe('Budget parsing', () => {
+  it('should parse plain amounts and Indian shorthand', () => {
+    expect(parseBudget('4500000')).toBe(4500000);
+    expect(parseBudget('45,00,000')).toBe(4500000);
+    expect(parseBudget('₹45L')).toBe(4500000);
+    expect(parseBudget('45 lakh')).toBe(4500000);
+    expect(parseBudget('45 Lacs')).toBe(4500000);
+    expect(parseBudget('1.2 Cr')).toBe(12000000);
+    expect(parseBudget('Rs. 2 crore')).toBe(20000000);
+    expect(parseBudget('25k/month')).toBe(25000);
+    expect(parseBudget(4500000)).toBe(4500000);
+  });
+
+  it('should reject text that is not an amount', () => {
+    expect(parseBudget('')).toBeNull();
+    expect(parseBudget('a lot')).toBeNull();
+    expect(parseBudget('45 bananas')).toBeNull();
+    expect(parseBudget('0')).toBeNull();
+    expect(parseBudget(NaN)).toBeNull();
+  });
+
+  it('should parse ranges', () => {
+    expect(parseBudgetRange('50 lakh - 1 crore')).toEqual({ min: 5000000, max: 10000000 });
+    expect(parseBudgetRange('50L to 1.5Cr')).toEqual({ min: 5000000, max: 15000000 });
+    expect(parseBudgetRange('50-80 lakh')).toEqual({ min: 5000000, max: 8000000 });
+    expect(parseBudgetRange('under 80L')).toEqual({ max: 8000000 });
+    expect(parseBudgetRange('2Cr+')).toEqual({ min: 20000000 });
+    expect(parseBudgetRange('above 2 crore')).toEqual({ min: 20000000 });
+    expect(parseBudgetRange('45L')).toEqual({ min: 4500000, max: 4500000 });
+  });
+
+  it('should reject ranges that cannot be read', () => {
+    expect(parseBudgetRange('')).toBeNull();
+    expect(parseBudgetRange('1Cr - 50L')).toBeNull();
+    expect(parseBudgetRange('cheap')).toBeNull();
+  });
+});
+
+describe('Budget formatting', () => {
+  it('should write compact amounts in lakhs and crores', () => {
+    expect(formatBudget(4500000, { notation: 'compact' })).toBe('₹45 L');
+    expect(formatBudget(12500000, { notation: 'compact' })).toBe('₹1.25 Cr');
+    expect(formatBudget(25000, { notation: 'compact' })).toBe('₹25 K');
+    expect(formatBudget(900, { notation: 'compact' })).toBe(formatBudget(900));
+  });
+
+  it('should mark rent budgets as monthly', () => {
+    expect(formatBudget(25000, { notation: 'compact', purpose: 'Rent' })).toBe('₹25 K per month');
+    expect(formatBudgetRange(25000, 40000, { notation: 'compact', purpose: 'Rent' })).toBe('₹25 K - ₹40 K per month');
+    expect(formatBudgetRange(undefined, 40000, { notation: 'compact', purpose: 'Rent' })).toBe('Up to ₹40 K per month');
+  });
+
+  it('should keep full amounts by default', () => {
+    expect(formatBudgetRange(5000000, 10000000)).toBe(`${formatBudget(5000000)} - ${formatBudget(10000000)}`);
+    expect(formatBudgetRange(5000000, undefined, { notation: 'compact' })).toBe('₹50 L+');
+    expect(formatBudgetRange()).toBe('Not specified');
+  });
 });
@@ -0,0 +1,68 @@
+import { bulkChanges, bulkSkip, bulkSummary, type BulkTarget } from '@/lib/bulk';
+import { bulkActionSchema } from '@/lib/validations';
+
+describe('Bulk actions', () => {
+  const agent = { userId: 'agent-1', role: 'agent' as const };
+  const manager = { userId: 'manager-1', role: 'manager' as const };
+  const id = '3f2b8c1e-7d4a-4e9b-9c1d-2a6f5e8b7c90';
+  const updatedAt = new Date('2024-05-10T09:30:00.000Z');
+  const lead: BulkTarget = { id, fullName: 'Asha Verma', ownerId: 'agent-1', status: 'New', tags: ['hot'], updatedAt };
+
+  it('should accept picked leads or a filter selection, but not both', () => {
+    expect(bulkActionSchema.safeParse({ action: 'delete', ids: [{ id, updatedAt: updatedAt.toISOString() }] }).success).toBe(true);
+    expect(bulkActionSchema.safeParse({ action: 'export', filters: { city: 'Mohali' }, asOf: updatedAt.toISOString() }).success).toBe(true);
+    expect(bulkActionSchema.safeParse({ action: 'delete' }).success).toBe(false);
+    expect(bulkActionSchema.safeParse({ action: 'export', filters: { city: 'Mohali' } }).success).toBe(false);
+    expect(bulkActionSchema.safeParse({
+      action: 'delete',
+      ids: [{ id, updatedAt: updatedAt.toISOString() }],
+      asOf: updatedAt.toISOString(),
+    }).success).toBe(false);
+  });
+
+  it('should ask for the stage data a status needs', () => {
+    const result = bulkActionSchema.safeParse({ action: 'status', status: 'Dropped', ids: [{ id, updatedAt: updatedAt.toISOString() }] });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.error.issues[0].path).toEqual(['dropReason']);
+  });
+
+  it('should skip leads the actor may not change', () => {
+    const someoneElses = { ...lead, ownerId: 'agent-2' };
+    const version = { updatedAt: updatedAt.toISOString() };
+    expect(bulkSkip(someoneElses, agent, 'status', version)?.reason).toBe('forbidden');
+    expect(bulkSkip(someoneElses, manager, 'status', version)).toBeNull();
+    expect(bulkSkip(someoneElses, agent, 'export', version)).toBeNull();
+  });
+
+  it('should skip leads changed since the list was loaded', () => {
+    expect(bulkSkip(lead, agent, 'addTags', { updatedAt: '2024-05-10T09:00:00.000Z' })?.reason).toBe('conflict');
+    expect(bulkSkip(lead, agent, 'addTags', { asOf: '2024-05-10T09:00:00.000Z' })?.reason).toBe('conflict');
+    expect(bulkSkip(lead, agent, 'addTags', { asOf: '2024-05-10T10:00:00.000Z' })).toBeNull();
+    expect(bulkSkip(lead, agent, 'export', { asOf: '2024-05-10T09:00:00.000Z' })).toBeNull();
+  });
+
+  it('should follow the pipeline when changing status', () => {
+    expect(bulkChanges(lead, { action: 'status', status: 'Qualified' })).toEqual({
+      changes: { status: 'Qualified', dropReason: null, dropNote: null },
+    });
+    expect(bulkChanges(lead, { action: 'status', status: 'New' })).toEqual({ changes: {} });
+    expect(bulkChanges({ ...lead, status: 'Converted' }, { action: 'status', status: 'New' })).toHaveProperty('error');
+  });
+
+  it('should add and remove tags without duplicates', () => {
+    expect(bulkChanges(lead, { action: 'addTags', tags: ['hot', 'nri', 'nri'] })).toEqual({ changes: { tags: ['hot', 'nri'] } });
+    expect(bulkChanges(lead, { action: 'addTags', tags: ['hot'] })).toEqual({ changes: {} });
+    expect(bulkChanges(lead, { action: 'removeTags', tags: ['hot'] })).toEqual({ changes: { tags: [] } });
+    expect(bulkChanges({ ...lead, tags: null }, { action: 'removeTags', tags: ['hot'] })).toEqual({ changes: {} });
+  });
+
+  it('should sum up the result', () => {
+    expect(bulkSummary({ action: 'reassign', succeeded: 8, unchanged: 1, skipped: [] })).toBe('Reassigned 8 leads; 1 already matched');
+    expect(bulkSummary({
+      action: 'delete',
+      succeeded: 1,
+      unchanged: 0,
+      skipped: [{ id, fullName: 'Asha Verma', reason: 'conflict', message: 'Changed' }],
+    })).toBe('Moved 1 lead to the trash; 1 skipped');
+  });
+});
@@ -0,0 +1,131 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { contactMatchCondition, emailKey, findDuplicateGroups, mergeValues, nameSimilarity, phoneKey } from '@/lib/duplicates';
+
+const lead = (id: string, fullName: string, phone: string, email: string | null = null, city = 'Mohali') => ({
+  id,
+  fullName,
+  phone,
+  email,
+  city,
+});
+
+describe('Duplicate keys', () => {
+  it('should compare phones in E.164 without extensions', () => {
+    expect(phoneKey('919876543210')).toBe('+919876543210');
+    expect(phoneKey('09876543210')).toBe('+919876543210');
+    expect(phoneKey('+91 98765-43210')).toBe('+919876543210');
+    expect(phoneKey('+911722345678;ext=204')).toBe('+911722345678');
+  });
+
+  it('should compare emails case-insensitively', () => {
+    expect(emailKey(' Asha@Example.com ')).toBe('asha@example.com');
+    expect(emailKey('')).toBeNull();
+    expect(emailKey(null)).toBeNull();
+  });
+
+  it('should look up stored leads by primary and alternate numbers without extensions, and by email', () => {
+    const { sql, params } = new PgDialect().sqlToQuery(contactMatchCondition(['+919876543210'], ['asha@example.com'])!);
+    expect(sql).toBe(
+      `(split_part("buyers"."phone", ';', 1) in ($1)`
+      + ` or exists (select 1 from jsonb_array_elements_text("buyers"."alt_phones") as alt where split_part(alt, ';', 1) in ($2))`
+      + ` or lower("buyers"."email") in ($3))`
+    );
+    expect(params).toEqual(['+919876543210', '+919876543210', 'asha@example.com']);
+    expect(new PgDialect().sqlToQuery(contactMatchCondition(['+919876543210'], [])!).sql).not.toContain('email');
+  });
+
+  it('should treat reordered and misspelt names as similar', () => {
+    expect(nameSimilarity('Asha Verma', 'Verma Asha')).toBe(1);
+    expect(nameSimilarity('Asha Verma', 'Asha Varma')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('Asha Verma', 'Rohit Sharma')).toBeLessThan(0.85);
+  });
+});
+
+describe('Duplicate groups', () => {
+  it('should group leads sharing a phone or email', () => {
+    const groups = findDuplicateGroups([
+      lead('a', 'Asha Verma', '9876543210'),
+      lead('b', 'A. Verma', '919876543210', 'asha@example.com'),
+      lead('c', 'Asha V', '9000000000', 'ASHA@example.com'),
+      lead('d', 'Rohit Sharma', '9111111111'),
+    ]);
+    expect(groups).toEqual([{ ids: ['a', 'b', 'c'], reasons: ['email', 'phone'] }]);
+  });
+
+  it('should match alternate numbers too', () => {
+    const groups = findDuplicateGroups([
+      { ...lead('a', 'Asha Verma', '+919876543210'), altPhones: ['+919000000000'] },
+      lead('b', 'Rohit Sharma', '+919000000000'),
+    ]);
+    expect(groups).toEqual([{ ids: ['a', 'b'], reasons: ['phone'] }]);
+  });
+
+  it('should only match similar names within the same city', () => {
+    const groups = findDuplicateGroups([
+      lead('a', 'Asha Verma', '9876543210'),
+      lead('b', 'Asha Varma', '9000000000'),
+      lead('c', 'Asha Verma', '9111111111', null, 'Panchkula'),
+    ]);
+    expect(groups).toEqual([{ ids: ['a', 'b'], reasons: ['name'] }]);
+  });
+
+  it('should return nothing when every lead is unique', () => {
+    expect(findDuplicateGroups([lead('a', 'Asha Verma', '9876543210'), lead('b', 'Rohit Sharma', '9111111111')])).toEqual([]);
+  });
+});
+
+describe('Merge values', () => {
+  const base = {
+    email: null,
+    city: 'Mohali',
+    propertyType: 'Apartment',
+    bhk: '2',
+    purpose: 'Buy',
+    budgetMin: null,
+    budgetMax: 5000000,
+    timeline: '0-3m',
+    source: 'Website',
+    ownerId: 'u1',
+    altPhones: [],
+    dropReason: null,
+    dropNote: null,
+    visitedAt: null,
+    dealValue: null,
+  };
+  const survivor = { ...base, id: 'a', fullName: 'Asha Verma', phone: '9876543210', status: 'New', tags: ['hot'], notes: 'Wants a park view' };
+  const duplicate = {
+    ...base,
+    id: 'b',
+    fullName: 'Asha V',
+    phone: '9000000000',
+    email: 'asha@example.com',
+    status: 'Visited',
+    visitedAt: '2024-05-10T08:30:00.000Z',
+    tags: ['hot', 'nri'],
+    notes: 'Calls after 6pm',
+  };
+
+  it('should keep the survivor values unless another lead is picked', () => {
+    const values = mergeValues([survivor, duplicate], 'a', { email: 'b' });
+    expect(values).toMatchObject({ fullName: 'Asha Verma', phone: '9876543210', email: 'asha@example.com' });
+  });
+
+  it('should take stage data from the lead whose status is kept', () => {
+    expect(mergeValues([survivor, duplicate], 'a', { status: 'b' })).toMatchObject({
+      status: 'Visited',
+      visitedAt: '2024-05-10T08:30:00.000Z',
+    });
+  });
+
+  it('should union tags and combine notes', () => {
+    const values = mergeValues([survivor, duplicate], 'a');
+    expect(values.tags).toEqual(['hot', 'nri']);
+    expect(values.altPhones).toEqual(['9000000000']);
+    expect(values.notes).toBe('Wants a park view\n\nCalls after 6pm');
+  });
+
+  it('should reject picks from outside the group', () => {
+    expect(() => mergeValues([survivor, duplicate], 'a', { city: 'z' })).toThrow();
+    expect(() => mergeValues([survivor, duplicate], 'z')).toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+import { deletionDiff, diffFields, reconstructVersion, snapshotDiff, toBuyerValues, versionDiff } from '@/lib/history';
+
+const current = {
+  fullName: 'Asha Verma',
+  city: 'Mohali',
+  budgetMax: 9000000,
+  status: 'Negotiation',
+  tags: ['hot'],
+};
+
+// Newest first
+const history = [
+  { id: 'h3', diff: { status: { from: 'Visited', to: 'Negotiation' }, budgetMax: { from: 8000000, to: 9000000 } } },
+  { id: 'h2', diff: { city: { from: 'Zirakpur', to: 'Mohali' }, siteVisit: { from: 'scheduled', to: 'completed' } } },
+  { id: 'h1', action: 'create' as const, diff: { city: { from: null, to: 'Zirakpur' } } },
+];
+
+describe('History reconstruction', () => {
+  it('should return the current state for the newest entry', () => {
+    expect(reconstructVersion(current, history, 'h3')).toMatchObject(current);
+  });
+
+  it('should undo every later change to rebuild an older version', () => {
+    expect(reconstructVersion(current, history, 'h2')).toMatchObject({
+      city: 'Mohali',
+      budgetMax: 8000000,
+      status: 'Visited',
+    });
+    expect(reconstructVersion(current, history, 'h1')).toMatchObject({
+      city: 'Zirakpur',
+      budgetMax: 8000000,
+      status: 'Visited',
+      tags: ['hot'],
+    });
+  });
+
+  it('should skip delete and restore entries when undoing changes', () => {
+    const withRestore = [
+      { id: 'h5', action: 'restore' as const, diff: { fullName: { from: null, to: 'Asha Verma' } } },
+      { id: 'h4', action: 'delete' as const, diff: { fullName: { from: 'Asha Verma', to: null } } },
+      ...history,
+    ];
+    expect(reconstructVersion(current, withRestore, 'h3')).toMatchObject({ fullName: 'Asha Verma' });
+  });
+
+  it('should skip entries carried over from a merged duplicate', () => {
+    const withMerged = [
+      { id: 'h4', action: 'update' as const, diff: { city: { from: 'Panchkula', to: 'Zirakpur' } }, meta: { mergedFrom: 'b2' } },
+      ...history,
+    ];
+    expect(reconstructVersion(current, withMerged, 'h3')).toMatchObject({ city: 'Mohali' });
+  });
+
+  it('should restore the other numbers along with the phone', () => {
+    const swapped = [
+      {
+        id: 'h2',
+        diff: {
+          phone: { from: '+919876543210', to: '+919812345678' },
+          altPhones: { from: ['+919812345678'], to: ['+919876543210'] },
+        },
+      },
+      { id: 'h1', action: 'create' as const, diff: {} },
+    ];
+    const now = { phone: '+919812345678', altPhones: ['+919876543210'] };
+    expect(versionDiff(now, reconstructVersion(now, swapped, 'h1')!)).toEqual({
+      phone: { from: '+919812345678', to: '+919876543210' },
+      altPhones: { from: ['+919876543210'], to: ['+919812345678'] },
+    });
+  });
+
+  it('should return null for an entry that is not in the history', () => {
+    expect(reconstructVersion(current, history, 'missing')).toBeNull();
+  });
+
+  it('should diff only the fields that change', () => {
+    const version = reconstructVersion(current, history, 'h1')!;
+    expect(versionDiff(current, version)).toEqual({
+      city: { from: 'Mohali', to: 'Zirakpur' },
+      budgetMax: { from: 9000000, to: 8000000 },
+      status: { from: 'Negotiation', to: 'Visited' },
+    });
+  });
+
+  it('should treat a stored date and its JSON string as the same value', () => {
+    const visitedAt = new Date('2024-05-10T08:30:00.000Z');
+    expect(versionDiff({ visitedAt }, { visitedAt: visitedAt.toISOString() })).toEqual({});
+  });
+
+  it('should turn date strings back into dates when writing', () => {
+    expect(toBuyerValues({ visitedAt: '2024-05-10T08:30:00.000Z', city: 'Mohali' })).toEqual({
+      visitedAt: new Date('2024-05-10T08:30:00.000Z'),
+      city: 'Mohali',
+    });
+  });
+});
+
+describe('History diffs', () => {
+  it('should record only the fields that changed', () => {
+    expect(diffFields(
+      { city: 'Mohali', status: 'New', budgetMax: 5000000 },
+      { city: 'Mohali', status: 'Qualified', budgetMax: 5000000 }
+    )).toEqual({ status: { from: 'New', to: 'Qualified' } });
+  });
+
+  it('should ignore fields that were not part of the change', () => {
+    expect(diffFields({ city: 'Mohali', notes: 'Call back' }, { city: 'Panchkula' })).toEqual({
+      city: { from: 'Mohali', to: 'Panchkula' },
+    });
+  });
+
+  it('should compare tags as a set', () => {
+    expect(diffFields({ tags: ['hot', 'nri'] }, { tags: ['nri', 'hot'] })).toEqual({});
+    expect(diffFields({ tags: ['hot'] }, { tags: ['hot', 'nri'] })).toEqual({
+      tags: { from: ['hot'], to: ['hot', 'nri'] },
+    });
+  });
+
+  it('should treat empty strings, null and undefined as the same', () => {
+    expect(diffFields({ email: null }, { email: '' })).toEqual({});
+  });
+
+  it('should compare dates by instant', () => {
+    expect(diffFields(
+      { visitedAt: new Date('2024-05-10T08:30:00.000Z') },
+      { visitedAt: new Date('2024-05-10T08:30:00.000Z') }
+    )).toEqual({});
+  });
+
+  it('should snapshot every set field of a new lead', () => {
+    const buyer = { id: 'b1', fullName: 'Asha Verma', email: null, tags: [], city: 'Mohali', ownerId: 'u1' };
+    expect(snapshotDiff(buyer)).toEqual({
+      fullName: { from: null, to: 'Asha Verma' },
+      city: { from: null, to: 'Mohali' },
+      ownerId: { from: null, to: 'u1' },
+    });
+  });
+
+  it('should keep what a lead held when it moves to the trash', () => {
+    const deletedAt = new Date('2024-05-10T09:30:00.000Z');
+    expect(deletionDiff({ id: 'b1', fullName: 'Asha Verma', email: null, city: 'Mohali', ownerId: 'u1' }, deletedAt)).toEqual({
+      fullName: { from: null, to: 'Asha Verma' },
+      city: { from: null, to: 'Mohali' },
+      ownerId: { from: null, to: 'u1' },
+      deletedAt: { from: null, to: deletedAt },
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { buildCalendar, escapeIcsText, foldIcsLine, formatIcsDate } from '@/lib/ics';
+import { startOfWeek, visitToIcsEvent } from '@/lib/visits';
+
+describe('ICS generation', () => {
+  it('should format dates as UTC basic format', () => {
+    expect(formatIcsDate(new Date('2024-05-10T08:30:00.000Z'))).toBe('20240510T083000Z');
+  });
+
+  it('should escape separators and newlines in text', () => {
+    expect(escapeIcsText('Sector 70, Mohali; Tower B\nFlat 1203')).toBe(
+      'Sector 70\\, Mohali\\; Tower B\\nFlat 1203'
+    );
+  });
+
+  it('should fold long lines at 75 characters', () => {
+    const folded = foldIcsLine('DESCRIPTION:' + 'x'.repeat(100));
+    const lines = folded.split('\r\n');
+    expect(lines[0]).toHaveLength(75);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe('DESCRIPTION:' + 'x'.repeat(100));
+  });
+
+  it('should build a calendar with one event per visit', () => {
+    const event = visitToIcsEvent({
+      id: 'visit-1',
+      location: 'Sector 70, Mohali',
+      scheduledAt: new Date('2024-05-10T08:30:00.000Z'),
+      durationMinutes: 90,
+      status: 'scheduled',
+      outcomeNotes: null,
+      updatedAt: new Date('2024-05-01T00:00:00.000Z'),
+      buyer: { fullName: 'Asha Verma', phone: '9876543210' },
+    });
+
+    const calendar = buildCalendar('Site visits', [event]);
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar).toContain('UID:visit-1@lead-intake');
+    expect(calendar).toContain('DTSTART:20240510T083000Z');
+    expect(calendar).toContain('DTEND:20240510T100000Z');
+    expect(calendar).toContain('LOCATION:Sector 70\\, Mohali');
+    expect(calendar).toContain('STATUS:CONFIRMED');
+  });
+
+  it('should mark cancelled visits as cancelled events', () => {
+    const event = visitToIcsEvent({
+      id: 'visit-2',
+      location: 'Zirakpur',
+      scheduledAt: new Date(),
+      durationMinutes: 60,
+      status: 'cancelled',
+      outcomeNotes: null,
+      updatedAt: new Date(),
+      buyer: { fullName: 'Ravi', phone: '9876543210' },
+    });
+
+    expect(event.status).toBe('CANCELLED');
+  });
+});
+
+describe('Visit weeks', () => {
+  it('should start weeks on Monday at midnight', () => {
+    // Sunday 12 May 2024
+    expect(startOfWeek(new Date(2024, 4, 12, 15, 0))).toEqual(new Date(2024, 4, 6));
+    // Monday 13 May 2024
+    expect(startOfWeek(new Date(2024, 4, 13, 9, 0))).toEqual(new Date(2024, 4, 13));
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  applyMapping,
+  bestMapping,
+  missingImportFields,
+  scaleBudget,
+  suggestAlias,
+  suggestMapping,
+  withSuggestedAliases,
+} from '@/lib/import-mapping';
+import { columnMappingSchema } from '@/lib/validations';
+
+describe('Import column mapping', () => {
+  it('should suggest fields for loosely named headers', () => {
+    expect(suggestMapping(['Name', 'Mobile No.', 'Budget (Lakhs)', 'Location', 'Remarks', 'Lead ID', 'Follow-up Date'])).toEqual({
+      'Name': { field: 'fullName' },
+      'Mobile No.': { field: 'phone' },
+      'Budget (Lakhs)': { field: 'budget', unit: 'lakh' },
+      'Location': { field: 'city' },
+      'Remarks': { field: 'notes' },
+      'Lead ID': { field: 'externalId' },
+    });
+    // The importer's own headers map onto themselves, each field only once
+    expect(suggestMapping(['fullName', 'budgetMin', 'phone', 'Mobile'])).toEqual({
+      fullName: { field: 'fullName' },
+      budgetMin: { field: 'budgetMin' },
+      phone: { field: 'phone' },
+    });
+  });
+
+  it('should suggest the option a value stands for', () => {
+    expect(suggestAlias('bhk', '3 BHK')).toBe('3');
+    expect(suggestAlias('city', 'Chd')).toBe('Chandigarh');
+    expect(suggestAlias('city', 'pan')).toBe('Panchkula');
+    expect(suggestAlias('propertyType', 'Flat')).toBe('Apartment');
+    expect(suggestAlias('source', 'walk in')).toBe('Walk-in');
+    expect(suggestAlias('city', 'Delhi')).toBeNull();
+    expect(suggestAlias('notes', 'Chd')).toBeNull();
+  });
+
+  it('should take bare budget numbers in the column unit', () => {
+    expect(scaleBudget(45, 'lakh')).toBe(4500000);
+    expect(scaleBudget('45-60', 'lakh')).toBe('45 lakh-60 lakh');
+    expect(scaleBudget('1.2', 'crore')).toBe('1.2 crore');
+    expect(scaleBudget('80L', 'crore')).toBe('80L');
+  });
+
+  it('should turn a file row into import fields', () => {
+    const mapping = columnMappingSchema.parse({
+      columns: {
+        'Name': { field: 'fullName' },
+        'City': { field: 'city' },
+        'Config': { field: 'bhk' },
+        'Budget (Lakhs)': { field: 'budgetMax', unit: 'lakh' },
+      },
+      aliases: { city: { chd: 'Chandigarh' }, bhk: { '3bhk': '3' } },
+      source: 'Website',
+    });
+
+    expect(applyMapping({ 'Name': 'Asha Verma', 'City': 'CHD', 'Config': '3 BHK', 'Budget (Lakhs)': 45, 'Lead ID': 'X1' }, mapping)).toEqual({
+      fullName: 'Asha Verma',
+      city: 'Chandigarh',
+      bhk: '3',
+      budgetMax: 4500000,
+      source: 'Website',
+    });
+    // Options only differing in case need no alias; unknown values are left for validation
+    expect(applyMapping({ 'City': 'mohali', 'Config': 'Penthouse' }, mapping)).toMatchObject({ city: 'Mohali', bhk: 'Penthouse' });
+  });
+
+  it('should not let two columns fill the same field', () => {
+    const result = columnMappingSchema.safeParse({
+      columns: { 'Mobile': { field: 'phone' }, 'Phone': { field: 'phone' } },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('should fill in suggested aliases without overriding chosen ones', () => {
+    const mapping = withSuggestedAliases(
+      { columns: { City: { field: 'city' }, Notes: { field: 'notes' } }, aliases: { city: { chd: 'Mohali' } } },
+      { City: ['Chd', 'Pkl', 'Zirakpur', 'Delhi'], Notes: ['Chd'] }
+    );
+    expect(mapping.aliases).toEqual({ city: { chd: 'Mohali', pkl: 'Panchkula' } });
+    expect(missingImportFields(mapping)).toEqual(['fullName', 'phone', 'propertyType', 'purpose', 'timeline', 'source']);
+  });
+
+  it('should pick the saved mapping that fits the file best', () => {
+    const portal = { name: 'Portal', mapping: { columns: { Name: { field: 'fullName' as const } }, aliases: {} } };
+    const fair = {
+      name: 'Property fair',
+      mapping: { columns: { Name: { field: 'fullName' as const }, Mobile: { field: 'phone' as const } }, aliases: {} },
+    };
+    expect(bestMapping([portal, fair], ['Name', 'Mobile', 'City'])).toBe(fair);
+    expect(bestMapping([portal, fair], ['Name', 'City'])).toBe(portal);
+    expect(bestMapping([portal, fair], ['fullName'])).toBeNull();
+  });
+});
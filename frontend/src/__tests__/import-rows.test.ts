@@ -0,0 +1,81 @@
+import { checkImportRow, editableValues } from '@/lib/import-rows';
+import { importRowsSchema } from '@/lib/validations';
+import { importErrorsCsv } from '@/lib/export';
+
+describe('Import row checks', () => {
+  const row = {
+    fullName: 'Asha Verma',
+    phone: '98765 43210',
+    city: 'Mohali',
+    propertyType: 'Plot',
+    purpose: 'Buy',
+    timeline: '0-3m',
+    source: 'Website',
+  };
+
+  it('should validate a good row as a buyer', () => {
+    const result = checkImportRow({ ...row, budget: '50L - 1Cr', tags: ['nri'] });
+    expect(result.errors).toEqual([]);
+    expect('buyer' in result && result.buyer).toMatchObject({
+      phone: '+919876543210',
+      budgetMin: 5000000,
+      budgetMax: 10000000,
+      tags: ['nri'],
+      status: 'New',
+    });
+  });
+
+  it('should point every problem at its cell', () => {
+    const result = checkImportRow({ ...row, fullName: 'A', city: 'Delhi', propertyType: 'Villa' });
+    expect(result.errors.map((error) => error.field)).toEqual(['fullName', 'city']);
+
+    // BHK is only checked once the fields themselves are valid
+    expect(checkImportRow({ ...row, propertyType: 'Villa' }).errors).toEqual([
+      { field: 'bhk', message: 'BHK is required for Apartment and Villa properties' },
+    ]);
+  });
+
+  it('should refuse statuses whose stage data an import cannot carry', () => {
+    expect(checkImportRow({ ...row, status: 'Dropped' }).errors).toEqual([
+      { field: 'dropReason', message: 'A drop reason is required for Dropped leads' },
+    ]);
+    expect(checkImportRow({ ...row, status: 'Visited' }).errors).toEqual([
+      { field: 'visitedAt', message: 'A visit date is required for Visited leads' },
+    ]);
+    expect(checkImportRow({ ...row, status: 'Converted' }).errors).toEqual([
+      { field: 'dealValue', message: 'A deal value is required for Converted leads' },
+    ]);
+    expect(checkImportRow({ ...row, status: 'Contacted' }).errors).toEqual([]);
+  });
+
+  it('should report an unreadable budget range where it is shown', () => {
+    const result = checkImportRow({ ...row, budget: 'about 50' });
+    expect(result.errors).toEqual([{ field: 'budgetMin', message: 'Could not read budget "about 50", use e.g. 50L - 1Cr' }]);
+    expect(editableValues({ ...row, budget: 'about 50' })).toMatchObject({ budgetMin: 'about 50', budgetMax: '' });
+  });
+
+  it('should give every column as text for editing', () => {
+    const values = editableValues({ ...row, budget: '50L - 1Cr', tags: ['nri', 'hot'] });
+    expect(values).toMatchObject({ fullName: 'Asha Verma', budgetMin: '5000000', budgetMax: '10000000', tags: 'nri, hot', email: '' });
+    expect(Object.keys(values)).toHaveLength(16);
+  });
+
+  it('should take edited rows back for checking or importing', () => {
+    const edited = { rowNumber: 2, values: editableValues(row) };
+    expect(importRowsSchema.parse({ rows: [edited] })).toMatchObject({ dryRun: false, mode: 'skip', matchBy: 'phone' });
+    expect(importRowsSchema.safeParse({ rows: [], dryRun: true }).success).toBe(false);
+  });
+
+  it('should report skipped rows as a CSV that can be imported again', () => {
+    const csv = importErrorsCsv([{
+      sheet: 'Leads',
+      rowNumber: 7,
+      data: { ...row, fullName: 'A', notes: 'Wants "corner" plot, east facing' },
+      errors: [{ field: 'fullName', message: 'Name must be at least 2 characters' }, { message: 'Row is empty' }],
+    }]);
+    const [header, line] = csv.split('\n');
+
+    expect(header).toBe('sheet,row,problems,fullName,email,phone,altPhones,city,propertyType,bhk,purpose,budgetMin,budgetMax,timeline,source,notes,tags,status,externalId');
+    expect(line).toBe('Leads,7,fullName: Name must be at least 2 characters; Row is empty,A,,98765 43210,,Mohali,Plot,,Buy,,,0-3m,Website,"Wants ""corner"" plot, east facing",,,');
+  });
+});
@@ -0,0 +1,141 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { existingLeadsCondition, importChanges, indexExisting, leadUpdates, refuseIncompleteLeads, type ImportCheck } from '@/lib/importer';
+import { checkImportRow } from '@/lib/import-rows';
+
+const existing = {
+  id: 'b1',
+  fullName: 'Asha Verma',
+  email: null,
+  phone: '+919876543210',
+  altPhones: ['+911722345678'],
+  city: 'Mohali' as const,
+  propertyType: 'Plot' as const,
+  bhk: null,
+  purpose: 'Buy' as const,
+  budgetMin: 5000000,
+  budgetMax: 7000000,
+  timeline: '0-3m' as const,
+  source: 'Website' as const,
+  status: 'Contacted' as const,
+  dropReason: null,
+  dropNote: null,
+  visitedAt: null,
+  dealValue: null,
+  notes: 'Wants a corner plot',
+  tags: ['nri'],
+  externalId: 'CRM-1',
+  ownerId: 'u1',
+  organizationId: 'o1',
+  deletedAt: null,
+  deletedBy: null,
+  createdAt: new Date('2024-05-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-05-01T00:00:00.000Z'),
+};
+
+const row = {
+  fullName: 'Asha Verma',
+  email: 'asha@example.com',
+  phone: '98765 43210',
+  city: 'Zirakpur',
+  propertyType: 'Plot',
+  purpose: 'Buy',
+  timeline: '0-3m',
+  source: 'Website',
+  notes: 'Prefers east facing',
+  tags: 'hot',
+  externalId: 'CRM-1',
+};
+
+const changesFor = (data: Record<string, any>, mode: 'update' | 'merge') => {
+  const result = checkImportRow(data);
+  if (!('buyer' in result)) throw new Error('row should be valid');
+  return importChanges(existing, result.buyer, data, mode);
+};
+
+describe('Applying import rows to existing leads', () => {
+  it('should overwrite the fields the row has when updating', () => {
+    const { update, errors } = changesFor(row, 'update');
+    expect(errors).toEqual([]);
+    expect(update.changes).toEqual({
+      email: 'asha@example.com',
+      city: 'Zirakpur',
+      notes: 'Prefers east facing',
+      tags: ['hot'],
+    });
+    expect(update.diff.city).toEqual({ from: 'Mohali', to: 'Zirakpur' });
+  });
+
+  it('should leave the status alone when the row has none', () => {
+    const { update } = changesFor(row, 'update');
+    expect(update.changes).not.toHaveProperty('status');
+    expect(update.changes).not.toHaveProperty('budgetMin');
+  });
+
+  it('should only add tags and notes and fill in blanks when merging', () => {
+    const { update, errors } = changesFor({ ...row, altPhones: '0172 234 5678, 98140 12345' }, 'merge');
+    expect(errors).toEqual([]);
+    expect(update.changes).toEqual({
+      email: 'asha@example.com',
+      notes: 'Wants a corner plot\n\nPrefers east facing',
+      tags: ['nri', 'hot'],
+      altPhones: ['+911722345678', '+919814012345'],
+    });
+  });
+
+  it('should change nothing when the row repeats what the lead has', () => {
+    const { update } = changesFor({ ...row, city: 'Mohali', email: '', notes: 'corner plot', tags: 'nri' }, 'merge');
+    expect(update.changes).toEqual({});
+    expect(update.diff).toEqual({});
+  });
+
+  it('should reject changes the lead could not make', () => {
+    expect(changesFor({ ...row, status: 'New' }, 'update').errors).toEqual([
+      { field: 'status', message: expect.stringContaining('Cannot move a lead from Contacted to New') },
+    ]);
+    expect(changesFor({ ...row, budgetMax: 4000000 }, 'update').errors).toEqual([
+      { field: 'budgetMax', message: "Maximum budget must be at least the lead's minimum budget" },
+    ]);
+  });
+
+  it('should not create new leads missing the stage data of their status', () => {
+    const valid = checkImportRow(row);
+    if (!('buyer' in valid)) throw new Error('row should be valid');
+    const check = (status: 'New' | 'Dropped'): ImportCheck => ({
+      rowNumber: 2,
+      values: {} as ImportCheck['values'],
+      errors: [],
+      buyer: { ...valid.buyer, status },
+    });
+
+    const checks = [check('New'), check('Dropped')];
+    refuseIncompleteLeads(checks);
+
+    expect(checks[0]).toMatchObject({ errors: [], buyer: { status: 'New' } });
+    expect(checks[1].buyer).toBeUndefined();
+    expect(checks[1].errors).toEqual([{ field: 'dropReason', message: 'A drop reason is required for Dropped leads' }]);
+  });
+
+  it('should match existing emails whatever their case', () => {
+    const { sql, params } = new PgDialect().sqlToQuery(existingLeadsCondition('o1', ['+919876543210'], ['jane@x.com'], [])!);
+    expect(sql).toContain('lower("buyers"."email") in ($');
+    expect(params).toContain('jane@x.com');
+
+    const lead = { ...existing, email: 'Jane@X.com' };
+    expect(indexExisting([lead]).byEmail.get('jane@x.com')).toBe(lead);
+
+    const result = checkImportRow({ ...row, email: 'JANE@x.com' });
+    expect('buyer' in result && result.buyer.email).toBe('jane@x.com');
+  });
+
+  it('should only count matched leads a row changes as updated', () => {
+    const check = (changes: Record<string, any>): ImportCheck => ({
+      rowNumber: 2,
+      values: {} as ImportCheck['values'],
+      errors: [],
+      update: { id: 'b1', changes, diff: {} },
+    });
+
+    const changed = check({ city: 'Zirakpur' });
+    expect(leadUpdates([changed, check({}), { ...changed, update: undefined }])).toEqual([changed.update]);
+  });
+});
@@ -0,0 +1,65 @@
+import { rankMatches, scoreMatch } from '@/lib/matching';
+
+const buyer = {
+  city: 'Mohali',
+  propertyType: 'Apartment',
+  bhk: '3',
+  purpose: 'Buy',
+  budgetMin: 5000000,
+  budgetMax: 8000000,
+};
+
+const property = {
+  city: 'Mohali',
+  propertyType: 'Apartment',
+  bhk: '3',
+  purpose: 'Buy',
+  price: 7000000,
+};
+
+describe('Buyer-property matching', () => {
+  it('should score a perfect fit at 100', () => {
+    const match = scoreMatch(buyer, property);
+    expect(match?.score).toBe(100);
+    expect(match?.reasons).toContain('Within budget');
+  });
+
+  it('should never match a different purpose or property type', () => {
+    expect(scoreMatch(buyer, { ...property, purpose: 'Rent' })).toBeNull();
+    expect(scoreMatch(buyer, { ...property, propertyType: 'Villa' })).toBeNull();
+  });
+
+  it('should allow prices slightly over budget with a lower score', () => {
+    const match = scoreMatch(buyer, { ...property, price: 8500000 });
+    expect(match?.score).toBe(80);
+    expect(match?.reasons).toContain('Over budget by 7%');
+  });
+
+  it('should reject prices well outside the budget', () => {
+    expect(scoreMatch(buyer, { ...property, price: 9500000 })).toBeNull();
+    expect(scoreMatch(buyer, { ...property, price: 4000000 })).toBeNull();
+  });
+
+  it('should give partial credit for a BHK one size off', () => {
+    expect(scoreMatch(buyer, { ...property, bhk: '2' })?.score).toBe(85);
+    expect(scoreMatch(buyer, { ...property, bhk: '1' })?.score).toBe(70);
+  });
+
+  it('should score city and BHK for buyers without a budget', () => {
+    const match = scoreMatch({ ...buyer, budgetMin: null, budgetMax: null }, { ...property, city: 'Zirakpur' });
+    expect(match?.score).toBe(50);
+  });
+
+  it('should rank the best matches first and drop weak ones', () => {
+    const candidates = [
+      { ...property, city: 'Zirakpur', bhk: '1' },
+      { ...property, bhk: '2' },
+      property,
+    ];
+
+    const ranked = rankMatches(candidates, (candidate) => scoreMatch(buyer, candidate));
+
+    expect(ranked.map((match) => match.score)).toEqual([100, 85]);
+    expect(ranked[0].item).toBe(property);
+  });
+});
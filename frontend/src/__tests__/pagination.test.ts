@@ -0,0 +1,72 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { cursorFor, decodeCursor, encodeCursor, keysetCondition, keysetOrderBy, planRowEstimate } from '@/lib/pagination';
+import { buyers } from '@/lib/schema';
+
+const render = (query: SQL) => new PgDialect().sqlToQuery(query);
+
+describe('Keyset pagination', () => {
+  const id = '3f2b8c1e-7d4a-4e9b-9c1d-2a6f5e8b7c90';
+  const touched = new Date('2024-05-10T09:30:00.123Z');
+  const lead = { id, fullName: 'Asha Verma', createdAt: touched, updatedAt: touched, budgetMin: null, budgetMax: 9000000 };
+
+  it('should read back the cursors it hands out', () => {
+    expect(decodeCursor(encodeCursor({ value: 'Asha Verma', id }))).toEqual({ value: 'Asha Verma', id });
+    expect(decodeCursor(encodeCursor({ value: 4500000, id }))).toEqual({ value: 4500000, id });
+    expect(decodeCursor(encodeCursor({ value: null, id }))).toEqual({ value: null, id });
+  });
+
+  it('should reject cursors it did not hand out', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('["x","not-a-uuid"]').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from(`[{"a":1},"${id}"]`).toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from(`["x","${id}","extra"]`).toString('base64url'))).toBeNull();
+  });
+
+  it('should point past the last lead of a page', () => {
+    const updatedAt = new Date('2024-05-10T09:30:00.000Z');
+    const lead = { id, fullName: 'Asha Verma', createdAt: updatedAt, updatedAt, budgetMin: null, budgetMax: 9000000 };
+    expect(decodeCursor(cursorFor(lead, 'updatedAt'))).toEqual({ value: '2024-05-10T09:30:00.000Z', id });
+    expect(decodeCursor(cursorFor(lead, 'budgetMin'))).toEqual({ value: null, id });
+    expect(decodeCursor(cursorFor(lead, 'budgetMax'))).toEqual({ value: 9000000, id });
+  });
+
+  it('should order by the sort key and then the id', () => {
+    expect(render(sql.join(keysetOrderBy('updatedAt', 'desc'), sql`, `)).sql)
+      .toBe('"buyers"."updated_at" desc, "buyers"."id" desc');
+    expect(render(sql.join(keysetOrderBy('fullName', 'asc'), sql`, `)).sql)
+      .toBe('"buyers"."full_name" asc, "buyers"."id" asc');
+  });
+
+  it('should start the next page right after the cursor lead, ties included', () => {
+    const cursor = decodeCursor(cursorFor(lead, 'updatedAt'))!;
+    const { sql: text, params } = render(keysetCondition('updatedAt', 'desc', cursor)!);
+    expect(text).toBe('("buyers"."updated_at" < $1 or ("buyers"."updated_at" = $2 and "buyers"."id" < $3))');
+    // The very instant of the lead, to the millisecond the column keeps
+    expect(params).toEqual(['2024-05-10T09:30:00.123Z', '2024-05-10T09:30:00.123Z', id]);
+
+    expect(render(keysetCondition('budgetMax', 'asc', { value: 9000000, id })!)).toEqual(expect.objectContaining({
+      sql: '("buyers"."budget_max" > $1 or ("buyers"."budget_max" = $2 and "buyers"."id" > $3) or "buyers"."budget_max" is null)',
+      params: [9000000, 9000000, id],
+    }));
+  });
+
+  it('should page through leads without a value', () => {
+    expect(render(keysetCondition('budgetMin', 'asc', { value: null, id })!).sql)
+      .toBe('("buyers"."budget_min" is null and "buyers"."id" > $1)');
+    expect(render(keysetCondition('budgetMin', 'desc', { value: null, id })!).sql)
+      .toBe('(("buyers"."budget_min" is null and "buyers"."id" < $1) or "buyers"."budget_min" is not null)');
+  });
+
+  it('should store list timestamps to the millisecond, like the cursor', () => {
+    const column = (name: 'createdAt' | 'updatedAt') => buyers[name].getSQLType();
+    expect(column('createdAt')).toBe('timestamp (3)');
+    expect(column('updatedAt')).toBe('timestamp (3)');
+  });
+
+  it('should read the row estimate from an explain plan', () => {
+    expect(planRowEstimate({ 'QUERY PLAN': [{ Plan: { 'Node Type': 'Seq Scan', 'Plan Rows': 123456.4 } }] })).toBe(123456);
+    expect(planRowEstimate({ 'QUERY PLAN': [] })).toBeNull();
+    expect(planRowEstimate(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { can, isRole } from '@/lib/permissions';
+
+describe('Role permissions', () => {
+  const ownLead = { ownerId: 'user-1' };
+  const otherLead = { ownerId: 'user-2' };
+
+  it('should let admins do everything', () => {
+    const admin = { userId: 'user-1', role: 'admin' as const };
+    expect(can(admin, 'buyer:update', otherLead)).toBe(true);
+    expect(can(admin, 'buyer:delete', otherLead)).toBe(true);
+    expect(can(admin, 'organization:manage')).toBe(true);
+  });
+
+  it('should let managers edit any lead but not manage the organization', () => {
+    const manager = { userId: 'user-1', role: 'manager' as const };
+    expect(can(manager, 'buyer:update', otherLead)).toBe(true);
+    expect(can(manager, 'buyer:reassign')).toBe(true);
+    expect(can(manager, 'organization:manage')).toBe(false);
+  });
+
+  it('should limit agents to editing their own leads', () => {
+    const agent = { userId: 'user-1', role: 'agent' as const };
+    expect(can(agent, 'buyer:read', otherLead)).toBe(true);
+    expect(can(agent, 'buyer:update', ownLead)).toBe(true);
+    expect(can(agent, 'buyer:update', otherLead)).toBe(false);
+    expect(can(agent, 'buyer:delete', otherLead)).toBe(false);
+    expect(can(agent, 'buyer:reassign')).toBe(false);
+  });
+
+  it('should keep viewers read-only', () => {
+    const viewer = { userId: 'user-1', role: 'viewer' as const };
+    expect(can(viewer, 'buyer:read')).toBe(true);
+    expect(can(viewer, 'buyer:export')).toBe(true);
+    expect(can(viewer, 'buyer:create')).toBe(false);
+    expect(can(viewer, 'buyer:update', ownLead)).toBe(false);
+    expect(can(viewer, 'buyer:import')).toBe(false);
+  });
+
+  it('should recognise valid role names only', () => {
+    expect(isRole('manager')).toBe(true);
+    expect(isRole('owner')).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+});
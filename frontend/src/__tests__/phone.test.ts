@@ -0,0 +1,85 @@
+import { formatPhone, normalizePhone, parsePhone, phoneSearchDigits, splitPhones } from '@/lib/phone';
+import { createBuyerSchema } from '@/lib/validations';
+
+describe('Phone normalization', () => {
+  it('should store Indian numbers in E.164 however they are written', () => {
+    expect(normalizePhone('9876543210')).toBe('+919876543210');
+    expect(normalizePhone('098765 43210')).toBe('+919876543210');
+    expect(normalizePhone('+91 98765-43210')).toBe('+919876543210');
+    expect(normalizePhone('0091 98765 43210')).toBe('+919876543210');
+    expect(normalizePhone('919876543210')).toBe('+919876543210');
+    expect(normalizePhone('+91 (98765) 432.10')).toBe('+919876543210');
+  });
+
+  it('should keep numbers from other countries', () => {
+    expect(normalizePhone('+1 (415) 555-0132')).toBe('+14155550132');
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958');
+    expect(normalizePhone('00971 50 123 4567')).toBe('+971501234567');
+  });
+
+  it('should keep extensions', () => {
+    expect(normalizePhone('0172 234 5678 ext. 204')).toBe('+911722345678;ext=204');
+    expect(normalizePhone('+91 172 234 5678 x12')).toBe('+911722345678;ext=12');
+    expect(normalizePhone('+911722345678;ext=204')).toBe('+911722345678;ext=204');
+    expect(parsePhone('0172 234 5678 #9')).toEqual({ e164: '+911722345678', extension: '9' });
+  });
+
+  it('should reject text that is not a phone number', () => {
+    expect(normalizePhone('123')).toBeNull();
+    expect(normalizePhone('98765')).toBeNull();
+    expect(normalizePhone('call me')).toBeNull();
+    expect(normalizePhone('+91 98765 4321')).toBeNull();
+    expect(normalizePhone('+1234567890123456')).toBeNull();
+  });
+
+  it('should split several numbers typed into one field', () => {
+    expect(splitPhones('98765 43210, 98123 45678')).toEqual(['98765 43210', '98123 45678']);
+    expect(splitPhones('98765 43210 / 98123 45678 or 0172 234 5678')).toEqual(['98765 43210', '98123 45678', '0172 234 5678']);
+    expect(splitPhones('')).toEqual([]);
+  });
+
+  it('should format numbers for display', () => {
+    expect(formatPhone('+919876543210')).toBe('+91 98765 43210');
+    expect(formatPhone('+911722345678;ext=204')).toBe('+91 17223 45678 ext. 204');
+    expect(formatPhone('+14155550132')).toBe('+14155550132');
+    expect(formatPhone('not a number')).toBe('not a number');
+  });
+
+  it('should only search by digits when the query looks like a phone number', () => {
+    expect(phoneSearchDigits('98765 43210')).toBe('9876543210');
+    expect(phoneSearchDigits('+91-98765')).toBe('9198765');
+    expect(phoneSearchDigits('987')).toBeNull();
+    expect(phoneSearchDigits('Asha 98765')).toBeNull();
+  });
+});
+
+describe('Buyer phone fields', () => {
+  const lead = {
+    fullName: 'Asha Verma',
+    city: 'Mohali',
+    propertyType: 'Plot',
+    purpose: 'Buy',
+    timeline: '0-3m',
+    source: 'Website',
+  };
+
+  it('should move extra numbers into the alternates', () => {
+    const result = createBuyerSchema.parse({ ...lead, phone: '98765 43210 / 0172 234 5678 ext. 204' });
+    expect(result.phone).toBe('+919876543210');
+    expect(result.altPhones).toEqual(['+911722345678;ext=204']);
+  });
+
+  it('should reject an invalid alternate number', () => {
+    const result = createBuyerSchema.safeParse({ ...lead, phone: '9876543210, 12' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0].path).toEqual(['altPhones', 0]);
+    }
+  });
+
+  it('should allow at most four alternates', () => {
+    const phones = ['9876543210', '9876543211', '9876543212', '9876543213', '9876543214', '9876543215'];
+    expect(createBuyerSchema.safeParse({ ...lead, phone: phones.join(', ') }).success).toBe(false);
+    expect(createBuyerSchema.safeParse({ ...lead, phone: phones.slice(0, 5).join(', ') }).success).toBe(true);
+  });
+});
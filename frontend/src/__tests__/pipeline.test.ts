@@ -0,0 +1,52 @@
+import { buildBoard, leadValue, moveLead, replaceLead, type BoardLead } from '@/lib/pipeline';
+
+const lead = (id: string, status: BoardLead['status'], budgetMax: number | null): BoardLead => ({
+  id,
+  status,
+  budgetMin: null,
+  budgetMax,
+  updatedAt: '2024-05-01T00:00:00.000Z',
+});
+
+const leads = [lead('a', 'New', 5000000), lead('b', 'New', null), lead('c', 'Qualified', 8000000)];
+const summaries = [
+  { status: 'New' as const, count: 12, budgetTotal: 40000000 },
+  { status: 'Qualified' as const, count: 1, budgetTotal: 8000000 },
+];
+
+describe('Pipeline board', () => {
+  it('should build one column per status with server totals', () => {
+    const board = buildBoard(leads, summaries);
+
+    expect(board.map((column) => column.status)).toEqual([
+      'New', 'Qualified', 'Contacted', 'Visited', 'Negotiation', 'Converted', 'Dropped',
+    ]);
+    expect(board[0].count).toBe(12);
+    expect(board[0].leads.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(board[2]).toMatchObject({ count: 0, budgetTotal: 0, leads: [] });
+  });
+
+  it('should value a lead by the top of its budget range', () => {
+    expect(leadValue({ budgetMin: 3000000, budgetMax: 5000000 })).toBe(5000000);
+    expect(leadValue({ budgetMin: 3000000, budgetMax: null })).toBe(3000000);
+    expect(leadValue({ budgetMin: null, budgetMax: null })).toBe(0);
+  });
+
+  it('should move a lead with its count and budget', () => {
+    const board = moveLead(buildBoard(leads, summaries), 'a', 'Qualified');
+
+    expect(board[0]).toMatchObject({ count: 11, budgetTotal: 35000000 });
+    expect(board[1]).toMatchObject({ count: 2, budgetTotal: 13000000 });
+    expect(board[1].leads[0]).toMatchObject({ id: 'a', status: 'Qualified' });
+  });
+
+  it('should leave the board alone when dropped on the same column', () => {
+    const board = buildBoard(leads, summaries);
+    expect(moveLead(board, 'c', 'Qualified')).toBe(board);
+  });
+
+  it('should replace a lead with the saved copy', () => {
+    const board = replaceLead(buildBoard(leads, summaries), { ...leads[2], updatedAt: '2024-05-02T00:00:00.000Z' });
+    expect(board[1].leads[0].updatedAt).toBe('2024-05-02T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,56 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { buyerOrderBy, effectiveSortBy, prefixTsQuery, searchCondition } from '@/lib/search';
+
+const render = (query: SQL) => new PgDialect().sqlToQuery(query);
+const orderBy = (filters: Parameters<typeof buyerOrderBy>[0]) => render(sql.join(buyerOrderBy(filters), sql`, `));
+
+describe('Buyer search', () => {
+  it('should turn the words of a search into a prefix query', () => {
+    expect(prefixTsQuery('Raj')).toBe('raj:*');
+    expect(prefixTsQuery('  raj   Mohali ')).toBe('raj:* & mohali:*');
+    expect(prefixTsQuery('asha.verma@gmail.com')).toBe('asha.verma@gmail.com:*');
+  });
+
+  it('should drop characters that mean something to to_tsquery', () => {
+    expect(prefixTsQuery("o'brien & (sons) | !x:*")).toBe('o:* & brien:* & sons:* & x:*');
+    expect(prefixTsQuery('&|!')).toBeNull();
+    expect(prefixTsQuery('')).toBeNull();
+  });
+
+  it('should rank searches by relevance unless another order was picked', () => {
+    expect(effectiveSortBy({ query: 'Rajsh' })).toBe('relevance');
+    expect(effectiveSortBy({ query: 'Rajsh', sortBy: 'budgetMax' })).toBe('budgetMax');
+    expect(effectiveSortBy({})).toBe('updatedAt');
+  });
+
+  it('should rank by full text rank plus name similarity, then the latest update', () => {
+    expect(orderBy({ query: ' Rajsh ', sortOrder: 'asc' })).toEqual({
+      sql: `(ts_rank("buyers"."search_vector", to_tsquery('simple', $1)) + word_similarity($2, "buyers"."full_name")) desc, "buyers"."updated_at" desc`,
+      params: ['rajsh:*', 'Rajsh'],
+    });
+  });
+
+  it('should break ties by the latest update or the id', () => {
+    expect(orderBy({ sortBy: 'relevance', sortOrder: 'desc' })).toEqual({ sql: '"buyers"."updated_at" desc', params: [] });
+    expect(orderBy({ sortBy: 'fullName', sortOrder: 'asc' })).toEqual({
+      sql: '"buyers"."full_name" asc, "buyers"."id" asc',
+      params: [],
+    });
+  });
+
+  it('should match the search vector, name similarity and email of a search', () => {
+    expect(render(searchCondition('Rajsh')!)).toEqual({
+      sql: `("buyers"."search_vector" @@ to_tsquery('simple', $1) or $2 <% "buyers"."full_name" or "buyers"."email" ilike $3)`,
+      params: ['rajsh:*', 'Rajsh', '%Rajsh%'],
+    });
+    expect(searchCondition('   ')).toBeUndefined();
+  });
+
+  it('should match phone numbers by their digits alone', () => {
+    const { sql: text, params } = render(searchCondition('98765 43210')!);
+    expect(text).toContain(`regexp_replace("buyers"."phone", '[^0-9]', '', 'g') like $4`);
+    expect(text).toContain(`regexp_replace("buyers"."alt_phones"::text, '[^0-9,]', '', 'g') like $5`);
+    expect(params.slice(3)).toEqual(['%9876543210%', '%9876543210%']);
+  });
+});
@@ -0,0 +1,68 @@
+import ExcelJS from 'exceljs';
+import { buyersCsv } from '@/lib/export';
+import { buyersWorkbook, cellValue, importTemplate, readSpreadsheet } from '@/lib/spreadsheet';
+
+describe('Spreadsheet import and export', () => {
+  it('should read cells as the row validation expects them', () => {
+    expect(cellValue(' Asha Verma ')).toBe('Asha Verma');
+    expect(cellValue('   ')).toBeNull();
+    expect(cellValue(4500000)).toBe(4500000);
+    expect(cellValue(new Date('2024-05-10T00:00:00.000Z'))).toBe('2024-05-10');
+    expect(cellValue(new Date('2024-05-10T09:30:00.000Z'))).toBe('2024-05-10T09:30:00.000Z');
+    expect(cellValue({ text: 'asha@example.com', hyperlink: 'mailto:asha@example.com' })).toBe('asha@example.com');
+    expect(cellValue({ richText: [{ text: 'Asha ' }, { text: 'Verma' }] })).toBe('Asha Verma');
+    expect(cellValue({ formula: 'B2*100000', result: 4500000 })).toBe(4500000);
+    expect(cellValue(null)).toBeNull();
+  });
+
+  it('should read back the sample lead of the template', async () => {
+    const rows = await readSpreadsheet(await importTemplate());
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      sheet: 'Leads',
+      rowNumber: 2,
+      values: { fullName: 'John Doe', city: 'Chandigarh', budgetMin: 5000000, budgetMax: 7000000 },
+    });
+  });
+
+  it('should export budgets as numbers and dates as dates', async () => {
+    const createdAt = new Date('2024-05-10T09:30:00.000Z');
+    const lead = {
+      fullName: 'Asha Verma',
+      phone: '+919876543210',
+      altPhones: ['+919812345678'],
+      budgetMin: 4500000,
+      budgetMax: null,
+      tags: ['hot', 'nri'],
+      createdAt,
+      updatedAt: createdAt,
+    };
+    const rows = await readSpreadsheet(await buyersWorkbook([lead as any]));
+    expect(rows[0].values).toMatchObject({
+      fullName: 'Asha Verma',
+      altPhones: '+919812345678',
+      budgetMin: 4500000,
+      tags: 'hot, nri',
+      createdAt: '2024-05-10T09:30:00.000Z',
+    });
+    expect(rows[0].values).not.toHaveProperty('budgetMax');
+  });
+
+  it('should write timestamps as date cells even when they arrive as text', async () => {
+    const lead = { fullName: 'Asha Verma', createdAt: '2024-05-10T09:30:00.000Z', updatedAt: new Date('2024-05-11T10:00:00.000Z') };
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await buyersWorkbook([lead as any]));
+    const row = workbook.getWorksheet('Buyers')!.getRow(2);
+
+    expect(row.getCell(17).value).toEqual(new Date('2024-05-10T09:30:00.000Z'));
+    expect(row.getCell(18).value).toEqual(new Date('2024-05-11T10:00:00.000Z'));
+  });
+
+  it('should export timestamps in the CSV as ISO text', () => {
+    const createdAt = new Date('2024-05-10T09:30:00.000Z');
+    const csv = buyersCsv([{ fullName: 'Asha Verma', tags: ['hot'], createdAt, updatedAt: createdAt } as any]);
+    const [, line] = csv.split('\n');
+    expect(line.endsWith(',2024-05-10T09:30:00.000Z,2024-05-10T09:30:00.000Z')).toBe(true);
+    expect(line).not.toContain('GMT');
+  });
+});
@@ -0,0 +1,49 @@
+import { canTransition, clearedStageFields, missingStageFields, transitionError } from '@/lib/status-transitions';
+import { updateBuyerStatusSchema } from '@/lib/validations';
+
+describe('Status transitions', () => {
+  it('should allow moves along the pipeline and staying put', () => {
+    expect(canTransition('New', 'Qualified')).toBe(true);
+    expect(canTransition('Negotiation', 'Converted')).toBe(true);
+    expect(canTransition('Visited', 'Visited')).toBe(true);
+  });
+
+  it('should reject skipping stages and leaving Converted', () => {
+    expect(canTransition('New', 'Converted')).toBe(false);
+    expect(canTransition('Converted', 'Dropped')).toBe(false);
+  });
+
+  it('should explain illegal transitions', () => {
+    expect(transitionError('New', 'Qualified')).toBeNull();
+    expect(transitionError('New', 'Converted')).toBe(
+      'Cannot move a lead from New to Converted. From New a lead can move to: Qualified, Contacted, Dropped'
+    );
+    expect(transitionError('Converted', 'New')).toBe('A Converted lead cannot change status');
+  });
+
+  it('should require stage data for Dropped, Visited and Converted', () => {
+    expect(missingStageFields('Qualified', {})).toEqual([]);
+    expect(missingStageFields('Dropped', {}).map((entry) => entry.field)).toEqual(['dropReason']);
+    expect(missingStageFields('Dropped', { dropReason: 'Other', dropNote: ' ' }).map((entry) => entry.field)).toEqual(['dropNote']);
+    expect(missingStageFields('Dropped', { dropReason: 'Budget' })).toEqual([]);
+    expect(missingStageFields('Visited', {}).map((entry) => entry.field)).toEqual(['visitedAt']);
+    expect(missingStageFields('Converted', { dealValue: 7500000 })).toEqual([]);
+  });
+
+  it('should clear the drop reason when a lead is reopened', () => {
+    expect(clearedStageFields('New')).toEqual({ dropReason: null, dropNote: null });
+    expect(clearedStageFields('Dropped')).toEqual({});
+  });
+
+  it('should reject a status change that is missing stage data', () => {
+    const result = updateBuyerStatusSchema.safeParse({
+      status: 'Dropped',
+      updatedAt: '2024-05-01T00:00:00.000Z',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.errors[0].path).toEqual(['dropReason']);
+    }
+  });
+});
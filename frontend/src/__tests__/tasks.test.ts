@@ -0,0 +1,22 @@
+import { endOfDay, taskBucket } from '@/lib/tasks';
+
+describe('Task buckets', () => {
+  const now = new Date(2024, 4, 10, 14, 30);
+
+  it('should end the day at the following midnight', () => {
+    expect(endOfDay(now)).toEqual(new Date(2024, 4, 11, 0, 0));
+  });
+
+  it('should treat anything past its due time as overdue', () => {
+    expect(taskBucket(new Date(2024, 4, 10, 9, 0), now)).toBe('overdue');
+    expect(taskBucket(new Date(2024, 4, 8, 18, 0), now)).toBe('overdue');
+  });
+
+  it('should put tasks due later today in today', () => {
+    expect(taskBucket(new Date(2024, 4, 10, 18, 0), now)).toBe('today');
+  });
+
+  it('should put tasks due tomorrow or later in upcoming', () => {
+    expect(taskBucket(new Date(2024, 4, 11, 0, 0), now)).toBe('upcoming');
+  });
+});
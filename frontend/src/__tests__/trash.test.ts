@@ -0,0 +1,25 @@
+import { DEFAULT_TRASH_RETENTION_DAYS, purgeCutoff, purgeDate, trashRetentionDays } from '@/lib/trash';
+
+describe('Trash retention', () => {
+  it('should read the retention period from a positive whole number of days', () => {
+    expect(trashRetentionDays('7')).toBe(7);
+  });
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(trashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('0')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('1.5')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(trashRetentionDays('forever')).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it('should purge leads deleted more than the retention period ago', () => {
+    const now = new Date('2024-05-31T12:00:00.000Z');
+    expect(purgeCutoff(now, 30)).toEqual(new Date('2024-05-01T12:00:00.000Z'));
+  });
+
+  it('should schedule a purge the retention period after deletion', () => {
+    const deletedAt = new Date('2024-05-01T12:00:00.000Z');
+    expect(purgeDate(deletedAt, 30)).toEqual(new Date('2024-05-31T12:00:00.000Z'));
+  });
+});
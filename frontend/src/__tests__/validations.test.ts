@@ -1,4 +1,4 @@
-import { buyerSchema, csvBuyerSchema } from '@/lib/validations';
+import { buyerSchema, csvBuyerSchema, mergeBuyersSchema, searchSchema, storedBuyerIssues } from '@/lib/validations';
 
 describe('Buyer Validations', () => {
   describe('buyerSchema', () => {
@@ -43,7 +43,7 @@ describe('Buyer Validations', () => {
       }
     });
 
-    it('should require phone to be 10-15 digits', () => {
+    it('should require a valid phone number', () => {
       const invalidBuyer = {
         fullName: 'John Doe',
         phone: '123',
@@ -58,7 +58,7 @@ describe('Buyer Validations', () => {
       expect(result.success).toBe(false);
       if (!result.success) {
         expect(result.error.errors[0].path).toContain('phone');
-        expect(result.error.errors[0].message).toContain('10-15 digits');
+        expect(result.error.errors[0].message).toContain('valid phone number');
       }
     });
 
@@ -209,4 +209,79 @@ describe('Buyer Validations', () => {
       }
     });
   });
+
+  describe('searchSchema', () => {
+    it('should read comma-separated lists for multi-select filters', () => {
+      const result = searchSchema.parse({ city: 'Mohali,Zirakpur', bhk: '2, 3', tags: 'urgent,verified' });
+      expect(result.city).toEqual(['Mohali', 'Zirakpur']);
+      expect(result.bhk).toEqual(['2', '3']);
+      expect(result.tags).toEqual(['urgent', 'verified']);
+      expect(result.status).toBeUndefined();
+    });
+
+    it('should reject unknown values in a list', () => {
+      const result = searchSchema.safeParse({ city: 'Mohali,Delhi' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['city', 1]);
+      }
+    });
+
+    it('should accept budget sorts and calendar date ranges', () => {
+      const result = searchSchema.parse({ sortBy: 'budgetMax', createdFrom: '2024-05-01', updatedTo: '2024-05-31' });
+      expect(result.sortBy).toBe('budgetMax');
+      expect(result.createdFrom).toBe('2024-05-01');
+      expect(searchSchema.safeParse({ createdFrom: '01/05/2024' }).success).toBe(false);
+    });
+  });
+
+  describe('mergeBuyersSchema', () => {
+    const survivorId = '3f2b8c1e-7d4a-4e9b-9c1d-2a6f5e8b7c90';
+    const duplicateId = '9a1c2b3d-4e5f-4a6b-8c7d-0e1f2a3b4c5d';
+    const merge = (picks: Record<string, string>) => ({ survivorId, duplicateIds: [duplicateId], picks, versions: {} });
+
+    it('should only keep values from the merged leads', () => {
+      expect(mergeBuyersSchema.safeParse(merge({ city: duplicateId, status: survivorId })).success).toBe(true);
+
+      const result = mergeBuyersSchema.safeParse(merge({ city: '5b6c7d8e-9f0a-4b1c-8d2e-3f4a5b6c7d8e' }));
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].path).toEqual(['picks']);
+      }
+    });
+  });
+
+  describe('storedBuyerIssues', () => {
+    const stored = {
+      id: '3f2b8c1e-7d4a-4e9b-9c1d-2a6f5e8b7c90',
+      fullName: 'Asha Verma',
+      email: null,
+      phone: '+919876543210',
+      altPhones: ['+911722345678'],
+      city: 'Mohali',
+      propertyType: 'Plot',
+      bhk: null,
+      purpose: 'Buy',
+      budgetMin: 5000000,
+      budgetMax: 7000000,
+      timeline: '0-3m',
+      source: 'Website',
+      status: 'Visited',
+      dropReason: null,
+      visitedAt: new Date('2024-05-10T09:30:00.000Z'),
+      dealValue: null,
+      notes: null,
+      tags: ['nri'],
+      updatedAt: new Date('2024-05-11T09:30:00.000Z'),
+    };
+
+    it('should accept a lead as it is stored', () => {
+      expect(storedBuyerIssues(stored)).toEqual([]);
+    });
+
+    it('should report values that do not make a valid lead together', () => {
+      const issues = storedBuyerIssues({ ...stored, propertyType: 'Apartment', budgetMax: 4000000, visitedAt: null });
+      expect(issues.map((issue) => issue.path[0])).toEqual(['bhk', 'budgetMax', 'visitedAt']);
+    });
+  });
 });
@@ -0,0 +1,62 @@
+import { LIST_COLUMN_KEYS, VIEW_PARAMS, alertMessage, matchesView, viewHref, viewParams, visibleColumns } from '@/lib/views';
+import { buyerFiltersSchema, savedViewSchema } from '@/lib/validations';
+
+describe('Saved views', () => {
+  const view = {
+    id: '3f2b8c1e-7d4a-4e9b-9c1d-2a6f5e8b7c90',
+    params: { city: 'Mohali,Zirakpur', status: 'Qualified', sortBy: 'budgetMax', sortOrder: 'asc' },
+  };
+
+  it('should remember every filter of the list', () => {
+    Object.keys(buyerFiltersSchema.shape).forEach((key) => {
+      expect(VIEW_PARAMS).toContain(key);
+    });
+  });
+
+  it('should leave paging and the open view out of the stored parameters', () => {
+    const params = new URLSearchParams('city=Mohali&page=3&limit=20&view=abc&query=&columns=contact,status');
+    expect(viewParams(params)).toEqual({ city: 'Mohali', columns: 'contact,status' });
+    expect(viewParams({ budget: '50L - 1Cr', page: '2', tags: undefined })).toEqual({ budget: '50L - 1Cr' });
+  });
+
+  it('should link to a view through its parameters', () => {
+    expect(viewHref(view)).toBe(
+      `/buyers?city=Mohali%2CZirakpur&status=Qualified&sortBy=budgetMax&sortOrder=asc&view=${view.id}`
+    );
+  });
+
+  it('should notice when the list no longer shows the view', () => {
+    expect(matchesView(view, { ...view.params })).toBe(true);
+    expect(matchesView(view, { ...view.params, budget: 'under 80L' })).toBe(false);
+    expect(matchesView(view, { city: 'Mohali,Zirakpur', status: 'Qualified' })).toBe(false);
+  });
+
+  it('should show every column unless some are chosen', () => {
+    expect(visibleColumns(undefined)).toEqual(LIST_COLUMN_KEYS);
+    expect(visibleColumns([])).toEqual(LIST_COLUMN_KEYS);
+    expect(visibleColumns(['status', 'contact'])).toEqual(['contact', 'status']);
+  });
+
+  it('should only save views the list can open', () => {
+    const saved = savedViewSchema.parse({ name: '  Hot Mohali plots ', params: { ...view.params, page: '4' } });
+    expect(saved.name).toBe('Hot Mohali plots');
+    expect(saved.params).toEqual(view.params);
+    expect(saved.shared).toBe(false);
+
+    expect(savedViewSchema.safeParse({ name: 'Broken', params: { city: 'Atlantis' } }).success).toBe(false);
+    expect(savedViewSchema.safeParse({ name: 'Broken', params: { columns: 'phone' } }).success).toBe(false);
+    expect(savedViewSchema.safeParse({ name: '', params: {} }).success).toBe(false);
+  });
+
+  it('should point an alert at the lead when only one matched', () => {
+    const alerted = { ...view, name: 'Mohali villas' };
+    expect(alertMessage(alerted, [{ id: 'b1', fullName: 'Asha Verma' }])).toEqual({
+      title: 'New lead Asha Verma matches "Mohali villas"',
+      href: '/buyers/b1',
+    });
+    expect(alertMessage(alerted, [{ id: 'b1', fullName: 'Asha Verma' }, { id: 'b2', fullName: 'Ravi Kumar' }])).toEqual({
+      title: '2 new leads match "Mohali villas"',
+      href: viewHref(view),
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { assignmentRules } from '@/lib/schema';
+import { updateAssignmentRuleSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getAssignableUserIds } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// PATCH /api/assignment-rules/[id] - Update an assignment rule
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'assignment:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateAssignmentRuleSchema.parse(body);
+
+    if (validatedData.agentIds) {
+      const assignable = await getAssignableUserIds(membership.organizationId);
+      if (validatedData.agentIds.some((id) => !assignable.has(id))) {
+        return NextResponse.json({ error: 'Every agent in the pool must be a member who can work on leads' }, { status: 400 });
+      }
+    }
+
+    const [rule] = await db
+      .update(assignmentRules)
+      .set({
+        ...validatedData,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(assignmentRules.id, params.id),
+        eq(assignmentRules.organizationId, membership.organizationId)
+      ))
+      .returning();
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Assignment rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('PATCH /api/assignment-rules/[id] error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/assignment-rules/[id] - Delete an assignment rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'assignment:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [rule] = await db
+      .delete(assignmentRules)
+      .where(and(
+        eq(assignmentRules.id, params.id),
+        eq(assignmentRules.organizationId, membership.organizationId)
+      ))
+      .returning({ id: assignmentRules.id });
+
+    if (!rule) {
+      return NextResponse.json({ error: 'Assignment rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/assignment-rules/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { assignmentRules } from '@/lib/schema';
+import { assignmentRuleSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getAssignableUserIds } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/assignment-rules - List the active organization's assignment rules
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'assignment:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const rules = await db
+      .select()
+      .from(assignmentRules)
+      .where(eq(assignmentRules.organizationId, membership.organizationId))
+      .orderBy(asc(assignmentRules.priority), asc(assignmentRules.createdAt));
+
+    return NextResponse.json({ data: rules });
+  } catch (error) {
+    console.error('GET /api/assignment-rules error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/assignment-rules - Create an assignment rule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'assignment:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = assignmentRuleSchema.parse(body);
+
+    const assignable = await getAssignableUserIds(membership.organizationId);
+    if (validatedData.agentIds.some((id) => !assignable.has(id))) {
+      return NextResponse.json({ error: 'Every agent in the pool must be a member who can work on leads' }, { status: 400 });
+    }
+
+    const [rule] = await db
+      .insert(assignmentRules)
+      .values({
+        ...validatedData,
+        organizationId: membership.organizationId,
+      })
+      .returning();
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/assignment-rules error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { revertBuyerSchema, storedBuyerIssues } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getHistorySince, reconstructVersion, recordHistory, toBuyerValues, versionDiff } from '@/lib/history';
+import { can } from '@/lib/permissions';
+import { allowedTransitions, transitionError } from '@/lib/status-transitions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// POST /api/buyers/[id]/history/[entryId]/revert - Restore the buyer as it was after this change
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; entryId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { updatedAt } = revertBuyerSchema.parse(body);
+
+    const [currentBuyer] = await db
+      .select()
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!currentBuyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    if (!can(membership, 'buyer:update', currentBuyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Check concurrency (optimistic locking)
+    if (currentBuyer.updatedAt.toISOString() !== updatedAt) {
+      return NextResponse.json({ 
+        error: 'Record has been modified by another user. Please refresh and try again.' 
+      }, { status: 409 });
+    }
+
+    if (!z.string().uuid().safeParse(params.entryId).success) {
+      return NextResponse.json({ error: 'History entry not found' }, { status: 404 });
+    }
+
+    const history = await getHistorySince(currentBuyer.id, params.entryId);
+    const version = reconstructVersion(currentBuyer, history, params.entryId);
+    if (!version) {
+      return NextResponse.json({ error: 'History entry not found' }, { status: 404 });
+    }
+
+    const diff = versionDiff(currentBuyer, version);
+    if (Object.keys(diff).length === 0) {
+      return NextResponse.json(currentBuyer);
+    }
+
+    // A revert is a status change like any other
+    if (diff.status) {
+      const statusError = transitionError(currentBuyer.status, diff.status.to);
+      if (statusError) {
+        return NextResponse.json({
+          error: statusError,
+          from: currentBuyer.status,
+          to: diff.status.to,
+          allowed: allowedTransitions(currentBuyer.status),
+        }, { status: 422 });
+      }
+    }
+
+    const changes = Object.fromEntries(Object.keys(diff).map((field) => [field, diff[field].to]));
+
+    // The restored fields must make a valid lead with the ones the revert keeps,
+    // as any edit must
+    const issues = storedBuyerIssues({ ...currentBuyer, ...toBuyerValues(changes) });
+    if (issues.length > 0) {
+      return NextResponse.json({ error: issues[0].message, details: issues }, { status: 422 });
+    }
+
+    const target = history[history.length - 1];
+
+    const updatedBuyer = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(buyers)
+        .set({
+          ...toBuyerValues(changes),
+          updatedAt: new Date(),
+        })
+        .where(eq(buyers.id, currentBuyer.id))
+        .returning();
+
+      await recordHistory(tx, {
+        buyerId: currentBuyer.id,
+        actorId: session.user.id,
+        action: 'update',
+        source: 'revert',
+        diff,
+        meta: { revertedTo: target.changedAt },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(updatedBuyer);
+  } catch (error) {
+    console.error('POST /api/buyers/[id]/history/[entryId]/revert error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { historyQuerySchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getHistoryPage } from '@/lib/history';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/buyers/[id]/history - Page through a buyer's full change history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [buyer] = await db
+      .select({ id: buyers.id })
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = historyQuerySchema.parse({
+      cursor: searchParams.get('cursor') || undefined,
+      limit: parseInt(searchParams.get('limit') || '20'),
+    });
+
+    const page = await getHistoryPage(buyer.id, query);
+
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('GET /api/buyers/[id]/history error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid parameters', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
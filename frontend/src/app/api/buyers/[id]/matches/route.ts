@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { getActiveMembership } from '@/lib/organizations';
+import { getPropertyMatchesForBuyer } from '@/lib/matching';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+
+// GET /api/buyers/[id]/matches - Available properties ranked for this lead
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read') || !can(membership, 'property:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [buyer] = await db
+      .select()
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    const data = await getPropertyMatchesForBuyer(buyer, 10);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('GET /api/buyers/[id]/matches error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
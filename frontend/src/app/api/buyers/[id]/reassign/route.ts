@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { reassignBuyerSchema } from '@/lib/validations';
+import { getActiveMembership, getMembership } from '@/lib/organizations';
+import { reassignBuyers } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// POST /api/buyers/[id]/reassign - Hand a lead over to another member
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:reassign')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { ownerId } = reassignBuyerSchema.parse(body);
+
+    const [buyer] = await db
+      .select({ id: buyers.id })
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    const newOwner = await getMembership(ownerId, membership.organizationId);
+    if (!newOwner || !can(newOwner, 'buyer:update')) {
+      return NextResponse.json({ error: 'The new owner must be a member of this organization who can work on leads' }, { status: 400 });
+    }
+
+    const reassigned = await reassignBuyers({
+      organizationId: membership.organizationId,
+      buyerIds: [buyer.id],
+      ownerId,
+      changedBy: session.user.id,
+    });
+
+    return NextResponse.json({ success: true, reassigned: reassigned.length });
+  } catch (error) {
+    console.error('POST /api/buyers/[id]/reassign error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
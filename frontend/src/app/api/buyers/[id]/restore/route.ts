@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { getActiveMembership } from '@/lib/organizations';
+import { recordHistory } from '@/lib/history';
+import { can } from '@/lib/permissions';
+import { and, eq, isNotNull } from 'drizzle-orm';
+
+// POST /api/buyers/[id]/restore - Bring a lead back from the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [trashedBuyer] = await db
+      .select()
+      .from(buyers)
+      .where(and(
+        eq(buyers.id, params.id),
+        eq(buyers.organizationId, membership.organizationId),
+        isNotNull(buyers.deletedAt)
+      ));
+
+    if (!trashedBuyer) {
+      return NextResponse.json({ error: 'Buyer not found in trash' }, { status: 404 });
+    }
+
+    // Whoever may delete a lead may also undo the deletion
+    if (!can(membership, 'buyer:delete', trashedBuyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const restoredBuyer = await db.transaction(async (tx) => {
+      const [restored] = await tx
+        .update(buyers)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(eq(buyers.id, trashedBuyer.id))
+        .returning();
+
+      await recordHistory(tx, {
+        buyerId: trashedBuyer.id,
+        actorId: session.user.id,
+        action: 'restore',
+        diff: { deletedAt: { from: trashedBuyer.deletedAt, to: null } },
+      });
+
+      return restored;
+    });
+
+    return NextResponse.json(restoredBuyer);
+  } catch (error) {
+    console.error('POST /api/buyers/[id]/restore error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
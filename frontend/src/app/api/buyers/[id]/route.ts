@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
-import { buyers, buyerHistory, users } from '@/lib/schema';
-import { updateBuyerSchema } from '@/lib/validations';
-import { eq, and, desc } from 'drizzle-orm';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { updateBuyerSchema, updateBuyerStatusSchema } from '@/lib/validations';
+import { eq, and } from 'drizzle-orm';
 import { z } from 'zod';
 import { check, RATE_LIMITS } from '@/lib/rateLimit';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { deletionDiff, diffFields, getHistoryPage, recordHistory } from '@/lib/history';
+import { allowedTransitions, clearedStageFields, transitionError } from '@/lib/status-transitions';
 
 // GET /api/buyers/[id] - Get single buyer
 export async function GET(
@@ -19,27 +24,22 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const [buyer] = await db
       .select()
       .from(buyers)
-      .where(eq(buyers.id, params.id));
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
 
     if (!buyer) {
       return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
     }
 
-    // Get history
-    const history = await db
-      .select({
-        id: buyerHistory.id,
-        changedAt: buyerHistory.changedAt,
-        diff: buyerHistory.diff,
-        changedBy: buyerHistory.changedBy,
-      })
-      .from(buyerHistory)
-      .where(eq(buyerHistory.buyerId, params.id))
-      .orderBy(desc(buyerHistory.changedAt))
-      .limit(5);
+    // Most recent changes; the full history is paged at /api/buyers/[id]/history
+    const { data: history } = await getHistoryPage(buyer.id, { limit: 5 });
 
     return NextResponse.json({ buyer, history });
   } catch (error) {
@@ -59,6 +59,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     // Rate limiting
     const rateLimit = await check(request, 'UPDATE_BUYER');
     if (!rateLimit.success) {
@@ -78,18 +83,18 @@ export async function PUT(
     const body = await request.json();
     const validatedData = updateBuyerSchema.parse(body);
 
-    // Get current buyer for ownership check and concurrency control
+    // Get current buyer (scoped to the caller's organization) for concurrency control
     const [currentBuyer] = await db
       .select()
       .from(buyers)
-      .where(eq(buyers.id, params.id));
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
 
     if (!currentBuyer) {
       return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
     }
 
-    // Check ownership
-    if (currentBuyer.ownerId !== session.user.id) {
+    // Agents may only edit their own leads; managers and admins any lead
+    if (!can(membership, 'buyer:update', currentBuyer)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
@@ -100,35 +105,41 @@ export async function PUT(
       }, { status: 409 });
     }
 
-    // Calculate diff for history
-    const diff: Record<string, { from: any; to: any }> = {};
-    Object.keys(validatedData).forEach(key => {
-      if (key !== 'id' && key !== 'updatedAt' && currentBuyer[key as keyof typeof currentBuyer] !== validatedData[key as keyof typeof validatedData]) {
-        diff[key] = {
-          from: currentBuyer[key as keyof typeof currentBuyer],
-          to: validatedData[key as keyof typeof validatedData],
-        };
-      }
-    });
+    // Enforce the pipeline's transition rules
+    const statusError = transitionError(currentBuyer.status, validatedData.status);
+    if (statusError) {
+      return NextResponse.json({
+        error: statusError,
+        from: currentBuyer.status,
+        to: validatedData.status,
+        allowed: allowedTransitions(currentBuyer.status),
+      }, { status: 422 });
+    }
+
+    const { visitedAt, ...fields } = validatedData;
+    const changes = {
+      ...fields,
+      ...(visitedAt !== undefined && { visitedAt: visitedAt ? new Date(visitedAt) : null }),
+      ...clearedStageFields(validatedData.status),
+    };
 
     // Update buyer
     const [updatedBuyer] = await db
       .update(buyers)
       .set({
-        ...validatedData,
+        ...changes,
         updatedAt: new Date(),
       })
       .where(eq(buyers.id, params.id))
       .returning();
 
     // Create history entry if there are changes
-    if (Object.keys(diff).length > 0) {
-      await db.insert(buyerHistory).values({
-        buyerId: params.id,
-        changedBy: session.user.id,
-        diff,
-      });
-    }
+    await recordHistory(db, {
+      buyerId: params.id,
+      actorId: session.user.id,
+      action: 'update',
+      diff: diffFields(currentBuyer, changes),
+    });
 
     return NextResponse.json(updatedBuyer);
   } catch (error) {
@@ -140,7 +151,98 @@ export async function PUT(
   }
 }
 
-// DELETE /api/buyers/[id] - Delete buyer
+// PATCH /api/buyers/[id] - Move buyer to another pipeline status
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const rateLimit = await check(request, 'UPDATE_BUYER');
+    if (!rateLimit.success) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const { status, updatedAt, visitedAt, ...stageData } = updateBuyerStatusSchema.parse(body);
+
+    const [currentBuyer] = await db
+      .select()
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!currentBuyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    if (!can(membership, 'buyer:update', currentBuyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Check concurrency (optimistic locking)
+    if (currentBuyer.updatedAt.toISOString() !== updatedAt) {
+      return NextResponse.json({ 
+        error: 'Record has been modified by another user. Please refresh and try again.' 
+      }, { status: 409 });
+    }
+
+    if (currentBuyer.status === status) {
+      return NextResponse.json(currentBuyer);
+    }
+
+    const statusError = transitionError(currentBuyer.status, status);
+    if (statusError) {
+      return NextResponse.json({
+        error: statusError,
+        from: currentBuyer.status,
+        to: status,
+        allowed: allowedTransitions(currentBuyer.status),
+      }, { status: 422 });
+    }
+
+    const changes = {
+      status,
+      ...stageData,
+      ...(visitedAt && { visitedAt: new Date(visitedAt) }),
+      ...clearedStageFields(status),
+    };
+
+    const [updatedBuyer] = await db
+      .update(buyers)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(buyers.id, params.id))
+      .returning();
+
+    await recordHistory(db, {
+      buyerId: params.id,
+      actorId: session.user.id,
+      action: 'update',
+      diff: diffFields(currentBuyer, changes),
+    });
+
+    return NextResponse.json(updatedBuyer);
+  } catch (error) {
+    console.error('PATCH /api/buyers/[id] error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/buyers/[id] - Move buyer to the trash
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -151,23 +253,40 @@ export async function DELETE(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Get current buyer for ownership check
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Get current buyer (scoped to the caller's organization)
     const [currentBuyer] = await db
       .select()
       .from(buyers)
-      .where(eq(buyers.id, params.id));
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
 
     if (!currentBuyer) {
       return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
     }
 
-    // Check ownership
-    if (currentBuyer.ownerId !== session.user.id) {
+    if (!can(membership, 'buyer:delete', currentBuyer)) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    // Delete buyer (history will be cascade deleted)
-    await db.delete(buyers).where(eq(buyers.id, params.id));
+    // Move the buyer to the trash; the purge job removes it for good after the retention period
+    const deletedAt = new Date();
+    await db.transaction(async (tx) => {
+      await tx
+        .update(buyers)
+        .set({ deletedAt, deletedBy: session.user.id })
+        .where(eq(buyers.id, params.id));
+
+      await recordHistory(tx, {
+        buyerId: params.id,
+        actorId: session.user.id,
+        action: 'delete',
+        diff: deletionDiff(currentBuyer, deletedAt),
+      });
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers, tasks } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { updateTaskSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getAssignableUserIds } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Load a task together with its lead, scoped to the caller's organization
+async function getTaskWithBuyer(buyerId: string, taskId: string, organizationId: string) {
+  const [row] = await db
+    .select({ task: tasks, buyer: buyers })
+    .from(tasks)
+    .innerJoin(buyers, eq(tasks.buyerId, buyers.id))
+    .where(and(
+      eq(tasks.id, taskId),
+      eq(tasks.buyerId, buyerId),
+      eq(tasks.organizationId, organizationId),
+      notTrashed()
+    ));
+
+  return row ?? null;
+}
+
+// PATCH /api/buyers/[id]/tasks/[taskId] - Update a task or mark it done
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const row = await getTaskWithBuyer(params.id, params.taskId, membership.organizationId);
+    if (!row) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const { done, dueAt, ...changes } = updateTaskSchema.parse(body);
+
+    // Whoever may work the lead can edit its tasks; assignees may always tick off their own
+    const canEdit = can(membership, 'buyer:update', row.buyer);
+    const isOwnCompletion = row.task.assigneeId === session.user.id
+      && Object.keys(changes).length === 0
+      && dueAt === undefined;
+    if (!canEdit && !isOwnCompletion) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (changes.assigneeId) {
+      const assignable = await getAssignableUserIds(membership.organizationId);
+      if (!assignable.has(changes.assigneeId)) {
+        return NextResponse.json({ error: 'Tasks can only be assigned to members who can work on leads' }, { status: 400 });
+      }
+    }
+
+    const [task] = await db
+      .update(tasks)
+      .set({
+        ...changes,
+        ...(dueAt !== undefined ? { dueAt: new Date(dueAt) } : {}),
+        ...(done !== undefined ? { done, completedAt: done ? new Date() : null } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(tasks.id, params.taskId))
+      .returning();
+
+    return NextResponse.json(task);
+  } catch (error) {
+    console.error('PATCH /api/buyers/[id]/tasks/[taskId] error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/buyers/[id]/tasks/[taskId] - Delete a task
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; taskId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const row = await getTaskWithBuyer(params.id, params.taskId, membership.organizationId);
+    if (!row) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 });
+    }
+
+    if (!can(membership, 'buyer:update', row.buyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await db.delete(tasks).where(eq(tasks.id, params.taskId));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/buyers/[id]/tasks/[taskId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
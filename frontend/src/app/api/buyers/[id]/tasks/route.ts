@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers, tasks, users } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { taskSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getAssignableUserIds } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { and, asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/buyers/[id]/tasks - List a lead's follow-up tasks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = await db
+      .select({
+        id: tasks.id,
+        type: tasks.type,
+        title: tasks.title,
+        dueAt: tasks.dueAt,
+        done: tasks.done,
+        completedAt: tasks.completedAt,
+        assignee: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        },
+      })
+      .from(tasks)
+      .innerJoin(users, eq(tasks.assigneeId, users.id))
+      .where(and(eq(tasks.buyerId, params.id), eq(tasks.organizationId, membership.organizationId)))
+      .orderBy(asc(tasks.done), asc(tasks.dueAt));
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('GET /api/buyers/[id]/tasks error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/buyers/[id]/tasks - Schedule a follow-up task on a lead
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [buyer] = await db
+      .select()
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    // Scheduling follow-ups counts as working the lead
+    if (!can(membership, 'buyer:update', buyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = taskSchema.parse(body);
+
+    // Tasks default to the lead's owner
+    const assigneeId = validatedData.assigneeId ?? buyer.ownerId;
+    const assignable = await getAssignableUserIds(membership.organizationId);
+    if (!assignable.has(assigneeId)) {
+      return NextResponse.json({ error: 'Tasks can only be assigned to members who can work on leads' }, { status: 400 });
+    }
+
+    const [task] = await db
+      .insert(tasks)
+      .values({
+        buyerId: buyer.id,
+        organizationId: membership.organizationId,
+        type: validatedData.type,
+        title: validatedData.title,
+        dueAt: new Date(validatedData.dueAt),
+        assigneeId,
+        createdBy: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json(task, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/buyers/[id]/tasks error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers, siteVisits } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { buildCalendar } from '@/lib/ics';
+import { visitToIcsEvent } from '@/lib/visits';
+import { and, eq } from 'drizzle-orm';
+
+// GET /api/buyers/[id]/visits/[visitId]/ics - Download a single visit as an .ics file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; visitId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [row] = await db
+      .select({
+        visit: siteVisits,
+        buyer: {
+          fullName: buyers.fullName,
+          phone: buyers.phone,
+        },
+      })
+      .from(siteVisits)
+      .innerJoin(buyers, eq(siteVisits.buyerId, buyers.id))
+      .where(and(
+        eq(siteVisits.id, params.visitId),
+        eq(siteVisits.buyerId, params.id),
+        eq(siteVisits.organizationId, membership.organizationId),
+        notTrashed()
+      ));
+
+    if (!row) {
+      return NextResponse.json({ error: 'Visit not found' }, { status: 404 });
+    }
+
+    const calendar = buildCalendar('Site visit', [visitToIcsEvent({ ...row.visit, buyer: row.buyer })]);
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename=visit-${row.visit.id}.ics`,
+        'Cache-Control': 'no-store, max-age=0'
+      }
+    });
+  } catch (error) {
+    console.error('GET /api/buyers/[id]/visits/[visitId]/ics error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers, siteVisits } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { updateVisitSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getAssignableUserIds } from '@/lib/assignment';
+import { recordHistory, type HistoryDiff } from '@/lib/history';
+import { can } from '@/lib/permissions';
+import { allowedTransitions, transitionError } from '@/lib/status-transitions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Load a visit together with its lead, scoped to the caller's organization
+async function getVisitWithBuyer(buyerId: string, visitId: string, organizationId: string) {
+  const [row] = await db
+    .select({ visit: siteVisits, buyer: buyers })
+    .from(siteVisits)
+    .innerJoin(buyers, eq(siteVisits.buyerId, buyers.id))
+    .where(and(
+      eq(siteVisits.id, visitId),
+      eq(siteVisits.buyerId, buyerId),
+      eq(siteVisits.organizationId, organizationId),
+      notTrashed()
+    ));
+
+  return row ?? null;
+}
+
+// PATCH /api/buyers/[id]/visits/[visitId] - Reschedule, complete or cancel a visit
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; visitId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const row = await getVisitWithBuyer(params.id, params.visitId, membership.organizationId);
+    if (!row) {
+      return NextResponse.json({ error: 'Visit not found' }, { status: 404 });
+    }
+    const { visit, buyer } = row;
+
+    const body = await request.json();
+    const { status, outcomeNotes, markVisited, scheduledAt, ...changes } = updateVisitSchema.parse(body);
+
+    // Whoever may work the lead can edit its visits; the visiting agent may
+    // always record the outcome of their own visit
+    const canEdit = can(membership, 'buyer:update', buyer);
+    const isOwnOutcome = visit.agentId === session.user.id
+      && Object.keys(changes).length === 0
+      && scheduledAt === undefined;
+    if (!canEdit && !isOwnOutcome) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (changes.agentId) {
+      const assignable = await getAssignableUserIds(membership.organizationId);
+      if (!assignable.has(changes.agentId)) {
+        return NextResponse.json({ error: 'Visits can only be assigned to members who can work on leads' }, { status: 400 });
+      }
+    }
+
+    const completing = status === 'completed' && visit.status !== 'completed';
+    const movesLead = completing && markVisited && buyer.status !== 'Visited';
+
+    const statusError = movesLead ? transitionError(buyer.status, 'Visited') : null;
+    if (statusError) {
+      return NextResponse.json({
+        error: statusError,
+        from: buyer.status,
+        to: 'Visited',
+        allowed: allowedTransitions(buyer.status),
+      }, { status: 422 });
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      const [updatedVisit] = await tx
+        .update(siteVisits)
+        .set({
+          ...changes,
+          ...(scheduledAt !== undefined ? { scheduledAt: new Date(scheduledAt) } : {}),
+          ...(status !== undefined ? { status } : {}),
+          ...(outcomeNotes !== undefined ? { outcomeNotes } : {}),
+          ...(completing ? { completedAt: new Date() } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(siteVisits.id, visit.id))
+        .returning();
+
+      if (status !== undefined && status !== visit.status) {
+        const diff: HistoryDiff = {};
+
+        // Completing a visit can move the lead along to Visited in the same step
+        if (movesLead) {
+          await tx
+            .update(buyers)
+            .set({ status: 'Visited', visitedAt: visit.scheduledAt, updatedAt: new Date() })
+            .where(eq(buyers.id, buyer.id));
+          diff.status = { from: buyer.status, to: 'Visited' };
+          diff.visitedAt = { from: buyer.visitedAt, to: visit.scheduledAt };
+        }
+
+        await recordHistory(tx, {
+          buyerId: buyer.id,
+          actorId: session.user.id,
+          action: 'update',
+          source: 'visit',
+          diff,
+          meta: { siteVisit: { id: visit.id, from: visit.status, to: status } },
+        });
+      }
+
+      return updatedVisit;
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('PATCH /api/buyers/[id]/visits/[visitId] error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/buyers/[id]/visits/[visitId] - Delete a visit
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; visitId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const row = await getVisitWithBuyer(params.id, params.visitId, membership.organizationId);
+    if (!row) {
+      return NextResponse.json({ error: 'Visit not found' }, { status: 404 });
+    }
+
+    if (!can(membership, 'buyer:update', row.buyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await db.delete(siteVisits).where(eq(siteVisits.id, params.visitId));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/buyers/[id]/visits/[visitId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
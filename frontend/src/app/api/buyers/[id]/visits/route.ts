@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers, siteVisits, users } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { visitSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getAssignableUserIds } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { and, desc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/buyers/[id]/visits - List a lead's site visits
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = await db
+      .select({
+        id: siteVisits.id,
+        location: siteVisits.location,
+        scheduledAt: siteVisits.scheduledAt,
+        durationMinutes: siteVisits.durationMinutes,
+        status: siteVisits.status,
+        outcomeNotes: siteVisits.outcomeNotes,
+        agent: {
+          id: users.id,
+          name: users.name,
+          email: users.email,
+        },
+      })
+      .from(siteVisits)
+      .innerJoin(users, eq(siteVisits.agentId, users.id))
+      .where(and(eq(siteVisits.buyerId, params.id), eq(siteVisits.organizationId, membership.organizationId)))
+      .orderBy(desc(siteVisits.scheduledAt));
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('GET /api/buyers/[id]/visits error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/buyers/[id]/visits - Schedule a site visit for a lead
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [buyer] = await db
+      .select()
+      .from(buyers)
+      .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    if (!can(membership, 'buyer:update', buyer)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = visitSchema.parse(body);
+
+    // Visits default to the lead's owner
+    const agentId = validatedData.agentId ?? buyer.ownerId;
+    const assignable = await getAssignableUserIds(membership.organizationId);
+    if (!assignable.has(agentId)) {
+      return NextResponse.json({ error: 'Visits can only be assigned to members who can work on leads' }, { status: 400 });
+    }
+
+    const [visit] = await db
+      .insert(siteVisits)
+      .values({
+        buyerId: buyer.id,
+        organizationId: membership.organizationId,
+        agentId,
+        location: validatedData.location,
+        scheduledAt: new Date(validatedData.scheduledAt),
+        durationMinutes: validatedData.durationMinutes,
+        createdBy: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json(visit, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/buyers/[id]/visits error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { BULK_LIMIT, bulkActionSchema } from '@/lib/validations';
+import { buyerConditions } from '@/lib/buyer-filters';
+import { getActiveMembership, getMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { deletionDiff, diffFields, recordHistory, type HistoryEvent } from '@/lib/history';
+import { bulkChanges, bulkPermissions, bulkSkip, bulkSummary, type BulkResult, type BulkSkip } from '@/lib/bulk';
+import { buyersCsv } from '@/lib/export';
+import { and, desc, eq, inArray, lte } from 'drizzle-orm';
+import { z } from 'zod';
+
+// POST /api/buyers/bulk - Change status, add or remove tags, reassign, export or delete many buyers at once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const data = bulkActionSchema.parse(body);
+
+    // Whether the role may ever do this; ownership is checked lead by lead
+    if (!can(membership, bulkPermissions[data.action])) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    if (data.action === 'reassign') {
+      const newOwner = await getMembership(data.ownerId, membership.organizationId);
+      if (!newOwner || !can(newOwner, 'buyer:update')) {
+        return NextResponse.json({ error: 'The new owner must be a member of this organization who can work on leads' }, { status: 400 });
+      }
+    }
+
+    // Picked leads, or everything matching the filters that existed when the list was loaded
+    const scope = data.ids
+      ? and(eq(buyers.organizationId, membership.organizationId), inArray(buyers.id, data.ids.map(({ id }) => id)), notTrashed())
+      : and(buyerConditions(membership.organizationId, data.filters!), lte(buyers.createdAt, new Date(data.asOf!)));
+    const versions = new Map((data.ids ?? []).map(({ id, updatedAt }) => [id, updatedAt]));
+    const versionOf = (id: string) => data.ids ? { updatedAt: versions.get(id)! } : { asOf: data.asOf! };
+
+    const skipped: BulkSkip[] = [];
+    const tooMany = () => NextResponse.json({
+      error: `More than ${BULK_LIMIT} leads match these filters. Narrow them down and try again.`
+    }, { status: 400 });
+
+    if (data.action === 'export') {
+      const targets = await db.select().from(buyers).where(scope).orderBy(desc(buyers.updatedAt)).limit(BULK_LIMIT + 1);
+      if (targets.length > BULK_LIMIT) {
+        return tooMany();
+      }
+
+      const exported = targets.filter((buyer) => !bulkSkip(buyer, membership, 'export', versionOf(buyer.id)));
+      return new NextResponse(buyersCsv(exported), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename=buyers-${Date.now()}.csv`,
+          'Cache-Control': 'no-store, max-age=0'
+        }
+      });
+    }
+
+    const now = new Date();
+    let succeeded = 0;
+    let unchanged = 0;
+
+    const applied = await db.transaction(async (tx) => {
+      // Lock the selection so nothing changes between the checks and the writes
+      const targets = await tx.select().from(buyers).where(scope).limit(BULK_LIMIT + 1).for('update');
+      if (targets.length > BULK_LIMIT) {
+        return false;
+      }
+
+      const found = new Set(targets.map((buyer) => buyer.id));
+      versions.forEach((_, id) => {
+        if (!found.has(id)) {
+          skipped.push({ id, fullName: null, reason: 'not_found', message: 'Lead not found or already in the trash' });
+        }
+      });
+
+      const events: HistoryEvent[] = [];
+
+      for (const buyer of targets) {
+        const skip = bulkSkip(buyer, membership, data.action, versionOf(buyer.id));
+        if (skip) {
+          skipped.push(skip);
+          continue;
+        }
+
+        if (data.action === 'delete') {
+          await tx
+            .update(buyers)
+            .set({ deletedAt: now, deletedBy: session.user.id })
+            .where(eq(buyers.id, buyer.id));
+
+          events.push({
+            buyerId: buyer.id,
+            actorId: session.user.id,
+            action: 'delete',
+            source: 'bulk',
+            diff: deletionDiff(buyer, now),
+          });
+          succeeded++;
+          continue;
+        }
+
+        const result = bulkChanges(buyer, data);
+        if ('error' in result) {
+          skipped.push({ id: buyer.id, fullName: buyer.fullName, reason: 'invalid', message: result.error });
+          continue;
+        }
+
+        const diff = diffFields(buyer, result.changes);
+        if (Object.keys(diff).length === 0) {
+          unchanged++;
+          continue;
+        }
+
+        await tx
+          .update(buyers)
+          .set({ ...result.changes, updatedAt: now })
+          .where(eq(buyers.id, buyer.id));
+
+        events.push({ buyerId: buyer.id, actorId: session.user.id, action: 'update', source: 'bulk', diff });
+        succeeded++;
+      }
+
+      await recordHistory(tx, events);
+      return true;
+    });
+
+    if (!applied) {
+      return tooMany();
+    }
+
+    const summary: BulkResult = { action: data.action, succeeded, unchanged, skipped };
+
+    // 207 when some leads were left out, so the list can show which and why
+    return NextResponse.json(
+      { ...summary, message: bulkSummary(summary) },
+      { status: skipped.length > 0 ? 207 : 200 }
+    );
+  } catch (error) {
+    console.error('POST /api/buyers/bulk error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
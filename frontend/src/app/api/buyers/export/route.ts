@@ -2,11 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { buyers } from '@/lib/schema';
-import { and, eq, ilike, or } from 'drizzle-orm';
+import { buyerFiltersSchema, searchSchema } from '@/lib/validations';
+import { buyerConditions } from '@/lib/buyer-filters';
+import { buyerOrderBy } from '@/lib/search';
+import { buyersCsv } from '@/lib/export';
+import { buyersWorkbook, XLSX_CONTENT_TYPE } from '@/lib/spreadsheet';
+import { z } from 'zod';
 import postgres from 'postgres';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import * as schema from '@/lib/schema';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
 
+// GET /api/buyers/export - Download the filtered buyers as CSV, or as Excel with ?format=xlsx
 export async function GET(request: NextRequest) {
   // Create fresh database connection
   const client = postgres(process.env.DATABASE_URL!, { prepare: false });
@@ -18,39 +26,35 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { searchParams } = new URL(request.url);
-    
-    // Build query conditions
-    const conditions = [eq(buyers.ownerId, session.user.id)];
-    
-    if (searchParams.get('query')) {
-      conditions.push(
-        or(
-          ilike(buyers.fullName, `%${searchParams.get('query')}%`),
-          ilike(buyers.email, `%${searchParams.get('query')}%`),
-          ilike(buyers.phone, `%${searchParams.get('query')}%`)
-        )
-      );
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:export')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
+
+    const { searchParams } = new URL(request.url);
+    // Same filters and order as the buyer list, so the export matches what is on screen
+    const filters = buyerFiltersSchema
+      .merge(searchSchema.pick({ sortBy: true, sortOrder: true }))
+      .parse(Object.fromEntries(searchParams.entries()));
     
     // Execute fresh query
-    const buyersData = await db.select().from(buyers).where(and(...conditions));
+    const buyersData = await db
+      .select()
+      .from(buyers)
+      .where(buyerConditions(membership.organizationId, filters))
+      .orderBy(...buyerOrderBy(filters));
 
-    // Generate CSV
-    const headers = ['fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 
-                    'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 
-                    'status', 'notes', 'tags', 'createdAt', 'updatedAt'];
-    
-    const csvRows = buyersData.map(buyer => 
-      headers.map(header => {
-        const value = buyer[header as keyof typeof buyer] ?? '';
-        const strValue = Array.isArray(value) ? value.join(',') : String(value);
-        return /[",\n]/.test(strValue) ? `"${strValue.replace(/"/g, '""')}"` : strValue;
-      })
-    );
-    
-    csvRows.unshift(headers);
-    const csvContent = csvRows.map(row => row.join(',')).join('\n');
+    if (searchParams.get('format') === 'xlsx') {
+      return new NextResponse(await buyersWorkbook(buyersData), {
+        headers: {
+          'Content-Type': XLSX_CONTENT_TYPE,
+          'Content-Disposition': `attachment; filename=buyers-${Date.now()}.xlsx`,
+          'Cache-Control': 'no-store, max-age=0'
+        }
+      });
+    }
+
+    const csvContent = buyersCsv(buyersData);
 
     // Create response with no-cache headers
     return new NextResponse(csvContent, {
@@ -61,6 +65,13 @@ export async function GET(request: NextRequest) {
       }
     });
     
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid parameters', details: error.errors }, { status: 400 });
+    }
+
+    console.error('GET /api/buyers/export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   } finally {
     await client.end();
   }
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { failedJobRows, findImportJob } from '@/lib/import-jobs';
+import { importErrorsCsv } from '@/lib/export';
+
+// GET /api/buyers/import/jobs/[id]/errors - The rows a background import skipped and why,
+// as a CSV that can be fixed and imported again
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const job = await findImportJob(membership.organizationId, params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    const csv = importErrorsCsv(await failedJobRows(job.id));
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename=import-errors-${job.id}.csv`,
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/buyers/import/jobs/[id]/errors error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
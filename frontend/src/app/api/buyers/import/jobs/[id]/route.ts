@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { findImportJob } from '@/lib/import-jobs';
+
+// GET /api/buyers/import/jobs/[id] - Progress of a background import, polled by the import page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const job = await findImportJob(membership.organizationId, params.id);
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('GET /api/buyers/import/jobs/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { recentImportJobs } from '@/lib/import-jobs';
+
+// GET /api/buyers/import/jobs - The organization's latest background imports
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const jobs = await recentImportJobs(membership.organizationId);
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('GET /api/buyers/import/jobs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { importMappings } from '@/lib/schema';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+
+// DELETE /api/buyers/import/mappings/[id] - Delete a saved column mapping
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [mapping] = await db
+      .delete(importMappings)
+      .where(and(
+        eq(importMappings.id, params.id),
+        eq(importMappings.organizationId, membership.organizationId)
+      ))
+      .returning({ id: importMappings.id });
+
+    if (!mapping) {
+      return NextResponse.json({ error: 'Import mapping not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/buyers/import/mappings/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { importMappings } from '@/lib/schema';
+import { importMappingSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/buyers/import/mappings - List the organization's saved column mappings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const mappings = await db
+      .select()
+      .from(importMappings)
+      .where(eq(importMappings.organizationId, membership.organizationId))
+      .orderBy(asc(importMappings.name));
+
+    return NextResponse.json({ data: mappings });
+  } catch (error) {
+    console.error('GET /api/buyers/import/mappings error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/buyers/import/mappings - Save a column mapping, replacing the one of the same name
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = importMappingSchema.parse(body);
+
+    const [saved] = await db
+      .insert(importMappings)
+      .values({
+        ...validatedData,
+        organizationId: membership.organizationId,
+        createdBy: session.user.id,
+      })
+      .onConflictDoUpdate({
+        target: [importMappings.organizationId, importMappings.name],
+        set: { mapping: validatedData.mapping, updatedAt: new Date() },
+      })
+      .returning();
+
+    return NextResponse.json(saved, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/buyers/import/mappings error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
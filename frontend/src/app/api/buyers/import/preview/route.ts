@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { readImportFile } from '@/lib/import-file';
+import { columnValues } from '@/lib/import-mapping';
+
+// Distinct values shown per column; enough to spot every city or property type
+const PREVIEW_VALUES = 50;
+
+// POST /api/buyers/import/preview - Headers and values of a file, for mapping its columns before importing
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    const parsed = await readImportFile(file);
+    if ('error' in parsed) {
+      return NextResponse.json(parsed, { status: 400 });
+    }
+
+    const values = columnValues(parsed.rows.map((row) => row.values), PREVIEW_VALUES);
+
+    return NextResponse.json({
+      headers: Object.keys(values),
+      values,
+      rowCount: parsed.rows.length,
+    });
+  } catch (error) {
+    console.error('POST /api/buyers/import/preview error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,23 +1,74 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { db } from '@/lib/db';
-import { buyers, buyerHistory } from '@/lib/schema';
-import { csvBuyerSchema, cityEnum, propertyTypeEnum, bhkEnum, purposeEnum, timelineEnum, sourceEnum, statusEnum } from '@/lib/validations';
-import Papa from 'papaparse';
+import {
+  columnMappingSchema,
+  importFieldEnum,
+  importOptionsSchema,
+  importRowsSchema,
+  type ColumnMapping,
+  type ImportOptions,
+} from '@/lib/validations';
 import { z } from 'zod';
-import { eq, and } from 'drizzle-orm/expressions';
-import { or } from 'drizzle-orm';
-import { v4 as uuidv4 } from 'uuid';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { notifySavedSearchMatches } from '@/lib/alerts';
+import { parseBudget } from '@/lib/utils';
+import { readImportFile } from '@/lib/import-file';
+import { applyMapping } from '@/lib/import-mapping';
+import { checkImportBatch, importCheckedRows, leadUpdates } from '@/lib/importer';
+import { MAX_IMPORT_ROWS, SYNC_IMPORT_ROWS, createImportJob } from '@/lib/import-jobs';
 
 interface ImportError {
+  // Sheet of an Excel import; CSV files have just the one
+  sheet?: string;
   row: number;
   field?: string;
   message: string;
   data?: any;
 }
 
-// POST /api/buyers/import - Import buyers from CSV
+// Keep the known columns of a parsed row, with budgets in rupees and tags as a list
+function cleanImportRow(row: Record<string, unknown>) {
+  const cleanRow: any = {};
+
+  // Process each field in the row
+  Object.entries(row).forEach(([key, value]) => {
+    const cleanKey = key.trim();
+
+    // Skip empty keys and internal fields
+    if (!cleanKey || cleanKey.startsWith('__')) {
+      return;
+    }
+
+    // Only include fields that are in our schema; anything else in the file is ignored
+    if (importFieldEnum.safeParse(cleanKey).success) {
+      // Handle special cases for each field type
+      if (value === null || value === undefined || value === '') {
+        cleanRow[cleanKey] = undefined;
+      } else if (cleanKey === 'tags') {
+        // Ensure tags is an array
+        if (Array.isArray(value)) {
+          cleanRow[cleanKey] = value;
+        } else if (typeof value === 'string') {
+          cleanRow[cleanKey] = value.split(',').map((t: string) => t.trim()).filter(Boolean);
+        } else {
+          cleanRow[cleanKey] = [];
+        }
+      } else if ((cleanKey === 'budgetMin' || cleanKey === 'budgetMax') && value) {
+        // Convert budget fields to numbers
+        cleanRow[cleanKey] = parseBudget(value as string | number) ?? value;
+      } else {
+        cleanRow[cleanKey] = value;
+      }
+    }
+  });
+
+  return cleanRow;
+}
+
+// POST /api/buyers/import - Import buyers from CSV or Excel (.xlsx), checking them first on a dry run;
+// files over SYNC_IMPORT_ROWS rows are queued as a background job
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -25,267 +76,135 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-
-    if (!file) {
-      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
     }
 
-    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-      return NextResponse.json({ error: 'File must be a CSV' }, { status: 400 });
-    }
+    // Every row with where it came from, for error reports
+    let rows: Array<{ sheet?: string; rowNumber: number; data: any }>;
+    let dryRun: boolean;
+    // What to do with rows matching an existing lead
+    let options: ImportOptions;
+    // Only uploaded files (not rows sent back from a dry run) can become jobs
+    let fileName = '';
+
+    if (request.headers.get('content-type')?.includes('application/json')) {
+      // Rows of a dry run, as fixed and approved in the browser
+      const body = importRowsSchema.parse(await request.json());
+      dryRun = body.dryRun;
+      options = { mode: body.mode, matchBy: body.matchBy };
+      rows = body.rows.map(({ sheet, rowNumber, values }) => ({ sheet, rowNumber, data: cleanImportRow(values) }));
+    } else {
+      const formData = await request.formData();
+      const file = formData.get('file') as File;
+
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
 
-    let text = await file.text();
-    
-    // Clean up the CSV text - remove empty lines and trim whitespace
-    text = text
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0) // Remove empty lines
-      .map((line, index) => {
-        // For data rows (index > 0), ensure we don't have trailing commas
-        if (index > 0 && line.endsWith(',')) {
-          return line.slice(0, -1);
-        }
-        return line;
-      })
-      .join('\n');
-    
-    // Parse CSV with improved error handling
-    const parseResult = Papa.parse(text, {
-      header: true,
-      skipEmptyLines: true,
-      transformHeader: (header) => header.trim(),
-      transform: (value, header) => {
-        // Skip if header is empty (can happen with trailing commas)
-        if (!header) return undefined;
-        
-        // Trim all string values
-        if (typeof value === 'string') {
-          value = value.trim();
-          // Convert empty strings to null for optional fields
-          if (value === '') return null;
-          // Convert numeric strings to numbers for budget fields
-          if ((header === 'budgetMin' || header === 'budgetMax') && value) {
-            const num = Number(value.replace(/[^0-9.-]+/g, ''));
-            return isNaN(num) ? null : num;
-          }
-          // Convert tags string to array
-          if (header === 'tags' && value) {
-            return value.split(',').map(tag => tag.trim()).filter(Boolean);
-          }
-        }
-        return value;
+      const parsed = await readImportFile(file);
+      if ('error' in parsed) {
+        return NextResponse.json(parsed, { status: 400 });
       }
-    });
-    
-    // Process each row to clean up the data
-    parseResult.data = parseResult.data.map((row: any) => {
-      const cleanRow: any = {};
-      
-      // Only include fields that are defined in our schema
-      const schemaFields = ['fullName', 'email', 'phone', 'city', 'propertyType', 'bhk', 
-                          'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 
-                          'status', 'notes', 'tags'];
-      
-      // Process each field in the row
-      Object.entries(row).forEach(([key, value]) => {
-        const cleanKey = key.trim();
-        
-        // Skip empty keys and internal fields
-        if (!cleanKey || cleanKey.startsWith('__')) {
-          return;
-        }
-        
-        // Only include fields that are in our schema
-        if (schemaFields.includes(cleanKey)) {
-          // Handle special cases for each field type
-          if (value === null || value === undefined || value === '') {
-            cleanRow[cleanKey] = undefined;
-          } else if (cleanKey === 'tags') {
-            // Ensure tags is an array
-            if (Array.isArray(value)) {
-              cleanRow[cleanKey] = value;
-            } else if (typeof value === 'string') {
-              cleanRow[cleanKey] = value.split(',').map((t: string) => t.trim()).filter(Boolean);
-            } else {
-              cleanRow[cleanKey] = [];
-            }
-          } else if ((cleanKey === 'budgetMin' || cleanKey === 'budgetMax') && value) {
-            // Convert budget fields to numbers
-            const num = Number(String(value).replace(/[^0-9.-]+/g, ''));
-            cleanRow[cleanKey] = isNaN(num) ? undefined : num;
-          } else {
-            cleanRow[cleanKey] = value;
-          }
-        }
-      });
-      
-      return cleanRow;
-    });
 
-    if (parseResult.errors.length > 0) {
-      console.error('CSV parsing errors:', parseResult.errors);
-      // Only fail on critical errors, not on field mismatch
-      const criticalErrors = parseResult.errors.filter(
-        (error: any) => error.type !== 'FieldMismatch' || 
-                       (error.type === 'FieldMismatch' && error.code !== 'TooManyFields')
-      );
-      
-      if (criticalErrors.length > 0) {
-        return NextResponse.json({ 
-          error: 'CSV parsing failed', 
-          details: criticalErrors,
-          message: 'Error parsing CSV file. Please check the file format and try again.'
-        }, { status: 400 });
+      // Files laid out differently come with a mapping from their columns to ours
+      let mapping: ColumnMapping | null = null;
+      const mappingField = formData.get('mapping');
+      if (typeof mappingField === 'string') {
+        try {
+          mapping = columnMappingSchema.parse(JSON.parse(mappingField));
+        } catch (error) {
+          return NextResponse.json({
+            error: 'Invalid column mapping',
+            details: error instanceof z.ZodError ? error.errors : undefined
+          }, { status: 400 });
+        }
       }
-      
-      // For non-critical errors like extra fields, just log them
-      console.warn('Non-critical CSV parsing issues:', parseResult.errors);
+
+      dryRun = formData.get('dryRun') === 'true';
+      options = importOptionsSchema.parse({
+        mode: formData.get('mode') ?? undefined,
+        matchBy: formData.get('matchBy') ?? undefined,
+      });
+      fileName = file.name;
+      rows = parsed.rows.map(({ sheet, rowNumber, values }) => ({
+        sheet,
+        rowNumber,
+        data: cleanImportRow(mapping ? applyMapping(values, mapping) : values),
+      }));
     }
 
-    const rows = parseResult.data as any[];
-    
     if (rows.length === 0) {
-      return NextResponse.json({ error: 'CSV file is empty' }, { status: 400 });
+      return NextResponse.json({ error: 'The file has no rows to import' }, { status: 400 });
     }
 
-    if (rows.length > 200) {
+    if (rows.length > MAX_IMPORT_ROWS) {
       return NextResponse.json({ 
-        error: 'CSV file too large. Maximum 200 rows allowed.' 
+        error: `File too large. Maximum ${MAX_IMPORT_ROWS.toLocaleString('en-IN')} rows allowed.` 
       }, { status: 400 });
     }
 
-    // Validate each row
-    const validRows: Array<{
-      id: string;
-      ownerId: string;
-      fullName: string;
-      email?: string;
-      phone: string;
-      city: string;
-      propertyType: string;
-      bhk?: string;
-      purpose: string;
-      budgetMin?: number;
-      budgetMax?: number;
-      timeline: string;
-      source: string;
-      status: string;
-      notes?: string;
-      tags: string[];
-      createdAt: Date;
-      updatedAt: Date;
-    }> = [];
-    
-    const errors: ImportError[] = [];
-    const seenPhones = new Set<string>();
-    const seenEmails = new Set<string>();
+    if (rows.length > SYNC_IMPORT_ROWS) {
+      if (dryRun || !fileName) {
+        return NextResponse.json({
+          error: `Rows can be checked ${SYNC_IMPORT_ROWS} at a time. Import bigger files directly and download the error report afterwards.`
+        }, { status: 400 });
+      }
 
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const rowNumber = i + 2; // +2 because of header row and 0-based index
-      let hasError = false;
+      // Big files are queued for the import-jobs cron rather than processed
+      // here, where a serverless function may be frozen once it has answered
+      const job = await createImportJob(membership.organizationId, session.user.id, fileName, rows, options);
 
-      try {
-        // Transform the row data
-        const transformedRow = {
-          fullName: String(row.fullName || '').trim(),
-          email: row.email ? String(row.email).trim().toLowerCase() : '',
-          phone: String(row.phone || '').trim(),
-          city: String(row.city || '').trim(),
-          propertyType: String(row.propertyType || '').trim(),
-          bhk: row.bhk ? String(row.bhk).trim() : undefined,
-          purpose: String(row.purpose || '').trim(),
-          budgetMin: row.budgetMin ? Number(row.budgetMin) : undefined,
-          budgetMax: row.budgetMax ? Number(row.budgetMax) : undefined,
-          timeline: String(row.timeline || '').trim(),
-          source: String(row.source || '').trim(),
-          status: row.status ? String(row.status).trim() : 'New',
-          notes: row.notes ? String(row.notes).trim() : '',
-          tags: row.tags ? String(row.tags).split(',').map(tag => tag.trim()).filter(Boolean) : [],
-        };
+      return NextResponse.json({ jobId: job.id }, { status: 202 });
+    }
 
-        // Check for duplicate phone/email in the current import
-        if (transformedRow.phone && seenPhones.has(transformedRow.phone)) {
-          throw new Error(`Duplicate phone number in row ${rowNumber}`);
-        }
-        
-        if (transformedRow.email && seenEmails.has(transformedRow.email)) {
-          throw new Error(`Duplicate email in row ${rowNumber}`);
-        }
+    const checks = await checkImportBatch(membership.organizationId, rows, options);
+
+    if (dryRun) {
+      const ready = checks.filter((row) => row.errors.length === 0).length;
+      const updates = leadUpdates(checks).length;
+      return NextResponse.json({
+        dryRun: true,
+        message: `${ready} of ${checks.length} ${checks.length === 1 ? 'row is' : 'rows are'} ready to import`
+          + (updates > 0 ? `, ${updates} of them ${options.mode === 'merge' ? 'merging into' : 'updating'} existing buyers` : ''),
+        rows: checks.map(({ buyer, update, ...row }) => row),
+        validCount: ready,
+        totalCount: checks.length,
+      });
+    }
 
-        // Validate the row against the schema
-        const validatedRow = csvBuyerSchema.parse(transformedRow);
-        
-        // Check for existing records with the same phone or email
-        const existing = await db.query.buyers.findFirst({
-          where: or(
-            and(eq(buyers.phone, validatedRow.phone), eq(buyers.ownerId, session.user.id)),
-            validatedRow.email ? and(eq(buyers.email, validatedRow.email), eq(buyers.ownerId, session.user.id)) : undefined
-          )
-        });
+    let imported: string[];
+    let updated: string[];
+    try {
+      const written = await importCheckedRows(membership.organizationId, session.user.id, checks);
+      imported = written.created;
+      updated = written.updated;
+    } catch (error) {
+      console.error('Transaction failed:', error);
+      throw new Error('Failed to import buyers. Please try again.');
+    }
 
-        if (existing) {
-          throw new Error('A buyer with this phone number or email already exists');
-        }
+    // One alert per saved search, however many imported rows match it
+    await notifySavedSearchMatches(membership.organizationId, imported, session.user.id)
+      .catch((error) => console.error('Saved search alerts failed:', error));
 
-        validRows.push({
-          ...validatedRow,
-          id: uuidv4(),
-          ownerId: session.user.id,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        });
-      } catch (error) {
-        errors.push({
-          row: rowNumber,
-          message: error instanceof Error ? error.message : 'Error processing row',
-          data: row
-        });
-      }
-    }
+    const errors: ImportError[] = checks.flatMap(({ sheet, rowNumber, errors: rowErrors }, index) =>
+      rowErrors.map(({ field, message }) => ({ sheet, row: rowNumber, field, message, data: rows[index].data }))
+    );
 
-    // Insert valid rows in a transaction
-    if (validRows.length > 0) {
-      try {
-        await db.transaction(async (tx) => {
-          // Insert all buyers in a single batch
-          await tx.insert(buyers).values(validRows);
-          
-          // Prepare and insert history entries
-          for (const row of validRows) {
-            const { id, ...rowData } = row;
-            const historyEntry = {
-              id: uuidv4(),
-              buyerId: id,
-              changedBy: session.user.id,
-              changedAt: new Date(),
-              action: 'create' as const,
-              diff: {
-                from: {},
-                to: rowData
-              }
-            };
-            await tx.insert(buyerHistory).values(historyEntry);
-          }
-        });
-      } catch (error) {
-        console.error('Transaction failed:', error);
-        throw new Error('Failed to import buyers. Please try again.');
-      }
-    }
+    const updatedNote = updated.length > 0 ? ` and updated ${updated.length} existing ${updated.length === 1 ? 'buyer' : 'buyers'}` : '';
 
     // Prepare response
     const response = {
       success: errors.length === 0,
       message: errors.length === 0 
-        ? `Successfully imported ${validRows.length} ${validRows.length === 1 ? 'row' : 'rows'}`
-        : `Imported ${validRows.length} rows with ${errors.length} ${errors.length === 1 ? 'error' : 'errors'}`,
-      imported: validRows.length,
+        ? `Successfully imported ${imported.length} ${imported.length === 1 ? 'row' : 'rows'}${updatedNote}`
+        : `Imported ${imported.length} rows${updatedNote} with ${errors.length} ${errors.length === 1 ? 'error' : 'errors'}`,
+      imported: imported.length,
+      updated: updated.length,
       errors: errors.slice(0, 100), // Limit number of errors to prevent response size issues
-      validCount: validRows.length,
+      validCount: checks.filter((row) => row.errors.length === 0).length,
       totalCount: rows.length,
       hasMoreErrors: errors.length > 100,
     };
@@ -295,6 +214,9 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error('CSV import error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
     return NextResponse.json({ 
       error: 'Import failed', 
       details: error instanceof Error ? error.message : 'Unknown error' 
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { importTemplate, XLSX_CONTENT_TYPE } from '@/lib/spreadsheet';
+
+// GET /api/buyers/import/template - Excel import template with dropdowns for fixed-choice columns
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:import')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return new NextResponse(await importTemplate(), {
+      headers: {
+        'Content-Type': XLSX_CONTENT_TYPE,
+        'Content-Disposition': 'attachment; filename=buyers-import-template.xlsx',
+      }
+    });
+  } catch (error) {
+    console.error('GET /api/buyers/import/template error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
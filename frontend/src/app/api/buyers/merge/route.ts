@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { buyerHistory, buyers, siteVisits, tasks } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { mergeBuyersSchema, storedBuyerIssues } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { mergeValues } from '@/lib/duplicates';
+import { diffFields, recordHistory } from '@/lib/history';
+import { can } from '@/lib/permissions';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { z } from 'zod';
+
+// POST /api/buyers/merge - Merge duplicate leads into one surviving lead
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { survivorId, duplicateIds, picks, versions } = mergeBuyersSchema.parse(body);
+    const ids = [survivorId, ...duplicateIds];
+
+    const group = await db
+      .select()
+      .from(buyers)
+      .where(and(inArray(buyers.id, ids), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+    if (group.length !== ids.length) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 });
+    }
+
+    const survivor = group.find((buyer) => buyer.id === survivorId)!;
+    const duplicates = group.filter((buyer) => buyer.id !== survivorId);
+
+    // The survivor is edited and the duplicates are removed
+    if (!can(membership, 'buyer:update', survivor) || duplicates.some((buyer) => !can(membership, 'buyer:delete', buyer))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Check concurrency (optimistic locking)
+    if (group.some((buyer) => buyer.updatedAt.toISOString() !== versions[buyer.id])) {
+      return NextResponse.json({
+        error: 'Record has been modified by another user. Please refresh and try again.'
+      }, { status: 409 });
+    }
+
+    const changes = mergeValues(group, survivorId, picks);
+
+    // Keeping another lead's owner hands the survivor to them
+    if (changes.ownerId !== survivor.ownerId && !can(membership, 'buyer:reassign')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Values picked from different leads must still make a valid lead together
+    const issues = storedBuyerIssues({ ...survivor, ...changes });
+    if (issues.length > 0) {
+      return NextResponse.json({ error: issues[0].message, details: issues }, { status: 422 });
+    }
+
+    const diff = diffFields(survivor, changes);
+
+    const mergedBuyer = await db.transaction(async (tx) => {
+      const [merged] = await tx
+        .update(buyers)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(buyers.id, survivorId))
+        .returning();
+
+      // Carry the duplicates' trail, tasks and visits over to the survivor. History
+      // keeps a note of the lead it was recorded on so reverts can skip it.
+      await tx
+        .update(buyerHistory)
+        .set({
+          buyerId: survivorId,
+          meta: sql`coalesce(${buyerHistory.meta}, '{}'::jsonb) || jsonb_build_object('mergedFrom', ${buyerHistory.buyerId})`,
+        })
+        .where(inArray(buyerHistory.buyerId, duplicateIds));
+      await tx.update(tasks).set({ buyerId: survivorId }).where(inArray(tasks.buyerId, duplicateIds));
+      await tx.update(siteVisits).set({ buyerId: survivorId }).where(inArray(siteVisits.buyerId, duplicateIds));
+
+      await tx.delete(buyers).where(inArray(buyers.id, duplicateIds));
+
+      await recordHistory(tx, {
+        buyerId: survivorId,
+        actorId: session.user.id,
+        action: 'merge',
+        diff,
+        meta: {
+          picks,
+          mergedBuyers: duplicates.map(({ organizationId, createdAt, updatedAt, deletedAt, deletedBy, ...buyer }) => buyer),
+        },
+      });
+
+      return merged;
+    });
+
+    return NextResponse.json(mergedBuyer);
+  } catch (error) {
+    console.error('POST /api/buyers/merge error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { bulkReassignSchema } from '@/lib/validations';
+import { getActiveMembership, getMembership } from '@/lib/organizations';
+import { reassignBuyers } from '@/lib/assignment';
+import { can } from '@/lib/permissions';
+import { z } from 'zod';
+
+// POST /api/buyers/reassign - Hand several leads over to another member at once
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:reassign')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { ids, ownerId } = bulkReassignSchema.parse(body);
+
+    const newOwner = await getMembership(ownerId, membership.organizationId);
+    if (!newOwner || !can(newOwner, 'buyer:update')) {
+      return NextResponse.json({ error: 'The new owner must be a member of this organization who can work on leads' }, { status: 400 });
+    }
+
+    // Ids outside the caller's organization are silently ignored by the scoped update
+    const reassigned = await reassignBuyers({
+      organizationId: membership.organizationId,
+      buyerIds: ids,
+      ownerId,
+      changedBy: session.user.id,
+    });
+
+    return NextResponse.json({ success: true, reassigned: reassigned.length });
+  } catch (error) {
+    console.error('POST /api/buyers/reassign error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,13 +2,25 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
-import { buyers, buyerHistory } from '@/lib/schema';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
 import { createBuyerSchema, searchSchema } from '@/lib/validations';
-import { eq, and, or, ilike, desc, asc, count } from 'drizzle-orm';
+import { clearedStageFields } from '@/lib/status-transitions';
+import { eq, and } from 'drizzle-orm';
 import { z } from 'zod';
 import { check, RATE_LIMITS } from '@/lib/rateLimit';
-
-// GET /api/buyers - List buyers with search/filter
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { resolveAssignee } from '@/lib/assignment';
+import { recordHistory, snapshotDiff } from '@/lib/history';
+import { notifySavedSearchMatches } from '@/lib/alerts';
+import { contactMatchCondition, emailKey, phoneKey } from '@/lib/duplicates';
+import { buyerConditions } from '@/lib/buyer-filters';
+import { buyerOrderBy, effectiveSortBy } from '@/lib/search';
+import { countBuyers, cursorFor, decodeCursor, keysetCondition, type Cursor } from '@/lib/pagination';
+
+// GET /api/buyers - List buyers with search/filter. Page with ?page=N or with
+// ?cursor=<nextCursor> for large books; ?count=estimate|none skips the exact total.
 export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -16,6 +28,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const { searchParams } = new URL(request.url);
     const params = Object.fromEntries(searchParams.entries());
     
@@ -28,66 +45,53 @@ export async function GET(request: NextRequest) {
 
     const validatedParams = searchSchema.parse(parsedParams);
 
-    // Build where conditions
-    const conditions = [];
-    
-    if (validatedParams.query) {
-      conditions.push(
-        or(
-          ilike(buyers.fullName, `%${validatedParams.query}%`),
-          ilike(buyers.email, `%${validatedParams.query}%`),
-          ilike(buyers.phone, `%${validatedParams.query}%`)
-        )
-      );
-    }
-
-    if (validatedParams.city) {
-      conditions.push(eq(buyers.city, validatedParams.city));
-    }
-
-    if (validatedParams.propertyType) {
-      conditions.push(eq(buyers.propertyType, validatedParams.propertyType));
-    }
-
-    if (validatedParams.status) {
-      conditions.push(eq(buyers.status, validatedParams.status));
-    }
-
-    if (validatedParams.timeline) {
-      conditions.push(eq(buyers.timeline, validatedParams.timeline));
+    const whereClause = buyerConditions(membership.organizationId, validatedParams);
+    const sortBy = effectiveSortBy(validatedParams);
+
+    // Relevance is computed per query, so those results can only be paged by number
+    let cursor: Cursor | null = null;
+    if (validatedParams.cursor) {
+      cursor = decodeCursor(validatedParams.cursor);
+      if (!cursor || sortBy === 'relevance') {
+        return NextResponse.json({
+          error: sortBy === 'relevance' ? 'Cursors cannot be used when sorting by relevance' : 'Invalid cursor',
+        }, { status: 400 });
+      }
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-    // Get total count
-    const [totalResult] = await db
-      .select({ count: count() })
-      .from(buyers)
-      .where(whereClause);
-
-    const total = totalResult.count;
-
-    // Get paginated results
-    const orderBy = validatedParams.sortOrder === 'asc' 
-      ? asc(buyers[validatedParams.sortBy])
-      : desc(buyers[validatedParams.sortBy]);
+    // Taken before reading, for bulk actions on every matching lead (see lib/bulk.ts)
+    const asOf = new Date().toISOString();
+    const { total, estimated } = await countBuyers(whereClause, validatedParams.count);
 
-    const results = await db
+    // One extra row tells whether there is a next page
+    const rows = await db
       .select()
       .from(buyers)
-      .where(whereClause)
-      .orderBy(orderBy)
-      .limit(validatedParams.limit)
-      .offset((validatedParams.page - 1) * validatedParams.limit);
+      .where(cursor && sortBy !== 'relevance'
+        ? and(whereClause, keysetCondition(sortBy, validatedParams.sortOrder, cursor))
+        : whereClause)
+      .orderBy(...buyerOrderBy(validatedParams))
+      .limit(validatedParams.limit + 1)
+      .offset(cursor ? 0 : (validatedParams.page - 1) * validatedParams.limit);
+
+    const results = rows.slice(0, validatedParams.limit);
+    const hasMore = rows.length > validatedParams.limit;
 
     return NextResponse.json({
       data: results,
       pagination: {
-        page: validatedParams.page,
+        page: cursor ? null : validatedParams.page,
         limit: validatedParams.limit,
         total,
-        pages: Math.ceil(total / validatedParams.limit),
+        // Set when total is the planner's estimate rather than an exact count
+        estimated,
+        pages: total === null ? null : Math.ceil(total / validatedParams.limit),
+        hasMore,
+        nextCursor: hasMore && sortBy !== 'relevance'
+          ? cursorFor(results[results.length - 1], sortBy)
+          : null,
       },
+      asOf,
     });
   } catch (error) {
     console.error('GET /api/buyers error:', error);
@@ -98,7 +102,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/buyers - Create new buyer
+// POST /api/buyers - Create new buyer. Pass ?allowDuplicate=true to skip the duplicate check.
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
@@ -106,6 +110,11 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:create')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     // Rate limiting
     const rateLimit = await check(request, 'CREATE_BUYER');
     if (!rateLimit.success) {
@@ -125,22 +134,56 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validatedData = createBuyerSchema.parse(body);
 
+    // Stop accidental duplicates unless the caller has seen them and chose to go ahead
+    if (request.nextUrl.searchParams.get('allowDuplicate') !== 'true') {
+      // Stored numbers may carry an extension; compare without it
+      const phoneKeys = [validatedData.phone, ...validatedData.altPhones].map(phoneKey);
+      const duplicates = await db
+        .select({ id: buyers.id, fullName: buyers.fullName, phone: buyers.phone, email: buyers.email })
+        .from(buyers)
+        .where(and(
+          eq(buyers.organizationId, membership.organizationId),
+          notTrashed(),
+          contactMatchCondition(phoneKeys, emailKey(validatedData.email) ? [emailKey(validatedData.email)!] : [])
+        ))
+        .limit(5);
+
+      if (duplicates.length > 0) {
+        return NextResponse.json({
+          error: 'A buyer with this phone number or email already exists',
+          duplicates,
+        }, { status: 409 });
+      }
+    }
+
+    // Hand the lead to the next agent in a matching assignment rule; the creator keeps it otherwise
+    const assigneeId = await resolveAssignee(membership.organizationId, validatedData);
+
     // Create buyer
+    const { visitedAt, ...fields } = validatedData;
     const [newBuyer] = await db
       .insert(buyers)
       .values({
-        ...validatedData,
-        ownerId: session.user.id,
+        ...fields,
+        visitedAt: visitedAt ? new Date(visitedAt) : null,
+        ...clearedStageFields(fields.status),
+        ownerId: assigneeId ?? session.user.id,
+        organizationId: membership.organizationId,
       })
       .returning();
 
     // Create history entry
-    await db.insert(buyerHistory).values({
+    await recordHistory(db, {
       buyerId: newBuyer.id,
-      changedBy: session.user.id,
-      diff: { created: { from: null, to: 'New buyer created' } },
+      actorId: session.user.id,
+      action: 'create',
+      diff: snapshotDiff(newBuyer),
     });
 
+    // Tell members following a saved search that this lead matches; the lead is saved either way
+    await notifySavedSearchMatches(membership.organizationId, [newBuyer.id], session.user.id)
+      .catch((error) => console.error('Saved search alerts failed:', error));
+
     return NextResponse.json(newBuyer, { status: 201 });
   } catch (error) {
     console.error('POST /api/buyers error:', error);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { memberships, organizations } from '@/lib/schema';
+import { buildCalendar } from '@/lib/ics';
+import { addDays, getVisitsBetween, visitToIcsEvent } from '@/lib/visits';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/calendar/[token] - An agent's site visits as a subscribable iCalendar feed.
+// Calendar apps can't sign in, so the secret token in the URL identifies the
+// membership; it is shown only to its owner on the visits page.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Accept both /api/calendar/<token> and /api/calendar/<token>.ics
+    const token = params.token.replace(/\.ics$/, '');
+    if (!z.string().uuid().safeParse(token).success) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    const [membership] = await db
+      .select({
+        userId: memberships.userId,
+        organizationId: memberships.organizationId,
+        organizationName: organizations.name,
+      })
+      .from(memberships)
+      .innerJoin(organizations, eq(memberships.organizationId, organizations.id))
+      .where(eq(memberships.calendarToken, token));
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    // Recent history plus everything ahead keeps the feed small
+    const now = new Date();
+    const visits = await getVisitsBetween(
+      membership.organizationId,
+      addDays(now, -30),
+      addDays(now, 365),
+      membership.userId
+    );
+
+    const calendar = buildCalendar(
+      `${membership.organizationName} site visits`,
+      visits.map(visitToIcsEvent)
+    );
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'no-store, max-age=0'
+      }
+    });
+  } catch (error) {
+    console.error('GET /api/calendar/[token] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resumeImportJobs } from '@/lib/import-jobs';
+
+// GET /api/cron/import-jobs - Run background imports that are queued, and
+// finish those whose worker stopped reporting, e.g. after a restart. Authenticated with
+// `Authorization: Bearer <CRON_SECRET>` like the other cron routes.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resumed = await resumeImportJobs();
+
+    return NextResponse.json({ resumed });
+  } catch (error) {
+    console.error('GET /api/cron/import-jobs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeTrash, trashRetentionDays } from '@/lib/trash';
+
+// GET /api/cron/purge-trash - Permanently delete leads that have sat in the
+// trash longer than TRASH_RETENTION_DAYS. Schedulers can't sign in, so the
+// caller authenticates with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const retentionDays = trashRetentionDays();
+    const purged = await purgeTrash(new Date(), retentionDays);
+
+    return NextResponse.json({ purged: purged.length, retentionDays });
+  } catch (error) {
+    console.error('GET /api/cron/purge-trash error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
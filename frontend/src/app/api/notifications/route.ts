@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { notifications } from '@/lib/schema';
+import { markNotificationsReadSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getNotifications } from '@/lib/alerts';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/notifications - The caller's latest notifications and unread count
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await getNotifications(membership.organizationId, session.user.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('GET /api/notifications error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/notifications - Mark some or all of the caller's notifications read
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { ids } = markNotificationsReadSchema.parse(body);
+
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.organizationId, membership.organizationId),
+        eq(notifications.userId, session.user.id),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('PATCH /api/notifications error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { memberships } from '@/lib/schema';
+import { updateMemberSchema } from '@/lib/validations';
+import { getActiveMembership, getMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, count, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Count the admins of an organization so the last one can't be demoted or removed
+async function countAdmins(organizationId: string) {
+  const [result] = await db
+    .select({ count: count() })
+    .from(memberships)
+    .where(and(eq(memberships.organizationId, organizationId), eq(memberships.role, 'admin')));
+
+  return result.count;
+}
+
+// PATCH /api/organizations/members/[userId] - Change a member's role
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'organization:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { role } = updateMemberSchema.parse(body);
+
+    const target = await getMembership(params.userId, membership.organizationId);
+    if (!target) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    if (target.role === 'admin' && role !== 'admin' && await countAdmins(membership.organizationId) <= 1) {
+      return NextResponse.json({ error: 'An organization must keep at least one admin' }, { status: 400 });
+    }
+
+    const [updated] = await db
+      .update(memberships)
+      .set({ role })
+      .where(and(
+        eq(memberships.organizationId, membership.organizationId),
+        eq(memberships.userId, params.userId)
+      ))
+      .returning();
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('PATCH /api/organizations/members/[userId] error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/organizations/members/[userId] - Remove a member from the active organization
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'organization:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const target = await getMembership(params.userId, membership.organizationId);
+    if (!target) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    if (target.role === 'admin' && await countAdmins(membership.organizationId) <= 1) {
+      return NextResponse.json({ error: 'An organization must keep at least one admin' }, { status: 400 });
+    }
+
+    // Leads owned by the removed member stay in the organization
+    await db
+      .delete(memberships)
+      .where(and(
+        eq(memberships.organizationId, membership.organizationId),
+        eq(memberships.userId, params.userId)
+      ));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/organizations/members/[userId] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
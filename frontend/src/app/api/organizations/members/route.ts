@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { memberships, users } from '@/lib/schema';
+import { addMemberSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/organizations/members - List members of the active organization
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const members = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        image: users.image,
+        role: memberships.role,
+        joinedAt: memberships.createdAt,
+      })
+      .from(memberships)
+      .innerJoin(users, eq(memberships.userId, users.id))
+      .where(eq(memberships.organizationId, membership.organizationId))
+      .orderBy(asc(memberships.createdAt));
+
+    return NextResponse.json({ data: members });
+  } catch (error) {
+    console.error('GET /api/organizations/members error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/organizations/members - Add a colleague to the active organization by email
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'organization:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { email, role } = addMemberSchema.parse(body);
+
+    const member = await db.transaction(async (tx) => {
+      // Invited colleagues who have never signed in get a user record up front;
+      // the magic-link adapter finds it by email on their first sign in.
+      let [user] = await tx.select().from(users).where(eq(users.email, email));
+      if (!user) {
+        [user] = await tx.insert(users).values({ email }).returning();
+      }
+
+      const [existing] = await tx
+        .select()
+        .from(memberships)
+        .where(and(
+          eq(memberships.organizationId, membership.organizationId),
+          eq(memberships.userId, user.id)
+        ));
+
+      if (existing) {
+        return null;
+      }
+
+      const [created] = await tx
+        .insert(memberships)
+        .values({
+          organizationId: membership.organizationId,
+          userId: user.id,
+          role,
+        })
+        .returning();
+
+      return {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        image: user.image,
+        role: created.role,
+        joinedAt: created.createdAt,
+      };
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: 'This user is already a member of the organization' }, { status: 409 });
+    }
+
+    return NextResponse.json(member, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/organizations/members error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { organizations, memberships } from '@/lib/schema';
+import { organizationSchema } from '@/lib/validations';
+import { getActiveMembership, getUserOrganizations } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/organizations - List the caller's organizations
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = await getUserOrganizations(session.user.id);
+
+    return NextResponse.json({
+      data,
+      activeOrganizationId: session.user.organizationId,
+    });
+  } catch (error) {
+    console.error('GET /api/organizations error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/organizations - Create a new organization with the caller as its admin
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = organizationSchema.parse(body);
+
+    const organization = await db.transaction(async (tx) => {
+      const [newOrganization] = await tx
+        .insert(organizations)
+        .values({ name: validatedData.name })
+        .returning();
+
+      await tx.insert(memberships).values({
+        organizationId: newOrganization.id,
+        userId: session.user.id,
+        role: 'admin',
+      });
+
+      return newOrganization;
+    });
+
+    return NextResponse.json(organization, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/organizations error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/organizations - Rename the caller's active organization
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'organization:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = organizationSchema.parse(body);
+
+    const [organization] = await db
+      .update(organizations)
+      .set({
+        name: validatedData.name,
+        updatedAt: new Date(),
+      })
+      .where(eq(organizations.id, membership.organizationId))
+      .returning();
+
+    return NextResponse.json(organization);
+  } catch (error) {
+    console.error('PATCH /api/organizations error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
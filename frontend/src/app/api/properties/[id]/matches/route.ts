@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { properties } from '@/lib/schema';
+import { getActiveMembership } from '@/lib/organizations';
+import { getBuyerMatchesForProperty } from '@/lib/matching';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+
+// GET /api/properties/[id]/matches - Open leads ranked by how well this property suits them
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'property:read') || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [property] = await db
+      .select()
+      .from(properties)
+      .where(and(eq(properties.id, params.id), eq(properties.organizationId, membership.organizationId)));
+
+    if (!property) {
+      return NextResponse.json({ error: 'Property not found' }, { status: 404 });
+    }
+
+    const data = await getBuyerMatchesForProperty(property, 10);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('GET /api/properties/[id]/matches error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { properties } from '@/lib/schema';
+import { propertySchema, cityEnum, propertyTypeEnum, purposeEnum, propertyStatusEnum } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, count, desc, eq, ilike, or, type SQL } from 'drizzle-orm';
+import { z } from 'zod';
+
+const propertySearchSchema = z.object({
+  query: z.string().optional(),
+  city: cityEnum.optional(),
+  propertyType: propertyTypeEnum.optional(),
+  purpose: purposeEnum.optional(),
+  status: propertyStatusEnum.optional(),
+  page: z.number().int().positive().default(1),
+  limit: z.number().int().positive().max(50).default(20),
+});
+
+// GET /api/properties - List the organization's property inventory
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'property:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const params = propertySearchSchema.parse({
+      query: searchParams.get('query') || undefined,
+      city: searchParams.get('city') || undefined,
+      propertyType: searchParams.get('propertyType') || undefined,
+      purpose: searchParams.get('purpose') || undefined,
+      status: searchParams.get('status') || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+    });
+
+    const conditions: (SQL | undefined)[] = [eq(properties.organizationId, membership.organizationId)];
+    if (params.query) {
+      conditions.push(or(
+        ilike(properties.title, `%${params.query}%`),
+        ilike(properties.locality, `%${params.query}%`)
+      ));
+    }
+    if (params.city) conditions.push(eq(properties.city, params.city));
+    if (params.propertyType) conditions.push(eq(properties.propertyType, params.propertyType));
+    if (params.purpose) conditions.push(eq(properties.purpose, params.purpose));
+    if (params.status) conditions.push(eq(properties.status, params.status));
+
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() }).from(properties).where(where);
+    const data = await db
+      .select()
+      .from(properties)
+      .where(where)
+      .orderBy(desc(properties.updatedAt))
+      .limit(params.limit)
+      .offset((params.page - 1) * params.limit);
+
+    return NextResponse.json({
+      data,
+      pagination: {
+        page: params.page,
+        limit: params.limit,
+        total,
+        pages: Math.ceil(total / params.limit),
+      },
+    });
+  } catch (error) {
+    console.error('GET /api/properties error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid parameters', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/properties - Add a property to the inventory
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'property:manage')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = propertySchema.parse(body);
+
+    const [property] = await db
+      .insert(properties)
+      .values({
+        ...validatedData,
+        organizationId: membership.organizationId,
+        createdBy: session.user.id,
+      })
+      .returning();
+
+    return NextResponse.json(property, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/properties error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
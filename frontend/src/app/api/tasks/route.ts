@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { getMyTasks } from '@/lib/tasks';
+
+// GET /api/tasks - The caller's open tasks that are overdue or due today
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const data = await getMyTasks(membership.organizationId, session.user.id);
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('GET /api/tasks error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
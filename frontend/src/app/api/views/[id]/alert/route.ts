@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { savedViews, viewSubscriptions } from '@/lib/schema';
+import { viewAlertSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, eq, or } from 'drizzle-orm';
+import { z } from 'zod';
+
+// PUT /api/views/[id]/alert - Get alerted about new leads matching a view
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { email } = viewAlertSchema.parse(body);
+
+    // Members can follow their own views and the ones shared with the team
+    const [view] = await db
+      .select({ id: savedViews.id })
+      .from(savedViews)
+      .where(and(
+        eq(savedViews.id, params.id),
+        eq(savedViews.organizationId, membership.organizationId),
+        or(eq(savedViews.ownerId, session.user.id), eq(savedViews.shared, true))
+      ));
+
+    if (!view) {
+      return NextResponse.json({ error: 'Saved view not found' }, { status: 404 });
+    }
+
+    const [subscription] = await db
+      .insert(viewSubscriptions)
+      .values({ viewId: view.id, userId: session.user.id, email })
+      .onConflictDoUpdate({
+        target: [viewSubscriptions.viewId, viewSubscriptions.userId],
+        set: { email },
+      })
+      .returning();
+
+    return NextResponse.json(subscription);
+  } catch (error) {
+    console.error('PUT /api/views/[id]/alert error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/views/[id]/alert - Stop the alerts for a view
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    await db
+      .delete(viewSubscriptions)
+      .where(and(
+        eq(viewSubscriptions.viewId, params.id),
+        eq(viewSubscriptions.userId, session.user.id)
+      ));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/views/[id]/alert error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { savedViews } from '@/lib/schema';
+import { updateSavedViewSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// PATCH /api/views/[id] - Rename, update or (un)share one of the caller's views
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateSavedViewSchema.parse(body);
+
+    // Shared views are read-only for everyone but their owner
+    const [view] = await db
+      .update(savedViews)
+      .set({
+        ...validatedData,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(savedViews.id, params.id),
+        eq(savedViews.organizationId, membership.organizationId),
+        eq(savedViews.ownerId, session.user.id)
+      ))
+      .returning();
+
+    if (!view) {
+      return NextResponse.json({ error: 'Saved view not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(view);
+  } catch (error) {
+    console.error('PATCH /api/views/[id] error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/views/[id] - Delete one of the caller's views
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const [view] = await db
+      .delete(savedViews)
+      .where(and(
+        eq(savedViews.id, params.id),
+        eq(savedViews.organizationId, membership.organizationId),
+        eq(savedViews.ownerId, session.user.id)
+      ))
+      .returning({ id: savedViews.id });
+
+    if (!view) {
+      return NextResponse.json({ error: 'Saved view not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('DELETE /api/views/[id] error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
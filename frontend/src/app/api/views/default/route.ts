@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { memberships, savedViews } from '@/lib/schema';
+import { defaultViewSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { and, eq, or } from 'drizzle-orm';
+import { z } from 'zod';
+
+// PUT /api/views/default - Choose the view the buyer list opens with
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { viewId } = defaultViewSchema.parse(body);
+
+    if (viewId) {
+      // Any view the member can see will do, their own or a shared one
+      const [view] = await db
+        .select({ id: savedViews.id })
+        .from(savedViews)
+        .where(and(
+          eq(savedViews.id, viewId),
+          eq(savedViews.organizationId, membership.organizationId),
+          or(eq(savedViews.ownerId, session.user.id), eq(savedViews.shared, true))
+        ));
+
+      if (!view) {
+        return NextResponse.json({ error: 'Saved view not found' }, { status: 404 });
+      }
+    }
+
+    await db
+      .update(memberships)
+      .set({ defaultViewId: viewId })
+      .where(and(
+        eq(memberships.organizationId, membership.organizationId),
+        eq(memberships.userId, session.user.id)
+      ));
+
+    return NextResponse.json({ defaultViewId: viewId });
+  } catch (error) {
+    console.error('PUT /api/views/default error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { memberships, savedViews } from '@/lib/schema';
+import { savedViewSchema } from '@/lib/validations';
+import { getActiveMembership } from '@/lib/organizations';
+import { getSavedViews } from '@/lib/saved-views';
+import { can } from '@/lib/permissions';
+import { and, eq } from 'drizzle-orm';
+import { z } from 'zod';
+
+// GET /api/views - List the caller's saved views and the ones shared with the team
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const views = await getSavedViews(membership.organizationId, session.user.id);
+
+    return NextResponse.json({ data: views, defaultViewId: membership.defaultViewId });
+  } catch (error) {
+    console.error('GET /api/views error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/views - Save the current buyer list setup as a view
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { makeDefault, ...validatedData } = savedViewSchema.parse(body);
+
+    const view = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(savedViews)
+        .values({
+          ...validatedData,
+          organizationId: membership.organizationId,
+          ownerId: session.user.id,
+        })
+        .returning();
+
+      if (makeDefault) {
+        await tx
+          .update(memberships)
+          .set({ defaultViewId: created.id })
+          .where(and(
+            eq(memberships.organizationId, membership.organizationId),
+            eq(memberships.userId, session.user.id)
+          ));
+      }
+
+      return created;
+    });
+
+    return NextResponse.json(view, { status: 201 });
+  } catch (error) {
+    console.error('POST /api/views error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation failed', details: error.errors }, { status: 400 });
+    }
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
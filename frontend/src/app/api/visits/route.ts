@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { addDays, getVisitsBetween, startOfWeek } from '@/lib/visits';
+
+// GET /api/visits - Site visits for the week containing ?week= (defaults to this week).
+// Pass ?mine=true to only include the caller's own visits.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const membership = await getActiveMembership(session);
+    if (!membership || !can(membership, 'buyer:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const week = searchParams.get('week');
+    const weekDate = week ? new Date(week) : new Date();
+    if (isNaN(weekDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid week' }, { status: 400 });
+    }
+
+    const start = startOfWeek(weekDate);
+    const data = await getVisitsBetween(
+      membership.organizationId,
+      start,
+      addDays(start, 7),
+      searchParams.get('mine') === 'true' ? session.user.id : undefined
+    );
+
+    return NextResponse.json({ data, weekStart: start });
+  } catch (error) {
+    console.error('GET /api/visits error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
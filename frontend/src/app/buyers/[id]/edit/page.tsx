@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { updateBuyerSchema, type UpdateBuyer } from '@/lib/validations';
+import { formatBudget, parseBudget } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,6 +16,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, Save, ArrowLeft, Trash2 } from 'lucide-react';
 import Link from 'next/link';
+import StageFields from '@/components/buyers/stage-fields';
+import { can } from '@/lib/permissions';
+import { canTransition } from '@/lib/status-transitions';
 
 const cityOptions = ['Chandigarh', 'Mohali', 'Zirakpur', 'Panchkula', 'Other'];
 const propertyTypeOptions = ['Apartment', 'Villa', 'Plot', 'Office', 'Retail'];
@@ -36,6 +41,7 @@ export default function EditBuyerPage({ params }: PageProps) {
   const [buyer, setBuyer] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
+  const { data: session } = useSession();
 
   const {
     register,
@@ -49,6 +55,9 @@ export default function EditBuyerPage({ params }: PageProps) {
   });
 
   const propertyType = watch('propertyType');
+  const purpose = watch('purpose');
+  const budgetMin = watch('budgetMin');
+  const budgetMax = watch('budgetMax');
   const requiresBHK = propertyType === 'Apartment' || propertyType === 'Villa';
 
   // Fetch buyer data
@@ -65,6 +74,9 @@ export default function EditBuyerPage({ params }: PageProps) {
         // Reset form with buyer data
         reset({
           ...data.buyer,
+          // Alternates are edited alongside the primary number
+          phone: [data.buyer.phone, ...(data.buyer.altPhones ?? [])].join(', '),
+          altPhones: [],
           updatedAt: data.buyer.updatedAt,
         });
         
@@ -217,11 +229,17 @@ export default function EditBuyerPage({ params }: PageProps) {
                   <Input
                     id="phone"
                     {...register('phone')}
-                    placeholder="Enter phone number"
+                    placeholder="+91 98765 43210"
                   />
+                  <p className="text-xs text-gray-500">Separate additional numbers with commas</p>
                   {errors.phone && (
                     <p className="text-sm text-red-600">{errors.phone.message}</p>
                   )}
+                  {errors.altPhones && (
+                    <p className="text-sm text-red-600">
+                      {errors.altPhones.message ?? 'One of the additional numbers is not a valid phone number'}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -322,26 +340,30 @@ export default function EditBuyerPage({ params }: PageProps) {
               {/* Budget */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="budgetMin">Minimum Budget (INR)</Label>
+                  <Label htmlFor="budgetMin">{purpose === 'Rent' ? 'Minimum Monthly Rent' : 'Minimum Budget'} (INR)</Label>
                   <Input
                     id="budgetMin"
-                    type="number"
-                    {...register('budgetMin', { valueAsNumber: true })}
-                    placeholder="Enter minimum budget"
+                    {...register('budgetMin')}
+                    placeholder="e.g. 45L"
                   />
+                  {parseBudget(budgetMin) && (
+                    <p className="text-xs text-gray-500">{formatBudget(parseBudget(budgetMin)!, { purpose })}</p>
+                  )}
                   {errors.budgetMin && (
                     <p className="text-sm text-red-600">{errors.budgetMin.message}</p>
                   )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="budgetMax">Maximum Budget (INR)</Label>
+                  <Label htmlFor="budgetMax">{purpose === 'Rent' ? 'Maximum Monthly Rent' : 'Maximum Budget'} (INR)</Label>
                   <Input
                     id="budgetMax"
-                    type="number"
-                    {...register('budgetMax', { valueAsNumber: true })}
-                    placeholder="Enter maximum budget"
+                    {...register('budgetMax')}
+                    placeholder="e.g. 1.2 Cr"
                   />
+                  {parseBudget(budgetMax) && (
+                    <p className="text-xs text-gray-500">{formatBudget(parseBudget(budgetMax)!, { purpose })}</p>
+                  )}
                   {errors.budgetMax && (
                     <p className="text-sm text-red-600">{errors.budgetMax.message}</p>
                   )}
@@ -397,7 +419,7 @@ export default function EditBuyerPage({ params }: PageProps) {
                     <SelectValue placeholder="Select status" />
                   </SelectTrigger>
                   <SelectContent>
-                    {statusOptions.map((status) => (
+                    {statusOptions.filter((status) => canTransition(buyer.status, status as any)).map((status) => (
                       <SelectItem key={status} value={status}>
                         {status}
                       </SelectItem>
@@ -409,6 +431,14 @@ export default function EditBuyerPage({ params }: PageProps) {
                 )}
               </div>
 
+              <StageFields
+                status={watch('status')}
+                register={register}
+                watch={watch}
+                setValue={setValue}
+                errors={errors}
+              />
+
               {/* Tags */}
               <div className="space-y-2">
                 <Label htmlFor="tags">Tags</Label>
@@ -486,19 +516,21 @@ export default function EditBuyerPage({ params }: PageProps) {
                 <Button type="button" variant="outline" asChild>
                   <Link href={`/buyers/${params.id}`}>Cancel</Link>
                 </Button>
-                <Button 
-                  type="button" 
-                  variant="destructive" 
-                  onClick={handleDelete}
-                  disabled={isDeleting}
-                >
-                  {isDeleting ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <Trash2 className="mr-2 h-4 w-4" />
-                  )}
-                  Delete
-                </Button>
+                {session && can({ userId: session.user.id, role: session.user.role }, 'buyer:delete', buyer) && (
+                  <Button 
+                    type="button" 
+                    variant="destructive" 
+                    onClick={handleDelete}
+                    disabled={isDeleting}
+                  >
+                    {isDeleting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="mr-2 h-4 w-4" />
+                    )}
+                    Delete
+                  </Button>
+                )}
               </div>
             </form>
           </CardContent>
@@ -0,0 +1,68 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { and, eq } from 'drizzle-orm';
+import { getActiveMembership } from '@/lib/organizations';
+import { getHistoryPage } from '@/lib/history';
+import { can } from '@/lib/permissions';
+import HistoryTimeline from '@/components/buyers/history-timeline';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+interface PageProps {
+  params: { id: string };
+}
+
+export default async function BuyerHistoryPage({ params }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const [buyer] = await db
+    .select()
+    .from(buyers)
+    .where(and(eq(buyers.id, params.id), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+  if (!buyer) {
+    notFound();
+  }
+
+  const firstPage = await getHistoryPage(buyer.id);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <Button variant="ghost" asChild className="mb-4">
+            <Link href={`/buyers/${buyer.id}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Details
+            </Link>
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900">History</h1>
+          <p className="mt-2 text-gray-600">Every change made to {buyer.fullName}</p>
+        </div>
+
+        <HistoryTimeline
+          buyerId={buyer.id}
+          buyerUpdatedAt={buyer.updatedAt.toISOString()}
+          initialEntries={firstPage.data}
+          initialCursor={firstPage.nextCursor}
+          canRevert={can(membership, 'buyer:update', buyer)}
+        />
+      </div>
+    </div>
+  );
+}
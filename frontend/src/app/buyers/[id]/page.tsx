@@ -3,48 +3,81 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { redirect, notFound } from 'next/navigation';
 import { db } from '@/lib/db';
-import { buyers, buyerHistory, users } from '@/lib/schema';
-import { eq, desc } from 'drizzle-orm';
+import { buyers, siteVisits, tasks, users } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { eq, and, asc, desc } from 'drizzle-orm';
 import BuyerDetails from '@/components/buyers/buyer-details';
 import BuyerHistory from '@/components/buyers/buyer-history';
+import BuyerTasks from '@/components/buyers/buyer-tasks';
+import BuyerVisits from '@/components/buyers/buyer-visits';
+import SuggestedMatches from '@/components/properties/suggested-matches';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Edit } from 'lucide-react';
+import { ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import { getActiveMembership, getAssignees } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { getPropertyMatchesForBuyer } from '@/lib/matching';
+import { getHistoryPage } from '@/lib/history';
+import { formatCurrency } from '@/lib/utils';
 
 interface PageProps {
   params: { id: string };
 }
 
-async function getBuyerWithHistory(id: string) {
-  // Get buyer details
+async function getBuyerWithHistory(id: string, organizationId: string) {
+  // Get buyer details (only visible within the owning organization)
   const [buyer] = await db
     .select()
     .from(buyers)
-    .where(eq(buyers.id, id));
+    .where(and(eq(buyers.id, id), eq(buyers.organizationId, organizationId), notTrashed()));
 
   if (!buyer) {
     return null;
   }
 
-  // Get history with user details
-  const history = await db
+  // Most recent changes; the full history has its own page
+  const { data: history } = await getHistoryPage(id, { limit: 5 });
+
+  // Get follow-up tasks, open ones first
+  const buyerTasks = await db
     .select({
-      id: buyerHistory.id,
-      changedAt: buyerHistory.changedAt,
-      diff: buyerHistory.diff,
-      changedBy: {
+      id: tasks.id,
+      type: tasks.type,
+      title: tasks.title,
+      dueAt: tasks.dueAt,
+      done: tasks.done,
+      assignee: {
         id: users.id,
         name: users.name,
         email: users.email,
       },
     })
-    .from(buyerHistory)
-    .leftJoin(users, eq(buyerHistory.changedBy, users.id))
-    .where(eq(buyerHistory.buyerId, id))
-    .orderBy(desc(buyerHistory.changedAt))
-    .limit(5);
+    .from(tasks)
+    .innerJoin(users, eq(tasks.assigneeId, users.id))
+    .where(eq(tasks.buyerId, id))
+    .orderBy(asc(tasks.done), asc(tasks.dueAt));
 
-  return { buyer, history };
+  // Get site visits, most recent first
+  const visits = await db
+    .select({
+      id: siteVisits.id,
+      location: siteVisits.location,
+      scheduledAt: siteVisits.scheduledAt,
+      durationMinutes: siteVisits.durationMinutes,
+      status: siteVisits.status,
+      outcomeNotes: siteVisits.outcomeNotes,
+      agent: {
+        id: users.id,
+        name: users.name,
+        email: users.email,
+      },
+    })
+    .from(siteVisits)
+    .innerJoin(users, eq(siteVisits.agentId, users.id))
+    .where(eq(siteVisits.buyerId, id))
+    .orderBy(desc(siteVisits.scheduledAt));
+
+  return { buyer, history, tasks: buyerTasks, visits };
 }
 
 export default async function BuyerDetailPage({ params }: PageProps) {
@@ -54,13 +87,26 @@ export default async function BuyerDetailPage({ params }: PageProps) {
     redirect('/auth/signin');
   }
 
-  const data = await getBuyerWithHistory(params.id);
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const data = await getBuyerWithHistory(params.id, membership.organizationId);
   
   if (!data) {
     notFound();
   }
 
-  const { buyer, history } = data;
+  const { buyer, history, tasks: buyerTasks, visits } = data;
+  const canEdit = can(membership, 'buyer:update', buyer);
+  const canReassign = can(membership, 'buyer:reassign');
+  const assignees = canEdit || canReassign
+    ? await getAssignees(membership.organizationId)
+    : [];
+  const matches = can(membership, 'property:read')
+    ? await getPropertyMatchesForBuyer(buyer)
+    : [];
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -82,16 +128,6 @@ export default async function BuyerDetailPage({ params }: PageProps) {
                 </p>
               </div>
             </div>
-            <div className="flex gap-4">
-              {buyer.ownerId === session.user.id && (
-                <Button asChild>
-                  <Link href={`/buyers/${buyer.id}/edit`}>
-                    <Edit className="mr-2 h-4 w-4" />
-                    Edit Lead
-                  </Link>
-                </Button>
-              )}
-            </div>
           </div>
         </div>
       </div>
@@ -102,14 +138,48 @@ export default async function BuyerDetailPage({ params }: PageProps) {
           {/* Main Details */}
           <div className="lg:col-span-2">
             <Suspense fallback={<div>Loading buyer details...</div>}>
-              <BuyerDetails buyer={buyer} />
+              <BuyerDetails
+                buyer={buyer}
+                canEdit={canEdit}
+                canDelete={can(membership, 'buyer:delete', buyer)}
+                assignees={canReassign ? assignees : undefined}
+              />
             </Suspense>
           </div>
 
-          {/* History Sidebar */}
-          <div className="lg:col-span-1">
+          {/* Matches, Tasks, Visits & History Sidebar */}
+          <div className="lg:col-span-1 space-y-8">
+            <SuggestedMatches
+              description="Available properties that fit this lead"
+              emptyMessage="No matching properties in inventory"
+              matches={matches.map(({ item: property, score, reasons }) => ({
+                id: property.id,
+                href: `/properties/${property.id}`,
+                title: property.title,
+                subtitle: `${property.locality ? `${property.locality}, ` : ''}${property.city} · ${formatCurrency(property.price)}`,
+                score,
+                reasons,
+              }))}
+            />
+            <BuyerTasks
+              buyerId={buyer.id}
+              ownerId={buyer.ownerId}
+              tasks={buyerTasks}
+              assignees={assignees}
+              currentUserId={session.user.id}
+              canEdit={canEdit}
+            />
+            <BuyerVisits
+              buyerId={buyer.id}
+              buyerStatus={buyer.status}
+              ownerId={buyer.ownerId}
+              visits={visits}
+              agents={assignees}
+              currentUserId={session.user.id}
+              canEdit={canEdit}
+            />
             <Suspense fallback={<div>Loading history...</div>}>
-              <BuyerHistory history={history} />
+              <BuyerHistory history={history} buyerId={buyer.id} />
             </Suspense>
           </div>
         </div>
@@ -0,0 +1,94 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { eq, and, desc, count, sql } from 'drizzle-orm';
+import { buyerFiltersSchema } from '@/lib/validations';
+import { buyerConditions } from '@/lib/buyer-filters';
+import { getActiveMembership } from '@/lib/organizations';
+import { buildBoard, PIPELINE_STATUSES } from '@/lib/pipeline';
+import BuyersFilters from '@/components/buyers/buyers-filters';
+import BuyersBoard from '@/components/buyers/buyers-board';
+
+// Cards loaded per column; counts and totals still cover every lead
+const CARDS_PER_COLUMN = 50;
+
+interface PageProps {
+  // Filters as comma-separated lists, see buyerFiltersSchema
+  searchParams: Record<string, string | undefined>;
+}
+
+async function getBoard(organizationId: string, searchParams: PageProps['searchParams']) {
+  const filters = buyerFiltersSchema.parse(searchParams);
+
+  const whereClause = buyerConditions(organizationId, filters);
+
+  const summaries = await db
+    .select({
+      status: buyers.status,
+      count: count(),
+      budgetTotal: sql<number>`coalesce(sum(coalesce(${buyers.budgetMax}, ${buyers.budgetMin})), 0)`.mapWith(Number),
+    })
+    .from(buyers)
+    .where(whereClause)
+    .groupBy(buyers.status);
+
+  const columns = await Promise.all(
+    PIPELINE_STATUSES.map((status) =>
+      db
+        .select({
+          id: buyers.id,
+          fullName: buyers.fullName,
+          phone: buyers.phone,
+          city: buyers.city,
+          propertyType: buyers.propertyType,
+          bhk: buyers.bhk,
+          purpose: buyers.purpose,
+          budgetMin: buyers.budgetMin,
+          budgetMax: buyers.budgetMax,
+          status: buyers.status,
+          ownerId: buyers.ownerId,
+          updatedAt: buyers.updatedAt,
+        })
+        .from(buyers)
+        .where(and(whereClause, eq(buyers.status, status)))
+        .orderBy(desc(buyers.updatedAt))
+        .limit(CARDS_PER_COLUMN)
+    )
+  );
+
+  const leads = columns.flat().map((lead) => ({
+    ...lead,
+    updatedAt: lead.updatedAt.toISOString(),
+  }));
+
+  return { board: buildBoard(leads, summaries), filters };
+}
+
+export default async function BuyersBoardPage({ searchParams }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const { board, filters } = await getBoard(membership.organizationId, searchParams);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-full mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <BuyersFilters initialFilters={filters as any} />
+        <BuyersBoard
+          board={board}
+          currentUser={{ userId: membership.userId, role: membership.role }}
+        />
+      </div>
+    </div>
+  );
+}
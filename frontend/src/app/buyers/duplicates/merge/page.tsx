@@ -0,0 +1,81 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { db } from '@/lib/db';
+import { buyers, users } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { and, eq, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { getActiveMembership } from '@/lib/organizations';
+import MergeBuyers from '@/components/buyers/merge-buyers';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+
+interface PageProps {
+  searchParams: { ids?: string };
+}
+
+const idsSchema = z.array(z.string().uuid()).min(2).max(10);
+
+export default async function MergeBuyersPage({ searchParams }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const ids = idsSchema.safeParse(searchParams.ids?.split(',') ?? []);
+  if (!ids.success) {
+    notFound();
+  }
+
+  const group = await db
+    .select()
+    .from(buyers)
+    .where(and(inArray(buyers.id, ids.data), eq(buyers.organizationId, membership.organizationId), notTrashed()));
+
+  if (group.length < 2) {
+    notFound();
+  }
+
+  const owners = await db
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(inArray(users.id, group.map((buyer) => buyer.ownerId)));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <Button variant="ghost" asChild className="mb-4">
+            <Link href="/buyers/duplicates">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Duplicates
+            </Link>
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900">Merge Leads</h1>
+          <p className="mt-2 text-gray-600">
+            Choose the lead to keep and which value to keep for each field. Tags and notes from every lead are combined.
+          </p>
+        </div>
+
+        <MergeBuyers
+          buyers={group.map((buyer) => ({
+            ...buyer,
+            visitedAt: buyer.visitedAt?.toISOString() ?? null,
+            createdAt: buyer.createdAt.toISOString(),
+            updatedAt: buyer.updatedAt.toISOString(),
+          }))}
+          owners={Object.fromEntries(owners.map((owner) => [owner.id, owner.name || owner.email]))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { db } from '@/lib/db';
+import { buyers } from '@/lib/schema';
+import { notTrashed } from '@/lib/trash';
+import { and, eq } from 'drizzle-orm';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { findDuplicateGroups, type MatchReason } from '@/lib/duplicates';
+import { formatDate } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, GitMerge } from 'lucide-react';
+
+const reasonLabels: Record<MatchReason, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Similar name',
+};
+
+export default async function DuplicatesPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  // Only leads the member could merge away; agents see duplicates among their own leads
+  const candidates = (await db
+    .select({
+      id: buyers.id,
+      fullName: buyers.fullName,
+      phone: buyers.phone,
+      altPhones: buyers.altPhones,
+      email: buyers.email,
+      city: buyers.city,
+      status: buyers.status,
+      ownerId: buyers.ownerId,
+      updatedAt: buyers.updatedAt,
+    })
+    .from(buyers)
+    .where(and(eq(buyers.organizationId, membership.organizationId), notTrashed())))
+    .filter((buyer) => can(membership, 'buyer:delete', buyer));
+
+  const byId = new Map(candidates.map((buyer) => [buyer.id, buyer]));
+  const groups = findDuplicateGroups(candidates);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Duplicates</h1>
+            <p className="mt-2 text-gray-600">
+              {groups.length} groups of leads that look like the same buyer
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/buyers">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Leads
+            </Link>
+          </Button>
+        </div>
+
+        {groups.length === 0 ? (
+          <Card>
+            <CardContent className="py-12">
+              <p className="text-sm text-gray-500 text-center">No duplicates found</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => (
+              <Card key={group.ids.join(',')}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    {group.ids.length} leads
+                    {group.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">{reasonLabels[reason]}</Badge>
+                    ))}
+                  </CardTitle>
+                  <Button size="sm" asChild>
+                    <Link href={`/buyers/duplicates/merge?ids=${group.ids.join(',')}`}>
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Review and merge
+                    </Link>
+                  </Button>
+                </CardHeader>
+                <CardContent className="p-0">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {group.ids.map((id) => {
+                        const buyer = byId.get(id)!;
+                        return (
+                          <tr key={id}>
+                            <td className="px-6 py-3 whitespace-nowrap">
+                              <Link href={`/buyers/${id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                                {buyer.fullName}
+                              </Link>
+                            </td>
+                            <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatPhone(buyer.phone)}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{buyer.email || '—'}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{buyer.city}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{buyer.status}</td>
+                            <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                              Updated {formatDate(buyer.updatedAt)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useEffect, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,10 +8,17 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Upload, Download, ArrowLeft, CheckCircle, XCircle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Upload, Download, ArrowLeft, CheckCircle, XCircle, ListChecks } from 'lucide-react';
 import Link from 'next/link';
+import ColumnMapper, { type ImportPreview, type SavedImportMapping } from '@/components/buyers/column-mapper';
+import ImportGrid, { type DryRunRow, type EditedRow } from '@/components/buyers/import-grid';
+import ImportJobProgress, { isFinished, type ImportJobStatus } from '@/components/buyers/import-job-progress';
+import { bestMapping, suggestMapping, withSuggestedAliases } from '@/lib/import-mapping';
+import type { ColumnMapping, ImportMatch, ImportMode, ImportOptions } from '@/lib/validations';
 
 interface ImportError {
+  sheet?: string;
   row: number;
   field?: string;
   message: string;
@@ -22,47 +29,141 @@ interface ImportResult {
   success: boolean;
   message: string;
   imported?: number;
+  updated?: number;
   errors: ImportError[];
   validCount?: number;
   totalCount?: number;
 }
 
+const MODE_LABELS: Record<ImportMode, string> = {
+  skip: 'Skip it as a duplicate',
+  update: "Update it with the file's values",
+  merge: 'Merge tags and notes, fill in blanks',
+};
+
+const MATCH_LABELS: Record<ImportMatch, string> = {
+  phone: 'Phone number',
+  email: 'Email',
+  externalId: 'External ID',
+};
+
+interface DryRunResult {
+  message: string;
+  rows: DryRunRow[];
+}
+
 export default function ImportBuyersPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [templates, setTemplates] = useState<SavedImportMapping[]>([]);
+  const [options, setOptions] = useState<ImportOptions>({ mode: 'skip', matchBy: 'phone' });
+  // The background import being followed, and the latest ones of the organization
+  const [job, setJob] = useState<ImportJobStatus | null>(null);
+  const [recentJobs, setRecentJobs] = useState<ImportJobStatus[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
+  useEffect(() => {
+    fetch('/api/buyers/import/mappings')
+      .then((response) => response.ok ? response.json() : { data: [] })
+      .then(({ data }) => setTemplates(data))
+      .catch((error) => console.error('Failed to load import mappings:', error));
+    loadJobs();
+  }, []);
+
+  const loadJobs = () => {
+    fetch('/api/buyers/import/jobs')
+      .then((response) => response.ok ? response.json() : { jobs: [] })
+      .then(({ jobs }) => setRecentJobs(jobs))
+      .catch((error) => console.error('Failed to load import jobs:', error));
+  };
+
+  // Read the file's columns and start from the saved mapping that fits it,
+  // or from a guess based on the headers
+  const previewFile = async (file: File) => {
+    setIsPreviewing(true);
+    setPreview(null);
+    setMapping(null);
+    setDryRun(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/buyers/import/preview', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Could not read the file');
+      }
+
+      const saved = bestMapping(templates, data.headers);
+      setPreview(data);
+      setMapping(withSuggestedAliases(saved?.mapping ?? { columns: suggestMapping(data.headers), aliases: {} }, data.values));
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Could not read the file',
+        errors: [],
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setSelectedFile(file);
       setResult(null);
+      previewFile(file);
     }
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile) return;
-
+  // Post the file, or rows fixed in the grid. A dry run only checks them and
+  // shows the grid; anything else imports and reports the result.
+  const submit = async (body: FormData | { rows: EditedRow[]; dryRun: boolean }) => {
     setIsUploading(true);
     setResult(null);
+    setJob(null);
 
     try {
-      const formData = new FormData();
-      formData.append('file', selectedFile);
-
-      const response = await fetch('/api/buyers/import', {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await fetch('/api/buyers/import', body instanceof FormData
+        ? { method: 'POST', body }
+        : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ ...body, ...options }) });
 
       const data = await response.json();
       
       if (!response.ok) {
         throw new Error(data.error || 'Import failed');
       }
-      
+
+      if (data.dryRun) {
+        setDryRun(data);
+        return;
+      }
+
+      // Too many rows to import within the request; follow the queued job instead
+      if (response.status === 202) {
+        setDryRun(null);
+        const jobResponse = await fetch(`/api/buyers/import/jobs/${data.jobId}`);
+        if (jobResponse.ok) {
+          setJob((await jobResponse.json()).job);
+        }
+        loadJobs();
+        return;
+      }
+
+      setDryRun(null);
       setResult(data);
 
       if (data.success || data.imported > 0) {
@@ -86,11 +187,28 @@ export default function ImportBuyersPage() {
     }
   };
 
+  const uploadFile = (dryRun: boolean) => {
+    if (!selectedFile) return;
+
+    const formData = new FormData();
+    formData.append('file', selectedFile);
+    if (mapping) {
+      formData.append('mapping', JSON.stringify(mapping));
+    }
+    if (dryRun) {
+      formData.append('dryRun', 'true');
+    }
+    formData.append('mode', options.mode);
+    formData.append('matchBy', options.matchBy);
+    submit(formData);
+  };
+
   const downloadTemplate = () => {
     const headers = [
       'fullName',
       'email',
       'phone',
+      'altPhones',
       'city',
       'propertyType',
       'bhk',
@@ -108,13 +226,14 @@ export default function ImportBuyersPage() {
       {
         fullName: 'John Doe',
         email: 'john@example.com',
-        phone: '9876543210',
+        phone: '+91 98765 43210',
+        altPhones: '0172 234 5678 ext. 204',
         city: 'Chandigarh',
         propertyType: 'Apartment',
         bhk: '3',
         purpose: 'Buy',
-        budgetMin: '5000000',
-        budgetMax: '7000000',
+        budgetMin: '50L',
+        budgetMax: '70L',
         timeline: '3-6m',
         source: 'Website',
         notes: 'Looking for 3BHK in good locality',
@@ -156,25 +275,25 @@ export default function ImportBuyersPage() {
           </Button>
           
           <h1 className="text-3xl font-bold text-gray-900">Import Buyers</h1>
-          <p className="mt-2 text-gray-600">Upload a CSV file to import buyer leads</p>
+          <p className="mt-2 text-gray-600">Upload a CSV file or an Excel workbook to import buyer leads</p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Upload Section */}
           <Card>
             <CardHeader>
-              <CardTitle>Upload CSV File</CardTitle>
+              <CardTitle>Upload File</CardTitle>
               <CardDescription>
-                Select a CSV file with buyer data to import (max 200 rows)
+                Select a CSV or Excel (.xlsx) file with buyer data to import (max 50,000 rows across all sheets)
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="file">CSV File</Label>
+                <Label htmlFor="file">CSV or Excel File</Label>
                 <Input
                   id="file"
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.xlsx"
                   onChange={handleFileSelect}
                   ref={fileInputRef}
                 />
@@ -189,12 +308,63 @@ export default function ImportBuyersPage() {
                 </div>
               )}
 
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>When a buyer already exists</Label>
+                  <Select
+                    value={options.mode}
+                    onValueChange={(mode) => setOptions((current) => ({ ...current, mode: mode as ImportMode }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MODE_LABELS) as ImportMode[]).map((mode) => (
+                        <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Match existing buyers by</Label>
+                  <Select
+                    value={options.matchBy}
+                    onValueChange={(matchBy) => setOptions((current) => ({ ...current, matchBy: matchBy as ImportMatch }))}
+                    disabled={options.mode === 'skip'}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MATCH_LABELS) as ImportMatch[]).map((matchBy) => (
+                        <SelectItem key={matchBy} value={matchBy}>{MATCH_LABELS[matchBy]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                onClick={() => uploadFile(true)}
+                disabled={!selectedFile || !mapping || isPreviewing || isUploading}
+                className="w-full"
+              >
+                <ListChecks className="mr-2 h-4 w-4" />
+                Check Rows First
+              </Button>
+
               <Button
-                onClick={handleUpload}
-                disabled={!selectedFile || isUploading}
+                onClick={() => uploadFile(false)}
+                disabled={!selectedFile || !mapping || isPreviewing || isUploading}
                 className="w-full"
               >
-                {isUploading ? (
+                {isPreviewing ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Reading file...
+                  </>
+                ) : isUploading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Uploading...
@@ -207,10 +377,18 @@ export default function ImportBuyersPage() {
                 )}
               </Button>
 
-              <Button variant="outline" onClick={downloadTemplate} className="w-full">
-                <Download className="mr-2 h-4 w-4" />
-                Download Template
-              </Button>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" asChild>
+                  <a href="/api/buyers/import/template" download>
+                    <Download className="mr-2 h-4 w-4" />
+                    Excel Template
+                  </a>
+                </Button>
+                <Button variant="outline" onClick={downloadTemplate}>
+                  <Download className="mr-2 h-4 w-4" />
+                  CSV Template
+                </Button>
+              </div>
             </CardContent>
           </Card>
 
@@ -224,7 +402,7 @@ export default function ImportBuyersPage() {
                 <h4 className="font-medium mb-2">Required Columns:</h4>
                 <ul className="text-sm text-gray-600 space-y-1">
                   <li>• <code>fullName</code> - Full name (2-80 characters)</li>
-                  <li>• <code>phone</code> - Phone number (10-15 digits)</li>
+                  <li>• <code>phone</code> - Phone number; 10-digit numbers are taken as Indian (+91)</li>
                   <li>• <code>city</code> - Chandigarh|Mohali|Zirakpur|Panchkula|Other</li>
                   <li>• <code>propertyType</code> - Apartment|Villa|Plot|Office|Retail</li>
                   <li>• <code>purpose</code> - Buy|Rent</li>
@@ -237,28 +415,105 @@ export default function ImportBuyersPage() {
                 <h4 className="font-medium mb-2">Optional Columns:</h4>
                 <ul className="text-sm text-gray-600 space-y-1">
                   <li>• <code>email</code> - Valid email address</li>
+                  <li>• <code>altPhones</code> - Up to 4 more numbers, comma-separated</li>
                   <li>• <code>bhk</code> - Required for Apartment/Villa (1|2|3|4|Studio)</li>
-                  <li>• <code>budgetMin</code> - Minimum budget in INR</li>
+                  <li>• <code>budgetMin</code> - Minimum budget in INR, e.g. 5000000, 50L or 1.2 Cr (monthly rent when purpose is Rent)</li>
                   <li>• <code>budgetMax</code> - Maximum budget in INR</li>
+                  <li>• <code>budget</code> - Range instead of the two columns above, e.g. 50 lakh - 1 crore</li>
                   <li>• <code>notes</code> - Additional notes (max 1000 chars)</li>
                   <li>• <code>tags</code> - Comma-separated tags</li>
-                  <li>• <code>status</code> - Defaults to "New"</li>
+                  <li>• <code>status</code> - Defaults to "New"; Visited, Converted and Dropped need stage details, so set those from the lead afterwards</li>
+                  <li>• <code>externalId</code> - The lead's id in your CRM, to match it when the file is imported again</li>
                 </ul>
               </div>
 
               <Alert>
                 <AlertDescription>
                   <strong>Tips:</strong>
-                  <br />• Download the template to see the correct format
+                  <br />• Download a template to see the correct format; the Excel one offers dropdowns for fixed-choice columns
+                  <br />• Every sheet with a name column (e.g. <code>fullName</code> or Name) is imported
+                  <br />• Columns named differently (e.g. Name, Mobile, Budget (Lakhs)) can be mapped once the file is chosen; save the mapping to reuse it for the next file from the same source
                   <br />• BHK is required for Apartment and Villa properties
                   <br />• Budget max must be ≥ budget min
-                  <br />• Maximum 200 rows per import
+                  <br />• Check rows first to fix problems cell by cell and pick the rows to import
+                  <br />• To re-import a CRM export safely, update or merge existing buyers matched by phone, email or external ID; every change is kept in the buyer's history
+                  <br />• Files of more than 200 rows are imported in the background, up to 50,000 rows; rows can be checked first up to 200 at a time
+                  <br />• Skipped rows of a background import can be downloaded as a CSV, fixed and imported again
                 </AlertDescription>
               </Alert>
             </CardContent>
           </Card>
         </div>
 
+        {preview && mapping && (
+          <ColumnMapper
+            preview={preview}
+            mapping={mapping}
+            templates={templates}
+            onChange={setMapping}
+            onTemplatesChange={setTemplates}
+          />
+        )}
+
+        {dryRun && (
+          <ImportGrid
+            rows={dryRun.rows}
+            message={dryRun.message}
+            isWorking={isUploading}
+            onCheck={(rows) => submit({ rows, dryRun: true })}
+            onImport={(rows) => submit({ rows, dryRun: false })}
+          />
+        )}
+
+        {job && <ImportJobProgress job={job} onFinish={loadJobs} />}
+
+        {recentJobs.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Recent Imports</CardTitle>
+              <CardDescription>Large files imported in the background</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 font-medium">File</th>
+                    <th className="py-2 font-medium">Started</th>
+                    <th className="py-2 font-medium">Status</th>
+                    <th className="py-2 font-medium">Imported</th>
+                    <th className="py-2 font-medium">Updated</th>
+                    <th className="py-2 font-medium">Skipped</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {recentJobs.map((recent) => (
+                    <tr key={recent.id} className="border-t">
+                      <td className="py-2">
+                        <button type="button" className="text-blue-600 hover:underline" onClick={() => setJob(recent)}>
+                          {recent.fileName}
+                        </button>
+                      </td>
+                      <td className="py-2 text-gray-500">{new Date(recent.createdAt).toLocaleString('en-IN')}</td>
+                      <td className="py-2"><Badge variant="outline">{recent.status}</Badge></td>
+                      <td className="py-2">{recent.importedRows} of {recent.totalRows}</td>
+                      <td className="py-2">{recent.updatedRows}</td>
+                      <td className="py-2">{recent.failedRows}</td>
+                      <td className="py-2 text-right">
+                        {isFinished(recent) && recent.failedRows > 0 && (
+                          <a href={`/api/buyers/import/jobs/${recent.id}/errors`} download className="text-blue-600 hover:underline">
+                            Error report
+                          </a>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Results */}
         {result && (
           <div className="space-y-4 mb-6">
@@ -286,7 +541,9 @@ export default function ImportBuyersPage() {
                 <div className="space-y-2">
                   {result.errors.map((error, index) => (
                     <div key={index} className="text-sm p-2 bg-red-50 rounded">
-                      <p className="font-medium">Row {error.row}: {error.message}</p>
+                      <p className="font-medium">
+                        {error.sheet ? `Sheet ${error.sheet}, row ${error.row}` : `Row ${error.row}`}: {error.message}
+                      </p>
                       {error.field && (
                         <p className="text-muted-foreground">Field: {error.field}</p>
                       )}
@@ -5,6 +5,8 @@ import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { createBuyerSchema, type CreateBuyer } from '@/lib/validations';
+import { formatBudget, parseBudget } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,6 +16,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Loader2, Save, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import StageFields from '@/components/buyers/stage-fields';
+
+interface DuplicateMatch {
+  id: string;
+  fullName: string;
+  phone: string;
+  email: string | null;
+}
 
 const cityOptions = ['Chandigarh', 'Mohali', 'Zirakpur', 'Panchkula', 'Other'];
 const propertyTypeOptions = ['Apartment', 'Villa', 'Plot', 'Office', 'Retail'];
@@ -26,6 +36,8 @@ const statusOptions = ['New', 'Qualified', 'Contacted', 'Visited', 'Negotiation'
 export default function NewBuyerPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [pendingData, setPendingData] = useState<CreateBuyer | null>(null);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
   const router = useRouter();
@@ -47,6 +59,7 @@ export default function NewBuyerPage() {
   const propertyType = watch('propertyType');
   const budgetMin = watch('budgetMin');
   const budgetMax = watch('budgetMax');
+  const purpose = watch('purpose');
 
   const requiresBHK = propertyType === 'Apartment' || propertyType === 'Villa';
 
@@ -65,12 +78,13 @@ export default function NewBuyerPage() {
     setValue('tags', newTags);
   };
 
-  const onSubmit = async (data: CreateBuyer) => {
+  const createBuyer = async (data: CreateBuyer, allowDuplicate: boolean) => {
     setIsLoading(true);
     setError('');
+    setDuplicates([]);
 
     try {
-      const response = await fetch('/api/buyers', {
+      const response = await fetch(`/api/buyers${allowDuplicate ? '?allowDuplicate=true' : ''}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -80,6 +94,11 @@ export default function NewBuyerPage() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        // Show the existing leads and let the user decide whether to go ahead
+        if (response.status === 409 && errorData.duplicates) {
+          setDuplicates(errorData.duplicates);
+          setPendingData(data);
+        }
         throw new Error(errorData.error || 'Failed to create buyer');
       }
 
@@ -92,6 +111,8 @@ export default function NewBuyerPage() {
     }
   };
 
+  const onSubmit = (data: CreateBuyer) => createBuyer(data, false);
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -135,11 +156,17 @@ export default function NewBuyerPage() {
                   <Input
                     id="phone"
                     {...register('phone')}
-                    placeholder="Enter phone number"
+                    placeholder="+91 98765 43210"
                   />
+                  <p className="text-xs text-gray-500">Separate additional numbers with commas</p>
                   {errors.phone && (
                     <p className="text-sm text-red-600">{errors.phone.message}</p>
                   )}
+                  {errors.altPhones && (
+                    <p className="text-sm text-red-600">
+                      {errors.altPhones.message ?? 'One of the additional numbers is not a valid phone number'}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -240,26 +267,30 @@ export default function NewBuyerPage() {
               {/* Budget */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="budgetMin">Minimum Budget (INR)</Label>
+                  <Label htmlFor="budgetMin">{purpose === 'Rent' ? 'Minimum Monthly Rent' : 'Minimum Budget'} (INR)</Label>
                   <Input
                     id="budgetMin"
-                    type="number"
-                    {...register('budgetMin', { valueAsNumber: true })}
-                    placeholder="Enter minimum budget"
+                    {...register('budgetMin')}
+                    placeholder="e.g. 45L"
                   />
+                  {parseBudget(budgetMin) && (
+                    <p className="text-xs text-gray-500">{formatBudget(parseBudget(budgetMin)!, { purpose })}</p>
+                  )}
                   {errors.budgetMin && (
                     <p className="text-sm text-red-600">{errors.budgetMin.message}</p>
                   )}
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="budgetMax">Maximum Budget (INR)</Label>
+                  <Label htmlFor="budgetMax">{purpose === 'Rent' ? 'Maximum Monthly Rent' : 'Maximum Budget'} (INR)</Label>
                   <Input
                     id="budgetMax"
-                    type="number"
-                    {...register('budgetMax', { valueAsNumber: true })}
-                    placeholder="Enter maximum budget"
+                    {...register('budgetMax')}
+                    placeholder="e.g. 1.2 Cr"
                   />
+                  {parseBudget(budgetMax) && (
+                    <p className="text-xs text-gray-500">{formatBudget(parseBudget(budgetMax)!, { purpose })}</p>
+                  )}
                   {errors.budgetMax && (
                     <p className="text-sm text-red-600">{errors.budgetMax.message}</p>
                   )}
@@ -327,6 +358,14 @@ export default function NewBuyerPage() {
                 )}
               </div>
 
+              <StageFields
+                status={watch('status')}
+                register={register}
+                watch={watch}
+                setValue={setValue}
+                errors={errors}
+              />
+
               {/* Tags */}
               <div className="space-y-2">
                 <Label htmlFor="tags">Tags</Label>
@@ -383,7 +422,33 @@ export default function NewBuyerPage() {
 
               {error && (
                 <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
+                  <AlertDescription>
+                    {error}
+                    {duplicates.length > 0 && (
+                      <div className="mt-2 space-y-2">
+                        <ul className="list-disc pl-5">
+                          {duplicates.map((duplicate) => (
+                            <li key={duplicate.id}>
+                              <Link href={`/buyers/${duplicate.id}`} className="underline" target="_blank">
+                                {duplicate.fullName}
+                              </Link>
+                              {` · ${formatPhone(duplicate.phone)}`}
+                              {duplicate.email && ` · ${duplicate.email}`}
+                            </li>
+                          ))}
+                        </ul>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={isLoading || !pendingData}
+                          onClick={() => pendingData && createBuyer(pendingData, true)}
+                        >
+                          Create anyway
+                        </Button>
+                      </div>
+                    )}
+                  </AlertDescription>
                 </Alert>
               )}
 
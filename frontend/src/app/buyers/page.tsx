@@ -4,10 +4,18 @@ import { authOptions } from '@/lib/auth';
 import { redirect } from 'next/navigation';
 import { db } from '@/lib/db';
 import { buyers } from '@/lib/schema';
-import { eq, and, or, ilike, desc, asc, count } from 'drizzle-orm';
+import { and } from 'drizzle-orm';
 import { searchSchema } from '@/lib/validations';
+import { buyerConditions } from '@/lib/buyer-filters';
+import { buyerOrderBy, effectiveSortBy } from '@/lib/search';
+import { countBuyers, cursorFor, decodeCursor, keysetCondition } from '@/lib/pagination';
+import { getActiveMembership, getAssignees } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { getDefaultView, getSavedViews } from '@/lib/saved-views';
+import { viewHref } from '@/lib/views';
 import BuyersList from '@/components/buyers/buyers-list';
 import BuyersFilters from '@/components/buyers/buyers-filters';
+import SavedViews from '@/components/buyers/saved-views';
 import { Button } from '@/components/ui/button';
 import { Plus, Download } from 'lucide-react';
 import Link from 'next/link';
@@ -35,19 +43,14 @@ type Buyer = {
 
 interface PageProps {
   searchParams: {
-    query?: string;
-    city?: string;
-    propertyType?: string;
-    status?: string;
-    timeline?: string;
     page?: string;
     limit?: string;
-    sortBy?: string;
-    sortOrder?: string;
+    // Filters as comma-separated lists and sorting, see searchSchema
+    [key: string]: string | undefined;
   };
 }
 
-async function getBuyers(searchParams: PageProps['searchParams']) {
+async function getBuyers(organizationId: string, searchParams: PageProps['searchParams']) {
   // Parse and validate search parameters
   const params = {
     ...searchParams,
@@ -57,67 +60,53 @@ async function getBuyers(searchParams: PageProps['searchParams']) {
 
   const validatedParams = searchSchema.parse(params);
 
-  // Build where conditions
-  const conditions = [];
-  
-  if (validatedParams.query) {
-    conditions.push(
-      or(
-        ilike(buyers.fullName, `%${validatedParams.query}%`),
-        ilike(buyers.email, `%${validatedParams.query}%`),
-        ilike(buyers.phone, `%${validatedParams.query}%`)
-      )
-    );
-  }
+  const whereClause = buyerConditions(organizationId, validatedParams);
+  const sortBy = effectiveSortBy(validatedParams);
 
-  if (validatedParams.city) {
-    conditions.push(eq(buyers.city, validatedParams.city));
-  }
+  // Next pages follow the cursor of the page before, so deep pages of a large
+  // book don't scan every earlier row; page numbers still jump by offset, and
+  // relevance is computed per query so searches are always paged that way
+  const cursor = validatedParams.cursor && sortBy !== 'relevance' ? decodeCursor(validatedParams.cursor) : null;
 
-  if (validatedParams.propertyType) {
-    conditions.push(eq(buyers.propertyType, validatedParams.propertyType));
-  }
+  // The server's clock, not the browser's: a bulk action on every matching
+  // lead covers them as they stood at this moment
+  const asOf = new Date().toISOString();
 
-  if (validatedParams.status) {
-    conditions.push(eq(buyers.status, validatedParams.status));
-  }
+  // Large results are totalled from the planner's estimate
+  const { total, estimated } = await countBuyers(whereClause, 'estimate');
 
-  if (validatedParams.timeline) {
-    conditions.push(eq(buyers.timeline, validatedParams.timeline));
-  }
-
-  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-  // Get total count
-  const [totalResult] = await db
-    .select({ count: count() })
+  // One extra row tells whether there is a next page
+  const rows = await db
+    .select()
     .from(buyers)
-    .where(whereClause);
+    .where(cursor && sortBy !== 'relevance'
+      ? and(whereClause, keysetCondition(sortBy, validatedParams.sortOrder, cursor))
+      : whereClause)
+    .orderBy(...buyerOrderBy(validatedParams))
+    .limit(validatedParams.limit + 1)
+    .offset(cursor ? 0 : (validatedParams.page - 1) * validatedParams.limit);
 
-  const total = totalResult.count;
+  const results = rows.slice(0, validatedParams.limit);
+  const hasMore = rows.length > validatedParams.limit;
 
-  // Get paginated results
-  const orderBy = validatedParams.sortOrder === 'asc' 
-    ? asc(buyers[validatedParams.sortBy])
-    : desc(buyers[validatedParams.sortBy]);
-
-  const results = await db
-    .select()
-    .from(buyers)
-    .where(whereClause)
-    .orderBy(orderBy)
-    .limit(validatedParams.limit)
-    .offset((validatedParams.page - 1) * validatedParams.limit);
+  // The cursor only belongs to this page, not to the filters links are built from
+  const { cursor: _cursor, count: _count, ...filters } = validatedParams;
 
   return {
     data: results,
     pagination: {
       page: validatedParams.page,
       limit: validatedParams.limit,
-      total,
-      pages: Math.ceil(total / validatedParams.limit),
+      total: total ?? 0,
+      estimated,
+      totalPages: Math.ceil((total ?? 0) / validatedParams.limit),
+      nextCursor: hasMore && sortBy !== 'relevance'
+        ? cursorFor(results[results.length - 1], sortBy)
+        : null,
     },
-    filters: validatedParams,
+    // The list shows which order it is in, including the implicit one
+    filters: { ...filters, sortBy },
+    asOf,
   };
 }
 
@@ -131,10 +120,28 @@ export default async function BuyersPage({ searchParams }: PageProps) {
     redirect('/auth/signin');
   }
 
-  const { data, pagination, filters } = await getBuyers(searchParams) as { 
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  // A bare /buyers opens the member's default view, when they have one
+  if (Object.keys(searchParams).length === 0) {
+    const defaultView = await getDefaultView(membership.organizationId, membership.userId);
+    if (defaultView) {
+      redirect(viewHref(defaultView));
+    }
+  }
+
+  const views = await getSavedViews(membership.organizationId, membership.userId);
+  // Members the selected leads can be handed to in bulk
+  const assignees = can(membership, 'buyer:reassign') ? await getAssignees(membership.organizationId) : [];
+
+  const { data, pagination, filters, asOf } = await getBuyers(membership.organizationId, searchParams) as { 
     data: Buyer[]; 
-    pagination: { total: number; page: number; limit: number; totalPages: number }; 
-    filters: Record<string, string> 
+    pagination: { total: number; estimated: boolean; page: number; limit: number; totalPages: number; nextCursor: string | null }; 
+    filters: Record<string, string>;
+    asOf: string;
   };
 
   return (
@@ -142,6 +149,11 @@ export default async function BuyersPage({ searchParams }: PageProps) {
       <div className="flex-1 overflow-hidden">
         <div className="h-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 overflow-y-auto">
           <div className="space-y-6 h-full flex flex-col">
+            <SavedViews
+              views={views}
+              defaultViewId={membership.defaultViewId}
+              currentUserId={membership.userId}
+            />
             <BuyersFilters initialFilters={filters as any} />
             <Suspense fallback={
               <div className="flex-1 flex items-center justify-center">
@@ -156,6 +168,9 @@ export default async function BuyersPage({ searchParams }: PageProps) {
                     pages: pagination.totalPages,
                   }}
                   currentFilters={filters as any}
+                  currentUser={{ userId: membership.userId, role: membership.role }}
+                  asOf={asOf}
+                  assignees={assignees}
                 />
               </div>
             </Suspense>
@@ -0,0 +1,96 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { getTrash, purgeDate, trashRetentionDays } from '@/lib/trash';
+import { formatDate } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import RestoreBuyerButton from '@/components/buyers/restore-buyer-button';
+import { ArrowLeft } from 'lucide-react';
+
+export default async function TrashPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  // Agents only see the leads they could have deleted themselves
+  const trash = (await getTrash(membership.organizationId))
+    .filter((buyer) => can(membership, 'buyer:delete', buyer));
+  const retentionDays = trashRetentionDays();
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Trash</h1>
+            <p className="mt-2 text-gray-600">
+              Deleted leads can be restored for {retentionDays} days, after which they are removed permanently
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/buyers">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Leads
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {trash.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-12">The trash is empty</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lead</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted By</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purged On</th>
+                    <th className="px-6 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {trash.map((buyer) => (
+                    <tr key={buyer.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{buyer.fullName}</div>
+                        <div className="text-sm text-gray-500">{formatPhone(buyer.phone)} · {buyer.city}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{buyer.status}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {buyer.deletedBy?.name || buyer.deletedBy?.email || 'Unknown user'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {buyer.deletedAt && formatDate(buyer.deletedAt)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {buyer.deletedAt && formatDate(purgeDate(buyer.deletedAt, retentionDays))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <RestoreBuyerButton buyerId={buyer.id} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
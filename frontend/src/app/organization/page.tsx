@@ -0,0 +1,98 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { db } from '@/lib/db';
+import { assignmentRules, memberships, organizations, users } from '@/lib/schema';
+import { asc, eq } from 'drizzle-orm';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import OrganizationMembers from '@/components/organization/organization-members';
+import CreateOrganization from '@/components/organization/create-organization';
+import AssignmentRules from '@/components/organization/assignment-rules';
+
+async function getOrganizationWithMembers(organizationId: string) {
+  const [organization] = await db
+    .select()
+    .from(organizations)
+    .where(eq(organizations.id, organizationId));
+
+  const members = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      image: users.image,
+      role: memberships.role,
+      joinedAt: memberships.createdAt,
+    })
+    .from(memberships)
+    .innerJoin(users, eq(memberships.userId, users.id))
+    .where(eq(memberships.organizationId, organizationId))
+    .orderBy(asc(memberships.createdAt));
+
+  return { organization, members };
+}
+
+async function getAssignmentRules(organizationId: string) {
+  return db
+    .select()
+    .from(assignmentRules)
+    .where(eq(assignmentRules.organizationId, organizationId))
+    .orderBy(asc(assignmentRules.priority), asc(assignmentRules.createdAt));
+}
+
+export default async function OrganizationPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+
+  if (!membership) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">No organization</h1>
+          <p className="text-gray-600">
+            You are not a member of this organization anymore. Sign out and back in, or switch organizations.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { organization, members } = await getOrganizationWithMembers(membership.organizationId);
+  const canManageAssignments = can(membership, 'assignment:manage');
+  const rules = canManageAssignments ? await getAssignmentRules(membership.organizationId) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">{organization.name}</h1>
+          <p className="mt-2 text-gray-600">
+            Everyone in this organization can see and work on its leads
+          </p>
+        </div>
+
+        <div className="space-y-6">
+          <OrganizationMembers
+            organization={organization}
+            members={members}
+            currentUserId={session.user.id}
+            canManage={can(membership, 'organization:manage')}
+          />
+          {canManageAssignments && (
+            <AssignmentRules
+              rules={rules}
+              agents={members.filter((member) => member.role !== 'viewer')}
+            />
+          )}
+          <CreateOrganization />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { db } from '@/lib/db';
+import { properties } from '@/lib/schema';
+import { and, eq } from 'drizzle-orm';
+import { getActiveMembership } from '@/lib/organizations';
+import PropertyForm from '@/components/properties/property-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+
+interface PageProps {
+  params: { id: string };
+}
+
+export default async function EditPropertyPage({ params }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const [property] = await db
+    .select()
+    .from(properties)
+    .where(and(eq(properties.id, params.id), eq(properties.organizationId, membership.organizationId)));
+
+  if (!property) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <Button variant="ghost" asChild className="mb-4">
+            <Link href={`/properties/${property.id}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Property
+            </Link>
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900">Edit Property</h1>
+          <p className="mt-2 text-gray-600">{property.title}</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Property Information</CardTitle>
+            <CardDescription>
+              Update the listing details
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PropertyForm
+              propertyId={property.id}
+              defaultValues={{
+                title: property.title,
+                city: property.city,
+                locality: property.locality ?? '',
+                propertyType: property.propertyType,
+                bhk: property.bhk ?? undefined,
+                purpose: property.purpose,
+                price: property.price,
+                areaSqft: property.areaSqft ?? undefined,
+                status: property.status,
+                notes: property.notes ?? '',
+              }}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
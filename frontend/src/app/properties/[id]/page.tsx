@@ -0,0 +1,141 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect, notFound } from 'next/navigation';
+import Link from 'next/link';
+import { db } from '@/lib/db';
+import { properties } from '@/lib/schema';
+import { and, eq } from 'drizzle-orm';
+import { getActiveMembership } from '@/lib/organizations';
+import { getBuyerMatchesForProperty } from '@/lib/matching';
+import { can } from '@/lib/permissions';
+import { formatBudgetRange, formatCurrency, formatDate } from '@/lib/utils';
+import SuggestedMatches from '@/components/properties/suggested-matches';
+import DeletePropertyButton from '@/components/properties/delete-property-button';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Edit } from 'lucide-react';
+
+interface PageProps {
+  params: { id: string };
+}
+
+export default async function PropertyDetailPage({ params }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const [property] = await db
+    .select()
+    .from(properties)
+    .where(and(eq(properties.id, params.id), eq(properties.organizationId, membership.organizationId)));
+
+  if (!property) {
+    notFound();
+  }
+
+  const canManage = can(membership, 'property:manage');
+  const matches = property.status === 'Available' && can(membership, 'buyer:read')
+    ? await getBuyerMatchesForProperty(property)
+    : [];
+
+  const details = [
+    { label: 'City', value: property.city },
+    { label: 'Locality', value: property.locality || 'Not specified' },
+    { label: 'Property Type', value: property.propertyType },
+    { label: 'BHK', value: property.bhk || 'Not applicable' },
+    { label: 'Purpose', value: property.purpose },
+    { label: 'Price', value: formatCurrency(property.price) },
+    { label: 'Area', value: property.areaSqft ? `${property.areaSqft} sq ft` : 'Not specified' },
+    { label: 'Last Updated', value: formatDate(property.updatedAt) },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" asChild>
+                <Link href="/properties">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Properties
+                </Link>
+              </Button>
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900">{property.title}</h1>
+                <p className="mt-2 text-gray-600">Property Details</p>
+              </div>
+            </div>
+            {canManage && (
+              <div className="flex gap-2">
+                <Button variant="outline" asChild>
+                  <Link href={`/properties/${property.id}/edit`}>
+                    <Edit className="mr-2 h-4 w-4" />
+                    Edit
+                  </Link>
+                </Button>
+                <DeletePropertyButton propertyId={property.id} />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  Listing
+                  <Badge>{property.status}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {details.map(({ label, value }) => (
+                    <div key={label}>
+                      <dt className="text-sm font-medium text-gray-500">{label}</dt>
+                      <dd className="mt-1 text-sm text-gray-900">{value}</dd>
+                    </div>
+                  ))}
+                </dl>
+                {property.notes && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500">Notes</h3>
+                    <p className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">{property.notes}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-1">
+            <SuggestedMatches
+              description="Open leads this property would suit"
+              emptyMessage={property.status === 'Available' ? 'No matching leads' : 'Only available properties are matched'}
+              matches={matches.map(({ item: buyer, score, reasons }) => ({
+                id: buyer.id,
+                href: `/buyers/${buyer.id}`,
+                title: buyer.fullName,
+                subtitle: `${buyer.city} · ${formatBudgetRange(buyer.budgetMin ?? undefined, buyer.budgetMax ?? undefined, { notation: 'compact', purpose: buyer.purpose })} · ${buyer.status}`,
+                score,
+                reasons,
+              }))}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
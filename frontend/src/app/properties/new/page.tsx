@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import PropertyForm from '@/components/properties/property-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft } from 'lucide-react';
+
+export default function NewPropertyPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <Button variant="ghost" asChild className="mb-4">
+            <Link href="/properties">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Properties
+            </Link>
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900">Add Property</h1>
+          <p className="mt-2 text-gray-600">List a new property in your inventory</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Property Information</CardTitle>
+            <CardDescription>
+              Leads are matched against city, type, BHK and price
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <PropertyForm />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { db } from '@/lib/db';
+import { properties } from '@/lib/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { getActiveMembership } from '@/lib/organizations';
+import { can } from '@/lib/permissions';
+import { formatCurrency } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Plus } from 'lucide-react';
+
+const propertyStatusColors = {
+  Available: 'bg-green-100 text-green-800',
+  'On Hold': 'bg-yellow-100 text-yellow-800',
+  Closed: 'bg-gray-100 text-gray-600',
+};
+
+interface PageProps {
+  searchParams: { status?: string };
+}
+
+export default async function PropertiesPage({ searchParams }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const status = searchParams.status as keyof typeof propertyStatusColors | undefined;
+  const inventory = await db
+    .select()
+    .from(properties)
+    .where(and(
+      eq(properties.organizationId, membership.organizationId),
+      status && status in propertyStatusColors ? eq(properties.status, status) : undefined
+    ))
+    .orderBy(desc(properties.updatedAt));
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Properties</h1>
+            <p className="mt-2 text-gray-600">{inventory.length} listings in your inventory</p>
+          </div>
+          {can(membership, 'property:manage') && (
+            <Button asChild>
+              <Link href="/properties/new">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Property
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        <div className="mb-4 flex gap-2">
+          {[undefined, ...Object.keys(propertyStatusColors)].map((option) => (
+            <Button
+              key={option ?? 'all'}
+              variant={option === status ? 'default' : 'outline'}
+              size="sm"
+              asChild
+            >
+              <Link href={option ? `/properties?status=${encodeURIComponent(option)}` : '/properties'}>
+                {option ?? 'All'}
+              </Link>
+            </Button>
+          ))}
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {inventory.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-12">No properties yet</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Property</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Location</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {inventory.map((property) => (
+                    <tr key={property.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Link href={`/properties/${property.id}`} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                          {property.title}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {property.locality ? `${property.locality}, ${property.city}` : property.city}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {property.propertyType}
+                        {property.bhk && ` · ${property.bhk} BHK`}
+                        {` · ${property.purpose}`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatCurrency(property.price)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={propertyStatusColors[property.status]}>{property.status}</Badge>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
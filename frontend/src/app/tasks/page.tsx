@@ -0,0 +1,38 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { getActiveMembership } from '@/lib/organizations';
+import { getMyTasks } from '@/lib/tasks';
+import MyTasks from '@/components/tasks/my-tasks';
+
+export default async function TasksPage() {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const { overdue, today } = await getMyTasks(membership.organizationId, session.user.id);
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900">My Tasks</h1>
+          <p className="mt-2 text-gray-600">
+            {overdue.length + today.length === 0
+              ? 'You are all caught up'
+              : `${overdue.length} overdue, ${today.length} due today`}
+          </p>
+        </div>
+
+        <MyTasks overdue={overdue} today={today} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { getActiveMembership } from '@/lib/organizations';
+import { addDays, getVisitsBetween, startOfWeek } from '@/lib/visits';
+import WeekCalendar from '@/components/visits/week-calendar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+
+interface PageProps {
+  searchParams: { week?: string; mine?: string };
+}
+
+// YYYY-MM-DD in local time, used for the ?week= links
+function toDateParam(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export default async function VisitsPage({ searchParams }: PageProps) {
+  const session = await getServerSession(authOptions);
+
+  if (!session) {
+    redirect('/auth/signin');
+  }
+
+  const membership = await getActiveMembership(session);
+  if (!membership) {
+    redirect('/organization');
+  }
+
+  const requested = searchParams.week ? new Date(`${searchParams.week}T00:00:00`) : new Date();
+  const weekStart = startOfWeek(isNaN(requested.getTime()) ? new Date() : requested);
+  const mine = searchParams.mine === 'true';
+
+  const visits = await getVisitsBetween(
+    membership.organizationId,
+    weekStart,
+    addDays(weekStart, 7),
+    mine ? session.user.id : undefined
+  );
+
+  const weekLink = (start: Date, onlyMine = mine) =>
+    `/visits?week=${toDateParam(start)}${onlyMine ? '&mine=true' : ''}`;
+  const feedUrl = `${process.env.NEXTAUTH_URL || ''}/api/calendar/${membership.calendarToken}.ics`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Site Visits</h1>
+            <p className="mt-2 text-gray-600">
+              Week of {new Intl.DateTimeFormat('en-IN', { day: 'numeric', month: 'long', year: 'numeric' }).format(weekStart)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link href={weekLink(addDays(weekStart, -7))} title="Previous week">
+                <ChevronLeft className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href={weekLink(startOfWeek())}>This week</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link href={weekLink(addDays(weekStart, 7))} title="Next week">
+                <ChevronRight className="h-4 w-4" />
+              </Link>
+            </Button>
+            <Button variant={mine ? 'default' : 'outline'} size="sm" asChild>
+              <Link href={weekLink(weekStart, !mine)}>{mine ? 'Showing mine' : 'Only mine'}</Link>
+            </Button>
+          </div>
+        </div>
+
+        <WeekCalendar weekStart={weekStart} visits={visits} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Subscribe to your visits
+            </CardTitle>
+            <CardDescription>
+              Add this address to Google Calendar, Outlook or Apple Calendar as a subscribed calendar.
+              Keep it private — anyone with the link can see your visits.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Input readOnly value={feedUrl} aria-label="Calendar feed URL" />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { can, type Actor } from '@/lib/permissions';
+import { PIPELINE_STATUSES, type PipelineStatus } from '@/lib/pipeline';
+import { missingStageFields } from '@/lib/status-transitions';
+import type { BulkSkip } from '@/lib/bulk';
+import type { UpdateBuyerStatus } from '@/lib/validations';
+import StatusChangeDialog from './status-change-dialog';
+import { ChevronDown, Download, Loader2, Tag, Trash2, UserCheck, X } from 'lucide-react';
+
+interface Assignee {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+// Leads picked on the page with the version shown, or every lead matching
+// the list's filters as of when it was loaded
+export type BulkSelection =
+  | { ids: Array<{ id: string; updatedAt: string }> }
+  | { filters: Record<string, string>; asOf: string };
+
+interface BulkActionsProps {
+  // Nothing selected hides the toolbar but keeps the last result on screen
+  selection: BulkSelection | null;
+  count: number;
+  currentUser: Actor;
+  assignees: Assignee[];
+  onClear: () => void;
+  onDone: () => void;
+}
+
+interface BulkOutcome {
+  message: string;
+  skipped: BulkSkip[];
+}
+
+// Skipped leads listed under the summary; the rest are only counted
+const SHOWN_SKIPS = 10;
+
+export default function BulkActions({ selection, count, currentUser, assignees, onClear, onDone }: BulkActionsProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const [tags, setTags] = useState('');
+  const [pendingStatus, setPendingStatus] = useState<PipelineStatus | null>(null);
+  const [outcome, setOutcome] = useState<BulkOutcome | null>(null);
+  const [error, setError] = useState('');
+
+  const leads = `${count} ${count === 1 ? 'lead' : 'leads'}`;
+
+  const send = (action: Record<string, unknown>) => fetch('/api/buyers/bulk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...action, ...selection }),
+  });
+
+  // Show what happened and reload the list; 207 means some leads were skipped
+  const finish = async (response: Response) => {
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Bulk action failed');
+    }
+    setOutcome({ message: result.message, skipped: result.skipped });
+    onDone();
+  };
+
+  const run = async (action: Record<string, unknown>) => {
+    setIsWorking(true);
+    setError('');
+    setOutcome(null);
+    try {
+      await finish(await send(action));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const changeStatus = (status: PipelineStatus) => {
+    // Stages that need extra data (e.g. a drop reason) ask for it once for every lead
+    if (missingStageFields(status, {}).length > 0) {
+      setPendingStatus(status);
+      return;
+    }
+    run({ action: 'status', status });
+  };
+
+  const changeTags = (action: 'addTags' | 'removeTags') => {
+    const list = tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+    if (list.length === 0) {
+      setError('Enter one or more tags, separated by commas');
+      return;
+    }
+    run({ action, tags: list });
+    setTags('');
+  };
+
+  const reassign = (assignee: Assignee) => {
+    if (!confirm(`Hand ${leads} over to ${assignee.name || assignee.email}?`)) return;
+    run({ action: 'reassign', ownerId: assignee.id });
+  };
+
+  const remove = () => {
+    if (!confirm(`Move ${leads} to the trash? They can be restored from there.`)) return;
+    run({ action: 'delete' });
+  };
+
+  const exportSelection = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const response = await send({ action: 'export' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `buyers-selection-${new Date().toISOString().split('T')[0]}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      {pendingStatus && (
+        <StatusChangeDialog
+          buyer={{ id: '', fullName: `${leads} selected`, updatedAt: new Date() }}
+          toStatus={pendingStatus}
+          onClose={() => setPendingStatus(null)}
+          submit={({ updatedAt, ...data }: UpdateBuyerStatus) => send({ action: 'status', ...data })}
+          onSaved={(result) => {
+            setPendingStatus(null);
+            setOutcome({ message: result.message, skipped: result.skipped });
+            onDone();
+          }}
+        />
+      )}
+
+      {selection && count > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-indigo-50 px-3 py-2">
+          <span className="text-sm font-medium">{leads} selected</span>
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={isWorking}>
+            <X className="mr-1 h-4 w-4" />
+            Clear
+          </Button>
+
+          <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+            {isWorking && <Loader2 className="h-4 w-4 animate-spin" />}
+
+            {can(currentUser, 'buyer:update') && (
+              <>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={isWorking}>
+                      Status
+                      <ChevronDown className="ml-1 h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Move every selected lead to</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {PIPELINE_STATUSES.map((status) => (
+                      <DropdownMenuItem key={status} onClick={() => changeStatus(status)}>
+                        {status}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={tags}
+                    onChange={(event) => setTags(event.target.value)}
+                    placeholder="Tags, comma separated"
+                    className="h-9 w-44"
+                    aria-label="Tags to add or remove"
+                  />
+                  <Button variant="outline" size="sm" onClick={() => changeTags('addTags')} disabled={isWorking}>
+                    <Tag className="mr-1 h-4 w-4" />
+                    Add
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => changeTags('removeTags')} disabled={isWorking}>
+                    Remove
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {can(currentUser, 'buyer:reassign') && assignees.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={isWorking}>
+                    <UserCheck className="mr-1 h-4 w-4" />
+                    Reassign
+                    <ChevronDown className="ml-1 h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {assignees.map((assignee) => (
+                    <DropdownMenuItem key={assignee.id} onClick={() => reassign(assignee)}>
+                      {assignee.name || assignee.email}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            {can(currentUser, 'buyer:export') && (
+              <Button variant="outline" size="sm" onClick={exportSelection} disabled={isWorking}>
+                <Download className="mr-1 h-4 w-4" />
+                Export
+              </Button>
+            )}
+
+            {can(currentUser, 'buyer:delete') && (
+              <Button variant="outline" size="sm" onClick={remove} disabled={isWorking} className="text-red-600">
+                <Trash2 className="mr-1 h-4 w-4" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {outcome && (
+        <Alert variant={outcome.skipped.length > 0 ? 'destructive' : 'default'}>
+          <AlertDescription>
+            <p>{outcome.message}</p>
+            {outcome.skipped.length > 0 && (
+              <ul className="mt-2 list-disc pl-5 text-sm">
+                {outcome.skipped.slice(0, SHOWN_SKIPS).map((skip) => (
+                  <li key={skip.id}>
+                    {skip.fullName ?? 'Unknown lead'}: {skip.message}
+                  </li>
+                ))}
+                {outcome.skipped.length > SHOWN_SKIPS && (
+                  <li>and {outcome.skipped.length - SHOWN_SKIPS} more</li>
+                )}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
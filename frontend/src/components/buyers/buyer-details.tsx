@@ -1,8 +1,15 @@
 'use client';
 
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { formatBudgetRange, formatDate } from '@/lib/utils';
+import { formatBudgetRange, formatCurrency, formatDate } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
 import { 
   User, 
   Phone, 
@@ -14,7 +21,10 @@ import {
   Target, 
   Tag,
   FileText,
-  Clock
+  Clock,
+  Edit,
+  Trash2,
+  Loader2
 } from 'lucide-react';
 
 interface Buyer {
@@ -22,6 +32,7 @@ interface Buyer {
   fullName: string;
   email?: string;
   phone: string;
+  altPhones?: string[];
   city: string;
   propertyType: string;
   bhk?: string;
@@ -31,8 +42,14 @@ interface Buyer {
   timeline: string;
   source: string;
   status: string;
+  dropReason?: string | null;
+  dropNote?: string | null;
+  visitedAt?: Date | null;
+  dealValue?: number | null;
   notes?: string;
   tags: string[];
+  externalId?: string | null;
+  ownerId: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,9 +65,18 @@ interface HistoryItem {
   };
 }
 
+interface Assignee {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
 interface BuyerDetailsProps {
   buyer: Buyer;
   history?: HistoryItem[];
+  canEdit?: boolean;
+  canDelete?: boolean;
+  assignees?: Assignee[];
 }
 
 const statusColors = {
@@ -63,9 +89,115 @@ const statusColors = {
   Dropped: 'bg-red-100 text-red-800',
 };
 
-export default function BuyerDetails({ buyer, history }: BuyerDetailsProps) {
+export default function BuyerDetails({ buyer, history, canEdit = false, canDelete = false, assignees }: BuyerDetailsProps) {
+  const router = useRouter();
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isReassigning, setIsReassigning] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleReassign = async (ownerId: string) => {
+    if (ownerId === buyer.ownerId) {
+      return;
+    }
+
+    setIsReassigning(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/buyers/${buyer.id}/reassign`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to reassign buyer');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reassign buyer');
+    } finally {
+      setIsReassigning(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Are you sure you want to delete this buyer? It will be moved to the trash, where it can be restored.')) {
+      return;
+    }
+
+    setIsDeleting(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/buyers/${buyer.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete buyer');
+      }
+
+      router.push('/buyers');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete buyer');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
+      {/* Actions */}
+      {(canEdit || canDelete || assignees) && (
+        <div className="flex flex-wrap justify-end items-center gap-2">
+          {assignees && (
+            <div className="flex items-center gap-2 mr-auto">
+              <span className="text-sm text-gray-500">Owner</span>
+              <Select value={buyer.ownerId} onValueChange={handleReassign} disabled={isReassigning}>
+                <SelectTrigger className="w-48">
+                  <SelectValue placeholder="Unassigned" />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignees.map((assignee) => (
+                    <SelectItem key={assignee.id} value={assignee.id}>
+                      {assignee.name || assignee.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isReassigning && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </div>
+          )}
+          {canEdit && (
+            <Button asChild>
+              <Link href={`/buyers/${buyer.id}/edit`}>
+                <Edit className="mr-2 h-4 w-4" />
+                Edit Lead
+              </Link>
+            </Button>
+          )}
+          {canDelete && (
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Trash2 className="mr-2 h-4 w-4" />
+              )}
+              Delete
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
       {/* Contact Information */}
       <Card>
         <CardHeader>
@@ -88,7 +220,12 @@ export default function BuyerDetails({ buyer, history }: BuyerDetailsProps) {
               <Phone className="h-4 w-4 text-gray-400" />
               <div>
                 <p className="text-sm font-medium text-gray-500">Phone</p>
-                <p className="text-sm text-gray-900">{buyer.phone}</p>
+                <a href={`tel:${buyer.phone.split(';')[0]}`} className="text-sm text-gray-900 hover:underline">
+                  {formatPhone(buyer.phone)}
+                </a>
+                {buyer.altPhones?.map((phone) => (
+                  <p key={phone} className="text-sm text-gray-500">{formatPhone(phone)}</p>
+                ))}
               </div>
             </div>
             
@@ -154,7 +291,7 @@ export default function BuyerDetails({ buyer, history }: BuyerDetailsProps) {
               <div>
                 <p className="text-sm font-medium text-gray-500">Budget</p>
                 <p className="text-sm text-gray-900">
-                  {formatBudgetRange(buyer.budgetMin, buyer.budgetMax)}
+                  {formatBudgetRange(buyer.budgetMin, buyer.budgetMax, { purpose: buyer.purpose })}
                 </p>
               </div>
             </div>
@@ -185,6 +322,9 @@ export default function BuyerDetails({ buyer, history }: BuyerDetailsProps) {
               <div>
                 <p className="text-sm font-medium text-gray-500">Source</p>
                 <p className="text-sm text-gray-900">{buyer.source}</p>
+                {buyer.externalId && (
+                  <p className="text-xs text-gray-500">External ID {buyer.externalId}</p>
+                )}
               </div>
             </div>
             
@@ -195,8 +335,26 @@ export default function BuyerDetails({ buyer, history }: BuyerDetailsProps) {
                 <Badge className={statusColors[buyer.status as keyof typeof statusColors]}>
                   {buyer.status}
                 </Badge>
+                {buyer.status === 'Dropped' && buyer.dropReason && (
+                  <p className="mt-1 text-sm text-gray-900">
+                    {buyer.dropReason}{buyer.dropNote && `: ${buyer.dropNote}`}
+                  </p>
+                )}
+                {buyer.status === 'Converted' && buyer.dealValue && (
+                  <p className="mt-1 text-sm text-gray-900">Deal value {formatCurrency(buyer.dealValue)}</p>
+                )}
               </div>
             </div>
+
+            {buyer.visitedAt && (
+              <div className="flex items-center gap-3">
+                <Calendar className="h-4 w-4 text-gray-400" />
+                <div>
+                  <p className="text-sm font-medium text-gray-500">Visited</p>
+                  <p className="text-sm text-gray-900">{formatDate(buyer.visitedAt)}</p>
+                </div>
+              </div>
+            )}
             
             <div className="flex items-center gap-3">
               <Calendar className="h-4 w-4 text-gray-400" />
@@ -3,27 +3,35 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { formatDate } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
+import Link from 'next/link';
 import { Clock, User } from 'lucide-react';
 
-interface HistoryEntry {
+export interface HistoryEntry {
   id: string;
-  changedAt: Date;
+  changedAt: Date | string;
+  action: 'create' | 'update' | 'import' | 'delete' | 'restore' | 'merge';
+  source: string;
   diff: Record<string, { from: any; to: any }>;
+  meta?: Record<string, any> | null;
+  // Null when the user who made the change has since been removed
   changedBy: {
     id: string;
-    name?: string;
+    name: string | null;
     email: string;
-  };
+  } | null;
 }
 
 interface BuyerHistoryProps {
   history: HistoryEntry[];
+  buyerId?: string;
 }
 
 const fieldLabels: Record<string, string> = {
   fullName: 'Full Name',
   email: 'Email',
   phone: 'Phone',
+  altPhones: 'Other Phones',
   city: 'City',
   propertyType: 'Property Type',
   bhk: 'BHK',
@@ -33,8 +41,30 @@ const fieldLabels: Record<string, string> = {
   timeline: 'Timeline',
   source: 'Source',
   status: 'Status',
+  dropReason: 'Drop Reason',
+  dropNote: 'Drop Note',
+  visitedAt: 'Visit Date',
+  dealValue: 'Deal Value',
   notes: 'Notes',
   tags: 'Tags',
+  externalId: 'External ID',
+  ownerId: 'Owner',
+};
+
+const actionLabels: Record<HistoryEntry['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  import: 'Imported',
+  delete: 'Deleted',
+  restore: 'Restored',
+  merge: 'Merged duplicates',
+};
+
+const sourceLabels: Record<string, string> = {
+  import: 'CSV import',
+  reassign: 'reassignment',
+  visit: 'site visit',
+  revert: 'revert',
 };
 
 function formatValue(value: any): string {
@@ -47,10 +77,79 @@ function formatValue(value: any): string {
   if (typeof value === 'number') {
     return value.toLocaleString('en-IN');
   }
+  // Dates come back from the JSON diff as ISO strings
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return formatDate(value);
+  }
   return String(value);
 }
 
-export default function BuyerHistory({ history }: BuyerHistoryProps) {
+export function changedByLabel(entry: HistoryEntry): string {
+  return entry.changedBy?.name || entry.changedBy?.email || 'Unknown user';
+}
+
+// e.g. "Updated via site visit"; changes made in the app need no suffix
+export function eventLabel(entry: HistoryEntry): string {
+  const action = actionLabels[entry.action] ?? 'Updated';
+  const source = entry.source !== 'web' && entry.source !== entry.action ? sourceLabels[entry.source] : undefined;
+  return source ? `${action} via ${source}` : action;
+}
+
+export function HistoryChanges({ entry }: { entry: HistoryEntry }) {
+  const { meta } = entry;
+  // A new lead's snapshot has nothing to compare against, and moving in and
+  // out of the trash is described by the event label alone
+  const showFrom = entry.action !== 'create' && entry.action !== 'import';
+  const diff = entry.action === 'delete' || entry.action === 'restore' ? {} : entry.diff;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-gray-900">{eventLabel(entry)}</p>
+      {meta?.siteVisit && (
+        <p className="text-xs text-gray-600">
+          Site visit marked {formatValue(meta.siteVisit.to)}
+          {meta.siteVisit.from ? ` (was ${formatValue(meta.siteVisit.from)})` : ''}
+        </p>
+      )}
+      {meta?.mergedBuyers && (
+        <p className="text-xs text-gray-600">
+          Merged in {meta.mergedBuyers.map((buyer: { fullName: string; phone: string }) => `${buyer.fullName} (${formatPhone(buyer.phone)})`).join(', ')}
+        </p>
+      )}
+      {meta?.mergedFrom && (
+        <p className="text-xs text-gray-600">Recorded on a duplicate that was merged into this lead</p>
+      )}
+      {meta?.revertedTo && (
+        <p className="text-xs text-gray-600">
+          Reverted to the version from {formatValue(meta.revertedTo)}
+        </p>
+      )}
+      {Object.entries(diff).map(([field, change]) => (
+        <div key={field} className="text-xs">
+          <span className="font-medium text-gray-700">
+            {fieldLabels[field] || field}:
+          </span>
+          <div className="ml-2 space-y-1">
+            {showFrom && change.from !== null && (
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-red-600 border-red-200">
+                  From: {formatValue(change.from)}
+                </Badge>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-green-600 border-green-200">
+                To: {formatValue(change.to)}
+              </Badge>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function BuyerHistory({ history, buyerId }: BuyerHistoryProps) {
   return (
     <Card>
       <CardHeader>
@@ -75,7 +174,7 @@ export default function BuyerHistory({ history }: BuyerHistoryProps) {
                   <div className="flex items-center gap-2">
                     <User className="h-3 w-3 text-gray-400" />
                     <span className="text-xs font-medium text-gray-600">
-                      {entry.changedBy.name || entry.changedBy.email}
+                      {changedByLabel(entry)}
                     </span>
                   </div>
                   <span className="text-xs text-gray-500">
@@ -83,33 +182,19 @@ export default function BuyerHistory({ history }: BuyerHistoryProps) {
                   </span>
                 </div>
                 
-                <div className="space-y-2">
-                  {Object.entries(entry.diff).map(([field, change]) => (
-                    <div key={field} className="text-xs">
-                      <span className="font-medium text-gray-700">
-                        {fieldLabels[field] || field}:
-                      </span>
-                      <div className="ml-2 space-y-1">
-                        {change.from !== null && (
-                          <div className="flex items-center gap-2">
-                            <Badge variant="outline" className="text-red-600 border-red-200">
-                              From: {formatValue(change.from)}
-                            </Badge>
-                          </div>
-                        )}
-                        <div className="flex items-center gap-2">
-                          <Badge variant="outline" className="text-green-600 border-green-200">
-                            To: {formatValue(change.to)}
-                          </Badge>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                <HistoryChanges entry={entry} />
               </div>
             ))}
           </div>
         )}
+        {buyerId && history.length > 0 && (
+          <Link
+            href={`/buyers/${buyerId}/history`}
+            className="block text-center text-sm text-blue-600 hover:text-blue-800"
+          >
+            View full history
+          </Link>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDate } from '@/lib/utils';
+import { CalendarCheck, Phone, MapPin, Mail, Plus, Trash2, Loader2 } from 'lucide-react';
+
+export const taskTypeIcons = {
+  call: Phone,
+  visit: MapPin,
+  email: Mail,
+};
+
+interface Assignee {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Task {
+  id: string;
+  type: 'call' | 'visit' | 'email';
+  title: string;
+  dueAt: Date;
+  done: boolean;
+  assignee: Assignee;
+}
+
+interface BuyerTasksProps {
+  buyerId: string;
+  ownerId: string;
+  tasks: Task[];
+  assignees: Assignee[];
+  currentUserId: string;
+  canEdit: boolean;
+}
+
+export default function BuyerTasks({ buyerId, ownerId, tasks, assignees, currentUserId, canEdit }: BuyerTasksProps) {
+  const router = useRouter();
+  const [type, setType] = useState<Task['type']>('call');
+  const [title, setTitle] = useState('');
+  const [dueAt, setDueAt] = useState('');
+  const [assigneeId, setAssigneeId] = useState(ownerId);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const createTask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          title,
+          // datetime-local values are in the browser's timezone
+          dueAt: new Date(dueAt).toISOString(),
+          assigneeId,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create task');
+      }
+
+      setTitle('');
+      setDueAt('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const toggleDone = async (task: Task) => {
+    setBusyId(task.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ done: !task.done }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update task');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteTask = async (task: Task) => {
+    if (!confirm(`Delete the task "${task.title}"?`)) {
+      return;
+    }
+
+    setBusyId(task.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/tasks/${task.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete task');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="h-5 w-5" />
+          Follow-ups
+        </CardTitle>
+        <CardDescription>
+          Calls, visits and emails scheduled for this lead
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {tasks.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No follow-ups scheduled
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {tasks.map((task) => {
+              const Icon = taskTypeIcons[task.type];
+              const overdue = !task.done && new Date(task.dueAt) < new Date();
+              const canToggle = canEdit || task.assignee.id === currentUserId;
+
+              return (
+                <li key={task.id} className="flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    className="mt-1 h-4 w-4 rounded border-gray-300"
+                    checked={task.done}
+                    onChange={() => toggleDone(task)}
+                    disabled={!canToggle || busyId === task.id}
+                    aria-label={`Mark "${task.title}" as ${task.done ? 'not done' : 'done'}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium flex items-center gap-1 ${task.done ? 'text-gray-400 line-through' : 'text-gray-900'}`}>
+                      <Icon className="h-3 w-3 shrink-0" />
+                      {task.title}
+                    </p>
+                    <p className={`text-xs ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                      {overdue && 'Overdue · '}
+                      {formatDate(task.dueAt)} · {task.assignee.name || task.assignee.email}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteTask(task)}
+                      disabled={busyId === task.id}
+                      title="Delete task"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {canEdit && (
+          <form onSubmit={createTask} className="space-y-3 border-t pt-4">
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={type} onValueChange={(value) => setType(value as Task['type'])}>
+                <SelectTrigger aria-label="Task type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="call">Call</SelectItem>
+                  <SelectItem value="visit">Visit</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                className="col-span-2"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Call back about site visit"
+                aria-label="Task title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="taskDueAt">Due</Label>
+              <Input
+                id="taskDueAt"
+                type="datetime-local"
+                value={dueAt}
+                onChange={(e) => setDueAt(e.target.value)}
+              />
+            </div>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger aria-label="Assignee">
+                <SelectValue placeholder="Assignee" />
+              </SelectTrigger>
+              <SelectContent>
+                {assignees.map((assignee) => (
+                  <SelectItem key={assignee.id} value={assignee.id}>
+                    {assignee.name || assignee.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="sm" className="w-full" disabled={isCreating || !title || !dueAt}>
+              {isCreating ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add Follow-up
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDate } from '@/lib/utils';
+import { canTransition } from '@/lib/status-transitions';
+import type { PipelineStatus } from '@/lib/pipeline';
+import { MapPin, CalendarPlus, Download, Check, X, Loader2 } from 'lucide-react';
+
+interface Agent {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Visit {
+  id: string;
+  location: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  outcomeNotes: string | null;
+  agent: Agent;
+}
+
+interface BuyerVisitsProps {
+  buyerId: string;
+  buyerStatus: PipelineStatus;
+  ownerId: string;
+  visits: Visit[];
+  agents: Agent[];
+  currentUserId: string;
+  canEdit: boolean;
+}
+
+const visitStatusColors = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+export default function BuyerVisits({ buyerId, buyerStatus, ownerId, visits, agents, currentUserId, canEdit }: BuyerVisitsProps) {
+  const router = useRouter();
+  const [location, setLocation] = useState('');
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState('60');
+  const [agentId, setAgentId] = useState(ownerId);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [outcomeNotes, setOutcomeNotes] = useState('');
+  // Completing a visit can also move the lead along, when the pipeline allows it
+  const canMarkVisited = buyerStatus !== 'Visited' && canTransition(buyerStatus, 'Visited');
+  const [markVisited, setMarkVisited] = useState(canMarkVisited);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const scheduleVisit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsScheduling(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/visits`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          location,
+          scheduledAt: new Date(scheduledAt).toISOString(),
+          durationMinutes: parseInt(durationMinutes),
+          agentId,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to schedule visit');
+      }
+
+      setLocation('');
+      setScheduledAt('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const updateVisit = async (visit: Visit, changes: Record<string, unknown>) => {
+    setBusyId(visit.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/visits/${visit.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update visit');
+      }
+
+      setCompletingId(null);
+      setOutcomeNotes('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Site Visits
+        </CardTitle>
+        <CardDescription>
+          Property viewings with this lead
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {visits.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No site visits yet
+          </p>
+        ) : (
+          <ul className="space-y-4">
+            {visits.map((visit) => {
+              const canUpdate = canEdit || visit.agent.id === currentUserId;
+
+              return (
+                <li key={visit.id} className="border-l-2 border-gray-200 pl-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{visit.location}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(visit.scheduledAt)} · {visit.durationMinutes} min · {visit.agent.name || visit.agent.email}
+                      </p>
+                    </div>
+                    <Badge className={visitStatusColors[visit.status]}>{visit.status}</Badge>
+                  </div>
+
+                  {visit.outcomeNotes && (
+                    <p className="text-xs text-gray-700 whitespace-pre-wrap">{visit.outcomeNotes}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={`/api/buyers/${buyerId}/visits/${visit.id}/ics`}>
+                        <Download className="mr-1 h-3 w-3" />
+                        .ics
+                      </a>
+                    </Button>
+                    {canUpdate && visit.status === 'scheduled' && completingId !== visit.id && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => setCompletingId(visit.id)}>
+                          <Check className="mr-1 h-3 w-3" />
+                          Complete
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateVisit(visit, { status: 'cancelled' })}
+                          disabled={busyId === visit.id}
+                        >
+                          <X className="mr-1 h-3 w-3" />
+                          Cancel
+                        </Button>
+                      </>
+                    )}
+                  </div>
+
+                  {completingId === visit.id && (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={outcomeNotes}
+                        onChange={(e) => setOutcomeNotes(e.target.value)}
+                        placeholder="How did the visit go?"
+                        rows={3}
+                      />
+                      {canMarkVisited && (
+                        <label className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 rounded border-gray-300"
+                            checked={markVisited}
+                            onChange={(e) => setMarkVisited(e.target.checked)}
+                          />
+                          Move lead to Visited
+                        </label>
+                      )}
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => updateVisit(visit, {
+                            status: 'completed',
+                            outcomeNotes,
+                            markVisited: canMarkVisited && markVisited,
+                          })}
+                          disabled={busyId === visit.id}
+                        >
+                          {busyId === visit.id && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                          Save Outcome
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setCompletingId(null)}>
+                          Back
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {canEdit && (
+          <form onSubmit={scheduleVisit} className="space-y-3 border-t pt-4">
+            <Input
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Property or locality, e.g. Sector 70, Mohali"
+              aria-label="Visit location"
+            />
+            <div className="space-y-2">
+              <Label htmlFor="visitScheduledAt">When</Label>
+              <Input
+                id="visitScheduledAt"
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={durationMinutes} onValueChange={setDurationMinutes}>
+                <SelectTrigger aria-label="Duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">30 min</SelectItem>
+                  <SelectItem value="60">1 hour</SelectItem>
+                  <SelectItem value="90">1.5 hours</SelectItem>
+                  <SelectItem value="120">2 hours</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={agentId} onValueChange={setAgentId}>
+                <SelectTrigger aria-label="Agent">
+                  <SelectValue placeholder="Agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name || agent.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" size="sm" className="w-full" disabled={isScheduling || !location || !scheduledAt}>
+              {isScheduling ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarPlus className="mr-2 h-4 w-4" />
+              )}
+              Schedule Visit
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { List } from 'lucide-react';
+import { formatBudget, formatBudgetRange } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
+import { moveLead, replaceLead, type BoardColumn, type BoardLead, type PipelineStatus } from '@/lib/pipeline';
+import { can, type Actor } from '@/lib/permissions';
+import { canTransition, missingStageFields } from '@/lib/status-transitions';
+import StatusChangeDialog from './status-change-dialog';
+
+interface Lead extends BoardLead {
+  fullName: string;
+  phone: string;
+  city: string;
+  propertyType: string;
+  bhk: string | null;
+  purpose: string;
+  ownerId: string;
+}
+
+interface BuyersBoardProps {
+  board: BoardColumn<Lead>[];
+  currentUser: Actor;
+}
+
+const statusColors: Record<PipelineStatus, string> = {
+  New: 'bg-blue-100 text-blue-800',
+  Qualified: 'bg-green-100 text-green-800',
+  Contacted: 'bg-yellow-100 text-yellow-800',
+  Visited: 'bg-purple-100 text-purple-800',
+  Negotiation: 'bg-orange-100 text-orange-800',
+  Converted: 'bg-emerald-100 text-emerald-800',
+  Dropped: 'bg-red-100 text-red-800',
+};
+
+export default function BuyersBoard({ board: initialBoard, currentUser }: BuyersBoardProps) {
+  const [board, setBoard] = useState(initialBoard);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<PipelineStatus | null>(null);
+  const [pendingMove, setPendingMove] = useState<{ lead: Lead; toStatus: PipelineStatus } | null>(null);
+  const [error, setError] = useState('');
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Pick up fresh data after filters change or a refresh
+  useEffect(() => {
+    setBoard(initialBoard);
+  }, [initialBoard]);
+
+  const draggingLead = board.flatMap((column) => column.leads).find((entry) => entry.id === draggingId);
+
+  const dropLead = async (toStatus: PipelineStatus) => {
+    const lead = draggingLead;
+    setDraggingId(null);
+    setDropTarget(null);
+
+    if (!lead || !canTransition(lead.status, toStatus) || lead.status === toStatus) {
+      return;
+    }
+
+    // Stages that need extra data (drop reason, visit date, deal value) ask for it first
+    if (missingStageFields(toStatus, {}).length > 0) {
+      setPendingMove({ lead, toStatus });
+      return;
+    }
+
+    const previous = board;
+    setBoard(moveLead(board, lead.id, toStatus));
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${lead.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: toStatus, updatedAt: lead.updatedAt }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to move lead');
+      }
+
+      const updated = await response.json();
+      setBoard((current) => replaceLead(current, {
+        ...lead,
+        status: updated.status,
+        updatedAt: new Date(updated.updatedAt).toISOString(),
+      }));
+    } catch (err) {
+      // Put the card back and reload so the board shows what is actually saved
+      setBoard(previous);
+      setError(`${lead.fullName}: ${err instanceof Error ? err.message : 'Something went wrong'}`);
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          <span className="font-medium">{board.reduce((total, column) => total + column.count, 0)}</span> leads in the pipeline
+        </p>
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/buyers?${searchParams.toString()}`}>
+            <List className="mr-1 h-4 w-4" />
+            List
+          </Link>
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {pendingMove && (
+        <StatusChangeDialog
+          buyer={pendingMove.lead}
+          toStatus={pendingMove.toStatus}
+          onClose={() => setPendingMove(null)}
+          onSaved={(updated) => {
+            const { lead, toStatus } = pendingMove;
+            setBoard((current) => replaceLead(moveLead(current, lead.id, toStatus), {
+              ...lead,
+              status: toStatus,
+              updatedAt: new Date(updated.updatedAt).toISOString(),
+            }));
+            setPendingMove(null);
+          }}
+        />
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {board.map((column) => (
+          <div
+            key={column.status}
+            className={`flex-shrink-0 w-72 rounded-lg border bg-gray-100 ${
+              dropTarget === column.status ? 'ring-2 ring-blue-400' : ''
+            } ${
+              draggingLead && !canTransition(draggingLead.status, column.status) ? 'opacity-50' : ''
+            }`}
+            onDragOver={(e) => {
+              if (!draggingLead || !canTransition(draggingLead.status, column.status)) return;
+              e.preventDefault();
+              setDropTarget(column.status);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => {
+              e.preventDefault();
+              dropLead(column.status);
+            }}
+          >
+            <div className="p-3 border-b bg-white rounded-t-lg">
+              <div className="flex items-center justify-between">
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusColors[column.status]}`}>
+                  {column.status}
+                </span>
+                <span className="text-sm font-medium text-gray-700">{column.count}</span>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{formatBudget(column.budgetTotal, { notation: 'compact' })} total budget</p>
+            </div>
+
+            <ul className="p-2 space-y-2 min-h-[8rem]">
+              {column.leads.map((lead) => {
+                const canMove = can(currentUser, 'buyer:update', lead);
+
+                return (
+                  <li
+                    key={lead.id}
+                    draggable={canMove}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(lead.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    className={`rounded-md border bg-white p-3 shadow-sm ${
+                      canMove ? 'cursor-grab' : ''
+                    } ${draggingId === lead.id ? 'opacity-50' : ''}`}
+                  >
+                    <Link href={`/buyers/${lead.id}`} className="text-sm font-medium text-gray-900 hover:text-primary hover:underline">
+                      {lead.fullName}
+                    </Link>
+                    <p className="text-xs text-gray-500">{formatPhone(lead.phone)} · {lead.city}</p>
+                    <p className="mt-1 text-xs text-gray-700">
+                      {lead.propertyType} {lead.bhk ? `(${lead.bhk})` : ''}
+                    </p>
+                    <p className="text-xs text-gray-700">
+                      {formatBudgetRange(lead.budgetMin ?? undefined, lead.budgetMax ?? undefined, { notation: 'compact', purpose: lead.purpose })}
+                    </p>
+                  </li>
+                );
+              })}
+              {column.count > column.leads.length && (
+                <li className="text-xs text-center text-gray-500 py-2">
+                  +{column.count - column.leads.length} more
+                </li>
+              )}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,34 +1,118 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useRouter, useSearchParams } from 'next/navigation';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Search, X, Filter } from 'lucide-react';
-import { debounce } from '@/lib/utils';
-import type { SearchParams } from '@/lib/validations';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Search, X, Filter, ChevronDown } from 'lucide-react';
+import { debounce, parseBudgetRange } from '@/lib/utils';
+import type { BuyerFilters } from '@/lib/validations';
 
 const cityOptions = ['Chandigarh', 'Mohali', 'Zirakpur', 'Panchkula', 'Other'];
 const propertyTypeOptions = ['Apartment', 'Villa', 'Plot', 'Office', 'Retail'];
+const bhkOptions = ['1', '2', '3', '4', 'Studio'];
+const purposeOptions = ['Buy', 'Rent'];
+const sourceOptions = ['Website', 'Referral', 'Walk-in', 'Call', 'Other'];
 const statusOptions = ['New', 'Qualified', 'Contacted', 'Visited', 'Negotiation', 'Converted', 'Dropped'];
 const timelineOptions = ['0-3m', '3-6m', '>6m', 'Exploring'];
 
+type ListFilter = 'city' | 'propertyType' | 'bhk' | 'purpose' | 'source' | 'status' | 'timeline';
+type DateFilter = 'createdFrom' | 'createdTo' | 'updatedFrom' | 'updatedTo';
+
+const listFilters: Array<{ key: ListFilter; label: string; allLabel: string; options: string[] }> = [
+  { key: 'city', label: 'City', allLabel: 'All cities', options: cityOptions },
+  { key: 'propertyType', label: 'Property Type', allLabel: 'All types', options: propertyTypeOptions },
+  { key: 'bhk', label: 'BHK', allLabel: 'Any BHK', options: bhkOptions },
+  { key: 'purpose', label: 'Purpose', allLabel: 'Buy or rent', options: purposeOptions },
+  { key: 'source', label: 'Source', allLabel: 'All sources', options: sourceOptions },
+  { key: 'status', label: 'Status', allLabel: 'All statuses', options: statusOptions },
+  { key: 'timeline', label: 'Timeline', allLabel: 'All timelines', options: timelineOptions },
+];
+
+const dateFilters: Array<{ key: DateFilter; label: string }> = [
+  { key: 'createdFrom', label: 'Created From' },
+  { key: 'createdTo', label: 'Created To' },
+  { key: 'updatedFrom', label: 'Updated From' },
+  { key: 'updatedTo', label: 'Updated To' },
+];
+
 interface BuyersFiltersProps {
-  initialFilters: SearchParams;
+  initialFilters: BuyerFilters;
+}
+
+interface MultiSelectFilterProps {
+  label: string;
+  allLabel: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+function MultiSelectFilter({ label, allLabel, options, selected, onChange }: MultiSelectFilterProps) {
+  const toggle = (option: string) => {
+    onChange(selected.includes(option) ? selected.filter((value) => value !== option) : [...selected, option]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full justify-between font-normal">
+            <span className="truncate">{selected.length > 0 ? selected.join(', ') : allLabel}</span>
+            <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-48">
+          {options.map((option) => (
+            <DropdownMenuCheckboxItem
+              key={option}
+              checked={selected.includes(option)}
+              // Keep the menu open so several values can be picked in one go
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={() => toggle(option)}
+            >
+              {option}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
 }
 
 export default function BuyersFilters({ initialFilters }: BuyersFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
-  
+  // Shared by the list and the pipeline board, so filters stay on the current view
+  const pathname = usePathname();
+
   const [query, setQuery] = useState(initialFilters.query || '');
-  const [city, setCity] = useState<string | undefined>(initialFilters.city || undefined);
-  const [propertyType, setPropertyType] = useState<string | undefined>(initialFilters.propertyType || undefined);
-  const [status, setStatus] = useState<string | undefined>(initialFilters.status || undefined);
-  const [timeline, setTimeline] = useState<string | undefined>(initialFilters.timeline || undefined);
+  const [lists, setLists] = useState<Record<ListFilter, string[]>>({
+    city: initialFilters.city ?? [],
+    propertyType: initialFilters.propertyType ?? [],
+    bhk: initialFilters.bhk ?? [],
+    purpose: initialFilters.purpose ?? [],
+    source: initialFilters.source ?? [],
+    status: initialFilters.status ?? [],
+    timeline: initialFilters.timeline ?? [],
+  });
+  const [dates, setDates] = useState<Record<DateFilter, string>>({
+    createdFrom: initialFilters.createdFrom ?? '',
+    createdTo: initialFilters.createdTo ?? '',
+    updatedFrom: initialFilters.updatedFrom ?? '',
+    updatedTo: initialFilters.updatedTo ?? '',
+  });
+  const [budget, setBudget] = useState(initialFilters.budget || '');
+  const [tags, setTags] = useState((initialFilters.tags ?? []).join(', '));
 
   // Debounced search function
   const debouncedSearch = debounce((searchQuery: string) => {
@@ -39,13 +123,34 @@ export default function BuyersFilters({ initialFilters }: BuyersFiltersProps) {
     debouncedSearch(query);
   }, [query, debouncedSearch]);
 
-  const updateFilters = (newFilters: Partial<SearchParams>) => {
+  // Only filter once the budget can be read, so half-typed ranges don't empty the list
+  const budgetInvalid = budget.trim() !== '' && !parseBudgetRange(budget);
+  const debouncedBudget = debounce((budgetRange: string) => {
+    updateFilters({ budget: budgetRange });
+  }, 300);
+
+  useEffect(() => {
+    if (!budgetInvalid && budget !== (searchParams.get('budget') || '')) {
+      debouncedBudget(budget);
+    }
+  }, [budget, budgetInvalid, debouncedBudget, searchParams]);
+
+  const applyTags = () => {
+    const tagList = tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+    if (tagList.join(',') !== (searchParams.get('tags') || '')) {
+      updateFilters({ tags: tagList });
+    }
+  };
+
+  // Lists are written to the URL as comma-separated values
+  const updateFilters = (newFilters: Record<string, string | string[] | undefined>) => {
     const params = new URLSearchParams(searchParams);
-    
+
     // Update or remove parameters
     Object.entries(newFilters).forEach(([key, value]) => {
-      if (value && value !== '') {
-        params.set(key, value.toString());
+      const paramValue = Array.isArray(value) ? value.join(',') : value;
+      if (paramValue && paramValue !== '') {
+        params.set(key, paramValue);
       } else {
         params.delete(key);
       }
@@ -56,19 +161,32 @@ export default function BuyersFilters({ initialFilters }: BuyersFiltersProps) {
       params.set('page', '1');
     }
 
-    router.push(`/buyers?${params.toString()}`);
+    router.push(`${pathname}?${params.toString()}`);
+  };
+
+  const updateList = (key: ListFilter, selected: string[]) => {
+    setLists((current) => ({ ...current, [key]: selected }));
+    updateFilters({ [key]: selected });
+  };
+
+  const updateDate = (key: DateFilter, value: string) => {
+    setDates((current) => ({ ...current, [key]: value }));
+    updateFilters({ [key]: value });
   };
 
   const clearFilters = () => {
     setQuery('');
-    setCity(undefined);
-    setPropertyType(undefined);
-    setStatus(undefined);
-    setTimeline(undefined);
-    router.push('/buyers');
+    setLists({ city: [], propertyType: [], bhk: [], purpose: [], source: [], status: [], timeline: [] });
+    setDates({ createdFrom: '', createdTo: '', updatedFrom: '', updatedTo: '' });
+    setBudget('');
+    setTags('');
+    // Keeps the list from reopening the default view
+    router.push(`${pathname}?page=1`);
   };
 
-  const hasActiveFilters = query || city !== undefined || propertyType !== undefined || status !== undefined || timeline !== undefined;
+  const hasActiveFilters = query || budget || tags ||
+    Object.values(lists).some((selected) => selected.length > 0) ||
+    Object.values(dates).some(Boolean);
 
   return (
     <Card>
@@ -94,91 +212,64 @@ export default function BuyersFilters({ initialFilters }: BuyersFiltersProps) {
           </div>
         </div>
 
-        {/* Filters Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {/* Budget and tags */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
-            <Label htmlFor="city">City</Label>
-            <Select value={city || 'all'} onValueChange={(value) => {
-              const newValue = value === 'all' ? undefined : value;
-              setCity(newValue);
-              updateFilters({ city: newValue });
-            }}>
-              <SelectTrigger>
-                <SelectValue placeholder="All cities" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All cities</SelectItem>
-                {cityOptions.map((option) => (
-                  <SelectItem key={option} value={option}>
-                    {option}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Label htmlFor="budget">Budget</Label>
+            <Input
+              id="budget"
+              placeholder="e.g. 50L - 1Cr, under 80L, 2Cr+"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+            />
+            {budgetInvalid && (
+              <p className="text-xs text-red-600">Enter a budget such as 50L - 1Cr</p>
+            )}
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="propertyType">Property Type</Label>
-            <Select value={propertyType || 'all'} onValueChange={(value) => {
-              const newValue = value === 'all' ? undefined : value;
-              setPropertyType(newValue);
-              updateFilters({ propertyType: newValue });
-            }}>
-              <SelectTrigger>
-                <SelectValue placeholder="All types" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All types</SelectItem>
-                {propertyTypeOptions.map((option) => (
-                  <SelectItem key={option} value={option}>
-                    {option}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <Label htmlFor="tags">Tags</Label>
+            <Input
+              id="tags"
+              placeholder="e.g. urgent, verified"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              onBlur={applyTags}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyTags();
+              }}
+            />
+            <p className="text-xs text-gray-500">Leads carrying all of these tags</p>
           </div>
+        </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="status">Status</Label>
-            <Select value={status || 'all'} onValueChange={(value) => {
-              const newValue = value === 'all' ? undefined : value;
-              setStatus(newValue);
-              updateFilters({ status: newValue });
-            }}>
-              <SelectTrigger>
-                <SelectValue placeholder="All statuses" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All statuses</SelectItem>
-                {statusOptions.map((option) => (
-                  <SelectItem key={option} value={option}>
-                    {option}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        {/* Filters Grid */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {listFilters.map(({ key, label, allLabel, options }) => (
+            <MultiSelectFilter
+              key={key}
+              label={label}
+              allLabel={allLabel}
+              options={options}
+              selected={lists[key]}
+              onChange={(selected) => updateList(key, selected)}
+            />
+          ))}
+        </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="timeline">Timeline</Label>
-            <Select value={timeline || 'all'} onValueChange={(value) => {
-              const newValue = value === 'all' ? undefined : value;
-              setTimeline(newValue);
-              updateFilters({ timeline: newValue });
-            }}>
-              <SelectTrigger>
-                <SelectValue placeholder="All timelines" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All timelines</SelectItem>
-                {timelineOptions.map((option) => (
-                  <SelectItem key={option} value={option}>
-                    {option}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        {/* Date ranges */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {dateFilters.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={key}>{label}</Label>
+              <Input
+                id={key}
+                type="date"
+                value={dates[key]}
+                onChange={(e) => updateDate(key, e.target.value)}
+              />
+            </div>
+          ))}
         </div>
 
         {/* Clear Filters */}
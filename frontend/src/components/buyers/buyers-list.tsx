@@ -24,12 +24,23 @@ import {
   Plus,
   CheckCircle,
   Clock,
-  XCircle
+  XCircle,
+  Columns,
+  Trash2,
+  GitMerge
 } from 'lucide-react';
 import { formatBudgetRange, formatDate } from '@/lib/utils';
-import type { SearchParams } from '@/lib/validations';
+import { formatPhone } from '@/lib/phone';
+import { BULK_LIMIT, type SearchParams } from '@/lib/validations';
+import { can, type Actor } from '@/lib/permissions';
+import { canTransition, missingStageFields } from '@/lib/status-transitions';
+import type { PipelineStatus } from '@/lib/pipeline';
+import { LIST_COLUMNS, LIST_COLUMN_KEYS, viewParams, visibleColumns, type ListColumn } from '@/lib/views';
+import StatusChangeDialog from './status-change-dialog';
+import BulkActions, { type BulkSelection } from './bulk-actions';
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuTrigger,
@@ -51,6 +62,7 @@ interface Buyer {
   status: string;
   notes?: string;
   tags: string[];
+  ownerId: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -59,13 +71,27 @@ interface Pagination {
   page: number;
   limit: number;
   total: number;
+  // Set when total is the planner's estimate rather than an exact count
+  estimated?: boolean;
   pages: number;
+  // Where the next page starts, when it can be read by cursor
+  nextCursor?: string | null;
+}
+
+interface Assignee {
+  id: string;
+  name: string | null;
+  email: string;
 }
 
 interface BuyersListProps {
   buyers: Buyer[];
   pagination: Pagination;
   currentFilters: SearchParams;
+  currentUser: Actor;
+  assignees?: Assignee[];
+  // When the server read these leads, sent back with bulk actions on every matching lead
+  asOf: string;
 }
 
 const statusColors = {
@@ -78,7 +104,21 @@ const statusColors = {
   Dropped: 'bg-red-100 text-red-800',
 };
 
+const quickStatuses: Array<{ status: PipelineStatus; label: string; icon: typeof Clock; iconClassName: string }> = [
+  { status: 'New', label: 'Mark as New', icon: Clock, iconClassName: '' },
+  { status: 'Qualified', label: 'Mark as Qualified', icon: CheckCircle, iconClassName: 'text-green-500' },
+  { status: 'Dropped', label: 'Mark as Dropped', icon: XCircle, iconClassName: 'text-red-500' },
+];
+
+// Quick actions the pipeline allows from the lead's current status
+function quickStatusesFor(status: string) {
+  return quickStatuses.filter((action) =>
+    action.status !== status && canTransition(status as PipelineStatus, action.status)
+  );
+}
+
 const sortOptions = [
+  { value: 'relevance-desc', label: 'Relevance' },
   { value: 'fullName-asc', label: 'Name (A-Z)' },
   { value: 'fullName-desc', label: 'Name (Z-A)' },
   { value: 'budgetMin-asc', label: 'Budget (Low to High)' },
@@ -87,18 +127,23 @@ const sortOptions = [
   { value: 'updatedAt-asc', label: 'Last Updated (Oldest)' },
 ];
 
-export default function BuyersList({ buyers, pagination, currentFilters }: BuyersListProps) {
+export default function BuyersList({ buyers, pagination, currentFilters, currentUser, assignees = [], asOf }: BuyersListProps) {
   const [localBuyers, setLocalBuyers] = useState<Buyer[]>(buyers);
   const [optimisticFilters, setOptimisticFilters] = useState(currentFilters);
   const [isPending, startTransition] = useTransition();
   const router = useRouter();
   const searchParams = useSearchParams();
   const [isLoading, setIsLoading] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<{ buyer: Buyer; toStatus: PipelineStatus } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [allMatching, setAllMatching] = useState(false);
 
   
-  // Update local buyers when props change
+  // Update local buyers when props change; a new page starts with nothing selected
   useEffect(() => {
     setLocalBuyers(buyers);
+    setSelectedIds([]);
+    setAllMatching(false);
   }, [buyers]);
 
   const handleFilterChange = useCallback((key: keyof typeof currentFilters, value: string) => {
@@ -131,17 +176,22 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
   }, [router, optimisticFilters, searchParams]);
 
   // Status quick actions
-  const updateStatus = async (id: string, newStatus: string) => {
+  const updateStatus = async (buyer: Buyer, newStatus: PipelineStatus) => {
+    // Stages that need extra data (e.g. a drop reason) ask for it first
+    if (missingStageFields(newStatus, {}).length > 0) {
+      setPendingStatus({ buyer, toStatus: newStatus });
+      return;
+    }
+
     try {
-      const response = await fetch(`/api/buyers/${id}`, {
-        method: 'PUT',
+      const response = await fetch(`/api/buyers/${buyer.id}`, {
+        method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          id,
           status: newStatus,
-          updatedAt: new Date().toISOString() 
+          updatedAt: new Date(buyer.updatedAt).toISOString(),
         }),
       });
 
@@ -149,47 +199,66 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
         throw new Error('Failed to update status');
       }
 
-      // Optimistically update local state
-      setLocalBuyers(prev => 
-        prev.map(buyer => 
-          buyer.id === id ? { ...buyer, status: newStatus } : buyer
-        )
-      );
+      applyStatus(buyer.id, await response.json());
     } catch (error) {
       console.error('Status update failed:', error);
+      router.refresh();
     }
   };
 
+  const applyStatus = (id: string, updated: { status: string; updatedAt: Date }) => {
+    setLocalBuyers(prev => 
+      prev.map(entry => 
+        entry.id === id ? { ...entry, status: updated.status, updatedAt: updated.updatedAt } : entry
+      )
+    );
+  };
+
   // Memoize filtered buyers to prevent unnecessary re-renders
   const filteredBuyers = useMemo(() => {
     return localBuyers;
   }, [localBuyers]);
 
+  // The next page follows the cursor when there is one; other pages are
+  // reached by number
   const updatePage = (newPage: number) => {
     setIsLoading(true);
     const params = new URLSearchParams(searchParams);
     params.set('page', newPage.toString());
+    if (newPage === pagination.page + 1 && pagination.nextCursor) {
+      params.set('cursor', pagination.nextCursor);
+    } else {
+      params.delete('cursor');
+    }
     router.push(`/buyers?${params.toString()}`)
       .then(() => setIsLoading(false))
       .catch(() => setIsLoading(false));
   };
 
+  // An estimated total may be off, so a page with a cursor after it is never the last
+  const isLastPage = pagination.page >= pagination.pages && !pagination.nextCursor;
+  const totalLabel = pagination.estimated ? `about ${pagination.total.toLocaleString('en-IN')}` : pagination.total;
+
   const updateSort = (sortBy: string, sortOrder: string) => {
     setIsLoading(true);
     const params = new URLSearchParams(searchParams);
     params.set('sortBy', sortBy);
     params.set('sortOrder', sortOrder);
     params.set('page', '1'); // Reset to first page
+    params.delete('cursor');
     router.push(`/buyers?${params.toString()}`)
       .then(() => setIsLoading(false))
       .catch(() => setIsLoading(false));
   };
 
-  const exportToCSV = async () => {
+  const exportToCSV = async (format: 'csv' | 'xlsx' = 'csv') => {
     setIsLoading(true);
     try {
       // Use the export API endpoint with current filters
       const params = new URLSearchParams(searchParams);
+      if (format === 'xlsx') {
+        params.set('format', 'xlsx');
+      }
       const response = await fetch(`/api/buyers/export?${params.toString()}`);
       
       if (!response.ok) {
@@ -200,7 +269,7 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `buyers-export-${new Date().toISOString().split('T')[0]}.csv`;
+      link.download = `buyers-export-${new Date().toISOString().split('T')[0]}.${format}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -212,6 +281,50 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
     }
   };
 
+  // Row selection for bulk actions: rows on this page, or every lead matching
+  // the filters as of when the server read the page
+  const pageSelected = localBuyers.length > 0 && selectedIds.length === localBuyers.length;
+  const selectedCount = allMatching ? pagination.total : selectedIds.length;
+  const bulkSelection: BulkSelection | null = allMatching
+    ? { filters: viewParams(searchParams), asOf }
+    : selectedIds.length > 0
+      ? {
+          ids: localBuyers
+            .filter((buyer) => selectedIds.includes(buyer.id))
+            .map((buyer) => ({ id: buyer.id, updatedAt: new Date(buyer.updatedAt).toISOString() })),
+        }
+      : null;
+
+  const toggleSelected = (id: string) => {
+    setAllMatching(false);
+    setSelectedIds((prev) => prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id]);
+  };
+
+  const togglePage = () => {
+    setAllMatching(false);
+    setSelectedIds(pageSelected ? [] : localBuyers.map((buyer) => buyer.id));
+  };
+
+  const clearSelection = () => {
+    setSelectedIds([]);
+    setAllMatching(false);
+  };
+
+  const columns = visibleColumns(currentFilters.columns);
+  const shows = (column: ListColumn) => columns.includes(column);
+
+  // Showing every column is the default, so it isn't written to the URL
+  const toggleColumn = (column: ListColumn) => {
+    const next = shows(column) ? columns.filter((key) => key !== column) : [...columns, column];
+    const params = new URLSearchParams(searchParams);
+    if (next.length === 0 || next.length === LIST_COLUMN_KEYS.length) {
+      params.delete('columns');
+    } else {
+      params.set('columns', LIST_COLUMN_KEYS.filter((key) => next.includes(key)).join(','));
+    }
+    router.push(`/buyers?${params.toString()}`);
+  };
+
   const getSortIcon = (column: string) => {
     if (currentFilters.sortBy === column) {
       return currentFilters.sortOrder === 'asc' ? '↑' : '↓';
@@ -228,12 +341,24 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
         </div>
       )}
       
+      {pendingStatus && (
+        <StatusChangeDialog
+          buyer={pendingStatus.buyer}
+          toStatus={pendingStatus.toStatus}
+          onClose={() => setPendingStatus(null)}
+          onSaved={(updated) => {
+            applyStatus(pendingStatus.buyer.id, updated);
+            setPendingStatus(null);
+          }}
+        />
+      )}
+
       {/* Header with actions */}
       <div className="flex flex-col space-y-2 sm:space-y-0 sm:flex-row justify-between items-start sm:items-center mb-4 px-2 sm:px-0">
         <div className="text-sm text-gray-600 whitespace-nowrap">
           <p>
             Showing <span className="font-medium">{((pagination.page - 1) * pagination.limit) + 1}-{Math.min(pagination.page * pagination.limit, pagination.total)}</span> of{' '}
-            <span className="font-medium">{pagination.total}</span>
+            <span className="font-medium">{totalLabel}</span>
           </p>
         </div>
         <div className="flex flex-wrap gap-2 w-full sm:w-auto">
@@ -242,38 +367,89 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
             size="sm" 
             className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
             asChild
-            title="Import from CSV"
-          >
-            <Link href="/buyers/import" className="flex items-center">
-              <Upload className="h-4 w-4 sm:mr-1" />
-              <span className="sr-only sm:not-sr-only">Import</span>
-            </Link>
-          </Button>
-          <Button 
-            variant="default" 
-            size="sm" 
-            className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
-            asChild
-            title="Add new lead"
+            title="Pipeline board"
           >
-            <Link href="/buyers/new" className="flex items-center">
-              <Plus className="h-4 w-4 sm:mr-1" />
-              <span className="sr-only sm:not-sr-only">Add Lead</span>
+            <Link href={`/buyers/board?${searchParams.toString()}`} className="flex items-center">
+              <Columns className="h-4 w-4 sm:mr-1" />
+              <span className="sr-only sm:not-sr-only">Board</span>
             </Link>
           </Button>
-          <Button 
-            variant="outline" 
-            size="sm" 
-            className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
-            onClick={exportToCSV}
-            disabled={isLoading}
-            title="Export to CSV"
-          >
-            <Download className="h-4 w-4 sm:mr-1" />
-            <span className="sr-only sm:not-sr-only">
-              {isLoading ? 'Exporting...' : 'Export'}
-            </span>
-          </Button>
+          {can(currentUser, 'buyer:delete') && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
+              asChild
+              title="Deleted leads"
+            >
+              <Link href="/buyers/trash" className="flex items-center">
+                <Trash2 className="h-4 w-4 sm:mr-1" />
+                <span className="sr-only sm:not-sr-only">Trash</span>
+              </Link>
+            </Button>
+          )}
+          {can(currentUser, 'buyer:delete') && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
+              asChild
+              title="Find and merge duplicates"
+            >
+              <Link href="/buyers/duplicates" className="flex items-center">
+                <GitMerge className="h-4 w-4 sm:mr-1" />
+                <span className="sr-only sm:not-sr-only">Duplicates</span>
+              </Link>
+            </Button>
+          )}
+          {can(currentUser, 'buyer:import') && (
+            <Button 
+              variant="outline" 
+              size="sm" 
+              className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
+              asChild
+              title="Import from CSV"
+            >
+              <Link href="/buyers/import" className="flex items-center">
+                <Upload className="h-4 w-4 sm:mr-1" />
+                <span className="sr-only sm:not-sr-only">Import</span>
+              </Link>
+            </Button>
+          )}
+          {can(currentUser, 'buyer:create') && (
+            <Button 
+              variant="default" 
+              size="sm" 
+              className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
+              asChild
+              title="Add new lead"
+            >
+              <Link href="/buyers/new" className="flex items-center">
+                <Plus className="h-4 w-4 sm:mr-1" />
+                <span className="sr-only sm:not-sr-only">Add Lead</span>
+              </Link>
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                className="flex-1 sm:flex-initial justify-center px-2 sm:px-3" 
+                disabled={isLoading}
+                title="Export"
+              >
+                <Download className="h-4 w-4 sm:mr-1" />
+                <span className="sr-only sm:not-sr-only">
+                  {isLoading ? 'Exporting...' : 'Export'}
+                </span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportToCSV('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportToCSV('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -292,16 +468,71 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {sortOptions.map((option) => (
-                <SelectItem key={option.value} value={option.value}>
-                  {option.label}
-                </SelectItem>
-              ))}
+              {sortOptions
+                .filter((option) => option.value !== 'relevance-desc' || currentFilters.query)
+                .map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
             </SelectContent>
           </Select>
         </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="hidden md:inline-flex">
+              <Columns className="mr-2 h-4 w-4" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {LIST_COLUMNS.map(({ key, label }) => (
+              <DropdownMenuCheckboxItem
+                key={key}
+                checked={shows(key)}
+                onSelect={(event) => event.preventDefault()}
+                onCheckedChange={() => toggleColumn(key)}
+              >
+                {label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
+      <BulkActions
+        selection={bulkSelection}
+        count={selectedCount}
+        currentUser={currentUser}
+        assignees={assignees}
+        onClear={clearSelection}
+        onDone={() => router.refresh()}
+      />
+
+      {pageSelected && pagination.total > localBuyers.length && (
+        <div className="mb-4 rounded-md border bg-gray-50 px-3 py-2 text-sm text-center">
+          {allMatching ? (
+            <>
+              All <span className="font-medium">{pagination.total}</span> leads matching these filters are selected.{' '}
+              <button className="text-indigo-600 hover:underline" onClick={() => setAllMatching(false)}>
+                Select only this page
+              </button>
+            </>
+          ) : (
+            <>
+              All <span className="font-medium">{localBuyers.length}</span> leads on this page are selected.{' '}
+              {pagination.total <= BULK_LIMIT ? (
+                <button className="text-indigo-600 hover:underline" onClick={() => setAllMatching(true)}>
+                  Select all {pagination.total} matching leads
+                </button>
+              ) : (
+                <span className="text-gray-500">Narrow the filters to act on more than {BULK_LIMIT} leads at once.</span>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       {/* Buyers List */}
       <div className="flex-1 overflow-hidden flex flex-col bg-white rounded-lg shadow-sm border">
         <div className="w-full overflow-auto flex-1">
@@ -309,9 +540,11 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
             <div className="flex-1 flex items-center justify-center p-8">
               <div className="text-center">
                 <p className="text-gray-500 mb-4">No buyers found matching your criteria.</p>
-                <Button asChild>
-                  <Link href="/buyers/new">Create your first lead</Link>
-                </Button>
+                {can(currentUser, 'buyer:create') && (
+                  <Button asChild>
+                    <Link href="/buyers/new">Create your first lead</Link>
+                  </Button>
+                )}
               </div>
             </div>
           ) : (
@@ -323,6 +556,14 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                 <table className="min-w-full divide-y divide-gray-200" aria-label="Buyers list">
                   <thead className="bg-gray-50">
                     <tr>
+                      <th scope="col" className="pl-6 py-3 w-4">
+                        <input
+                          type="checkbox"
+                          checked={pageSelected}
+                          onChange={togglePage}
+                          aria-label="Select every lead on this page"
+                        />
+                      </th>
                       <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         <button
                           onClick={() => updateSort('fullName', currentFilters.sortOrder === 'asc' ? 'desc' : 'asc')}
@@ -336,34 +577,46 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                           <span>{getSortIcon('fullName')}</span>
                         </button>
                       </th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Contact
-                      </th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Property
-                      </th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Budget
-                      </th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Timeline
-                      </th>
-                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Status
-                      </th>
-                      <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        <button
-                          onClick={() => updateSort('updatedAt', currentFilters.sortOrder === 'asc' ? 'desc' : 'asc')}
-                          className="flex items-center gap-1 hover:text-gray-700 w-full text-right justify-end"
-                          aria-label="Sort by last updated"
-                          aria-sort={currentFilters.sortBy === 'updatedAt' ? 
-                            (currentFilters.sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'
-                          }
-                        >
-                          <span>Last Updated</span>
-                          <span>{getSortIcon('updatedAt')}</span>
-                        </button>
-                      </th>
+                      {shows('contact') && (
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Contact
+                        </th>
+                      )}
+                      {shows('property') && (
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Property
+                        </th>
+                      )}
+                      {shows('budget') && (
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Budget
+                        </th>
+                      )}
+                      {shows('timeline') && (
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Timeline
+                        </th>
+                      )}
+                      {shows('status') && (
+                        <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                      )}
+                      {shows('updatedAt') && (
+                        <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          <button
+                            onClick={() => updateSort('updatedAt', currentFilters.sortOrder === 'asc' ? 'desc' : 'asc')}
+                            className="flex items-center gap-1 hover:text-gray-700 w-full text-right justify-end"
+                            aria-label="Sort by last updated"
+                            aria-sort={currentFilters.sortBy === 'updatedAt' ? 
+                              (currentFilters.sortOrder === 'asc' ? 'ascending' : 'descending') : 'none'
+                            }
+                          >
+                            <span>Last Updated</span>
+                            <span>{getSortIcon('updatedAt')}</span>
+                          </button>
+                        </th>
+                      )}
                       <th className="relative px-6 py-3">
                         <span className="sr-only">Actions</span>
                       </th>
@@ -371,7 +624,15 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {filteredBuyers.map((buyer) => (
-                      <tr key={buyer.id} className="hover:bg-gray-50" aria-label={`Buyer ${buyer.fullName}`}>
+                      <tr key={buyer.id} className={selectedIds.includes(buyer.id) ? 'bg-indigo-50' : 'hover:bg-gray-50'} aria-label={`Buyer ${buyer.fullName}`}>
+                        <td className="pl-6 py-4 w-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(buyer.id)}
+                            onChange={() => toggleSelected(buyer.id)}
+                            aria-label={`Select ${buyer.fullName}`}
+                          />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <div>
@@ -389,66 +650,69 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                             </div>
                           </div>
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{buyer.phone}</div>
-                          <div className="text-sm text-gray-500">{buyer.city}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {buyer.propertyType} {buyer.bhk ? `(${buyer.bhk})` : ''}
-                          </div>
-                          <div className="text-sm text-gray-500">{buyer.purpose}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {formatBudgetRange(buyer.budgetMin, buyer.budgetMax)}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                            {buyer.timeline}
-                          </span>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="flex items-center gap-2">
-                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                              statusColors[buyer.status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800'
-                            }`}>
-                              {buyer.status}
+                        {shows('contact') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{formatPhone(buyer.phone)}</div>
+                            <div className="text-sm text-gray-500">{buyer.city}</div>
+                          </td>
+                        )}
+                        {shows('property') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              {buyer.propertyType} {buyer.bhk ? `(${buyer.bhk})` : ''}
+                            </div>
+                            <div className="text-sm text-gray-500">{buyer.purpose}</div>
+                          </td>
+                        )}
+                        {shows('budget') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              {formatBudgetRange(buyer.budgetMin, buyer.budgetMax, { notation: 'compact', purpose: buyer.purpose })}
+                            </div>
+                          </td>
+                        )}
+                        {shows('timeline') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                              {buyer.timeline}
                             </span>
-                            <DropdownMenu>
-                              <DropdownMenuTrigger>
-                                <MoreHorizontal className="h-4 w-4 text-gray-400 hover:text-gray-600" />
-                              </DropdownMenuTrigger>
-                              <DropdownMenuContent align="end">
-                                <DropdownMenuItem 
-                                  onClick={() => updateStatus(buyer.id, 'New')}
-                                  className="flex items-center gap-2"
-                                >
-                                  <Clock className="h-4 w-4" />
-                                  Mark as New
-                                </DropdownMenuItem>
-                                <DropdownMenuItem 
-                                  onClick={() => updateStatus(buyer.id, 'Qualified')}
-                                  className="flex items-center gap-2"
-                                >
-                                  <CheckCircle className="h-4 w-4 text-green-500" />
-                                  Mark as Qualified
-                                </DropdownMenuItem>
-                                <DropdownMenuItem 
-                                  onClick={() => updateStatus(buyer.id, 'Dropped')}
-                                  className="flex items-center gap-2"
-                                >
-                                  <XCircle className="h-4 w-4 text-red-500" />
-                                  Mark as Dropped
-                                </DropdownMenuItem>
-                              </DropdownMenuContent>
-                            </DropdownMenu>
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {formatDate(buyer.updatedAt)}
-                        </td>
+                          </td>
+                        )}
+                        {shows('status') && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex items-center gap-2">
+                              <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                statusColors[buyer.status as keyof typeof statusColors] || 'bg-gray-100 text-gray-800'
+                              }`}>
+                                {buyer.status}
+                              </span>
+                              {can(currentUser, 'buyer:update', buyer) && quickStatusesFor(buyer.status).length > 0 && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger>
+                                    <MoreHorizontal className="h-4 w-4 text-gray-400 hover:text-gray-600" />
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    {quickStatusesFor(buyer.status).map(({ status, label, icon: Icon, iconClassName }) => (
+                                      <DropdownMenuItem 
+                                        key={status}
+                                        onClick={() => updateStatus(buyer, status)}
+                                        className="flex items-center gap-2"
+                                      >
+                                        <Icon className={`h-4 w-4 ${iconClassName}`} />
+                                        {label}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
+                            </div>
+                          </td>
+                        )}
+                        {shows('updatedAt') && (
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {formatDate(buyer.updatedAt)}
+                          </td>
+                        )}
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                           <div className="flex justify-end space-x-2">
                             <Link 
@@ -458,13 +722,15 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                             >
                               <Eye className="h-4 w-4" />
                             </Link>
-                            <Link 
-                              href={`/buyers/${buyer.id}/edit`}
-                              className="text-indigo-600 hover:text-indigo-900"
-                              title="Edit"
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Link>
+                            {can(currentUser, 'buyer:update', buyer) && (
+                              <Link 
+                                href={`/buyers/${buyer.id}/edit`}
+                                className="text-indigo-600 hover:text-indigo-900"
+                                title="Edit"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Link>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -480,15 +746,23 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                   <Card key={buyer.id} className="hover:shadow-md transition-shadow">
                     <CardHeader className="pb-2">
                       <div className="flex justify-between items-start">
-                        <CardTitle className="text-lg">
+                        <CardTitle className="text-lg flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(buyer.id)}
+                            onChange={() => toggleSelected(buyer.id)}
+                            aria-label={`Select ${buyer.fullName}`}
+                          />
                           <Link href={`/buyers/${buyer.id}`} className="hover:text-primary hover:underline">
                             {buyer.fullName}
                           </Link>
                         </CardTitle>
                         <div className="flex space-x-2">
-                          <Link href={`/buyers/${buyer.id}/edit`} title="Edit">
-                            <Edit className="h-4 w-4 text-muted-foreground" />
-                          </Link>
+                          {can(currentUser, 'buyer:update', buyer) && (
+                            <Link href={`/buyers/${buyer.id}/edit`} title="Edit">
+                              <Edit className="h-4 w-4 text-muted-foreground" />
+                            </Link>
+                          )}
                           <Link href={`/buyers/${buyer.id}`} title="View">
                             <Eye className="h-4 w-4 text-muted-foreground" />
                           </Link>
@@ -507,7 +781,7 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                       <div className="grid grid-cols-2 gap-2 text-sm">
                         <div>
                           <p className="text-muted-foreground">Phone</p>
-                          <p>{buyer.phone}</p>
+                          <p>{formatPhone(buyer.phone)}</p>
                         </div>
                         <div>
                           <p className="text-muted-foreground">City</p>
@@ -519,7 +793,7 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                         </div>
                         <div>
                           <p className="text-muted-foreground">Budget</p>
-                          <p>{formatBudgetRange(buyer.budgetMin, buyer.budgetMax)}</p>
+                          <p>{formatBudgetRange(buyer.budgetMin, buyer.budgetMax, { notation: 'compact', purpose: buyer.purpose })}</p>
                         </div>
                       </div>
                       <div className="text-sm">
@@ -544,7 +818,7 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                   <span className="font-medium">
                     {Math.min(pagination.page * pagination.limit, pagination.total)}
                   </span>{' '}
-                  of <span className="font-medium">{pagination.total}</span> results
+                  of <span className="font-medium">{totalLabel}</span> results
                 </p>
               </div>
               <div>
@@ -589,10 +863,10 @@ export default function BuyersList({ buyers, pagination, currentFilters }: Buyer
                   })}
                   
                   <button
-                    onClick={() => updatePage(Math.min(pagination.pages, pagination.page + 1))}
-                    disabled={pagination.page === pagination.pages}
+                    onClick={() => updatePage(pagination.page + 1)}
+                    disabled={isLastPage}
                     className={`relative inline-flex items-center px-2 py-2 rounded-r-md border border-gray-300 bg-white text-sm font-medium ${
-                      pagination.page === pagination.pages ? 'text-gray-300 cursor-not-allowed' : 'text-gray-500 hover:bg-gray-50'
+                      isLastPage ? 'text-gray-300 cursor-not-allowed' : 'text-gray-500 hover:bg-gray-50'
                     }`}
                   >
                     <span className="sr-only">Next</span>
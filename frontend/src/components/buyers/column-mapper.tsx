@@ -0,0 +1,324 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  BUDGET_FIELDS,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_CHOICES,
+  IMPORT_FIELD_LABELS,
+  headerUnit,
+  missingImportFields,
+  unmatchedValues,
+  valueKey,
+  withSuggestedAliases,
+} from '@/lib/import-mapping';
+import { sourceEnum, type BudgetUnit, type ColumnMapping, type ImportField, type Source } from '@/lib/validations';
+import { Loader2, Save, X } from 'lucide-react';
+
+// What the preview endpoint found in the chosen file
+export interface ImportPreview {
+  headers: string[];
+  values: Record<string, string[]>;
+  rowCount: number;
+}
+
+export interface SavedImportMapping {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+interface ColumnMapperProps {
+  preview: ImportPreview;
+  mapping: ColumnMapping;
+  templates: SavedImportMapping[];
+  onChange: (mapping: ColumnMapping) => void;
+  onTemplatesChange: (templates: SavedImportMapping[]) => void;
+}
+
+// Select values standing for "nothing", which Radix selects can't hold as ''
+const IGNORE = 'ignore';
+const RUPEES = 'rupees';
+const KEEP = 'keep';
+const NO_SOURCE = 'none';
+
+// Sample values shown next to each column
+const SHOWN_SAMPLES = 3;
+
+export default function ColumnMapper({ preview, mapping, templates, onChange, onTemplatesChange }: ColumnMapperProps) {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const missing = missingImportFields(mapping);
+  const fieldHeader = (field: ImportField) =>
+    Object.keys(mapping.columns).find((header) => mapping.columns[header].field === field);
+
+  const setField = (header: string, value: string) => {
+    const columns = { ...mapping.columns };
+    if (value === IGNORE) {
+      delete columns[header];
+    } else {
+      const field = value as ImportField;
+      columns[header] = BUDGET_FIELDS.includes(field) ? { field, unit: headerUnit(header) } : { field };
+    }
+    onChange(withSuggestedAliases({ ...mapping, columns }, preview.values));
+  };
+
+  const setUnit = (header: string, value: string) => {
+    const columns = {
+      ...mapping.columns,
+      [header]: { ...mapping.columns[header], unit: value === RUPEES ? undefined : value as BudgetUnit },
+    };
+    onChange({ ...mapping, columns });
+  };
+
+  const setAlias = (field: ImportField, value: string, option: string) => {
+    const fieldAliases = { ...mapping.aliases[field] };
+    if (option === KEEP) {
+      delete fieldAliases[valueKey(value)];
+    } else {
+      fieldAliases[valueKey(value)] = option;
+    }
+    onChange({ ...mapping, aliases: { ...mapping.aliases, [field]: fieldAliases } });
+  };
+
+  const setSource = (value: string) => {
+    onChange({ ...mapping, source: value === NO_SOURCE ? undefined : value as Source });
+  };
+
+  const saveTemplate = async () => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch('/api/buyers/import/mappings', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, mapping }),
+      });
+      const saved = await response.json();
+      if (!response.ok) {
+        throw new Error(saved.error || 'Failed to save mapping');
+      }
+
+      onTemplatesChange([...templates.filter((template) => template.id !== saved.id), saved]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async (template: SavedImportMapping) => {
+    if (!confirm(`Delete the saved mapping "${template.name}"?`)) return;
+
+    setError('');
+    try {
+      const response = await fetch(`/api/buyers/import/mappings/${template.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete mapping');
+      }
+      onTemplatesChange(templates.filter(({ id }) => id !== template.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  // Choice columns with values that aren't one of the options as written
+  const translations = Object.entries(mapping.columns)
+    .map(([header, { field }]) => ({ header, field, values: unmatchedValues(field, preview.values[header] ?? []) }))
+    .filter(({ values }) => values.length > 0);
+
+  return (
+    <Card className="my-8">
+      <CardHeader>
+        <CardTitle>Map Columns</CardTitle>
+        <CardDescription>
+          {preview.rowCount} {preview.rowCount === 1 ? 'row' : 'rows'} found. Pick the field each column fills, or ignore it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          {templates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Saved mappings</Label>
+              <div className="flex flex-wrap gap-2">
+                {templates.map((template) => (
+                  <div key={template.id} className="flex items-center rounded-md border">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(withSuggestedAliases(template.mapping, preview.values))}
+                    >
+                      {template.name}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteTemplate(template)}
+                      aria-label={`Delete ${template.name}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2 sm:ml-auto">
+            <Label htmlFor="mapping-name">Save this mapping for the source</Label>
+            <div className="flex gap-2">
+              <Input
+                id="mapping-name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder="e.g. 99acres export"
+                className="w-56"
+              />
+              <Button variant="outline" onClick={saveTemplate} disabled={!name.trim() || isSaving}>
+                {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Column</th>
+                <th className="py-2 pr-4 font-medium">Sample values</th>
+                <th className="py-2 pr-4 font-medium">Imports as</th>
+                <th className="py-2 font-medium">Unit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.headers.map((header) => {
+                const column = mapping.columns[header];
+                return (
+                  <tr key={header} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium">{header}</td>
+                    <td className="py-2 pr-4 text-gray-500">
+                      {(preview.values[header] ?? []).slice(0, SHOWN_SAMPLES).join(', ')}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <Select value={column?.field ?? IGNORE} onValueChange={(value) => setField(header, value)}>
+                        <SelectTrigger className="w-48" aria-label={`Field for ${header}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={IGNORE}>Ignore</SelectItem>
+                          {IMPORT_FIELDS.map((field) => {
+                            const mappedTo = fieldHeader(field);
+                            return (
+                              <SelectItem key={field} value={field} disabled={!!mappedTo && mappedTo !== header}>
+                                {IMPORT_FIELD_LABELS[field]}
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-2">
+                      {column && BUDGET_FIELDS.includes(column.field) && (
+                        <Select value={column.unit ?? RUPEES} onValueChange={(value) => setUnit(header, value)}>
+                          <SelectTrigger className="w-32" aria-label={`Unit of ${header}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={RUPEES}>Rupees</SelectItem>
+                            <SelectItem value="lakh">Lakhs</SelectItem>
+                            <SelectItem value="crore">Crores</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {translations.length > 0 && (
+          <div className="space-y-4">
+            <div>
+              <h4 className="font-medium">Values to translate</h4>
+              <p className="text-sm text-gray-500">
+                Values kept as they are must already be one of the options, or their rows fail.
+              </p>
+            </div>
+            {translations.map(({ header, field, values }) => (
+              <div key={header} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {header} → {IMPORT_FIELD_LABELS[field]}
+                </p>
+                <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                  {values.map((value) => (
+                    <div key={value} className="flex items-center gap-2">
+                      <span className="w-32 truncate text-sm" title={value}>{value}</span>
+                      <Select
+                        value={mapping.aliases[field]?.[valueKey(value)] ?? KEEP}
+                        onValueChange={(option) => setAlias(field, value, option)}
+                      >
+                        <SelectTrigger className="w-40" aria-label={`${IMPORT_FIELD_LABELS[field]} for ${value}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={KEEP}>Keep as is</SelectItem>
+                          {IMPORT_FIELD_CHOICES[field]!.map((option) => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Source for rows without one</Label>
+          <Select value={mapping.source ?? NO_SOURCE} onValueChange={setSource}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SOURCE}>None</SelectItem>
+              {sourceEnum.options.map((source) => (
+                <SelectItem key={source} value={source}>{source}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {missing.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              No column fills {missing.map((field) => IMPORT_FIELD_LABELS[field]).join(', ')} yet; rows need these to import.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
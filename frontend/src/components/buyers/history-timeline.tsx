@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { formatDate } from '@/lib/utils';
+import { Loader2, RotateCcw, User } from 'lucide-react';
+import { HistoryChanges, changedByLabel, type HistoryEntry } from './buyer-history';
+
+interface HistoryTimelineProps {
+  buyerId: string;
+  buyerUpdatedAt: string;
+  initialEntries: HistoryEntry[];
+  initialCursor: string | null;
+  canRevert: boolean;
+}
+
+export default function HistoryTimeline({
+  buyerId,
+  buyerUpdatedAt,
+  initialEntries,
+  initialCursor,
+  canRevert,
+}: HistoryTimelineProps) {
+  const router = useRouter();
+  const [entries, setEntries] = useState(initialEntries);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // A revert adds a new entry at the top; start again from the fresh first page
+  useEffect(() => {
+    setEntries(initialEntries);
+    setCursor(initialCursor);
+  }, [initialEntries, initialCursor]);
+
+  const loadMore = async () => {
+    if (!cursor) return;
+    setIsLoadingMore(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/history?cursor=${cursor}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to load history');
+      }
+
+      const page = await response.json();
+      setEntries((current) => [...current, ...page.data]);
+      setCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const revert = async (entry: HistoryEntry) => {
+    if (!confirm(`Restore this lead to how it was after the change on ${formatDate(entry.changedAt)}?`)) {
+      return;
+    }
+
+    setRevertingId(entry.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/history/${entry.id}/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ updatedAt: buyerUpdatedAt }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to revert');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">
+            No changes recorded yet
+          </p>
+        ) : (
+          <ol className="space-y-4">
+            {entries.map((entry, index) => (
+              <li key={entry.id} className="border-l-2 border-gray-200 pl-4 pb-4">
+                <div className="flex items-center justify-between mb-2 gap-2">
+                  <div className="flex items-center gap-2">
+                    <User className="h-3 w-3 text-gray-400" />
+                    <span className="text-xs font-medium text-gray-600">
+                      {changedByLabel(entry)}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {formatDate(entry.changedAt)}
+                    </span>
+                  </div>
+                  {/* The newest entry is the current version; trash moves and entries
+                      carried over from a merged duplicate are not versions of this lead */}
+                  {canRevert && index > 0 && !['delete', 'restore'].includes(entry.action) && !entry.meta?.mergedFrom && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revert(entry)}
+                      disabled={revertingId !== null}
+                    >
+                      {revertingId === entry.id ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                      )}
+                      Revert to this version
+                    </Button>
+                  )}
+                </div>
+
+                <HistoryChanges entry={entry} />
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {cursor && (
+          <Button variant="outline" className="w-full" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load older changes
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { IMPORT_COLUMNS, type CellError, type ImportColumn } from '@/lib/import-rows';
+import { cn } from '@/lib/utils';
+import { CheckCircle, Loader2, RefreshCw, Upload } from 'lucide-react';
+
+// A row as the dry run checked it
+export interface DryRunRow {
+  sheet?: string;
+  rowNumber: number;
+  values: Record<ImportColumn, string>;
+  errors: CellError[];
+  duplicate?: { id: string; fullName: string };
+  updates?: { id: string; fullName: string; fields: string[] };
+}
+
+// A row as sent back to the import, with the cells as edited here
+export type EditedRow = Pick<DryRunRow, 'sheet' | 'rowNumber' | 'values'>;
+
+interface ImportGridProps {
+  rows: DryRunRow[];
+  message: string;
+  isWorking: boolean;
+  onCheck: (rows: EditedRow[]) => void;
+  onImport: (rows: EditedRow[]) => void;
+}
+
+const rowKey = (row: { sheet?: string; rowNumber: number }) => `${row.sheet ?? ''}:${row.rowNumber}`;
+
+export default function ImportGrid({ rows, message, isWorking, onCheck, onImport }: ImportGridProps) {
+  const [values, setValues] = useState<Record<string, Record<ImportColumn, string>>>({});
+  // Rows without errors are approved unless unticked here; this survives checking again
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const [onlyProblems, setOnlyProblems] = useState(false);
+
+  // Start over from what the latest check returned
+  useEffect(() => {
+    setValues(Object.fromEntries(rows.map((row) => [rowKey(row), row.values])));
+  }, [rows]);
+
+  const edited = (): EditedRow[] => rows.map((row) => ({
+    sheet: row.sheet,
+    rowNumber: row.rowNumber,
+    values: values[rowKey(row)] ?? row.values,
+  }));
+
+  const isApproved = (row: DryRunRow) => row.errors.length === 0 && !rejected.has(rowKey(row));
+  const approved = rows.filter(isApproved);
+  const shown = onlyProblems ? rows.filter((row) => row.errors.length > 0) : rows;
+
+  const setCell = (row: DryRunRow, column: ImportColumn, value: string) => {
+    const key = rowKey(row);
+    setValues((current) => ({ ...current, [key]: { ...(current[key] ?? row.values), [column]: value } }));
+  };
+
+  const toggle = (row: DryRunRow) => {
+    const key = rowKey(row);
+    setRejected((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const importApproved = () => {
+    const keys = new Set(approved.map(rowKey));
+    onImport(edited().filter((row) => keys.has(rowKey(row))));
+  };
+
+  return (
+    <Card className="my-8">
+      <CardHeader>
+        <CardTitle>Check Rows</CardTitle>
+        <CardDescription>
+          {message}. Cells with problems are highlighted; hover one to see why. Fix them here and check again,
+          then import the rows you approve.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={onlyProblems} onChange={(event) => setOnlyProblems(event.target.checked)} />
+          Only rows with problems
+        </label>
+
+        <div className="max-h-[32rem] overflow-auto rounded-md border">
+          <table className="text-sm">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr className="text-left text-gray-500">
+                <th className="px-2 py-2 font-medium">Import</th>
+                <th className="px-2 py-2 font-medium">Row</th>
+                {IMPORT_COLUMNS.map((column) => (
+                  <th key={column} className="px-2 py-2 font-medium">{column}</th>
+                ))}
+                <th className="px-2 py-2 font-medium">Problems and Matches</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((row) => {
+                const key = rowKey(row);
+                const cells = values[key] ?? row.values;
+                return (
+                  <tr key={key} className={cn('border-t', row.errors.length > 0 && 'bg-red-50/40')}>
+                    <td className="px-2 py-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={isApproved(row)}
+                        disabled={row.errors.length > 0}
+                        onChange={() => toggle(row)}
+                        aria-label={`Import row ${row.rowNumber}`}
+                      />
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-1 text-gray-500">
+                      {row.sheet ? `${row.sheet} ${row.rowNumber}` : row.rowNumber}
+                    </td>
+                    {IMPORT_COLUMNS.map((column) => {
+                      const cellErrors = row.errors.filter((error) => error.field === column);
+                      return (
+                        <td key={column} className="px-1 py-1">
+                          <input
+                            value={cells[column]}
+                            onChange={(event) => setCell(row, column, event.target.value)}
+                            title={cellErrors.map((error) => error.message).join('\n') || undefined}
+                            aria-invalid={cellErrors.length > 0}
+                            aria-label={`${column} of row ${row.rowNumber}`}
+                            className={cn(
+                              'w-32 rounded border px-1 py-0.5',
+                              cellErrors.length > 0 && 'border-red-500 bg-red-50'
+                            )}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="min-w-[16rem] px-2 py-1 text-xs text-red-700">
+                      {row.errors.map((error, index) => (
+                        <p key={index}>{error.field ? `${error.field}: ${error.message}` : error.message}</p>
+                      ))}
+                      {row.duplicate && (
+                        <Link href={`/buyers/${row.duplicate.id}`} target="_blank" className="text-blue-600 underline">
+                          Matches {row.duplicate.fullName}
+                        </Link>
+                      )}
+                      {row.updates && (
+                        <p className="text-gray-600">
+                          {row.updates.fields.length > 0 ? 'Updates' : 'No changes to'}{' '}
+                          <Link href={`/buyers/${row.updates.id}`} target="_blank" className="text-blue-600 underline">
+                            {row.updates.fullName}
+                          </Link>
+                          {row.updates.fields.length > 0 && `: ${row.updates.fields.join(', ')}`}
+                        </p>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={() => onCheck(edited())} disabled={isWorking}>
+            {isWorking ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Check Again
+          </Button>
+          <Button onClick={importApproved} disabled={isWorking || approved.length === 0}>
+            {approved.length === rows.length ? <CheckCircle className="mr-2 h-4 w-4" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import {approved.length} Approved {approved.length === 1 ? 'Row' : 'Rows'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Download, Loader2, XCircle } from 'lucide-react';
+
+// A background import as the jobs API returns it
+export interface ImportJobStatus {
+  id: string;
+  fileName: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  totalRows: number;
+  processedRows: number;
+  importedRows: number;
+  updatedRows: number;
+  failedRows: number;
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+interface ImportJobProgressProps {
+  job: ImportJobStatus;
+  onFinish?: (job: ImportJobStatus) => void;
+}
+
+const POLL_INTERVAL_MS = 2000;
+
+export const isFinished = (job: ImportJobStatus) => job.status === 'completed' || job.status === 'failed';
+
+// Follows a background import until it finishes, then offers its error report
+export default function ImportJobProgress({ job: initial, onFinish }: ImportJobProgressProps) {
+  const [job, setJob] = useState(initial);
+
+  useEffect(() => {
+    setJob(initial);
+    if (isFinished(initial)) return;
+
+    let stopped = false;
+    const timer = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/buyers/import/jobs/${initial.id}`);
+        if (!response.ok || stopped) return;
+
+        const { job: latest } = await response.json();
+        setJob(latest);
+        if (isFinished(latest)) {
+          stopped = true;
+          clearInterval(timer);
+          onFinish?.(latest);
+        }
+      } catch (error) {
+        console.error('Failed to load import progress:', error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [initial]);
+
+  const percent = job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+
+  return (
+    <Card className="my-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {job.status === 'completed' ? (
+            <CheckCircle className="h-5 w-5 text-green-500" />
+          ) : job.status === 'failed' ? (
+            <XCircle className="h-5 w-5 text-red-500" />
+          ) : (
+            <Loader2 className="h-5 w-5 animate-spin" />
+          )}
+          Importing {job.fileName}
+          <Badge variant="outline">{job.status}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Large files are queued and imported in the background, usually starting within a minute. You can leave this page; the import keeps going.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-2 overflow-hidden rounded-full bg-gray-100">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+          <span>{job.processedRows.toLocaleString('en-IN')} of {job.totalRows.toLocaleString('en-IN')} rows checked</span>
+          <span className="text-green-700">{job.importedRows.toLocaleString('en-IN')} imported</span>
+          {job.updatedRows > 0 && (
+            <span className="text-blue-700">{job.updatedRows.toLocaleString('en-IN')} existing updated</span>
+          )}
+          <span className="text-red-700">{job.failedRows.toLocaleString('en-IN')} skipped</span>
+        </div>
+
+        {job.error && (
+          <p className="text-sm text-red-700">The import stopped: {job.error}</p>
+        )}
+
+        {isFinished(job) && job.failedRows > 0 && (
+          <Button variant="outline" asChild>
+            <a href={`/api/buyers/import/jobs/${job.id}/errors`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Download Skipped Rows
+            </a>
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
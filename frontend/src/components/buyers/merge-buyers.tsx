@@ -0,0 +1,193 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { MERGE_FIELDS, mergeValues, type MergeField, type MergePicks, type MergeableBuyer } from '@/lib/duplicates';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
+import { GitMerge, Loader2 } from 'lucide-react';
+
+interface MergeBuyer extends MergeableBuyer {
+  updatedAt: string;
+}
+
+interface MergeBuyersProps {
+  buyers: MergeBuyer[];
+  // Owner id -> display name
+  owners: Record<string, string>;
+}
+
+const fieldLabels: Record<MergeField, string> = {
+  fullName: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  city: 'City',
+  propertyType: 'Property Type',
+  bhk: 'BHK',
+  purpose: 'Purpose',
+  budgetMin: 'Minimum Budget',
+  budgetMax: 'Maximum Budget',
+  timeline: 'Timeline',
+  source: 'Source',
+  status: 'Status',
+  ownerId: 'Owner',
+};
+
+export default function MergeBuyers({ buyers, owners }: MergeBuyersProps) {
+  const router = useRouter();
+  const [survivorId, setSurvivorId] = useState(buyers[0].id);
+  const [picks, setPicks] = useState<MergePicks>({});
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState('');
+
+  const formatValue = (field: MergeField, value: any): string => {
+    if (value === null || value === undefined || value === '') return 'Not set';
+    if (field === 'budgetMin' || field === 'budgetMax') return formatCurrency(value);
+    if (field === 'ownerId') return owners[value] ?? 'Unknown user';
+    if (field === 'phone') return formatPhone(value);
+    return String(value);
+  };
+
+  const merged = useMemo(() => mergeValues(buyers, survivorId, picks), [buyers, survivorId, picks]);
+  const pickFor = (field: MergeField) => picks[field] ?? survivorId;
+
+  // Fields where every lead agrees need no decision
+  const differs = (field: MergeField) =>
+    new Set(buyers.map((buyer) => JSON.stringify(buyer[field] ?? null))).size > 1;
+
+  const handleMerge = async () => {
+    const others = buyers.filter((buyer) => buyer.id !== survivorId);
+    if (!confirm(`Merge ${others.length} ${others.length === 1 ? 'lead' : 'leads'} into ${merged.fullName}? The merged leads will be removed.`)) {
+      return;
+    }
+
+    setIsMerging(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/buyers/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          survivorId,
+          duplicateIds: others.map((buyer) => buyer.id),
+          picks: Object.fromEntries(MERGE_FIELDS.map((field) => [field, pickFor(field)])),
+          versions: Object.fromEntries(buyers.map((buyer) => [buyer.id, buyer.updatedAt])),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to merge leads');
+      }
+
+      router.push(`/buyers/${survivorId}`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                {buyers.map((buyer) => (
+                  <th key={buyer.id} className="px-4 py-3 text-left">
+                    <label className="flex items-center gap-2 text-sm font-medium text-gray-900 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="survivor"
+                        checked={survivorId === buyer.id}
+                        onChange={() => setSurvivorId(buyer.id)}
+                      />
+                      Keep this lead
+                    </label>
+                    <div className="text-xs font-normal text-gray-500">Updated {formatDate(buyer.updatedAt)}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {MERGE_FIELDS.map((field) => (
+                <tr key={field} className={differs(field) ? '' : 'text-gray-400'}>
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-700">{fieldLabels[field]}</td>
+                  {buyers.map((buyer) => (
+                    <td key={buyer.id} className="px-4 py-3 text-sm">
+                      {differs(field) ? (
+                        <label className="flex items-center gap-2 cursor-pointer">
+                          <input
+                            type="radio"
+                            name={`pick-${field}`}
+                            checked={pickFor(field) === buyer.id}
+                            onChange={() => setPicks((current) => ({ ...current, [field]: buyer.id }))}
+                          />
+                          {formatValue(field, buyer[field])}
+                        </label>
+                      ) : (
+                        formatValue(field, buyer[field])
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Tags after merging</p>
+            {merged.tags.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {merged.tags.map((tag: string) => (
+                  <Badge key={tag} variant="secondary">{tag}</Badge>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">None</p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Other phone numbers after merging</p>
+            <p className="text-sm text-gray-600">
+              {merged.altPhones.length > 0 ? merged.altPhones.map(formatPhone).join(', ') : 'None'}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Notes after merging</p>
+            <p className="text-sm text-gray-600 whitespace-pre-wrap">{merged.notes || 'None'}</p>
+          </div>
+          <p className="text-xs text-gray-500">
+            History, tasks and site visits of the merged leads move to the lead you keep.
+          </p>
+          <Button onClick={handleMerge} disabled={isMerging}>
+            {isMerging ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <GitMerge className="mr-2 h-4 w-4" />
+            )}
+            Merge {buyers.length} leads
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
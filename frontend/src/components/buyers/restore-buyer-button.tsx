@@ -0,0 +1,40 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+export default function RestoreBuyerButton({ buyerId }: { buyerId: string }) {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const router = useRouter();
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      const response = await fetch(`/api/buyers/${buyerId}/restore`, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to restore buyer');
+      }
+
+      router.refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to restore buyer');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleRestore} disabled={isRestoring}>
+      {isRestoring ? (
+        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+      ) : (
+        <RotateCcw className="mr-2 h-4 w-4" />
+      )}
+      Restore
+    </Button>
+  );
+}
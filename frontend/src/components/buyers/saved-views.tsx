@@ -0,0 +1,296 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { matchesView, viewHref, viewParams, type SavedView } from '@/lib/views';
+import { BellOff, BellRing, Bookmark, Check, ChevronDown, Link2, Loader2, Save, Star, Trash2, Users } from 'lucide-react';
+
+interface SavedViewsProps {
+  views: SavedView[];
+  defaultViewId: string | null;
+  currentUserId: string;
+}
+
+export default function SavedViews({ views, defaultViewId, currentUserId }: SavedViewsProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [isSaving, setIsSaving] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  const current = viewParams(searchParams);
+  const activeView = views.find((view) => view.id === searchParams.get('view'));
+  const isOwnView = activeView?.ownerId === currentUserId;
+  const isModified = activeView ? !matchesView(activeView, current) : false;
+  const ownViews = views.filter((view) => view.ownerId === currentUserId);
+  const teamViews = views.filter((view) => view.ownerId !== currentUserId);
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    setIsSaving(true);
+    setError('');
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || fallback);
+      }
+      return response.json();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveView = async () => {
+    const view = await request('/api/views', {
+      method: 'POST',
+      body: JSON.stringify({ name, params: current, shared, makeDefault }),
+    }, 'Failed to save view');
+    if (view) {
+      setShowSaveForm(false);
+      setName('');
+      router.push(viewHref(view));
+      router.refresh();
+    }
+  };
+
+  const updateView = async () => {
+    if (!activeView) return;
+    const view = await request(`/api/views/${activeView.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ params: current }),
+    }, 'Failed to update view');
+    if (view) {
+      router.refresh();
+    }
+  };
+
+  const toggleShared = async () => {
+    if (!activeView) return;
+    const view = await request(`/api/views/${activeView.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ shared: !activeView.shared }),
+    }, 'Failed to update view');
+    if (view) {
+      router.refresh();
+    }
+  };
+
+  const setDefault = async (viewId: string | null) => {
+    const result = await request('/api/views/default', {
+      method: 'PUT',
+      body: JSON.stringify({ viewId }),
+    }, 'Failed to change default view');
+    if (result) {
+      router.refresh();
+    }
+  };
+
+  // null turns the alerts off; otherwise in app, and by email when asked for
+  const setAlert = async (alert: { email: boolean } | null) => {
+    if (!activeView) return;
+    const result = alert
+      ? await request(`/api/views/${activeView.id}/alert`, {
+          method: 'PUT',
+          body: JSON.stringify(alert),
+        }, 'Failed to turn on alerts')
+      : await request(`/api/views/${activeView.id}/alert`, { method: 'DELETE' }, 'Failed to turn off alerts');
+    if (result) {
+      router.refresh();
+    }
+  };
+
+  const deleteView = async () => {
+    if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return;
+    const result = await request(`/api/views/${activeView.id}`, { method: 'DELETE' }, 'Failed to delete view');
+    if (result) {
+      router.push('/buyers?page=1');
+      router.refresh();
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Bookmark className="mr-2 h-4 w-4" />
+              {activeView ? activeView.name : 'All leads'}
+              {isModified && <span className="ml-1 text-gray-500">(edited)</span>}
+              <ChevronDown className="ml-2 h-4 w-4 opacity-50" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            {/* A query string keeps a configured default view from reopening */}
+            <DropdownMenuItem asChild>
+              <Link href="/buyers?page=1">All leads</Link>
+            </DropdownMenuItem>
+            {ownViews.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>My views</DropdownMenuLabel>
+                {ownViews.map((view) => (
+                  <DropdownMenuItem key={view.id} asChild>
+                    <Link href={viewHref(view)} className="flex items-center justify-between">
+                      <span className="truncate">{view.name}</span>
+                      <span className="flex items-center gap-1 text-gray-400">
+                        {view.shared && <Users className="h-3 w-3" />}
+                        {view.id === defaultViewId && <Star className="h-3 w-3" />}
+                      </span>
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+            {teamViews.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Shared by the team</DropdownMenuLabel>
+                {teamViews.map((view) => (
+                  <DropdownMenuItem key={view.id} asChild>
+                    <Link href={viewHref(view)} className="flex items-center justify-between">
+                      <span className="truncate">{view.name}</span>
+                      {view.id === defaultViewId && <Star className="h-3 w-3 text-gray-400" />}
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button variant="outline" size="sm" onClick={() => setShowSaveForm(!showSaveForm)} disabled={isSaving}>
+          <Save className="mr-2 h-4 w-4" />
+          Save as view
+        </Button>
+
+        {activeView && isOwnView && isModified && (
+          <Button variant="outline" size="sm" onClick={updateView} disabled={isSaving}>
+            Update &quot;{activeView.name}&quot;
+          </Button>
+        )}
+
+        {activeView && (
+          activeView.id === defaultViewId ? (
+            <Button variant="outline" size="sm" onClick={() => setDefault(null)} disabled={isSaving} title="Stop opening the list with this view">
+              <Star className="mr-2 h-4 w-4 fill-current" />
+              Default
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setDefault(activeView.id)} disabled={isSaving}>
+              <Star className="mr-2 h-4 w-4" />
+              Set as default
+            </Button>
+          )
+        )}
+
+        {activeView && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isSaving}>
+                {activeView.alertEmail == null ? <BellOff className="mr-2 h-4 w-4" /> : <BellRing className="mr-2 h-4 w-4" />}
+                {activeView.alertEmail == null ? 'Alerts off' : 'Alerts on'}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel>New leads matching this view</DropdownMenuLabel>
+              <DropdownMenuCheckboxItem
+                checked={activeView.alertEmail != null}
+                onCheckedChange={(checked) => setAlert(checked ? { email: false } : null)}
+              >
+                Notify me in the app
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuCheckboxItem
+                checked={activeView.alertEmail === true}
+                onCheckedChange={(checked) => setAlert({ email: checked })}
+              >
+                Email me too
+              </DropdownMenuCheckboxItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {activeView && isOwnView && (
+          <Button variant="outline" size="sm" onClick={toggleShared} disabled={isSaving}>
+            <Users className="mr-2 h-4 w-4" />
+            {activeView.shared ? 'Stop sharing' : 'Share with team'}
+          </Button>
+        )}
+
+        <Button variant="outline" size="sm" onClick={copyLink} title="Copy a link to exactly this list">
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <Link2 className="mr-2 h-4 w-4" />}
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+
+        {activeView && isOwnView && (
+          <Button variant="outline" size="sm" onClick={deleteView} disabled={isSaving} title="Delete view">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+
+      {showSaveForm && (
+        <div className="flex flex-wrap items-center gap-3 rounded-md border bg-white p-3">
+          <Input
+            placeholder="View name, e.g. Hot Mohali plots"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-64"
+            maxLength={80}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+            Share with team
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={makeDefault} onChange={(e) => setMakeDefault(e.target.checked)} />
+            Open the list with this view
+          </label>
+          <Button size="sm" onClick={saveView} disabled={isSaving || !name.trim()}>
+            Save
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setShowSaveForm(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
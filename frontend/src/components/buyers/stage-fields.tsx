@@ -0,0 +1,105 @@
+'use client';
+
+import type { FieldErrors, UseFormRegister, UseFormSetValue, UseFormWatch } from 'react-hook-form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const dropReasonOptions = ['Budget', 'Location', 'Bought Elsewhere', 'Not Responding', 'Not Interested', 'Other'];
+
+interface StageFieldsProps {
+  status?: string;
+  register: UseFormRegister<any>;
+  watch: UseFormWatch<any>;
+  setValue: UseFormSetValue<any>;
+  errors: FieldErrors;
+}
+
+// Extra inputs a lead needs for the status it is moving to
+export default function StageFields({ status, register, watch, setValue, errors }: StageFieldsProps) {
+  const visitedAt: string | null | undefined = watch('visitedAt');
+
+  if (status === 'Dropped') {
+    return (
+      <div className="grid grid-cols-1 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="dropReason">Drop Reason *</Label>
+          <Select
+            value={watch('dropReason') ?? undefined}
+            onValueChange={(value) => setValue('dropReason', value, { shouldValidate: true })}
+          >
+            <SelectTrigger id="dropReason">
+              <SelectValue placeholder="Why was this lead dropped?" />
+            </SelectTrigger>
+            <SelectContent>
+              {dropReasonOptions.map((reason) => (
+                <SelectItem key={reason} value={reason}>
+                  {reason}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.dropReason && (
+            <p className="text-sm text-red-600">{String(errors.dropReason.message)}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dropNote">Drop Note{watch('dropReason') === 'Other' && ' *'}</Label>
+          <Textarea
+            id="dropNote"
+            {...register('dropNote')}
+            placeholder="Any detail worth keeping"
+            rows={2}
+          />
+          {errors.dropNote && (
+            <p className="text-sm text-red-600">{String(errors.dropNote.message)}</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (status === 'Visited') {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="visitedAt">Visit Date *</Label>
+        <Input
+          id="visitedAt"
+          type="date"
+          value={visitedAt ? visitedAt.slice(0, 10) : ''}
+          onChange={(e) => setValue(
+            'visitedAt',
+            e.target.value ? new Date(e.target.value).toISOString() : null,
+            { shouldValidate: true }
+          )}
+        />
+        {errors.visitedAt && (
+          <p className="text-sm text-red-600">{String(errors.visitedAt.message)}</p>
+        )}
+      </div>
+    );
+  }
+
+  if (status === 'Converted') {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="dealValue">Deal Value (INR) *</Label>
+        <Input
+          id="dealValue"
+          type="number"
+          {...register('dealValue', {
+            setValueAs: (value) => (value === '' || value == null ? null : Number(value)),
+          })}
+          placeholder="Final agreed value"
+        />
+        {errors.dealValue && (
+          <p className="text-sm text-red-600">{String(errors.dealValue.message)}</p>
+        )}
+      </div>
+    );
+  }
+
+  return null;
+}
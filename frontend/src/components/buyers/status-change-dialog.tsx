@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { updateBuyerStatusSchema, type UpdateBuyerStatus } from '@/lib/validations';
+import type { PipelineStatus } from '@/lib/pipeline';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2 } from 'lucide-react';
+import StageFields from './stage-fields';
+
+interface StatusChangeDialogProps {
+  buyer: { id: string; fullName: string; updatedAt: string | Date };
+  toStatus: PipelineStatus;
+  onClose: () => void;
+  onSaved: (buyer: any) => void;
+  // Where to send the change instead of the lead's own PATCH route, e.g. the
+  // bulk endpoint when moving every selected lead at once
+  submit?: (data: UpdateBuyerStatus) => Promise<Response>;
+}
+
+// Collects the stage data a status needs (drop reason, visit date, deal
+// value) before moving a lead from the board or the list
+export default function StatusChangeDialog({ buyer, toStatus, onClose, onSaved, submit }: StatusChangeDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<UpdateBuyerStatus>({
+    resolver: zodResolver(updateBuyerStatusSchema),
+    defaultValues: {
+      status: toStatus,
+      updatedAt: new Date(buyer.updatedAt).toISOString(),
+    },
+  });
+
+  const onSubmit = async (data: UpdateBuyerStatus) => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = submit ? await submit(data) : await fetch(`/api/buyers/${buyer.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update status');
+      }
+
+      onSaved(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Move to {toStatus}</CardTitle>
+          <CardDescription>{buyer.fullName}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <StageFields
+              status={toStatus}
+              register={register}
+              watch={watch}
+              setValue={setValue}
+              errors={errors}
+            />
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Move Lead
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
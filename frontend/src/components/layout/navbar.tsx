@@ -1,22 +1,56 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import { signOut, useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { 
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { User, LogOut, Settings, Users, UserCircle, ChevronDown } from 'lucide-react';
+import { User, LogOut, Settings, Users, UserCircle, ChevronDown, Building2, Check } from 'lucide-react';
+import { can } from '@/lib/permissions';
+import NotificationsMenu from './notifications-menu';
+
+interface OrganizationOption {
+  id: string;
+  name: string;
+}
 
 export default function Navbar() {
-  const { data: session } = useSession();
+  const { data: session, update } = useSession();
+  const router = useRouter();
+  const [organizations, setOrganizations] = useState<OrganizationOption[]>([]);
+
+  useEffect(() => {
+    if (!session?.user?.id) return;
+
+    fetch('/api/organizations')
+      .then((response) => (response.ok ? response.json() : { data: [] }))
+      .then((result) => setOrganizations(result.data))
+      .catch((error) => console.error('Failed to load organizations:', error));
+  }, [session?.user?.id, session?.user?.organizationId]);
+
+  const switchOrganization = async (organizationId: string) => {
+    if (organizationId === session?.user?.organizationId) return;
+    await update({ organizationId });
+    router.refresh();
+  };
 
   if (!session) return null;
 
+  const activeOrganization = organizations.find(
+    (organization) => organization.id === session.user.organizationId
+  );
+  const actor = { userId: session.user.id, role: session.user.role };
+  const canCreate = can(actor, 'buyer:create');
+  const canImport = can(actor, 'buyer:import');
+
   return (
     <nav className="bg-white shadow-sm border-b">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -33,19 +67,43 @@ export default function Navbar() {
           <div className="flex items-center space-x-4">
             <div className="hidden md:flex space-x-8">
               <Link
-                href="/buyers/new"
+                href="/tasks"
+                className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+              >
+                Tasks
+              </Link>
+              <Link
+                href="/visits"
                 className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
               >
-                New Lead
+                Visits
               </Link>
               <Link
-                href="/buyers/import"
+                href="/properties"
                 className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
               >
-                Import
+                Properties
               </Link>
+              {canCreate && (
+                <Link
+                  href="/buyers/new"
+                  className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  New Lead
+                </Link>
+              )}
+              {canImport && (
+                <Link
+                  href="/buyers/import"
+                  className="text-gray-500 hover:text-gray-700 px-3 py-2 rounded-md text-sm font-medium"
+                >
+                  Import
+                </Link>
+              )}
             </div>
 
+            <NotificationsMenu organizationId={session.user.organizationId} />
+
             {/* Profile dropdown */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -104,6 +162,34 @@ export default function Navbar() {
                   </div>
                 </div>
                 <DropdownMenuSeparator />
+                {organizations.length > 1 && (
+                  <>
+                    <DropdownMenuLabel className="text-xs text-muted-foreground">
+                      Switch organization
+                    </DropdownMenuLabel>
+                    {organizations.map((organization) => (
+                      <DropdownMenuItem
+                        key={organization.id}
+                        className="cursor-pointer"
+                        onSelect={() => switchOrganization(organization.id)}
+                      >
+                        <Check
+                          className={`mr-2 h-4 w-4 ${
+                            organization.id === session.user.organizationId ? 'opacity-100' : 'opacity-0'
+                          }`}
+                        />
+                        <span className="truncate">{organization.name}</span>
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                  </>
+                )}
+                <DropdownMenuItem asChild>
+                  <Link href="/organization" className="w-full cursor-pointer">
+                    <Building2 className="mr-2 h-4 w-4" />
+                    <span className="truncate">{activeOrganization?.name || 'Organization'}</span>
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuItem asChild>
                   <Link href="/profile" className="w-full cursor-pointer">
                     <User className="mr-2 h-4 w-4" />
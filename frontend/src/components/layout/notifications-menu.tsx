@@ -0,0 +1,107 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell } from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+
+interface Notification {
+  id: string;
+  title: string;
+  href: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Check for new alerts every minute while the app is open
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export default function NotificationsMenu({ organizationId }: { organizationId?: string }) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(() => {
+    fetch('/api/notifications')
+      .then((response) => (response.ok ? response.json() : { data: [], unreadCount: 0 }))
+      .then((result) => {
+        setNotifications(result.data);
+        setUnreadCount(result.unreadCount);
+      })
+      .catch((error) => console.error('Failed to load notifications:', error));
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications, organizationId]);
+
+  const markRead = async (ids?: string[]) => {
+    const response = await fetch('/api/notifications', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+    if (response.ok) {
+      loadNotifications();
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5 text-gray-500" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] rounded-full bg-red-500 px-1 text-xs font-semibold text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button
+              className="px-2 text-xs text-blue-600 hover:underline"
+              onClick={() => markRead()}
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-gray-500">
+            No notifications yet. Turn on alerts for a saved view to hear about new matching leads.
+          </p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem key={notification.id} asChild>
+              <Link
+                href={notification.href}
+                className="flex cursor-pointer flex-col items-start gap-1"
+                onClick={() => !notification.readAt && markRead([notification.id])}
+              >
+                <span className={`text-sm ${notification.readAt ? 'text-gray-600' : 'font-medium text-gray-900'}`}>
+                  {notification.title}
+                </span>
+                <span className="text-xs text-gray-500">{formatDate(notification.createdAt)}</span>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2, Shuffle } from 'lucide-react';
+
+const cityOptions = ['Chandigarh', 'Mohali', 'Zirakpur', 'Panchkula', 'Other'];
+const propertyTypeOptions = ['Apartment', 'Villa', 'Plot', 'Office', 'Retail'];
+const ANY = 'any';
+
+interface Agent {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface Rule {
+  id: string;
+  name: string;
+  city: string | null;
+  propertyType: string | null;
+  agentIds: string[];
+  priority: number;
+  active: boolean;
+}
+
+interface AssignmentRulesProps {
+  rules: Rule[];
+  agents: Agent[];
+}
+
+export default function AssignmentRules({ rules, agents }: AssignmentRulesProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [city, setCity] = useState(ANY);
+  const [propertyType, setPropertyType] = useState(ANY);
+  const [priority, setPriority] = useState('0');
+  const [agentIds, setAgentIds] = useState<string[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const agentName = (id: string) => {
+    const agent = agents.find((candidate) => candidate.id === id);
+    return agent ? agent.name || agent.email : 'Former member';
+  };
+
+  const toggleAgent = (id: string) => {
+    setAgentIds((current) =>
+      current.includes(id) ? current.filter((agentId) => agentId !== id) : [...current, id]
+    );
+  };
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/assignment-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          city: city === ANY ? null : city,
+          propertyType: propertyType === ANY ? null : propertyType,
+          priority: parseInt(priority) || 0,
+          agentIds,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create rule');
+      }
+
+      setName('');
+      setCity(ANY);
+      setPropertyType(ANY);
+      setPriority('0');
+      setAgentIds([]);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const toggleActive = async (rule: Rule) => {
+    setBusyId(rule.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !rule.active }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to update rule');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteRule = async (rule: Rule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) {
+      return;
+    }
+
+    setBusyId(rule.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/assignment-rules/${rule.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete rule');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shuffle className="h-5 w-5" />
+          Assignment Rules
+        </CardTitle>
+        <CardDescription>
+          New and imported leads go round-robin to the agents of the first matching rule.
+          Leads that match no rule stay with whoever created them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={createRule} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="ruleName">Rule name</Label>
+              <Input
+                id="ruleName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Mohali apartments"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleCity">City</Label>
+              <Select value={city} onValueChange={setCity}>
+                <SelectTrigger id="ruleCity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any city</SelectItem>
+                  {cityOptions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rulePropertyType">Property type</Label>
+              <Select value={propertyType} onValueChange={setPropertyType}>
+                <SelectTrigger id="rulePropertyType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any type</SelectItem>
+                  {propertyTypeOptions.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="space-y-2 sm:col-span-3">
+              <Label>Agent pool</Label>
+              <div className="flex flex-wrap gap-3">
+                {agents.map((agent) => (
+                  <label key={agent.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded border-gray-300"
+                      checked={agentIds.includes(agent.id)}
+                      onChange={() => toggleAgent(agent.id)}
+                    />
+                    {agent.name || agent.email}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rulePriority">Priority</Label>
+              <Input
+                id="rulePriority"
+                type="number"
+                min={0}
+                value={priority}
+                onChange={(e) => setPriority(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <Button type="submit" disabled={isCreating || !name || agentIds.length === 0}>
+            {isCreating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add Rule
+          </Button>
+        </form>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No assignment rules yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center justify-between py-3 gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {rule.name}
+                    {!rule.active && <Badge variant="outline" className="ml-2">Paused</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[rule.city, rule.propertyType].filter(Boolean).join(' · ') || 'Any lead'}
+                    {' '}· priority {rule.priority}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {rule.agentIds.map(agentName).join(', ')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleActive(rule)}
+                    disabled={busyId === rule.id}
+                  >
+                    {rule.active ? 'Pause' : 'Resume'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteRule(rule)}
+                    disabled={busyId === rule.id}
+                    title="Delete rule"
+                  >
+                    {busyId === rule.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
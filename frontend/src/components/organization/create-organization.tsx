@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Plus } from 'lucide-react';
+
+export default function CreateOrganization() {
+  const router = useRouter();
+  const { update } = useSession();
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  const createOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to create organization');
+      }
+
+      const organization = await response.json();
+
+      // Switch into the new organization straight away
+      await update({ organizationId: organization.id });
+      setName('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>New Organization</CardTitle>
+        <CardDescription>Start a separate lead book for another agency</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <form onSubmit={createOrganization} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="newOrganizationName">Name</Label>
+            <Input
+              id="newOrganizationName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Agency name"
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isCreating || name.trim().length < 2}>
+            {isCreating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Create
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Save, UserPlus, UserMinus, UserCircle } from 'lucide-react';
+import { formatDate } from '@/lib/utils';
+import { roles, type Role } from '@/lib/permissions';
+
+const roleLabels: Record<Role, string> = {
+  admin: 'Admin',
+  manager: 'Manager',
+  agent: 'Agent',
+  viewer: 'Viewer',
+};
+
+interface Organization {
+  id: string;
+  name: string;
+}
+
+interface Member {
+  id: string;
+  name: string | null;
+  email: string;
+  image: string | null;
+  role: Role;
+  joinedAt: Date;
+}
+
+interface OrganizationMembersProps {
+  organization: Organization;
+  members: Member[];
+  currentUserId: string;
+  canManage: boolean;
+}
+
+export default function OrganizationMembers({ organization, members, currentUserId, canManage }: OrganizationMembersProps) {
+  const router = useRouter();
+  const [name, setName] = useState(organization.name);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('agent');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const renameOrganization = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to rename organization');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsInviting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/organizations/members', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to add member');
+      }
+
+      setEmail('');
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const changeRole = async (member: Member, newRole: Role) => {
+    setError('');
+
+    try {
+      const response = await fetch(`/api/organizations/members/${member.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role: newRole }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to change role');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  const removeMember = async (member: Member) => {
+    if (!confirm(`Remove ${member.name || member.email} from ${organization.name}?`)) {
+      return;
+    }
+
+    setRemovingId(member.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/organizations/members/${member.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to remove member');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization</CardTitle>
+          <CardDescription>The agency your leads belong to</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={renameOrganization} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="organizationName">Name</Label>
+              <Input
+                id="organizationName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={!canManage}
+              />
+            </div>
+            <Button type="submit" disabled={!canManage || isSaving || name.trim() === organization.name}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+          <CardDescription>
+            {members.length} {members.length === 1 ? 'member' : 'members'} sharing this lead book
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {canManage && (
+            <form onSubmit={addMember} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="memberEmail">Add a colleague by email</Label>
+                <Input
+                  id="memberEmail"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="colleague@agency.com"
+                />
+              </div>
+              <div className="space-y-2 sm:w-36">
+                <Label htmlFor="memberRole">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                  <SelectTrigger id="memberRole">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {roleLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={isInviting || !email}>
+                {isInviting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <UserPlus className="mr-2 h-4 w-4" />
+                )}
+                Add Member
+              </Button>
+            </form>
+          )}
+
+          <ul className="divide-y divide-gray-200">
+            {members.map((member) => (
+              <li key={member.id} className="flex items-center justify-between py-3">
+                <div className="flex items-center gap-3">
+                  <div className="h-8 w-8 rounded-full bg-gray-100 flex items-center justify-center overflow-hidden">
+                    {member.image ? (
+                      <img src={member.image} alt={member.name || member.email} className="h-full w-full object-cover" />
+                    ) : (
+                      <UserCircle className="h-6 w-6 text-gray-400" />
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {member.name || member.email}
+                      {member.id === currentUserId && <span className="ml-1 text-gray-500">(you)</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {member.email} · joined {formatDate(member.joinedAt)}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManage ? (
+                    <Select value={member.role} onValueChange={(value) => changeRole(member, value as Role)}>
+                      <SelectTrigger className="w-32 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.map((option) => (
+                          <SelectItem key={option} value={option}>
+                            {roleLabels[option]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline">{roleLabels[member.role]}</Badge>
+                  )}
+                  {canManage && members.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMember(member)}
+                      disabled={removingId === member.id}
+                      title="Remove member"
+                    >
+                      {removingId === member.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <UserMinus className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
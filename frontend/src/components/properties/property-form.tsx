@@ -0,0 +1,291 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { propertySchema, type PropertyInput } from '@/lib/validations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Save } from 'lucide-react';
+
+const cityOptions = ['Chandigarh', 'Mohali', 'Zirakpur', 'Panchkula', 'Other'];
+const propertyTypeOptions = ['Apartment', 'Villa', 'Plot', 'Office', 'Retail'];
+const bhkOptions = ['1', '2', '3', '4', 'Studio'];
+const purposeOptions = ['Buy', 'Rent'];
+const statusOptions = ['Available', 'On Hold', 'Closed'];
+
+interface PropertyFormProps {
+  // When given, the form edits this property instead of creating one
+  propertyId?: string;
+  defaultValues?: Partial<PropertyInput>;
+}
+
+export default function PropertyForm({ propertyId, defaultValues }: PropertyFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const router = useRouter();
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors },
+  } = useForm<PropertyInput>({
+    resolver: zodResolver(propertySchema),
+    defaultValues: {
+      status: 'Available',
+      ...defaultValues,
+    },
+  });
+
+  const propertyType = watch('propertyType');
+  const requiresBHK = propertyType === 'Apartment' || propertyType === 'Villa';
+
+  const onSubmit = async (data: PropertyInput) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(propertyId ? `/api/properties/${propertyId}` : '/api/properties', {
+        method: propertyId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...data,
+          bhk: requiresBHK ? data.bhk : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to save property');
+      }
+
+      const property = await response.json();
+      router.push(`/properties/${property.id}`);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          {...register('title')}
+          placeholder="e.g. 3 BHK in Sector 70"
+        />
+        {errors.title && (
+          <p className="text-sm text-red-600">{errors.title.message}</p>
+        )}
+      </div>
+
+      {/* Location */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="city">City *</Label>
+          <Select
+            defaultValue={defaultValues?.city}
+            onValueChange={(value) => setValue('city', value as any)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select city" />
+            </SelectTrigger>
+            <SelectContent>
+              {cityOptions.map((city) => (
+                <SelectItem key={city} value={city}>
+                  {city}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.city && (
+            <p className="text-sm text-red-600">{errors.city.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="locality">Locality</Label>
+          <Input
+            id="locality"
+            {...register('locality')}
+            placeholder="Sector, colony or project"
+          />
+          {errors.locality && (
+            <p className="text-sm text-red-600">{errors.locality.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Property Details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="propertyType">Property Type *</Label>
+          <Select
+            defaultValue={defaultValues?.propertyType}
+            onValueChange={(value) => setValue('propertyType', value as any)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select property type" />
+            </SelectTrigger>
+            <SelectContent>
+              {propertyTypeOptions.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {type}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.propertyType && (
+            <p className="text-sm text-red-600">{errors.propertyType.message}</p>
+          )}
+        </div>
+
+        {requiresBHK && (
+          <div className="space-y-2">
+            <Label htmlFor="bhk">BHK *</Label>
+            <Select
+              defaultValue={defaultValues?.bhk}
+              onValueChange={(value) => setValue('bhk', value as any)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select BHK" />
+              </SelectTrigger>
+              <SelectContent>
+                {bhkOptions.map((bhk) => (
+                  <SelectItem key={bhk} value={bhk}>
+                    {bhk}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.bhk && (
+              <p className="text-sm text-red-600">{errors.bhk.message}</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="purpose">Purpose *</Label>
+          <Select
+            defaultValue={defaultValues?.purpose}
+            onValueChange={(value) => setValue('purpose', value as any)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select purpose" />
+            </SelectTrigger>
+            <SelectContent>
+              {purposeOptions.map((purpose) => (
+                <SelectItem key={purpose} value={purpose}>
+                  {purpose}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.purpose && (
+            <p className="text-sm text-red-600">{errors.purpose.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="status">Status</Label>
+          <Select
+            defaultValue={defaultValues?.status ?? 'Available'}
+            onValueChange={(value) => setValue('status', value as any)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select status" />
+            </SelectTrigger>
+            <SelectContent>
+              {statusOptions.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.status && (
+            <p className="text-sm text-red-600">{errors.status.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Price and Area */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="price">Price (INR) *</Label>
+          <Input
+            id="price"
+            type="number"
+            {...register('price', { valueAsNumber: true })}
+            placeholder="Asking price, or monthly rent"
+          />
+          {errors.price && (
+            <p className="text-sm text-red-600">{errors.price.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="areaSqft">Area (sq ft)</Label>
+          <Input
+            id="areaSqft"
+            type="number"
+            {...register('areaSqft', {
+              setValueAs: (value) => (value === '' || value == null ? undefined : Number(value)),
+            })}
+            placeholder="Carpet or plot area"
+          />
+          {errors.areaSqft && (
+            <p className="text-sm text-red-600">{errors.areaSqft.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Notes */}
+      <div className="space-y-2">
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea
+          id="notes"
+          {...register('notes')}
+          placeholder="Facing, floor, amenities..."
+          rows={4}
+        />
+        {errors.notes && (
+          <p className="text-sm text-red-600">{errors.notes.message}</p>
+        )}
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button type="submit" disabled={isLoading} className="w-full">
+        {isLoading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="mr-2 h-4 w-4" />
+            {propertyId ? 'Save Changes' : 'Add Property'}
+          </>
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,63 @@
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Sparkles } from 'lucide-react';
+
+export interface SuggestedMatch {
+  id: string;
+  href: string;
+  title: string;
+  subtitle: string;
+  score: number;
+  reasons: string[];
+}
+
+interface SuggestedMatchesProps {
+  description: string;
+  emptyMessage: string;
+  matches: SuggestedMatch[];
+}
+
+function scoreColor(score: number) {
+  if (score >= 85) return 'bg-green-100 text-green-800';
+  if (score >= 70) return 'bg-blue-100 text-blue-800';
+  return 'bg-gray-100 text-gray-700';
+}
+
+export default function SuggestedMatches({ description, emptyMessage, matches }: SuggestedMatchesProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Suggested Matches
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {matches.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-4">{emptyMessage}</p>
+        ) : (
+          <ul className="space-y-4">
+            {matches.map((match) => (
+              <li key={match.id} className="border-l-2 border-gray-200 pl-4 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <Link href={match.href} className="text-sm font-medium text-gray-900 hover:text-blue-600">
+                      {match.title}
+                    </Link>
+                    <p className="text-xs text-gray-500">{match.subtitle}</p>
+                  </div>
+                  <Badge className={scoreColor(match.score)}>{match.score}%</Badge>
+                </div>
+                {match.reasons.length > 0 && (
+                  <p className="text-xs text-gray-600">{match.reasons.join(' · ')}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { formatDate } from '@/lib/utils';
+import { formatPhone } from '@/lib/phone';
+import { taskTypeIcons } from '@/components/buyers/buyer-tasks';
+import { AlertTriangle, CalendarCheck } from 'lucide-react';
+
+interface MyTask {
+  id: string;
+  type: 'call' | 'visit' | 'email';
+  title: string;
+  dueAt: Date;
+  buyer: {
+    id: string;
+    fullName: string;
+    phone: string;
+  };
+}
+
+interface MyTasksProps {
+  overdue: MyTask[];
+  today: MyTask[];
+}
+
+export default function MyTasks({ overdue, today }: MyTasksProps) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const completeTask = async (task: MyTask) => {
+    setBusyId(task.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/buyers/${task.buyer.id}/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ done: true }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to complete task');
+      }
+
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderTasks = (items: MyTask[], emptyMessage: string) => {
+    if (items.length === 0) {
+      return <p className="text-sm text-gray-500 text-center py-4">{emptyMessage}</p>;
+    }
+
+    return (
+      <ul className="divide-y divide-gray-200">
+        {items.map((task) => {
+          const Icon = taskTypeIcons[task.type];
+
+          return (
+            <li key={task.id} className="flex items-start gap-3 py-3">
+              <input
+                type="checkbox"
+                className="mt-1 h-4 w-4 rounded border-gray-300"
+                checked={false}
+                onChange={() => completeTask(task)}
+                disabled={busyId === task.id}
+                aria-label={`Mark "${task.title}" as done`}
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-1">
+                  <Icon className="h-3 w-3 shrink-0" />
+                  {task.title}
+                </p>
+                <p className="text-xs text-gray-500">
+                  <Link href={`/buyers/${task.buyer.id}`} className="text-blue-600 hover:text-blue-800">
+                    {task.buyer.fullName}
+                  </Link>
+                  {' '}· {formatPhone(task.buyer.phone)} · {formatDate(task.dueAt)}
+                </p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-red-700">
+            <AlertTriangle className="h-5 w-5" />
+            Overdue
+          </CardTitle>
+          <CardDescription>Follow-ups whose due time has passed</CardDescription>
+        </CardHeader>
+        <CardContent>{renderTasks(overdue, 'Nothing overdue')}</CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Today
+          </CardTitle>
+          <CardDescription>Follow-ups due later today</CardDescription>
+        </CardHeader>
+        <CardContent>{renderTasks(today, 'Nothing else due today')}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import Link from 'next/link';
+import { addDays } from '@/lib/visits';
+
+interface CalendarVisit {
+  id: string;
+  location: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  status: 'scheduled' | 'completed' | 'cancelled';
+  buyer: {
+    id: string;
+    fullName: string;
+  };
+  agent: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+}
+
+interface WeekCalendarProps {
+  weekStart: Date;
+  visits: CalendarVisit[];
+}
+
+const visitStatusStyles = {
+  scheduled: 'border-blue-400 bg-blue-50',
+  completed: 'border-green-400 bg-green-50',
+  cancelled: 'border-gray-300 bg-gray-50 line-through text-gray-400',
+};
+
+function isSameDay(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear()
+    && a.getMonth() === b.getMonth()
+    && a.getDate() === b.getDate();
+}
+
+export default function WeekCalendar({ weekStart, visits }: WeekCalendarProps) {
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  const today = new Date();
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+      {days.map((day) => {
+        const dayVisits = visits.filter((visit) => isSameDay(new Date(visit.scheduledAt), day));
+
+        return (
+          <div
+            key={day.toISOString()}
+            className={`bg-white rounded-lg border min-h-[10rem] p-2 ${isSameDay(day, today) ? 'border-blue-500' : 'border-gray-200'}`}
+          >
+            <p className="text-xs font-medium text-gray-500 mb-2">
+              {new Intl.DateTimeFormat('en-IN', { weekday: 'short', day: 'numeric', month: 'short' }).format(day)}
+            </p>
+            <div className="space-y-2">
+              {dayVisits.map((visit) => (
+                <Link
+                  key={visit.id}
+                  href={`/buyers/${visit.buyer.id}`}
+                  className={`block border-l-4 rounded px-2 py-1 text-xs hover:shadow-sm ${visitStatusStyles[visit.status]}`}
+                >
+                  <p className="font-medium">
+                    {new Intl.DateTimeFormat('en-IN', { hour: '2-digit', minute: '2-digit' }).format(new Date(visit.scheduledAt))}
+                    {' '}{visit.buyer.fullName}
+                  </p>
+                  <p className="truncate">{visit.location}</p>
+                  <p className="truncate text-gray-500">{visit.agent.name || visit.agent.email}</p>
+                </Link>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { and, count, desc, eq, inArray, isNull, or } from 'drizzle-orm';
+import { db } from './db';
+import { buyers, memberships, notifications, savedViews, users, viewSubscriptions } from './schema';
+import { buyerConditions } from './buyer-filters';
+import { buyerFiltersSchema } from './validations';
+import { alertMessage } from './views';
+import { sendEmail } from './auth';
+
+// Tell the members subscribed to a saved view about new leads that match it.
+// Matching goes through buyerConditions, the same where clause as the buyer
+// list, so an alert never names a lead the view itself wouldn't show.
+export async function notifySavedSearchMatches(organizationId: string, buyerIds: string[], actorId: string) {
+  if (buyerIds.length === 0) return;
+
+  const subscriptions = await db
+    .select({
+      view: {
+        id: savedViews.id,
+        name: savedViews.name,
+        params: savedViews.params,
+      },
+      userId: viewSubscriptions.userId,
+      email: viewSubscriptions.email,
+      userEmail: users.email,
+    })
+    .from(viewSubscriptions)
+    .innerJoin(savedViews, eq(viewSubscriptions.viewId, savedViews.id))
+    .innerJoin(users, eq(viewSubscriptions.userId, users.id))
+    // Members who left the organization stop hearing about its leads
+    .innerJoin(memberships, and(
+      eq(memberships.organizationId, savedViews.organizationId),
+      eq(memberships.userId, viewSubscriptions.userId)
+    ))
+    .where(and(
+      eq(savedViews.organizationId, organizationId),
+      // A view that is no longer shared only alerts its owner
+      or(eq(savedViews.ownerId, viewSubscriptions.userId), eq(savedViews.shared, true))
+    ));
+
+  // Whoever added the leads already knows about them
+  const recipients = subscriptions.filter((subscription) => subscription.userId !== actorId);
+  if (recipients.length === 0) return;
+
+  // Several members may follow one view; match it once
+  const matchesByView = new Map<string, Array<{ id: string; fullName: string }>>();
+  for (const { view } of recipients) {
+    if (matchesByView.has(view.id)) continue;
+
+    const filters = buyerFiltersSchema.safeParse(view.params);
+    if (!filters.success) {
+      matchesByView.set(view.id, []);
+      continue;
+    }
+
+    const matches = await db
+      .select({ id: buyers.id, fullName: buyers.fullName })
+      .from(buyers)
+      .where(and(buyerConditions(organizationId, filters.data), inArray(buyers.id, buyerIds)));
+    matchesByView.set(view.id, matches);
+  }
+
+  const alerts = recipients
+    .map((subscription) => ({ subscription, matches: matchesByView.get(subscription.view.id) ?? [] }))
+    .filter(({ matches }) => matches.length > 0)
+    .map(({ subscription, matches }) => ({
+      subscription,
+      message: alertMessage(subscription.view, matches),
+      buyerId: matches.length === 1 ? matches[0].id : null,
+    }));
+  if (alerts.length === 0) return;
+
+  await db.insert(notifications).values(alerts.map(({ subscription, message, buyerId }) => ({
+    organizationId,
+    userId: subscription.userId,
+    title: message.title,
+    href: message.href,
+    viewId: subscription.view.id,
+    buyerId,
+  })));
+
+  // A failed email must not hold back the others or the in-app notification
+  const baseUrl = process.env.NEXTAUTH_URL || '';
+  await Promise.all(alerts
+    .filter(({ subscription }) => subscription.email && subscription.userEmail)
+    .map(({ subscription, message }) => sendEmail({
+      to: subscription.userEmail as string,
+      subject: message.title,
+      text: `${message.title}\n\nOpen it here:\n${baseUrl}${message.href}\n\nYou get this email because you set up an alert on the saved view "${subscription.view.name}".`,
+    }).catch((error) => console.error('Saved search alert email failed:', error))));
+}
+
+// The latest notifications of a member and how many are still unread
+export async function getNotifications(organizationId: string, userId: string, limit = 20) {
+  const scope = and(eq(notifications.organizationId, organizationId), eq(notifications.userId, userId));
+
+  const [data, [unread]] = await Promise.all([
+    db
+      .select({
+        id: notifications.id,
+        title: notifications.title,
+        href: notifications.href,
+        readAt: notifications.readAt,
+        createdAt: notifications.createdAt,
+      })
+      .from(notifications)
+      .where(scope)
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit),
+    db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(scope, isNull(notifications.readAt))),
+  ]);
+
+  return { data, unreadCount: unread.count };
+}
@@ -0,0 +1,188 @@
+import { and, asc, eq, inArray, ne, sql } from 'drizzle-orm';
+import { db } from './db';
+import { assignmentRules, buyers, memberships } from './schema';
+import { recordHistory } from './history';
+import { notTrashed } from './trash';
+
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+
+interface LeadCriteria {
+  city: string;
+  propertyType: string;
+}
+
+// A rule matches when each of its criteria is either unset (any) or equal to the lead's value
+export function ruleMatches(
+  rule: Pick<AssignmentRule, 'city' | 'propertyType'>,
+  lead: LeadCriteria
+): boolean {
+  return (
+    (rule.city === null || rule.city === lead.city) &&
+    (rule.propertyType === null || rule.propertyType === lead.propertyType)
+  );
+}
+
+// Pick the agent whose turn it is, wrapping around the pool
+export function pickAgent(pool: string[], turn: number): string | null {
+  if (pool.length === 0) {
+    return null;
+  }
+  return pool[turn % pool.length];
+}
+
+// Members who can be handed leads: everyone except viewers
+export async function getAssignableUserIds(organizationId: string): Promise<Set<string>> {
+  const rows = await db
+    .select({ userId: memberships.userId })
+    .from(memberships)
+    .where(and(eq(memberships.organizationId, organizationId), ne(memberships.role, 'viewer')));
+
+  return new Set(rows.map((row) => row.userId));
+}
+
+// An organization's active rules in priority order, and who they may hand leads to
+async function loadRules(organizationId: string) {
+  const rules = await db
+    .select()
+    .from(assignmentRules)
+    .where(and(eq(assignmentRules.organizationId, organizationId), eq(assignmentRules.active, true)))
+    .orderBy(asc(assignmentRules.priority), asc(assignmentRules.createdAt));
+
+  const assignable = rules.length > 0 ? await getAssignableUserIds(organizationId) : new Set<string>();
+  return { rules, assignable };
+}
+
+// The agents a rule can hand leads to. Agents removed from the organization
+// (or demoted to viewer) are skipped.
+const poolOf = (rule: AssignmentRule, assignable: Set<string>) => rule.agentIds.filter((id) => assignable.has(id));
+
+// Load an organization's active rules once and return a function that picks
+// the owner for each new lead (or null when no rule applies). Single creates
+// call resolveAssignee; imports assign a whole batch with assignBatch.
+export async function createAssigner(organizationId: string) {
+  const { rules, assignable } = await loadRules(organizationId);
+
+  return async (lead: LeadCriteria): Promise<string | null> => {
+    for (const rule of rules) {
+      if (!ruleMatches(rule, lead)) {
+        continue;
+      }
+
+      const pool = poolOf(rule, assignable);
+      if (pool.length === 0) {
+        continue;
+      }
+
+      // Advance the cursor in the database so concurrent creates take consecutive turns
+      const [advanced] = await db
+        .update(assignmentRules)
+        .set({ cursor: sql`${assignmentRules.cursor} + 1` })
+        .where(eq(assignmentRules.id, rule.id))
+        .returning({ cursor: assignmentRules.cursor });
+
+      return pickAgent(pool, advanced.cursor - 1);
+    }
+
+    return null;
+  };
+}
+
+// Which rule takes each lead of a batch: the leads (by index) every rule
+// applies to, with the agents it hands them to. Leads no rule takes are left out.
+export function groupByRule(rules: AssignmentRule[], assignable: Set<string>, leads: LeadCriteria[]) {
+  const groups = new Map<string, { rule: AssignmentRule; pool: string[]; leadIndexes: number[] }>();
+  leads.forEach((lead, index) => {
+    for (const rule of rules) {
+      const pool = poolOf(rule, assignable);
+      if (!ruleMatches(rule, lead) || pool.length === 0) {
+        continue;
+      }
+      const group = groups.get(rule.id) ?? { rule, pool, leadIndexes: [] };
+      group.leadIndexes.push(index);
+      groups.set(rule.id, group);
+      return;
+    }
+  });
+  return Array.from(groups.values());
+}
+
+// The owner of each lead of a batch, in order (null when no rule applies).
+// Every rule's cursor moves once, by the number of leads it takes, inside the
+// caller's transaction, so a batch that rolls back gives its turns back.
+export async function assignBatch(
+  tx: Pick<typeof db, 'update'>,
+  organizationId: string,
+  leads: LeadCriteria[]
+): Promise<Array<string | null>> {
+  const { rules, assignable } = await loadRules(organizationId);
+  const owners: Array<string | null> = leads.map(() => null);
+
+  for (const { rule, pool, leadIndexes } of groupByRule(rules, assignable, leads)) {
+    const [advanced] = await tx
+      .update(assignmentRules)
+      .set({ cursor: sql`${assignmentRules.cursor} + ${leadIndexes.length}` })
+      .where(eq(assignmentRules.id, rule.id))
+      .returning({ cursor: assignmentRules.cursor });
+
+    const first = advanced.cursor - leadIndexes.length;
+    leadIndexes.forEach((leadIndex, turn) => {
+      owners[leadIndex] = pickAgent(pool, first + turn);
+    });
+  }
+
+  return owners;
+}
+
+export async function resolveAssignee(organizationId: string, lead: LeadCriteria): Promise<string | null> {
+  const assign = await createAssigner(organizationId);
+  return assign(lead);
+}
+
+// Hand a set of leads over to a new owner, recording the handover in each
+// lead's history. Leads already owned by the new owner are left untouched.
+// Returns the ids of the leads that changed hands.
+export async function reassignBuyers({
+  organizationId,
+  buyerIds,
+  ownerId,
+  changedBy,
+}: {
+  organizationId: string;
+  buyerIds: string[];
+  ownerId: string;
+  changedBy: string;
+}): Promise<string[]> {
+  return db.transaction(async (tx) => {
+    const current = await tx
+      .select({ id: buyers.id, ownerId: buyers.ownerId })
+      .from(buyers)
+      .where(and(
+        eq(buyers.organizationId, organizationId),
+        inArray(buyers.id, buyerIds),
+        ne(buyers.ownerId, ownerId),
+        notTrashed()
+      ));
+
+    if (current.length === 0) {
+      return [];
+    }
+
+    await tx
+      .update(buyers)
+      .set({ ownerId, updatedAt: new Date() })
+      .where(inArray(buyers.id, current.map((buyer) => buyer.id)));
+
+    await recordHistory(
+      tx,
+      current.map((buyer) => ({
+        buyerId: buyer.id,
+        actorId: changedBy,
+        action: 'update' as const,
+        source: 'reassign' as const,
+        diff: { ownerId: { from: buyer.ownerId, to: ownerId } },
+      }))
+    );
+
+    return current.map((buyer) => buyer.id);
+  });
+}
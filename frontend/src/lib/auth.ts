@@ -4,6 +4,9 @@ import { DrizzleAdapter } from "@auth/drizzle-adapter";
 import EmailProvider from "next-auth/providers/email";
 import { createTransport } from "nodemailer";
 import { db } from "./db";
+import { getMembership, resolveDefaultMembership } from "./organizations";
+import { switchOrganizationSchema } from "./validations";
+import type { Role } from "./permissions";
 
 // adjust path if your schema file is located elsewhere
 import {
@@ -22,6 +25,37 @@ interface Session {
   };
 }
 
+// SMTP settings shared by sign-in links and notification emails
+const emailServer = process.env.EMAIL_SERVER_HOST ? {
+  host: process.env.EMAIL_SERVER_HOST,
+  port: parseInt(process.env.EMAIL_SERVER_PORT || '587'),
+  secure: process.env.EMAIL_SERVER_SECURE === 'true',
+  auth: {
+    user: process.env.EMAIL_SERVER_USER,
+    pass: process.env.EMAIL_SERVER_PASSWORD,
+  },
+} : {
+  host: "localhost",
+  port: 587,
+};
+const emailFrom = process.env.EMAIL_FROM || "noreply@localhost";
+
+// Send an email through the same transport as the magic links. Without an
+// email server configured the message is only logged, like the links are.
+export async function sendEmail(message: { to: string; subject: string; text: string; html?: string }) {
+  if (!process.env.EMAIL_SERVER_HOST) {
+    console.log(`📧 Email to ${message.to}: ${message.subject}`);
+    return;
+  }
+
+  const transport = createTransport(emailServer);
+  const result = await transport.sendMail({ from: emailFrom, ...message });
+
+  if (result.rejected?.length) {
+    throw new Error(`Email(s) (${result.rejected.join(', ')}) could not be sent`);
+  }
+}
+
 export const authOptions: NextAuthOptions = {
   // Adapter is REQUIRED for email provider
   adapter: DrizzleAdapter(db, {
@@ -34,19 +68,8 @@ export const authOptions: NextAuthOptions = {
   providers: [
     // Email provider with proper configuration
     EmailProvider({
-      server: process.env.EMAIL_SERVER_HOST ? {
-        host: process.env.EMAIL_SERVER_HOST,
-        port: parseInt(process.env.EMAIL_SERVER_PORT || '587'),
-        secure: process.env.EMAIL_SERVER_SECURE === 'true',
-        auth: {
-          user: process.env.EMAIL_SERVER_USER,
-          pass: process.env.EMAIL_SERVER_PASSWORD,
-        },
-      } : {
-        host: "localhost",
-        port: 587,
-      },
-      from: process.env.EMAIL_FROM || "noreply@localhost",
+      server: emailServer,
+      from: emailFrom,
       maxAge: 24 * 60 * 60, // 24 hours
       sendVerificationRequest: async (params) => {
         const { identifier, url, provider } = params;
@@ -167,22 +190,51 @@ export const authOptions: NextAuthOptions = {
       // When using JWT strategy with adapter, user might be undefined
       // Use token data to populate session
       if (token) {
-        (session.user as any).id = token.sub;
+        session.user.id = token.sub as string;
         session.user.email = token.email as string;
+        session.user.organizationId = token.organizationId as string;
+        session.user.role = token.role as Role;
       }
       return session;
     },
-    async jwt({ token, user, account }) {
+    async jwt({ token, user, account, trigger, session }) {
       // Initial sign in
       if (account && user) {
-        return {
+        token = {
           ...token,
           id: user.id,
           email: user.email,
         };
       }
-      
-      // Subsequent requests - token already has the data
+
+      // Switching organization via useSession().update({ organizationId })
+      if (trigger === 'update' && token.sub) {
+        const parsed = switchOrganizationSchema.safeParse(session);
+        if (parsed.success && await getMembership(token.sub, parsed.data.organizationId)) {
+          token.organizationId = parsed.data.organizationId;
+        }
+      }
+
+      if (token.sub) {
+        // Refresh the role on every server-side read so promotions and
+        // removals reach the middleware without a fresh sign in
+        let membership = token.organizationId
+          ? await getMembership(token.sub, token.organizationId)
+          : null;
+
+        // Tokens issued before organizations existed, first sign in, or removed from the org
+        if (!membership) {
+          membership = await resolveDefaultMembership({
+            id: token.sub,
+            name: token.name,
+            email: token.email,
+          });
+        }
+
+        token.organizationId = membership.organizationId;
+        token.role = membership.role;
+      }
+
       return token;
     },
   },
@@ -0,0 +1,134 @@
+import { can, type Action, type Actor } from './permissions';
+import { clearedStageFields, transitionError } from './status-transitions';
+import type { PipelineStatus } from './pipeline';
+import type { BulkAction } from './validations';
+
+// Bulk actions on the buyer list. Each selected lead is checked on its own, so
+// one lead an agent doesn't own or someone else just edited is skipped and
+// reported instead of failing the whole batch.
+
+export type BulkActionName = BulkAction['action'];
+
+export const bulkPermissions: Record<BulkActionName, Action> = {
+  status: 'buyer:update',
+  addTags: 'buyer:update',
+  removeTags: 'buyer:update',
+  reassign: 'buyer:reassign',
+  delete: 'buyer:delete',
+  export: 'buyer:export',
+};
+
+export type BulkSkipReason = 'not_found' | 'forbidden' | 'conflict' | 'invalid';
+
+export interface BulkSkip {
+  id: string;
+  fullName: string | null;
+  reason: BulkSkipReason;
+  message: string;
+}
+
+export interface BulkResult {
+  action: BulkActionName;
+  succeeded: number;
+  unchanged: number;
+  skipped: BulkSkip[];
+}
+
+export interface BulkTarget {
+  id: string;
+  fullName: string;
+  ownerId: string;
+  status: PipelineStatus;
+  tags: string[] | null;
+  updatedAt: Date;
+}
+
+// The version of a lead the caller acted on: the updatedAt shown for a picked
+// lead, or the moment the list was loaded for a filter selection
+export type BulkVersion = { updatedAt: string } | { asOf: string };
+
+export const CONFLICT_MESSAGE = 'Changed by someone else since the list was loaded';
+
+// Why a lead has to be left out of the batch, or null when it can be changed
+export function bulkSkip(buyer: BulkTarget, actor: Actor, action: BulkActionName, version: BulkVersion): BulkSkip | null {
+  const skip = (reason: BulkSkipReason, message: string) => ({ id: buyer.id, fullName: buyer.fullName, reason, message });
+
+  if (!can(actor, bulkPermissions[action], buyer)) {
+    return skip('forbidden', 'You can only change leads you own');
+  }
+
+  // Exports only read, so an edit since loading is no reason to leave a lead out
+  if (action !== 'export') {
+    const stale = 'updatedAt' in version
+      ? buyer.updatedAt.toISOString() !== version.updatedAt
+      : buyer.updatedAt > new Date(version.asOf);
+    if (stale) {
+      return skip('conflict', CONFLICT_MESSAGE);
+    }
+  }
+
+  return null;
+}
+
+type FieldAction = Exclude<BulkAction, { action: 'delete' | 'export' }>;
+
+// The fields an action changes on one lead; empty when it already matches
+export function bulkChanges(buyer: BulkTarget, data: FieldAction): { changes: Record<string, unknown> } | { error: string } {
+  switch (data.action) {
+    case 'status': {
+      if (buyer.status === data.status) {
+        return { changes: {} };
+      }
+      const error = transitionError(buyer.status, data.status);
+      if (error) {
+        return { error };
+      }
+      const { status, dropReason, dropNote, visitedAt, dealValue } = data;
+      return {
+        changes: {
+          status,
+          ...(dropReason !== undefined && { dropReason }),
+          ...(dropNote !== undefined && { dropNote }),
+          ...(visitedAt && { visitedAt: new Date(visitedAt) }),
+          ...(dealValue !== undefined && { dealValue }),
+          ...clearedStageFields(status),
+        },
+      };
+    }
+    case 'addTags': {
+      const current = buyer.tags ?? [];
+      const added = data.tags.filter((tag, index, all) => !current.includes(tag) && all.indexOf(tag) === index);
+      return { changes: added.length > 0 ? { tags: [...current, ...added] } : {} };
+    }
+    case 'removeTags': {
+      const current = buyer.tags ?? [];
+      const kept = current.filter((tag) => !data.tags.includes(tag));
+      return { changes: kept.length < current.length ? { tags: kept } : {} };
+    }
+    case 'reassign':
+      return { changes: buyer.ownerId === data.ownerId ? {} : { ownerId: data.ownerId } };
+  }
+}
+
+const plural = (count: number) => `${count} lead${count === 1 ? '' : 's'}`;
+
+const DONE: Record<BulkActionName, (leads: string) => string> = {
+  status: (leads) => `Changed the status of ${leads}`,
+  addTags: (leads) => `Tagged ${leads}`,
+  removeTags: (leads) => `Untagged ${leads}`,
+  reassign: (leads) => `Reassigned ${leads}`,
+  delete: (leads) => `Moved ${leads} to the trash`,
+  export: (leads) => `Exported ${leads}`,
+};
+
+// One line for the list, e.g. "Reassigned 8 leads; 1 already matched; 2 skipped"
+export function bulkSummary({ action, succeeded, unchanged, skipped }: BulkResult): string {
+  const parts = [DONE[action](plural(succeeded))];
+  if (unchanged > 0) {
+    parts.push(`${unchanged} already matched`);
+  }
+  if (skipped.length > 0) {
+    parts.push(`${skipped.length} skipped`);
+  }
+  return parts.join('; ');
+}
@@ -0,0 +1,71 @@
+import { and, eq, gte, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from 'drizzle-orm';
+import { buyers } from './schema';
+import { notTrashed } from './trash';
+import { searchCondition } from './search';
+import { parseBudgetRange } from './utils';
+import type { BuyerFilters } from './validations';
+
+// Start of the given calendar day, and of the day after, in server time
+function startOfDay(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+function startOfNextDay(date: string): Date {
+  const next = startOfDay(date);
+  next.setDate(next.getDate() + 1);
+  return next;
+}
+
+// The where clause for the buyer list, board and export: everything in the
+// organization that isn't trashed and matches the filters
+export function buyerConditions(organizationId: string, filters: BuyerFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [eq(buyers.organizationId, organizationId), notTrashed()];
+
+  if (filters.query) {
+    conditions.push(searchCondition(filters.query));
+  }
+
+  const lists = [
+    [buyers.city, filters.city],
+    [buyers.propertyType, filters.propertyType],
+    [buyers.bhk, filters.bhk],
+    [buyers.purpose, filters.purpose],
+    [buyers.source, filters.source],
+    [buyers.status, filters.status],
+    [buyers.timeline, filters.timeline],
+  ] as const;
+  for (const [column, values] of lists) {
+    if (values && values.length > 0) {
+      conditions.push(inArray(column, [...values]));
+    }
+  }
+
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push(sql`${buyers.tags} @> ${JSON.stringify(filters.tags)}::jsonb`);
+  }
+
+  // Leads whose budget range overlaps the one asked for
+  const budget = parseBudgetRange(filters.budget);
+  if (budget) {
+    conditions.push(
+      or(isNotNull(buyers.budgetMin), isNotNull(buyers.budgetMax)),
+      budget.min ? or(isNull(buyers.budgetMax), gte(buyers.budgetMax, budget.min)) : undefined,
+      budget.max ? or(isNull(buyers.budgetMin), lte(buyers.budgetMin, budget.max)) : undefined
+    );
+  }
+
+  if (filters.createdFrom) {
+    conditions.push(gte(buyers.createdAt, startOfDay(filters.createdFrom)));
+  }
+  if (filters.createdTo) {
+    conditions.push(lt(buyers.createdAt, startOfNextDay(filters.createdTo)));
+  }
+  if (filters.updatedFrom) {
+    conditions.push(gte(buyers.updatedAt, startOfDay(filters.updatedFrom)));
+  }
+  if (filters.updatedTo) {
+    conditions.push(lt(buyers.updatedAt, startOfNextDay(filters.updatedTo)));
+  }
+
+  return and(...conditions);
+}
@@ -0,0 +1,236 @@
+// Duplicate detection and merge planning. Kept free of the database
+// connection so the merge screen can use the same field list and value rules
+// as the API.
+
+import { inArray, or, sql, type SQL } from 'drizzle-orm';
+import { buyers } from './schema';
+import { parsePhone } from './phone';
+
+export type MatchReason = 'phone' | 'email' | 'name';
+
+export interface DuplicateCandidate {
+  id: string;
+  fullName: string;
+  phone: string;
+  altPhones?: string[] | null;
+  email: string | null;
+  city: string;
+}
+
+export interface DuplicateGroup {
+  ids: string[];
+  reasons: MatchReason[];
+}
+
+// Names at least this similar (1 = identical) count as the same person
+export const NAME_SIMILARITY_THRESHOLD = 0.85;
+
+// Compare numbers in E.164 without their extension, so an office line's
+// extensions all count as the same number
+export function phoneKey(phone: string): string {
+  return parsePhone(phone)?.e164 ?? phone.replace(/\D/g, '');
+}
+
+export function emailKey(email: string | null | undefined): string | null {
+  const key = email?.trim().toLowerCase();
+  return key ? key : null;
+}
+
+// Leads with one of these numbers (as phoneKey, on the primary or an
+// alternate number) or emails (as emailKey). Creating a lead and importing
+// rows both look for existing leads this way.
+export function contactMatchCondition(phoneKeys: string[], emails: string[]): SQL | undefined {
+  return or(
+    phoneKeys.length > 0 ? inArray(sql`split_part(${buyers.phone}, ';', 1)`, phoneKeys) : undefined,
+    phoneKeys.length > 0
+      ? sql`exists (select 1 from jsonb_array_elements_text(${buyers.altPhones}) as alt where split_part(alt, ';', 1) in (${sql.join(phoneKeys.map((key) => sql`${key}`), sql`, `)}))`
+      : undefined,
+    emails.length > 0 ? inArray(sql`lower(${buyers.email})`, emails) : undefined
+  );
+}
+
+// Lowercase letters only, with the words sorted so "Verma Asha" matches "Asha Verma"
+export function nameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical names down to 0 for nothing in common
+export function nameSimilarity(a: string, b: string): number {
+  const left = nameKey(a);
+  const right = nameKey(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) {
+    return 0;
+  }
+  return 1 - editDistance(left, right) / longest;
+}
+
+// Group leads that share a phone number or email, or have near-identical names
+// in the same city. Names alone are too common to match across cities.
+export function findDuplicateGroups(candidates: DuplicateCandidate[]): DuplicateGroup[] {
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const reasons = new Map<number, Set<MatchReason>>();
+  const link = (a: number, b: number, reason: MatchReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set<MatchReason>([reason]);
+    reasons.get(rootA)?.forEach((existing) => merged.add(existing));
+    reasons.get(rootB)?.forEach((existing) => merged.add(existing));
+    parent[rootB] = rootA;
+    reasons.delete(rootB);
+    reasons.set(rootA, merged);
+  };
+
+  // Exact keys: link each lead to the first one seen with the same key
+  const firstByKey = new Map<string, number>();
+  candidates.forEach((candidate, index) => {
+    const keys: Array<[MatchReason, string | null]> = [
+      ...[candidate.phone, ...(candidate.altPhones ?? [])].map((phone): [MatchReason, string | null] => ['phone', phoneKey(phone) || null]),
+      ['email', emailKey(candidate.email)],
+    ];
+    for (const [reason, key] of keys) {
+      if (!key) continue;
+      const seen = firstByKey.get(`${reason}:${key}`);
+      if (seen === undefined) {
+        firstByKey.set(`${reason}:${key}`, index);
+      } else {
+        link(seen, index, reason);
+      }
+    }
+  });
+
+  // Fuzzy names: only compare leads in the same city whose names start alike
+  const buckets = new Map<string, number[]>();
+  candidates.forEach((candidate, index) => {
+    const key = nameKey(candidate.fullName);
+    if (!key) return;
+    const bucket = `${candidate.city}:${key[0]}`;
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), index]);
+  });
+  for (const indexes of Array.from(buckets.values())) {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = candidates[indexes[i]];
+        const b = candidates[indexes[j]];
+        if (nameSimilarity(a.fullName, b.fullName) >= NAME_SIMILARITY_THRESHOLD) {
+          link(indexes[i], indexes[j], 'name');
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  candidates.forEach((candidate, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), candidate.id]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, ids]) => ids.length > 1)
+    .map(([root, ids]) => ({ ids, reasons: Array.from(reasons.get(root) ?? []).sort() }))
+    .sort((a, b) => b.ids.length - a.ids.length);
+}
+
+// Fields picked from one of the merged leads. Stage data (drop reason, visit
+// date, deal value) always comes from the lead whose status is kept, so the
+// survivor never ends up in a status without the data it requires.
+export const MERGE_FIELDS = [
+  'fullName',
+  'email',
+  'phone',
+  'city',
+  'propertyType',
+  'bhk',
+  'purpose',
+  'budgetMin',
+  'budgetMax',
+  'timeline',
+  'source',
+  'status',
+  'ownerId',
+] as const;
+export type MergeField = typeof MERGE_FIELDS[number];
+export type MergePicks = Partial<Record<MergeField, string>>;
+
+const STAGE_FIELDS = ['dropReason', 'dropNote', 'visitedAt', 'dealValue'] as const;
+
+export interface MergeableBuyer extends Record<MergeField, any> {
+  id: string;
+  dropReason: string | null;
+  dropNote: string | null;
+  visitedAt: Date | string | null;
+  dealValue: number | null;
+  altPhones: string[] | null;
+  notes: string | null;
+  tags: string[] | null;
+}
+
+// The survivor's values after a merge: picked fields from the chosen lead
+// (the survivor by default), tags unioned and notes combined in order. Every
+// number that isn't the kept phone becomes an alternate.
+export function mergeValues(buyers: MergeableBuyer[], survivorId: string, picks: MergePicks = {}) {
+  const byId = new Map(buyers.map((buyer) => [buyer.id, buyer]));
+  const survivor = byId.get(survivorId);
+  if (!survivor) {
+    throw new Error('The surviving lead must be one of the merged leads');
+  }
+  const ordered = [survivor, ...buyers.filter((buyer) => buyer.id !== survivorId)];
+
+  const sourceFor = (field: MergeField) => {
+    const pickedId = picks[field];
+    if (pickedId && !byId.has(pickedId)) {
+      throw new Error(`Value for ${field} must come from one of the merged leads`);
+    }
+    return byId.get(pickedId ?? survivorId)!;
+  };
+
+  const values: Record<string, any> = {};
+  for (const field of MERGE_FIELDS) {
+    values[field] = sourceFor(field)[field] ?? null;
+  }
+
+  const statusSource = sourceFor('status');
+  for (const field of STAGE_FIELDS) {
+    values[field] = statusSource[field] ?? null;
+  }
+
+  values.altPhones = Array.from(new Set(ordered.flatMap((buyer) => [buyer.phone, ...(buyer.altPhones ?? [])])))
+    .filter((phone) => phone !== values.phone);
+
+  values.tags = Array.from(new Set(ordered.flatMap((buyer) => buyer.tags ?? [])));
+
+  const notes = Array.from(new Set(ordered.map((buyer) => buyer.notes?.trim()).filter(Boolean)));
+  values.notes = notes.length > 0 ? notes.join('\n\n') : null;
+
+  return values;
+}
@@ -0,0 +1,48 @@
+import type { buyers } from './schema';
+import { IMPORT_COLUMNS, editableValues, type CellError } from './import-rows';
+
+type Buyer = typeof buyers.$inferSelect;
+
+// Columns of a buyer export, in order
+export const EXPORT_COLUMNS = ['fullName', 'email', 'phone', 'altPhones', 'city', 'propertyType', 'bhk',
+  'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source',
+  'status', 'notes', 'tags', 'externalId', 'createdAt', 'updatedAt'] as const;
+
+// A CSV cell, quoted when the value contains commas, quotes or line breaks
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Leads as CSV
+export function buyersCsv(rows: Buyer[]): string {
+  const csvRows = rows.map((buyer) =>
+    EXPORT_COLUMNS.map((column) => {
+      const value = buyer[column] ?? '';
+      // ISO text, as String(date) gives a locale form nothing reads back as a date
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      return csvCell(Array.isArray(value) ? value.join(',') : String(value));
+    })
+  );
+
+  return [EXPORT_COLUMNS, ...csvRows].map((row) => row.join(',')).join('\n');
+}
+
+// Rows an import left out, each with its problems. The import ignores the
+// extra columns, so the file can be fixed and imported again as it is.
+export function importErrorsCsv(rows: Array<{
+  sheet: string | null;
+  rowNumber: number;
+  data: Record<string, unknown>;
+  errors: CellError[] | null;
+}>): string {
+  const header = ['sheet', 'row', 'problems', ...IMPORT_COLUMNS];
+  const csvRows = rows.map(({ sheet, rowNumber, data, errors }) => {
+    const problems = (errors ?? []).map(({ field, message }) => field ? `${field}: ${message}` : message).join('; ');
+    const values = editableValues(data);
+    return [sheet ?? '', String(rowNumber), problems, ...IMPORT_COLUMNS.map((column) => values[column])].map(csvCell);
+  });
+
+  return [header, ...csvRows].map((row) => row.join(',')).join('\n');
+}
@@ -0,0 +1,246 @@
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from './db';
+import { buyerHistory, buyers, users } from './schema';
+
+type Buyer = typeof buyers.$inferSelect;
+export type HistoryDiff = Record<string, { from: any; to: any }>;
+export type HistoryAction = typeof buyerHistory.$inferInsert['action'] & string;
+export type HistorySource = 'web' | 'import' | 'reassign' | 'visit' | 'revert' | 'bulk';
+
+interface HistoryEntryShape {
+  id: string;
+  action?: HistoryAction;
+  diff: HistoryDiff;
+  meta?: Record<string, any> | null;
+}
+
+// One audited change to a buyer. Every writer goes through recordHistory so
+// the trail has the same shape whichever feature made the change.
+export interface HistoryEvent {
+  buyerId: string;
+  actorId: string;
+  action: HistoryAction;
+  source?: HistorySource;
+  diff?: HistoryDiff;
+  meta?: Record<string, any>;
+}
+
+// Buyer fields a revert may restore. Ownership is left alone (that is what
+// reassignment is for) and bookkeeping keys such as `created` or `siteVisit`
+// describe events rather than fields.
+export const REVERTIBLE_FIELDS = [
+  'fullName',
+  'email',
+  'phone',
+  'altPhones',
+  'city',
+  'propertyType',
+  'bhk',
+  'purpose',
+  'budgetMin',
+  'budgetMax',
+  'timeline',
+  'source',
+  'status',
+  'dropReason',
+  'dropNote',
+  'visitedAt',
+  'dealValue',
+  'notes',
+  'tags',
+  'externalId',
+] as const;
+
+export type RevertibleField = typeof REVERTIBLE_FIELDS[number];
+
+// Fields recorded in history diffs
+export const TRACKED_FIELDS = [...REVERTIBLE_FIELDS, 'ownerId'] as const;
+export type TrackedField = typeof TRACKED_FIELDS[number];
+export type BuyerVersion = Partial<Record<RevertibleField, any>>;
+
+const isRevertible = (field: string): field is RevertibleField =>
+  (REVERTIBLE_FIELDS as readonly string[]).includes(field);
+
+// Whether undoing an entry changes the buyer's fields. Moving in and out of the
+// trash doesn't, and entries carried over from a merged duplicate describe a
+// different lead.
+export function changesFields(entry: Pick<HistoryEntryShape, 'action' | 'meta'>): boolean {
+  if (entry.action === 'delete' || entry.action === 'restore') {
+    return false;
+  }
+  return !entry.meta?.mergedFrom;
+}
+
+// Rebuild the buyer as it stood right after `entryId` was recorded by undoing,
+// newest first, every later change. `history` must be ordered newest first.
+// Returns null if the entry is not in the list.
+export function reconstructVersion(
+  current: BuyerVersion,
+  history: HistoryEntryShape[],
+  entryId: string
+): BuyerVersion | null {
+  const version: BuyerVersion = {};
+  for (const field of REVERTIBLE_FIELDS) {
+    version[field] = current[field];
+  }
+
+  for (const entry of history) {
+    if (entry.id === entryId) {
+      return version;
+    }
+    if (!changesFields(entry)) {
+      continue;
+    }
+    for (const [field, change] of Object.entries(entry.diff)) {
+      if (isRevertible(field)) {
+        version[field] = change.from;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Compare field values the way they round-trip through the JSON diff: dates
+// by instant, arrays (tags) as sets, and null the same as undefined or ''
+export function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (value === undefined || value === '') return null;
+    if (value instanceof Date) return value.toISOString();
+    if (Array.isArray(value)) return [...value].map(String).sort();
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+// Field diffs between two states. Fields missing from `after` are unchanged.
+export function diffFields(
+  before: Record<string, any>,
+  after: Record<string, any>,
+  fields: readonly string[] = TRACKED_FIELDS
+): HistoryDiff {
+  const diff: HistoryDiff = {};
+  for (const field of fields) {
+    if (!(field in after) || after[field] === undefined) continue;
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (!sameValue(from, to)) {
+      diff[field] = { from, to };
+    }
+  }
+  return diff;
+}
+
+// Every tracked field a lead was created or imported with
+export function snapshotDiff(buyer: Record<string, any>): HistoryDiff {
+  const diff: HistoryDiff = {};
+  for (const field of TRACKED_FIELDS) {
+    const value = buyer[field];
+    if (sameValue(value, null) || (Array.isArray(value) && value.length === 0)) continue;
+    diff[field] = { from: null, to: value };
+  }
+  return diff;
+}
+
+// A lead moving to the trash, with everything it held. Reverts skip delete
+// entries; once the purge removes the row this is what is left of the lead.
+export function deletionDiff(buyer: Record<string, any>, deletedAt: Date): HistoryDiff {
+  return { ...snapshotDiff(buyer), deletedAt: { from: null, to: deletedAt } };
+}
+
+// Fields that differ between the current buyer and a reconstructed version
+export function versionDiff(current: BuyerVersion, version: BuyerVersion): HistoryDiff {
+  return diffFields(
+    Object.fromEntries(REVERTIBLE_FIELDS.map((field) => [field, current[field]])),
+    Object.fromEntries(REVERTIBLE_FIELDS.map((field) => [field, version[field] ?? null])),
+    REVERTIBLE_FIELDS
+  );
+}
+
+// The row to insert for an event
+export function historyValues(event: HistoryEvent): typeof buyerHistory.$inferInsert {
+  return {
+    buyerId: event.buyerId,
+    changedBy: event.actorId,
+    action: event.action,
+    source: event.source ?? 'web',
+    diff: event.diff ?? {},
+    meta: event.meta,
+  };
+}
+
+// Anything that can insert: the db itself or a transaction
+type Executor = Pick<typeof db, 'insert'>;
+
+// Write events to the trail. Updates that changed nothing are skipped.
+export async function recordHistory(executor: Executor, events: HistoryEvent | HistoryEvent[]) {
+  const rows = (Array.isArray(events) ? events : [events])
+    .filter((event) => event.action !== 'update' || Object.keys(event.diff ?? {}).length > 0 || event.meta)
+    .map(historyValues);
+
+  if (rows.length > 0) {
+    await executor.insert(buyerHistory).values(rows);
+  }
+}
+
+// One page of a buyer's history, newest first. The cursor is the id of the
+// last entry on the previous page.
+export async function getHistoryPage(buyerId: string, { cursor, limit = 20 }: { cursor?: string; limit?: number } = {}) {
+  const rows = await db
+    .select({
+      id: buyerHistory.id,
+      changedAt: buyerHistory.changedAt,
+      action: buyerHistory.action,
+      source: buyerHistory.source,
+      diff: buyerHistory.diff,
+      meta: buyerHistory.meta,
+      changedBy: {
+        id: users.id,
+        name: users.name,
+        email: users.email,
+      },
+    })
+    .from(buyerHistory)
+    .leftJoin(users, eq(buyerHistory.changedBy, users.id))
+    .where(and(
+      eq(buyerHistory.buyerId, buyerId),
+      cursor
+        ? sql`(${buyerHistory.changedAt}, ${buyerHistory.id}) < (select changed_at, id from buyer_history where id = ${cursor})`
+        : undefined
+    ))
+    .orderBy(desc(buyerHistory.changedAt), desc(buyerHistory.id))
+    .limit(limit + 1);
+
+  const data = rows.slice(0, limit);
+  return {
+    data,
+    nextCursor: rows.length > limit ? data[data.length - 1].id : null,
+  };
+}
+
+// Every change to a buyer up to and including `entryId`, newest first
+export async function getHistorySince(buyerId: string, entryId: string) {
+  return db
+    .select({
+      id: buyerHistory.id,
+      changedAt: buyerHistory.changedAt,
+      action: buyerHistory.action,
+      diff: buyerHistory.diff,
+      meta: buyerHistory.meta,
+    })
+    .from(buyerHistory)
+    .where(and(
+      eq(buyerHistory.buyerId, buyerId),
+      sql`(${buyerHistory.changedAt}, ${buyerHistory.id}) >= (select changed_at, id from buyer_history where id = ${entryId})`
+    ))
+    .orderBy(desc(buyerHistory.changedAt), desc(buyerHistory.id));
+}
+
+// Values as they are stored, for writing a reconstructed version back
+export function toBuyerValues(version: BuyerVersion): Partial<Buyer> {
+  const { visitedAt, ...fields } = version;
+  return {
+    ...fields,
+    ...(visitedAt !== undefined && { visitedAt: visitedAt ? new Date(visitedAt) : null }),
+  } as Partial<Buyer>;
+}
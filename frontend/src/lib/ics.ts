@@ -0,0 +1,75 @@
+// Minimal iCalendar (RFC 5545) writer for site visit feeds. Only the
+// properties calendar apps need to show and update a VEVENT are emitted.
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string | null;
+  description?: string | null;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  updatedAt: Date;
+}
+
+// 20240510T083000Z
+export function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Escape backslashes, separators and newlines in TEXT values
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 characters are folded onto continuation lines
+// that start with a single space
+export function foldIcsLine(line: string): string {
+  if (line.length <= 75) {
+    return line;
+  }
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(' ' + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+}
+
+export function buildCalendar(name: string, events: IcsEvent[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Lead Intake//Site Visits//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatIcsDate(event.updatedAt)}`,
+      `LAST-MODIFIED:${formatIcsDate(event.updatedAt)}`,
+      `DTSTART:${formatIcsDate(event.start)}`,
+      `DTEND:${formatIcsDate(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`,
+    );
+    if (event.location) {
+      lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    }
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+    lines.push(`STATUS:${event.status ?? 'CONFIRMED'}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
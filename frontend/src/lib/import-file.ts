@@ -0,0 +1,98 @@
+import Papa from 'papaparse';
+import { readSpreadsheet } from './spreadsheet';
+
+// Rows of an uploaded CSV or Excel file, keyed by the file's own headers.
+// Values are trimmed but otherwise as written; turning them into buyers is
+// left to the import (through a column mapping when there is one).
+
+export interface ImportFileRow {
+  // Sheet of an Excel import; CSV files have just the one
+  sheet?: string;
+  rowNumber: number;
+  values: Record<string, unknown>;
+}
+
+// Rows, or the 400 response body explaining why the file can't be read
+export type ImportFileResult =
+  | { rows: ImportFileRow[] }
+  | { error: string; message?: string; details?: unknown };
+
+export async function readImportFile(file: File): Promise<ImportFileResult> {
+  const isSpreadsheet = file.name.toLowerCase().endsWith('.xlsx');
+  if (file.type !== 'text/csv' && !file.name.endsWith('.csv') && !isSpreadsheet) {
+    return { error: 'File must be a CSV or an Excel (.xlsx) workbook' };
+  }
+
+  if (isSpreadsheet) {
+    try {
+      return { rows: await readSpreadsheet(await file.arrayBuffer()) };
+    } catch (error) {
+      console.error('Spreadsheet parsing error:', error);
+      return {
+        error: 'Excel parsing failed',
+        message: 'Could not read the workbook. Save it as .xlsx and try again.'
+      };
+    }
+  }
+
+  let text = await file.text();
+
+  // Clean up the CSV text - remove empty lines and trim whitespace
+  text = text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0) // Remove empty lines
+    .map((line, index) => {
+      // For data rows (index > 0), ensure we don't have trailing commas
+      if (index > 0 && line.endsWith(',')) {
+        return line.slice(0, -1);
+      }
+      return line;
+    })
+    .join('\n');
+
+  // Parse CSV with improved error handling
+  const parseResult = Papa.parse(text, {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+    transform: (value, header) => {
+      // Skip if header is empty (can happen with trailing commas)
+      if (!header) return undefined;
+
+      // Trim all string values, with empty ones as null
+      if (typeof value === 'string') {
+        value = value.trim();
+        if (value === '') return null;
+      }
+      return value;
+    }
+  });
+
+  if (parseResult.errors.length > 0) {
+    console.error('CSV parsing errors:', parseResult.errors);
+    // Only fail on critical errors, not on field mismatch
+    const criticalErrors = parseResult.errors.filter(
+      (error: any) => error.type !== 'FieldMismatch' ||
+                     (error.type === 'FieldMismatch' && error.code !== 'TooManyFields')
+    );
+
+    if (criticalErrors.length > 0) {
+      return {
+        error: 'CSV parsing failed',
+        details: criticalErrors,
+        message: 'Error parsing CSV file. Please check the file format and try again.'
+      };
+    }
+
+    // For non-critical errors like extra fields, just log them
+    console.warn('Non-critical CSV parsing issues:', parseResult.errors);
+  }
+
+  return {
+    rows: (parseResult.data as any[]).map((values, i) => ({
+      rowNumber: i + 2, // +2 because of header row and 0-based index
+      values,
+    })),
+  };
+}
@@ -0,0 +1,223 @@
+import { db } from './db';
+import { importJobRows, importJobs } from './schema';
+import { TransactionRollbackError, and, asc, desc, eq, gte, isNotNull, lt, or, sql } from 'drizzle-orm';
+import { checkImportBatch, importCheckedRows, leadUpdates, type ImportRow } from './importer';
+import { notifySavedSearchMatches } from './alerts';
+import type { ImportOptions } from './validations';
+
+// Big imports run as jobs: the rows are stored when the file is uploaded and
+// imported batch by batch by the import-jobs cron, each batch in its own
+// transaction together with the job's progress. A job picks up where it
+// stopped, so one whose process died is finished by a later run.
+
+export type ImportJob = typeof importJobs.$inferSelect;
+
+// Files with more rows than this become jobs; smaller ones import right away
+export const SYNC_IMPORT_ROWS = 200;
+export const MAX_IMPORT_ROWS = 50_000;
+export const IMPORT_BATCH_SIZE = 500;
+
+// Rows stored per insert when a job is created, well within Postgres' parameter limit
+const STORE_CHUNK = 1000;
+// A running job whose worker hasn't reported for this long is taken over
+const STALE_AFTER_MS = 5 * 60 * 1000;
+
+export async function createImportJob(
+  organizationId: string,
+  actorId: string,
+  fileName: string,
+  rows: ImportRow[],
+  { mode, matchBy }: ImportOptions
+): Promise<ImportJob> {
+  return db.transaction(async (tx) => {
+    const [job] = await tx
+      .insert(importJobs)
+      .values({
+        organizationId,
+        createdBy: actorId,
+        fileName: fileName.slice(0, 255),
+        mode,
+        matchBy,
+        totalRows: rows.length,
+      })
+      .returning();
+
+    for (let start = 0; start < rows.length; start += STORE_CHUNK) {
+      await tx.insert(importJobRows).values(rows.slice(start, start + STORE_CHUNK).map((row, index) => ({
+        jobId: job.id,
+        position: start + index,
+        sheet: row.sheet ?? null,
+        rowNumber: row.rowNumber,
+        data: row.data,
+      })));
+    }
+
+    return job;
+  });
+}
+
+// Import the rest of a job's rows, unless another worker is already on it.
+// A job that throws is marked failed; rows of earlier batches stay imported.
+// The worker's last heartbeat doubles as its claim: a batch only commits
+// while the job still carries it, so a worker that was merely slow stops
+// once another has taken the job over instead of importing rows twice.
+export async function processImportJob(jobId: string): Promise<void> {
+  const now = new Date();
+  const [job] = await db
+    .update(importJobs)
+    .set({
+      status: 'running',
+      heartbeatAt: now,
+      startedAt: sql`coalesce(${importJobs.startedAt}, ${now})`,
+    })
+    .where(and(
+      eq(importJobs.id, jobId),
+      or(
+        eq(importJobs.status, 'queued'),
+        and(eq(importJobs.status, 'running'), lt(importJobs.heartbeatAt, new Date(now.getTime() - STALE_AFTER_MS)))
+      )
+    ))
+    .returning();
+
+  if (!job) return;
+
+  let heartbeat = now;
+  const stillOwned = () => and(eq(importJobs.id, job.id), eq(importJobs.heartbeatAt, heartbeat));
+
+  try {
+    let processed = job.processedRows;
+
+    while (processed < job.totalRows) {
+      const batch = await db
+        .select()
+        .from(importJobRows)
+        .where(and(eq(importJobRows.jobId, job.id), gte(importJobRows.position, processed)))
+        .orderBy(asc(importJobRows.position))
+        .limit(IMPORT_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const next = batch[batch.length - 1].position + 1;
+      const checks = await checkImportBatch(job.organizationId, batch.map(({ sheet, rowNumber, data }) => ({
+        sheet: sheet ?? undefined,
+        rowNumber,
+        data,
+      })), { mode: job.mode, matchBy: job.matchBy });
+
+      const beat = new Date();
+      await importCheckedRows(job.organizationId, job.createdBy, checks, async (tx, buyerIds) => {
+        // Rewrite the batch with what became of each row, as one delete and one insert
+        await tx
+          .delete(importJobRows)
+          .where(and(
+            eq(importJobRows.jobId, job.id),
+            gte(importJobRows.position, processed),
+            lt(importJobRows.position, next)
+          ));
+        await tx.insert(importJobRows).values(batch.map((row, index) => ({
+          ...row,
+          errors: checks[index].errors,
+          buyerId: buyerIds[index],
+        })));
+
+        const imported = buyerIds.filter(Boolean).length;
+        const updated = leadUpdates(checks).length;
+        const failed = checks.filter((check) => check.errors.length > 0).length;
+        const [owned] = await tx
+          .update(importJobs)
+          .set({
+            processedRows: next,
+            importedRows: sql`${importJobs.importedRows} + ${imported}`,
+            updatedRows: sql`${importJobs.updatedRows} + ${updated}`,
+            failedRows: sql`${importJobs.failedRows} + ${failed}`,
+            heartbeatAt: beat,
+          })
+          .where(stillOwned())
+          .returning({ id: importJobs.id });
+        // Taken over by another worker: undo the batch and leave the job to it
+        if (!owned) tx.rollback();
+      });
+
+      heartbeat = beat;
+      processed = next;
+    }
+
+    const [completed] = await db
+      .update(importJobs)
+      .set({ status: 'completed', finishedAt: new Date() })
+      .where(stillOwned())
+      .returning({ id: importJobs.id });
+    if (!completed) return;
+
+    // One alert per saved search for the whole file, however many batches it took
+    const imported = await db
+      .select({ buyerId: importJobRows.buyerId })
+      .from(importJobRows)
+      .where(and(eq(importJobRows.jobId, job.id), isNotNull(importJobRows.buyerId)));
+    await notifySavedSearchMatches(job.organizationId, imported.map((row) => row.buyerId!), job.createdBy)
+      .catch((error) => console.error('Saved search alerts failed:', error));
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      console.warn(`Import job ${job.id} was taken over by another worker`);
+      return;
+    }
+    console.error(`Import job ${job.id} failed:`, error);
+    await db
+      .update(importJobs)
+      .set({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Import failed',
+        finishedAt: new Date(),
+      })
+      .where(stillOwned());
+  }
+}
+
+// Run every job that is waiting or whose worker died, one after another
+export async function resumeImportJobs(): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS);
+  const jobs = await db
+    .select({ id: importJobs.id })
+    .from(importJobs)
+    .where(or(
+      eq(importJobs.status, 'queued'),
+      and(eq(importJobs.status, 'running'), lt(importJobs.heartbeatAt, staleBefore))
+    ))
+    .orderBy(asc(importJobs.createdAt));
+
+  for (const { id } of jobs) {
+    await processImportJob(id);
+  }
+  return jobs.length;
+}
+
+// A job of the organization, for its progress and error report
+export async function findImportJob(organizationId: string, jobId: string): Promise<ImportJob | undefined> {
+  const [job] = await db
+    .select()
+    .from(importJobs)
+    .where(and(eq(importJobs.id, jobId), eq(importJobs.organizationId, organizationId)));
+  return job;
+}
+
+export async function recentImportJobs(organizationId: string, limit = 10): Promise<ImportJob[]> {
+  return db
+    .select()
+    .from(importJobs)
+    .where(eq(importJobs.organizationId, organizationId))
+    .orderBy(desc(importJobs.createdAt))
+    .limit(limit);
+}
+
+// Rows of a job that were not imported, in file order, for its error report
+export async function failedJobRows(jobId: string) {
+  return db
+    .select({
+      sheet: importJobRows.sheet,
+      rowNumber: importJobRows.rowNumber,
+      data: importJobRows.data,
+      errors: importJobRows.errors,
+    })
+    .from(importJobRows)
+    .where(and(eq(importJobRows.jobId, jobId), sql`jsonb_array_length(${importJobRows.errors}) > 0`))
+    .orderBy(asc(importJobRows.position));
+}
@@ -0,0 +1,277 @@
+import {
+  bhkEnum,
+  cityEnum,
+  importFieldEnum,
+  propertyTypeEnum,
+  purposeEnum,
+  sourceEnum,
+  statusEnum,
+  timelineEnum,
+  type BudgetUnit,
+  type ColumnMapping,
+  type ImportField,
+} from './validations';
+
+// Reading files laid out by someone else: headers are matched loosely
+// ("Mobile No." fills phone), values through aliases ("Chd" is Chandigarh)
+// and bare numbers in a "Budget (Lakhs)" column are taken as lakhs.
+
+export const IMPORT_FIELDS = importFieldEnum.options;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  fullName: 'Full name',
+  email: 'Email',
+  phone: 'Phone',
+  altPhones: 'Alternate phones',
+  city: 'City',
+  propertyType: 'Property type',
+  bhk: 'BHK',
+  purpose: 'Purpose',
+  budget: 'Budget range',
+  budgetMin: 'Minimum budget',
+  budgetMax: 'Maximum budget',
+  timeline: 'Timeline',
+  source: 'Source',
+  status: 'Status',
+  notes: 'Notes',
+  tags: 'Tags',
+  externalId: 'External ID',
+};
+
+// Fields that only take certain values, so file values need aliases
+export const IMPORT_FIELD_CHOICES: Partial<Record<ImportField, readonly string[]>> = {
+  city: cityEnum.options,
+  propertyType: propertyTypeEnum.options,
+  bhk: bhkEnum.options,
+  purpose: purposeEnum.options,
+  timeline: timelineEnum.options,
+  source: sourceEnum.options,
+  status: statusEnum.options,
+};
+
+export const BUDGET_FIELDS: ImportField[] = ['budget', 'budgetMin', 'budgetMax'];
+
+// Other headers that usually mean a field, written as headerKey
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  fullName: ['name', 'customername', 'clientname', 'leadname', 'buyername', 'contactname', 'customer', 'client'],
+  email: ['emailid', 'emailaddress', 'mail'],
+  phone: ['mobile', 'mobileno', 'mobilenumber', 'phoneno', 'phonenumber', 'contact', 'contactno', 'contactnumber', 'whatsapp', 'cell'],
+  altPhones: ['altphone', 'alternatephone', 'alternatenumber', 'alternatemobile', 'otherphone', 'secondaryphone', 'landline'],
+  city: ['location', 'town'],
+  propertyType: ['type', 'property', 'unittype'],
+  bhk: ['bedrooms', 'beds', 'configuration', 'config', 'rooms'],
+  purpose: ['buyrent', 'intent', 'lookingto'],
+  budget: ['budgetrange', 'price', 'pricerange'],
+  budgetMin: ['minbudget', 'minimumbudget', 'budgetfrom', 'minprice'],
+  budgetMax: ['maxbudget', 'maximumbudget', 'budgetto', 'maxprice'],
+  timeline: ['timeframe', 'when', 'purchasetimeline'],
+  source: ['leadsource', 'channel', 'medium'],
+  status: ['stage', 'leadstatus'],
+  notes: ['note', 'remarks', 'remark', 'comments', 'comment', 'requirement', 'requirements', 'description'],
+  tags: ['tag', 'labels', 'label'],
+  externalId: ['id', 'leadid', 'crmid', 'externalref', 'reference', 'referenceid', 'refno', 'enquiryid'],
+};
+
+// Shorthand seen in lead sheets, written as valueKey
+const VALUE_SYNONYMS: Partial<Record<ImportField, Record<string, string>>> = {
+  city: { chd: 'Chandigarh', sasnagar: 'Mohali', pkl: 'Panchkula', zkp: 'Zirakpur', zrk: 'Zirakpur' },
+  propertyType: {
+    flat: 'Apartment', apt: 'Apartment', builderfloor: 'Apartment',
+    house: 'Villa', independenthouse: 'Villa', kothi: 'Villa', bungalow: 'Villa',
+    land: 'Plot', officespace: 'Office', shop: 'Retail', showroom: 'Retail', sco: 'Retail',
+  },
+  bhk: { '1rk': 'Studio' },
+  purpose: { purchase: 'Buy', buying: 'Buy', sale: 'Buy', rental: 'Rent', lease: 'Rent', renting: 'Rent' },
+  timeline: { immediate: '0-3m', immediately: '0-3m', asap: '0-3m', justlooking: 'Exploring', browsing: 'Exploring', notsure: 'Exploring' },
+  source: { web: 'Website', online: 'Website', reference: 'Referral', ref: 'Referral', phone: 'Call', phonecall: 'Call', inbound: 'Call' },
+  status: { fresh: 'New', lost: 'Dropped', won: 'Converted', closed: 'Converted' },
+};
+
+const BUDGET_MULTIPLIERS: Record<BudgetUnit, number> = { lakh: 1_00_000, crore: 1_00_00_000 };
+
+// A header without case, punctuation, a bracketed note or a budget unit:
+// "Budget (Lakhs)" and "budget in lakhs" are both "budget"
+export function headerKey(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .replace(/\b(?:in\s+)?(?:lakhs?|lacs?|crores?|cr|inr|rs)\b/g, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+// A value without case, spaces or punctuation: "Walk-in", "walk in" and "WALKIN" are alike
+export function valueKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// The unit a budget header names, e.g. "Budget (Lakhs)" or "Price in Cr"
+export function headerUnit(header: string): BudgetUnit | undefined {
+  if (/lakh|\blacs?\b/i.test(header)) return 'lakh';
+  if (/crore|\bcr\b/i.test(header)) return 'crore';
+  return undefined;
+}
+
+// The field each header most likely fills. Each field goes to the first
+// header that matches it; the rest are left out, i.e. ignored.
+export function suggestMapping(headers: string[]): ColumnMapping['columns'] {
+  const columns: ColumnMapping['columns'] = {};
+  const used = new Set<ImportField>();
+
+  headers.forEach((header) => {
+    const key = headerKey(header);
+    if (!key) return;
+
+    const field = IMPORT_FIELDS.find((candidate) =>
+      !used.has(candidate) && (candidate.toLowerCase() === key || HEADER_SYNONYMS[candidate].includes(key))
+    );
+    if (!field) return;
+
+    used.add(field);
+    const unit = BUDGET_FIELDS.includes(field) ? headerUnit(header) : undefined;
+    columns[header] = unit ? { field, unit } : { field };
+  });
+
+  return columns;
+}
+
+// The option a file value stands for, e.g. "3 BHK" → "3" or "Chd" → "Chandigarh";
+// null when there is no good guess
+export function suggestAlias(field: ImportField, value: string): string | null {
+  const options = IMPORT_FIELD_CHOICES[field];
+  const key = valueKey(value);
+  if (!options || !key) return null;
+
+  const exact = options.find((option) => valueKey(option) === key);
+  if (exact) return exact;
+
+  const known = VALUE_SYNONYMS[field]?.[key];
+  if (known) return known;
+
+  if (field === 'bhk') {
+    const rooms = key.match(/^(\d)(?:bhk|bedrooms?|beds?|br)?$/)?.[1];
+    if (rooms && options.includes(rooms)) return rooms;
+  }
+
+  // "chan" for Chandigarh, as long as no other option starts the same way
+  if (key.length >= 3) {
+    const prefixed = options.filter((option) => valueKey(option).startsWith(key));
+    if (prefixed.length === 1) return prefixed[0];
+  }
+
+  return null;
+}
+
+// Values of a column that aren't already one of the field's options (ignoring case)
+export function unmatchedValues(field: ImportField, values: string[]): string[] {
+  const options = IMPORT_FIELD_CHOICES[field];
+  if (!options) return [];
+  const keys = new Set(options.map(valueKey));
+  return values.filter((value) => !keys.has(valueKey(value)));
+}
+
+// The mapping with a suggested alias for every value of a choice column it
+// has none for yet; aliases already chosen stay as they are
+export function withSuggestedAliases(mapping: ColumnMapping, values: Record<string, string[]>): ColumnMapping {
+  const aliases: ColumnMapping['aliases'] = {};
+
+  Object.entries(mapping.columns).forEach(([header, { field }]) => {
+    if (!IMPORT_FIELD_CHOICES[field]) return;
+    const chosen = mapping.aliases[field] ?? {};
+    const fieldAliases = aliases[field] ?? (aliases[field] = { ...chosen });
+    unmatchedValues(field, values[header] ?? []).forEach((value) => {
+      const key = valueKey(value);
+      if (key in chosen) return;
+      const option = suggestAlias(field, value);
+      if (option) fieldAliases[key] = option;
+    });
+  });
+
+  return { ...mapping, aliases };
+}
+
+// Fields every imported lead needs
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['fullName', 'phone', 'city', 'propertyType', 'purpose', 'timeline', 'source'];
+
+// Fields every lead needs but no column (or default) fills yet
+export function missingImportFields(mapping: ColumnMapping): ImportField[] {
+  const mapped = new Set(Object.values(mapping.columns).map(({ field }) => field));
+  if (mapping.source) mapped.add('source');
+  return REQUIRED_IMPORT_FIELDS.filter((field) => !mapped.has(field));
+}
+
+// The saved mapping that fits a file best: every column it maps is in the
+// file, and the more columns the better
+export function bestMapping<T extends { mapping: ColumnMapping }>(saved: T[], headers: string[]): T | null {
+  let best: T | null = null;
+  let bestSize = 0;
+
+  saved.forEach((candidate) => {
+    const mapped = Object.keys(candidate.mapping.columns);
+    if (mapped.length > bestSize && mapped.every((header) => headers.includes(header))) {
+      best = candidate;
+      bestSize = mapped.length;
+    }
+  });
+
+  return best;
+}
+
+// A budget in rupees from a column in lakhs or crores. Bare numbers ("45",
+// "45-60") take the column's unit; amounts that name their own ("80L") keep it.
+export function scaleBudget(value: string | number, unit: BudgetUnit): string | number {
+  if (typeof value === 'number') {
+    return Math.round(value * BUDGET_MULTIPLIERS[unit]);
+  }
+  return value
+    .replace(/(\d),(?=\d)/g, '$1')
+    .replace(/\d+(?:\.\d+)?(?![\d.]|\s*[a-z])/gi, (amount) => `${amount} ${unit}`);
+}
+
+// A parsed file row keyed by import field: mapped columns only, choice
+// values resolved through the aliases and budgets in rupees
+export function applyMapping(values: Record<string, unknown>, mapping: ColumnMapping): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  Object.entries(mapping.columns).forEach(([header, { field, unit }]) => {
+    let value = values[header];
+    if (value === null || value === undefined || value === '') return;
+
+    if (unit && (typeof value === 'string' || typeof value === 'number')) {
+      value = scaleBudget(value, unit);
+    }
+
+    const options = IMPORT_FIELD_CHOICES[field];
+    if (options) {
+      const key = valueKey(String(value));
+      value = mapping.aliases[field]?.[key]
+        ?? options.find((option) => valueKey(option) === key)
+        ?? value;
+    }
+
+    row[field] = value;
+  });
+
+  if (mapping.source && !row.source) {
+    row.source = mapping.source;
+  }
+
+  return row;
+}
+
+// Distinct values per header, for previewing a file before mapping it
+export function columnValues(rows: Array<Record<string, unknown>>, limit: number): Record<string, string[]> {
+  const values: Record<string, string[]> = {};
+
+  rows.forEach((row) => {
+    Object.entries(row).forEach(([header, value]) => {
+      if (!header || value === null || value === undefined || value === '') return;
+      const seen = values[header] ?? (values[header] = []);
+      const text = String(value);
+      if (seen.length < limit && !seen.includes(text)) {
+        seen.push(text);
+      }
+    });
+  });
+
+  return values;
+}
@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { csvBuyerSchema, type CsvBuyer } from './validations';
+import { splitPhones } from './phone';
+import { parseBudgetRange } from './utils';
+
+// Checking import rows one by one, so a dry run can point at the cells to fix
+// and a real import can report them the same way.
+
+// Columns of an import row as the template and the dry run grid show them, in order
+export const IMPORT_COLUMNS = ['fullName', 'email', 'phone', 'altPhones', 'city', 'propertyType', 'bhk',
+  'purpose', 'budgetMin', 'budgetMax', 'timeline', 'source', 'notes', 'tags', 'status', 'externalId'] as const;
+
+export type ImportColumn = typeof IMPORT_COLUMNS[number];
+
+// A problem with a row; field is the cell it's in, if any
+export interface CellError {
+  field?: string;
+  message: string;
+}
+
+// A row as a dry run reports it: the values to edit and what's wrong with them
+export interface CheckedRow {
+  sheet?: string;
+  rowNumber: number;
+  values: Record<ImportColumn, string>;
+  errors: CellError[];
+  // The existing lead it would duplicate
+  duplicate?: { id: string; fullName: string };
+  // The existing lead it would update or merge into, and the fields it changes
+  updates?: { id: string; fullName: string; fields: string[] };
+}
+
+// One error per schema issue, each on the column it's about
+export function cellErrors(error: z.ZodError): CellError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? String(issue.path[0]) : undefined,
+    message: issue.message,
+  }));
+}
+
+// A cleaned import row validated as a buyer, or the cells that are wrong
+export function checkImportRow(row: Record<string, any>): { buyer: CsvBuyer; errors: [] } | { errors: CellError[] } {
+  // A single budget column ("50 lakh - 1 crore") fills in whichever
+  // of budgetMin and budgetMax the row leaves empty
+  const budgetRange = row.budget ? parseBudgetRange(String(row.budget)) : undefined;
+  if (budgetRange === null) {
+    return { errors: [{ field: 'budgetMin', message: `Could not read budget "${row.budget}", use e.g. 50L - 1Cr` }] };
+  }
+
+  const result = csvBuyerSchema.safeParse({
+    fullName: String(row.fullName || '').trim(),
+    email: row.email ? String(row.email).trim().toLowerCase() : '',
+    phone: String(row.phone || '').trim(),
+    altPhones: row.altPhones ? splitPhones(String(row.altPhones)) : [],
+    city: String(row.city || '').trim(),
+    propertyType: String(row.propertyType || '').trim(),
+    bhk: row.bhk ? String(row.bhk).trim() : undefined,
+    purpose: String(row.purpose || '').trim(),
+    budgetMin: row.budgetMin ?? budgetRange?.min,
+    budgetMax: row.budgetMax ?? budgetRange?.max,
+    timeline: String(row.timeline || '').trim(),
+    source: String(row.source || '').trim(),
+    status: row.status ? String(row.status).trim() : 'New',
+    notes: row.notes ? String(row.notes).trim() : '',
+    tags: row.tags ? String(row.tags).split(',').map((tag) => tag.trim()).filter(Boolean) : [],
+    externalId: row.externalId ? String(row.externalId).trim() : undefined,
+  });
+
+  return result.success ? { buyer: result.data, errors: [] } : { errors: cellErrors(result.error) };
+}
+
+// A cleaned import row as text for editing, one cell per column. A budget
+// range is split into its two ends; one that can't be read is left in
+// budgetMin, where its error is reported.
+export function editableValues(row: Record<string, unknown>): Record<ImportColumn, string> {
+  const budgetRange = row.budget ? parseBudgetRange(String(row.budget)) : undefined;
+  const budget = {
+    budgetMin: row.budgetMin ?? (budgetRange === null ? row.budget : budgetRange?.min),
+    budgetMax: row.budgetMax ?? budgetRange?.max,
+  };
+
+  return Object.fromEntries(IMPORT_COLUMNS.map((column) => {
+    const value = column === 'budgetMin' || column === 'budgetMax' ? budget[column] : row[column];
+    const text = value === null || value === undefined ? '' : Array.isArray(value) ? value.join(', ') : String(value);
+    return [column, text];
+  })) as Record<ImportColumn, string>;
+}
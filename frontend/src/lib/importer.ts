@@ -0,0 +1,353 @@
+import { db } from './db';
+import { buyers } from './schema';
+import { and, eq, inArray, or, type SQL } from 'drizzle-orm';
+import { v4 as uuidv4 } from 'uuid';
+import { notTrashed } from './trash';
+import { contactMatchCondition, emailKey, phoneKey } from './duplicates';
+import { assignBatch } from './assignment';
+import { diffFields, recordHistory, sameValue, snapshotDiff, type HistoryDiff } from './history';
+import { missingStageFields, transitionError } from './status-transitions';
+import { checkImportRow, editableValues, type CellError, type CheckedRow } from './import-rows';
+import type { CsvBuyer, ImportMode, ImportOptions } from './validations';
+
+// Importing cleaned rows in batches: each batch is checked against itself and
+// the organization's leads with one query, then written in one transaction.
+// Requests import small files this way directly; import jobs batch by batch.
+// Depending on the import mode, a row matching an existing lead is rejected
+// as a duplicate or applied to that lead.
+
+export interface ImportRow {
+  sheet?: string;
+  rowNumber: number;
+  data: Record<string, any>;
+}
+
+type Buyer = typeof buyers.$inferSelect;
+
+// What applying a row to an existing lead writes: the changed fields and their diff
+export interface LeadUpdate {
+  id: string;
+  changes: Partial<Buyer>;
+  diff: HistoryDiff;
+}
+
+// A checked row and, when nothing is wrong with it, the lead it becomes
+// or the update it makes to an existing one
+export interface ImportCheck extends CheckedRow {
+  buyer?: CsvBuyer;
+  update?: LeadUpdate;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Lead fields an import can set, in the order changes are listed
+const IMPORTED_FIELDS = ['fullName', 'email', 'phone', 'altPhones', 'city', 'propertyType', 'bhk', 'purpose',
+  'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'notes', 'tags', 'externalId'] as const;
+
+// Fields a merge adds to instead of filling in when empty
+const MERGED_FIELDS = ['altPhones', 'notes', 'tags'];
+
+const isBlank = (value: unknown) => sameValue(value, null) || (Array.isArray(value) && value.length === 0);
+
+// Whether the row itself has a value for the field. Defaults filled in by
+// validation don't count, so a row without a status leaves the lead's alone.
+function hasValue(row: Record<string, any>, field: typeof IMPORTED_FIELDS[number]): boolean {
+  if ((field === 'budgetMin' || field === 'budgetMax') && !isBlank(row.budget)) {
+    return true;
+  }
+  return !isBlank(row[field]);
+}
+
+// The changes a validated row makes to an existing lead. Updating takes every
+// value the row has; merging unions tags and alternate phones, appends notes
+// and fills in only the fields the lead leaves empty. The lead must still be
+// valid afterwards, and a new status must be one it can move to.
+export function importChanges(
+  existing: Buyer,
+  buyer: CsvBuyer,
+  row: Record<string, any>,
+  mode: Exclude<ImportMode, 'skip'>
+): { update: Omit<LeadUpdate, 'id'>; errors: CellError[] } {
+  const proposed: Record<string, any> = {};
+
+  for (const field of IMPORTED_FIELDS) {
+    if (!hasValue(row, field)) continue;
+    const value = buyer[field] ?? null;
+
+    if (mode === 'update' || (isBlank(existing[field]) && !MERGED_FIELDS.includes(field))) {
+      proposed[field] = value;
+    } else if (field === 'tags' || field === 'altPhones') {
+      proposed[field] = Array.from(new Set([...(existing[field] ?? []), ...(value ?? [])]));
+    } else if (field === 'notes' && value && !existing.notes?.includes(value)) {
+      proposed.notes = existing.notes ? `${existing.notes}\n\n${value}` : value;
+    }
+  }
+
+  if (Array.isArray(proposed.altPhones)) {
+    const phone = proposed.phone ?? existing.phone;
+    proposed.altPhones = proposed.altPhones.filter((number: string) => number !== phone);
+  }
+
+  // altPhones isn't part of the history trail, so it's compared on its own
+  const diff = diffFields(existing, proposed);
+  const changes: Partial<Buyer> = Object.fromEntries(Object.keys(diff).map((field) => [field, proposed[field]]));
+  if ('altPhones' in proposed && !sameValue(existing.altPhones ?? [], proposed.altPhones)) {
+    changes.altPhones = proposed.altPhones;
+  }
+
+  const next = { ...existing, ...changes };
+  const errors: CellError[] = [];
+  if (['Apartment', 'Villa'].includes(next.propertyType) && !next.bhk) {
+    errors.push({ field: 'bhk', message: 'BHK is required for Apartment and Villa properties' });
+  }
+  if (next.budgetMin && next.budgetMax && next.budgetMax < next.budgetMin) {
+    errors.push({ field: 'budgetMax', message: `Maximum budget must be at least the lead's minimum budget` });
+  }
+  if (changes.status) {
+    const transition = transitionError(existing.status, next.status);
+    if (transition) {
+      errors.push({ field: 'status', message: transition });
+    } else {
+      missingStageFields(next.status, next).forEach(({ message }) => errors.push({ field: 'status', message }));
+    }
+  }
+
+  return { update: { changes, diff }, errors };
+}
+
+// Leads of the organization holding any of these phone numbers, emails or
+// external ids. Emails are given as emailKey and compared without case, like
+// the duplicate check when a lead is created.
+export function existingLeadsCondition(
+  organizationId: string,
+  phoneKeys: string[],
+  emails: string[],
+  externalIds: string[]
+): SQL | undefined {
+  return and(
+    eq(buyers.organizationId, organizationId),
+    notTrashed(),
+    or(
+      contactMatchCondition(phoneKeys, emails),
+      externalIds.length > 0 ? inArray(buyers.externalId, externalIds) : undefined
+    )
+  );
+}
+
+// Leads by normalized number, by emailKey and by external id
+export function indexExisting(leads: Buyer[]) {
+  const byPhone = new Map<string, Buyer>();
+  const byEmail = new Map<string, Buyer>();
+  const byExternalId = new Map<string, Buyer>();
+
+  // Stored numbers may carry an extension (";ext=204"), which doesn't count
+  leads.forEach((lead) => {
+    [lead.phone, ...(lead.altPhones ?? [])].forEach((number) => byPhone.set(number.split(';')[0], lead));
+    const email = emailKey(lead.email);
+    if (email) byEmail.set(email, lead);
+    if (lead.externalId) byExternalId.set(lead.externalId, lead);
+  });
+
+  return { byPhone, byEmail, byExternalId };
+}
+
+async function findExisting(organizationId: string, phoneKeys: string[], emails: string[], externalIds: string[]) {
+  if (phoneKeys.length === 0) {
+    return indexExisting([]);
+  }
+
+  const leads = await db
+    .select()
+    .from(buyers)
+    .where(existingLeadsCondition(organizationId, phoneKeys, emails, externalIds));
+  return indexExisting(leads);
+}
+
+// Validate a batch of rows and flag the ones repeating a phone number, email
+// or external id of an earlier row in the batch. Rows matching an existing
+// lead are duplicates when skipping; otherwise the lead with the row's
+// matchBy value is updated or merged into, as long as no other lead shares
+// the row's phone number, email or external id.
+export async function checkImportBatch(
+  organizationId: string,
+  rows: ImportRow[],
+  { mode, matchBy }: ImportOptions = { mode: 'skip', matchBy: 'phone' }
+): Promise<ImportCheck[]> {
+  const results = rows.map((row) => ({ row, result: checkImportRow(row.data) }));
+  const valid = results.flatMap(({ result }) => 'buyer' in result ? [result.buyer] : []);
+
+  const phoneKeys = Array.from(new Set(valid.flatMap((buyer) => [buyer.phone, ...buyer.altPhones].map(phoneKey))));
+  const emails = Array.from(new Set(valid.flatMap((buyer) => emailKey(buyer.email) ?? [])));
+  const externalIds = Array.from(new Set(valid.flatMap((buyer) => buyer.externalId ? [buyer.externalId] : [])));
+  const existing = await findExisting(organizationId, phoneKeys, emails, externalIds);
+
+  const seenPhones = new Set<string>();
+  const seenEmails = new Set<string>();
+  const seenExternalIds = new Set<string>();
+  const seenLeads = new Set<string>();
+
+  return results.map(({ row, result }) => {
+    const errors: CellError[] = [...result.errors];
+    let duplicate: Buyer | undefined;
+    // The existing lead the row is applied to, and how
+    let updated: Buyer | undefined;
+    let update: LeadUpdate | undefined;
+
+    if ('buyer' in result) {
+      const { buyer } = result;
+
+      // Normalized numbers, so "098765 43210" and "+91 98765 43210" collide
+      const keys = [buyer.phone, ...buyer.altPhones].map(phoneKey);
+      if (keys.some((key) => seenPhones.has(key))) {
+        errors.push({ field: 'phone', message: 'Same phone number as an earlier row' });
+      }
+      const email = emailKey(buyer.email);
+      if (email && seenEmails.has(email)) {
+        errors.push({ field: 'email', message: 'Same email as an earlier row' });
+      }
+      if (buyer.externalId && seenExternalIds.has(buyer.externalId)) {
+        errors.push({ field: 'externalId', message: 'Same external ID as an earlier row' });
+      }
+
+      const phoneMatch = keys.map((key) => existing.byPhone.get(key)).find(Boolean);
+      const emailMatch = email ? existing.byEmail.get(email) : undefined;
+      const externalIdMatch = buyer.externalId ? existing.byExternalId.get(buyer.externalId) : undefined;
+      const matches = { phone: phoneMatch, email: emailMatch, externalId: externalIdMatch };
+
+      const target = mode === 'skip' ? undefined : matches[matchBy];
+      const conflict = (['phone', 'email', 'externalId'] as const)
+        .find((field) => matches[field] && matches[field]!.id !== target?.id);
+
+      if (conflict) {
+        duplicate = matches[conflict];
+        errors.push({
+          field: conflict,
+          message: target
+            ? `Another buyer already has this ${conflict === 'externalId' ? 'external ID' : 'phone number or email'}`
+            : conflict === 'externalId'
+              ? 'A buyer with this external ID already exists'
+              : 'A buyer with this phone number or email already exists',
+        });
+      } else if (target && seenLeads.has(target.id)) {
+        errors.push({ field: matchBy, message: 'Same buyer as an earlier row' });
+      } else if (target && mode !== 'skip') {
+        const applied = importChanges(target, buyer, row.data, mode);
+        errors.push(...applied.errors);
+        updated = target;
+        update = { id: target.id, ...applied.update };
+      }
+
+      if (errors.length === 0) {
+        keys.forEach((key) => seenPhones.add(key));
+        if (email) seenEmails.add(email);
+        if (buyer.externalId) seenExternalIds.add(buyer.externalId);
+        if (target) seenLeads.add(target.id);
+      }
+    }
+
+    const ok = 'buyer' in result && errors.length === 0;
+    return {
+      sheet: row.sheet,
+      rowNumber: row.rowNumber,
+      values: editableValues(row.data),
+      errors,
+      duplicate: duplicate && { id: duplicate.id, fullName: duplicate.fullName },
+      updates: ok && updated && update
+        ? { id: updated.id, fullName: updated.fullName, fields: Object.keys(update.changes) }
+        : undefined,
+      buyer: ok && !update ? result.buyer : undefined,
+      update: ok ? update : undefined,
+    };
+  });
+}
+
+// Stage data is never imported, so a new lead may only start in a status that
+// doesn't need any. Validation refuses the others already; this is checked
+// again right before writing, as the lead is inserted as it is. Each refused
+// row gets the problems added to its errors and no longer creates a lead.
+export function refuseIncompleteLeads(checks: ImportCheck[]): void {
+  for (const check of checks) {
+    if (!check.buyer) continue;
+
+    // No import column holds stage data
+    const missing = missingStageFields(check.buyer.status, {});
+    if (missing.length > 0) {
+      check.errors.push(...missing.map(({ field, message }) => ({ field, message })));
+      check.buyer = undefined;
+    }
+  }
+}
+
+// The changes to existing leads. Matched leads a row leaves as they are
+// aren't touched, so they are neither written nor counted as updated.
+export function leadUpdates(checks: ImportCheck[]): LeadUpdate[] {
+  return checks.flatMap((check) => check.update && Object.keys(check.update.changes).length > 0 ? [check.update] : []);
+}
+
+// Create a lead for every new row without problems, each owned by whoever the
+// assignment rules pick (or the importer), and apply the changes of rows
+// matching an existing lead, with one history entry apiece. onCommit writes
+// more in the same transaction, given the new lead of each row (null where
+// there is none). Returns the ids of the new and updated leads.
+export async function importCheckedRows(
+  organizationId: string,
+  actorId: string,
+  checks: ImportCheck[],
+  onCommit?: (tx: Transaction, buyerIds: Array<string | null>) => Promise<void>
+): Promise<{ created: string[]; updated: string[] }> {
+  refuseIncompleteLeads(checks);
+
+  const now = new Date();
+  const buyerIds = checks.map((check) => check.buyer ? uuidv4() : null);
+  const newRows = checks.flatMap((check, index) => check.buyer ? [{ buyer: check.buyer, id: buyerIds[index]! }] : []);
+  const updates = leadUpdates(checks);
+
+  await db.transaction(async (tx) => {
+    // Owners are picked in the transaction, so rule turns taken by a batch
+    // that fails are handed out again
+    const owners = await assignBatch(tx, organizationId, newRows.map(({ buyer }) => buyer));
+    const newBuyers = newRows.map(({ buyer, id }, index) => ({
+      ...buyer,
+      id,
+      ownerId: owners[index] ?? actorId,
+      organizationId,
+      createdAt: now,
+      updatedAt: now,
+    }));
+    if (newBuyers.length > 0) {
+      await tx.insert(buyers).values(newBuyers);
+    }
+
+    for (const { id, changes } of updates) {
+      await tx
+        .update(buyers)
+        .set({ ...changes, updatedAt: now })
+        .where(eq(buyers.id, id));
+    }
+
+    // One history entry per imported or updated buyer, written as a single batch
+    await recordHistory(tx, [
+      ...newBuyers.map((buyer) => ({
+        buyerId: buyer.id,
+        actorId,
+        action: 'import' as const,
+        source: 'import' as const,
+        diff: snapshotDiff(buyer),
+      })),
+      ...updates.map(({ id, diff }) => ({
+        buyerId: id,
+        actorId,
+        action: 'update' as const,
+        source: 'import' as const,
+        diff,
+      })),
+    ]);
+
+    await onCommit?.(tx, buyerIds);
+  });
+
+  return {
+    created: newRows.map(({ id }) => id),
+    updated: updates.map((update) => update.id),
+  };
+}
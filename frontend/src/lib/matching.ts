@@ -0,0 +1,139 @@
+import { and, eq, notInArray } from 'drizzle-orm';
+import { db } from './db';
+import { buyers, properties } from './schema';
+import { notTrashed } from './trash';
+
+export type Property = typeof properties.$inferSelect;
+type Buyer = typeof buyers.$inferSelect;
+
+// What a buyer is looking for
+interface Demand {
+  city: string;
+  propertyType: string;
+  bhk: string | null;
+  purpose: string;
+  budgetMin: number | null;
+  budgetMax: number | null;
+}
+
+// What a property offers
+interface Supply {
+  city: string;
+  propertyType: string;
+  bhk: string | null;
+  purpose: string;
+  price: number;
+}
+
+export interface MatchScore {
+  score: number;
+  reasons: string[];
+}
+
+// Prices up to 10% outside the budget still count as a (weaker) match
+export const BUDGET_TOLERANCE = 0.1;
+// Matches scoring below this are not worth suggesting
+export const MIN_MATCH_SCORE = 50;
+
+const bhkRank: Record<string, number> = { Studio: 0, '1': 1, '2': 2, '3': 3, '4': 4 };
+
+// Score how well a property fits a buyer out of 100: budget 40, city 30, BHK 30.
+// Returns null when the two can never match (different purpose or property
+// type, or a price well outside the budget).
+export function scoreMatch(buyer: Demand, property: Supply): MatchScore | null {
+  if (buyer.purpose !== property.purpose || buyer.propertyType !== property.propertyType) {
+    return null;
+  }
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Budget
+  const min = buyer.budgetMin ?? 0;
+  const max = buyer.budgetMax ?? Number.POSITIVE_INFINITY;
+  if (buyer.budgetMin == null && buyer.budgetMax == null) {
+    score += 20;
+    reasons.push('No budget given');
+  } else if (property.price >= min && property.price <= max) {
+    score += 40;
+    reasons.push('Within budget');
+  } else {
+    const gap = property.price > max ? (property.price - max) / max : (min - property.price) / min;
+    if (gap > BUDGET_TOLERANCE) {
+      return null;
+    }
+    score += 20;
+    reasons.push(`${property.price > max ? 'Over' : 'Under'} budget by ${Math.ceil(gap * 100)}%`);
+  }
+
+  // City
+  if (buyer.city === property.city) {
+    score += 30;
+    reasons.push(`In ${property.city}`);
+  }
+
+  // BHK (plots, offices and retail have none)
+  if (!buyer.bhk && !property.bhk) {
+    score += 30;
+  } else if (buyer.bhk && property.bhk) {
+    const distance = Math.abs(bhkRank[buyer.bhk] - bhkRank[property.bhk]);
+    if (distance === 0) {
+      score += 30;
+      reasons.push(`${property.bhk} BHK as wanted`);
+    } else if (distance === 1) {
+      score += 15;
+      reasons.push(`${property.bhk} BHK instead of ${buyer.bhk}`);
+    }
+  } else {
+    score += 15;
+  }
+
+  return { score, reasons };
+}
+
+// Score every candidate, drop weak matches and return the best first
+export function rankMatches<T>(
+  candidates: T[],
+  score: (candidate: T) => MatchScore | null,
+  limit = 5
+): Array<{ item: T } & MatchScore> {
+  return candidates
+    .map((item) => ({ item, match: score(item) }))
+    .filter((entry): entry is { item: T; match: MatchScore } =>
+      entry.match !== null && entry.match.score >= MIN_MATCH_SCORE
+    )
+    .sort((a, b) => b.match.score - a.match.score)
+    .slice(0, limit)
+    .map(({ item, match }) => ({ item, ...match }));
+}
+
+// Available properties in the buyer's organization that suit them
+export async function getPropertyMatchesForBuyer(buyer: Buyer, limit = 5) {
+  const candidates = await db
+    .select()
+    .from(properties)
+    .where(and(
+      eq(properties.organizationId, buyer.organizationId),
+      eq(properties.status, 'Available'),
+      eq(properties.purpose, buyer.purpose),
+      eq(properties.propertyType, buyer.propertyType)
+    ));
+
+  return rankMatches(candidates, (property) => scoreMatch(buyer, property), limit);
+}
+
+// Open leads in the property's organization that it would suit
+export async function getBuyerMatchesForProperty(property: Property, limit = 5) {
+  const candidates = await db
+    .select()
+    .from(buyers)
+    .where(and(
+      eq(buyers.organizationId, property.organizationId),
+      eq(buyers.purpose, property.purpose),
+      eq(buyers.propertyType, property.propertyType),
+      notInArray(buyers.status, ['Converted', 'Dropped']),
+      notTrashed()
+    ));
+
+  return rankMatches(candidates, (buyer) => scoreMatch(buyer, property), limit);
+}
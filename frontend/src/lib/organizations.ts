@@ -0,0 +1,98 @@
+import type { Session } from 'next-auth';
+import { and, asc, eq, ne } from 'drizzle-orm';
+import { db } from './db';
+import { memberships, organizations, users } from './schema';
+
+export type Membership = typeof memberships.$inferSelect;
+
+// Get the caller's membership in the organization carried by their session.
+// Returns null when the session has no active organization or the user has
+// since been removed from it, so routes can answer 403 instead of leaking data.
+// The role is always read fresh from the database rather than trusted from the JWT.
+export async function getActiveMembership(session: Session | null): Promise<Membership | null> {
+  const userId = session?.user?.id;
+  const organizationId = session?.user?.organizationId;
+  if (!userId || !organizationId) {
+    return null;
+  }
+
+  return getMembership(userId, organizationId);
+}
+
+// Look up a user's membership in a specific organization (used when switching orgs
+// and when refreshing the role carried in the JWT)
+export async function getMembership(userId: string, organizationId: string): Promise<Membership | null> {
+  const [membership] = await db
+    .select()
+    .from(memberships)
+    .where(and(eq(memberships.userId, userId), eq(memberships.organizationId, organizationId)));
+
+  return membership ?? null;
+}
+
+// Resolve the membership a user works in by default: their oldest one.
+// Users signing in for the first time without an invite get a personal
+// organization (as its admin) so every lead always has an owning agency.
+export async function resolveDefaultMembership(user: {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+}): Promise<Membership> {
+  const [existing] = await db
+    .select()
+    .from(memberships)
+    .where(eq(memberships.userId, user.id))
+    .orderBy(asc(memberships.createdAt))
+    .limit(1);
+
+  if (existing) {
+    return existing;
+  }
+
+  return db.transaction(async (tx) => {
+    const [organization] = await tx
+      .insert(organizations)
+      .values({ name: user.name || user.email || 'My Organization' })
+      .returning();
+
+    const [membership] = await tx
+      .insert(memberships)
+      .values({
+        organizationId: organization.id,
+        userId: user.id,
+        role: 'admin',
+      })
+      .returning();
+
+    return membership;
+  });
+}
+
+// List every organization a user belongs to (for the organization switcher)
+export async function getUserOrganizations(userId: string) {
+  return db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      role: memberships.role,
+      joinedAt: memberships.createdAt,
+    })
+    .from(memberships)
+    .innerJoin(organizations, eq(memberships.organizationId, organizations.id))
+    .where(eq(memberships.userId, userId))
+    .orderBy(asc(memberships.createdAt));
+}
+
+// Members a lead can be handed to (viewers can't work on leads)
+export async function getAssignees(organizationId: string) {
+  return db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+    })
+    .from(memberships)
+    .innerJoin(users, eq(memberships.userId, users.id))
+    .where(and(eq(memberships.organizationId, organizationId), ne(memberships.role, 'viewer')))
+    .orderBy(asc(memberships.createdAt));
+}
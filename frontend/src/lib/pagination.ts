@@ -0,0 +1,105 @@
+import { and, asc, count, desc, eq, gt, isNotNull, isNull, lt, or, sql, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { buyers } from './schema';
+
+// Keyset ("seek") pagination for the buyer list. A cursor holds the sort key
+// and id of the last lead on a page and the next page starts right after it,
+// so page 5,000 costs as much as page 1, unlike OFFSET. Every sort key is
+// backed by an (organization_id, key, id) index.
+
+export const KEYSET_SORTS = ['fullName', 'createdAt', 'updatedAt', 'budgetMin', 'budgetMax'] as const;
+export type KeysetSort = typeof KEYSET_SORTS[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface Cursor {
+  // Dates travel as ISO strings, exact since the columns keep milliseconds;
+  // budgets may be null
+  value: string | number | null;
+  id: string;
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url');
+}
+
+// null for anything that isn't a cursor this module handed out
+export function decodeCursor(token: string): Cursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+
+    const [value, id] = decoded;
+    if (typeof id !== 'string' || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+// The cursor pointing just past a lead
+export function cursorFor(buyer: Pick<typeof buyers.$inferSelect, KeysetSort | 'id'>, sortBy: KeysetSort): string {
+  const value = buyer[sortBy];
+  return encodeCursor({ value: value instanceof Date ? value.toISOString() : value, id: buyer.id });
+}
+
+// Sort by the key with the id breaking ties. Nulls keep Postgres' default
+// place (last going up, first going down) so the indexes serve both directions.
+export function keysetOrderBy(sortBy: KeysetSort, sortOrder: SortOrder): SQL[] {
+  const direction = sortOrder === 'asc' ? asc : desc;
+  return [direction(buyers[sortBy]), direction(buyers.id)];
+}
+
+// Leads that come after the cursor in keysetOrderBy's order
+export function keysetCondition(sortBy: KeysetSort, sortOrder: SortOrder, cursor: Cursor): SQL | undefined {
+  const column = buyers[sortBy];
+  const after = sortOrder === 'asc' ? gt : lt;
+  const afterId = after(buyers.id, cursor.id);
+
+  if (cursor.value === null) {
+    // Going up the nulls come last and only the rest of them follow; going
+    // down they come first and every lead with a value follows
+    return sortOrder === 'asc'
+      ? and(isNull(column), afterId)
+      : or(and(isNull(column), afterId), isNotNull(column));
+  }
+
+  const value = sortBy === 'createdAt' || sortBy === 'updatedAt' ? new Date(cursor.value) : cursor.value;
+  return or(
+    after(column, value),
+    and(eq(column, value), afterId),
+    sortOrder === 'asc' ? isNull(column) : undefined
+  );
+}
+
+// Below this many estimated matches an exact count is cheap enough to run anyway
+const EXACT_COUNT_BELOW = 10000;
+
+// The planner's row estimate from EXPLAIN (FORMAT JSON) output
+export function planRowEstimate(row: Record<string, unknown> | undefined): number | null {
+  const plan = (row?.['QUERY PLAN'] as Array<{ Plan?: { 'Plan Rows'?: number } }> | undefined)?.[0]?.Plan;
+  return typeof plan?.['Plan Rows'] === 'number' ? Math.round(plan['Plan Rows']) : null;
+}
+
+// Leads matching the where clause: exactly, as the planner estimates it
+// (exact again for small results), or not at all
+export async function countBuyers(
+  where: SQL | undefined,
+  mode: 'exact' | 'estimate' | 'none'
+): Promise<{ total: number | null; estimated: boolean }> {
+  if (mode === 'none') {
+    return { total: null, estimated: false };
+  }
+
+  if (mode === 'estimate') {
+    const query = db.select({ id: buyers.id }).from(buyers).where(where);
+    const [plan] = await db.execute(sql`explain (format json) ${query.getSQL()}`);
+    const estimate = planRowEstimate(plan);
+    if (estimate !== null && estimate >= EXACT_COUNT_BELOW) {
+      return { total: estimate, estimated: true };
+    }
+  }
+
+  const [result] = await db.select({ count: count() }).from(buyers).where(where);
+  return { total: result.count, estimated: false };
+}
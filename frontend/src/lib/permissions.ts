@@ -0,0 +1,88 @@
+// Central permission policy. Kept free of database/server imports so the same
+// rules can run in API routes, middleware (edge runtime) and client components.
+
+export const roles = ['admin', 'manager', 'agent', 'viewer'] as const;
+export type Role = (typeof roles)[number];
+
+export type Action =
+  | 'buyer:read'
+  | 'buyer:create'
+  | 'buyer:update'
+  | 'buyer:delete'
+  | 'buyer:reassign'
+  | 'buyer:import'
+  | 'buyer:export'
+  | 'property:read'
+  | 'property:manage'
+  | 'assignment:manage'
+  | 'organization:manage';
+
+// 'any' - allowed on every lead in the organization
+// 'own' - allowed only on leads the actor owns
+type Scope = 'any' | 'own';
+
+const policy: Record<Role, Partial<Record<Action, Scope>>> = {
+  admin: {
+    'buyer:read': 'any',
+    'buyer:create': 'any',
+    'buyer:update': 'any',
+    'buyer:delete': 'any',
+    'buyer:reassign': 'any',
+    'buyer:import': 'any',
+    'buyer:export': 'any',
+    'property:read': 'any',
+    'property:manage': 'any',
+    'assignment:manage': 'any',
+    'organization:manage': 'any',
+  },
+  manager: {
+    'buyer:read': 'any',
+    'buyer:create': 'any',
+    'buyer:update': 'any',
+    'buyer:delete': 'any',
+    'buyer:reassign': 'any',
+    'buyer:import': 'any',
+    'buyer:export': 'any',
+    'property:read': 'any',
+    'property:manage': 'any',
+    'assignment:manage': 'any',
+  },
+  agent: {
+    'buyer:read': 'any',
+    'buyer:create': 'any',
+    'buyer:update': 'own',
+    'buyer:delete': 'own',
+    'buyer:import': 'any',
+    'buyer:export': 'any',
+    'property:read': 'any',
+    'property:manage': 'any',
+  },
+  viewer: {
+    'buyer:read': 'any',
+    'buyer:export': 'any',
+    'property:read': 'any',
+  },
+};
+
+export interface Actor {
+  userId: string;
+  role: Role;
+}
+
+// Check whether an actor may perform an action. Pass the lead for
+// record-level actions so 'own' scopes can be compared against its owner;
+// without a resource the check answers "could this role ever do this".
+export function can(actor: Actor, action: Action, resource?: { ownerId: string }): boolean {
+  const scope = policy[actor.role]?.[action];
+  if (!scope) {
+    return false;
+  }
+  if (scope === 'any' || !resource) {
+    return true;
+  }
+  return resource.ownerId === actor.userId;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (roles as readonly string[]).includes(value);
+}
@@ -0,0 +1,102 @@
+// Phone number normalization. Numbers are stored in E.164 ("+919876543210"),
+// with an optional extension in RFC 3966 style ("+911722345678;ext=204").
+// Kept free of other imports so forms, validation and import share it.
+
+// Numbers written without a country code are assumed to be Indian
+export const DEFAULT_COUNTRY_CODE = '91';
+
+// A lead keeps one primary number plus up to this many alternates
+export const MAX_ALT_PHONES = 4;
+
+export interface ParsedPhone {
+  // "+" followed by country code and subscriber number
+  e164: string;
+  extension: string | null;
+}
+
+const EXTENSION = /\s*(?:;\s*ext=|ext\.?|extension|x|#)\s*(\d{1,6})\s*$/i;
+
+export function parsePhone(input: string, countryCode: string = DEFAULT_COUNTRY_CODE): ParsedPhone | null {
+  let value = input.trim();
+  let extension: string | null = null;
+
+  const match = value.match(EXTENSION);
+  if (match) {
+    extension = match[1];
+    value = value.slice(0, match.index).trim();
+  }
+
+  if (!/^\+?[\d\s().-]+$/.test(value)) {
+    return null;
+  }
+
+  let digits = value.replace(/\D/g, '');
+  if (value.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    // International dialling prefix
+    digits = digits.slice(2);
+  } else if (digits.length === 10) {
+    digits = countryCode + digits;
+  } else if (digits.length === 11 && digits.startsWith('0')) {
+    // Domestic trunk prefix
+    digits = countryCode + digits.slice(1);
+  } else if (digits.length < 11) {
+    // Too short to already carry a country code
+    return null;
+  }
+
+  if (digits.length < 8 || digits.length > 15 || digits.startsWith('0')) {
+    return null;
+  }
+
+  // Indian numbers always have ten digits after the country code
+  if (digits.startsWith('91') && digits.length !== 12) {
+    return null;
+  }
+
+  return { e164: `+${digits}`, extension };
+}
+
+// The stored form of a number, or null if it can't be read as one
+export function normalizePhone(input: string, countryCode?: string): string | null {
+  const parsed = parsePhone(input, countryCode);
+  if (!parsed) {
+    return null;
+  }
+  return parsed.extension ? `${parsed.e164};ext=${parsed.extension}` : parsed.e164;
+}
+
+// Several numbers typed into one field: "98765 43210 / 98123 45678",
+// "98765 43210, 98123 45678" or "98765 43210 or 98123 45678"
+export function splitPhones(input: string): string[] {
+  return input
+    .split(/\s*(?:[,/|]|\bor\b)\s*/i)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+// For display: "+91 98765 43210", "+91 98765 43210 ext. 204". Numbers from
+// other countries keep their E.164 form since grouping varies by country.
+export function formatPhone(stored: string): string {
+  const parsed = parsePhone(stored);
+  if (!parsed) {
+    return stored;
+  }
+
+  const { e164, extension } = parsed;
+  const number = e164.startsWith('+91') && e164.length === 13
+    ? `+91 ${e164.slice(3, 8)} ${e164.slice(8)}`
+    : e164;
+  return extension ? `${number} ext. ${extension}` : number;
+}
+
+// The digits to look for when a search query looks like (part of) a phone
+// number, e.g. "98765 43210" or "+91-98765"; null for ordinary text searches
+export function phoneSearchDigits(query: string): string | null {
+  if (!/^[+\d\s().-]+$/.test(query.trim())) {
+    return null;
+  }
+  const digits = query.replace(/\D/g, '');
+  return digits.length >= 4 ? digits : null;
+}
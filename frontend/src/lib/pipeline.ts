@@ -0,0 +1,93 @@
+// Kanban board state for the lead pipeline. Pure so the client board can
+// apply drag-and-drop moves optimistically and roll them back.
+
+export const PIPELINE_STATUSES = [
+  'New',
+  'Qualified',
+  'Contacted',
+  'Visited',
+  'Negotiation',
+  'Converted',
+  'Dropped',
+] as const;
+
+export type PipelineStatus = typeof PIPELINE_STATUSES[number];
+
+export interface BoardLead {
+  id: string;
+  status: PipelineStatus;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  updatedAt: string;
+}
+
+export interface BoardColumn<T extends BoardLead> {
+  status: PipelineStatus;
+  // Totals cover every matching lead, even those not loaded as cards
+  count: number;
+  budgetTotal: number;
+  leads: T[];
+}
+
+// The value a lead brings to a column total: the top of its budget range
+export function leadValue(lead: Pick<BoardLead, 'budgetMin' | 'budgetMax'>): number {
+  return lead.budgetMax ?? lead.budgetMin ?? 0;
+}
+
+export function buildBoard<T extends BoardLead>(
+  leads: T[],
+  summaries: Array<{ status: PipelineStatus; count: number; budgetTotal: number }>
+): BoardColumn<T>[] {
+  return PIPELINE_STATUSES.map((status) => {
+    const summary = summaries.find((entry) => entry.status === status);
+    return {
+      status,
+      count: summary?.count ?? 0,
+      budgetTotal: summary?.budgetTotal ?? 0,
+      leads: leads.filter((lead) => lead.status === status),
+    };
+  });
+}
+
+// Move a lead to the top of another column, carrying its count and budget
+// with it. Returns the board unchanged if the lead is already there.
+export function moveLead<T extends BoardLead>(
+  board: BoardColumn<T>[],
+  leadId: string,
+  toStatus: PipelineStatus
+): BoardColumn<T>[] {
+  const lead = board.flatMap((column) => column.leads).find((entry) => entry.id === leadId);
+  if (!lead || lead.status === toStatus) {
+    return board;
+  }
+
+  const value = leadValue(lead);
+
+  return board.map((column) => {
+    if (column.status === lead.status) {
+      return {
+        ...column,
+        count: column.count - 1,
+        budgetTotal: column.budgetTotal - value,
+        leads: column.leads.filter((entry) => entry.id !== leadId),
+      };
+    }
+    if (column.status === toStatus) {
+      return {
+        ...column,
+        count: column.count + 1,
+        budgetTotal: column.budgetTotal + value,
+        leads: [{ ...lead, status: toStatus }, ...column.leads],
+      };
+    }
+    return column;
+  });
+}
+
+// Replace a lead in place, e.g. with the server's copy after a successful move
+export function replaceLead<T extends BoardLead>(board: BoardColumn<T>[], lead: T): BoardColumn<T>[] {
+  return board.map((column) => ({
+    ...column,
+    leads: column.leads.map((entry) => (entry.id === lead.id ? lead : entry)),
+  }));
+}
@@ -0,0 +1,48 @@
+import { and, asc, eq, or } from 'drizzle-orm';
+import { db } from './db';
+import { memberships, savedViews, viewSubscriptions } from './schema';
+
+// A member's own views followed by the ones teammates shared, by name,
+// with whether the member follows each one for alerts
+export async function getSavedViews(organizationId: string, userId: string) {
+  const views = await db
+    .select({
+      id: savedViews.id,
+      name: savedViews.name,
+      ownerId: savedViews.ownerId,
+      shared: savedViews.shared,
+      params: savedViews.params,
+      alertEmail: viewSubscriptions.email,
+      updatedAt: savedViews.updatedAt,
+    })
+    .from(savedViews)
+    .leftJoin(viewSubscriptions, and(
+      eq(viewSubscriptions.viewId, savedViews.id),
+      eq(viewSubscriptions.userId, userId)
+    ))
+    .where(and(
+      eq(savedViews.organizationId, organizationId),
+      or(eq(savedViews.ownerId, userId), eq(savedViews.shared, true))
+    ))
+    .orderBy(asc(savedViews.name));
+
+  return [
+    ...views.filter((view) => view.ownerId === userId),
+    ...views.filter((view) => view.ownerId !== userId),
+  ];
+}
+
+// The view a member sees first, as long as it is still theirs or shared
+export async function getDefaultView(organizationId: string, userId: string) {
+  const [view] = await db
+    .select({ id: savedViews.id, params: savedViews.params })
+    .from(memberships)
+    .innerJoin(savedViews, eq(memberships.defaultViewId, savedViews.id))
+    .where(and(
+      eq(memberships.organizationId, organizationId),
+      eq(memberships.userId, userId),
+      or(eq(savedViews.ownerId, userId), eq(savedViews.shared, true))
+    ));
+
+  return view ?? null;
+}
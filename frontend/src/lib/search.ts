@@ -0,0 +1,65 @@
+import { desc, ilike, or, sql, type SQL } from 'drizzle-orm';
+import { buyers } from './schema';
+import { phoneSearchDigits } from './phone';
+import { keysetOrderBy } from './pagination';
+import type { SearchParams } from './validations';
+
+// Buyer search. Name, email, tags and notes are indexed together in the
+// generated "search_vector" column (see migration 0020), name weighted
+// highest; pg_trgm word similarity on the name catches typos such as "Rajsh"
+// for "Rajesh". The column is left out of the Drizzle schema so it never ends
+// up in API responses or history snapshots.
+const searchVector = sql`${buyers}."search_vector"`;
+
+// Characters with a meaning in to_tsquery syntax
+const TSQUERY_SYNTAX = /[\s&|!():*<>'"\\]+/;
+
+// The words of a search as a prefix query, so results show up while typing:
+// "raj moh" becomes "raj:* & moh:*"
+export function prefixTsQuery(query: string): string | null {
+  const words = query.toLowerCase().split(TSQUERY_SYNTAX).filter(Boolean);
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+// Leads matching a free text search
+export function searchCondition(query: string): SQL | undefined {
+  const text = query.trim();
+  if (!text) return undefined;
+
+  const tsQuery = prefixTsQuery(text);
+  const phoneDigits = phoneSearchDigits(text);
+
+  return or(
+    tsQuery ? sql`${searchVector} @@ to_tsquery('simple', ${tsQuery})` : undefined,
+    sql`${text} <% ${buyers.fullName}`,
+    // An email is a single token in the vector, so parts of one are matched directly
+    ilike(buyers.email, `%${text}%`),
+    // Phone numbers match however the digits are grouped or prefixed
+    phoneDigits ? sql`regexp_replace(${buyers.phone}, '[^0-9]', '', 'g') like ${`%${phoneDigits}%`}` : undefined,
+    phoneDigits ? sql`regexp_replace(${buyers.altPhones}::text, '[^0-9,]', '', 'g') like ${`%${phoneDigits}%`}` : undefined
+  );
+}
+
+// How well a lead matches the search: full text rank plus name similarity
+export function searchRank(query: string): SQL<number> {
+  const tsQuery = prefixTsQuery(query.trim()) ?? '';
+  return sql<number>`(ts_rank(${searchVector}, to_tsquery('simple', ${tsQuery})) + word_similarity(${query.trim()}, ${buyers.fullName}))`;
+}
+
+type BuyerSort = Pick<SearchParams, 'query' | 'sortBy' | 'sortOrder'>;
+
+// Searches are ranked by relevance unless another order was picked;
+// everything else lists the most recently updated leads first
+export function effectiveSortBy({ query, sortBy }: BuyerSort): NonNullable<SearchParams['sortBy']> {
+  return sortBy ?? (query ? 'relevance' : 'updatedAt');
+}
+
+export function buyerOrderBy(filters: BuyerSort): SQL[] {
+  const sortBy = effectiveSortBy(filters);
+  if (sortBy === 'relevance') {
+    return filters.query
+      ? [desc(searchRank(filters.query)), desc(buyers.updatedAt)]
+      : [desc(buyers.updatedAt)];
+  }
+  return keysetOrderBy(sortBy, filters.sortOrder);
+}
@@ -0,0 +1,192 @@
+import ExcelJS from 'exceljs';
+import type { buyers } from './schema';
+import { EXPORT_COLUMNS } from './export';
+import { suggestMapping } from './import-mapping';
+import { IMPORT_COLUMNS, type ImportColumn } from './import-rows';
+import { bhkEnum, cityEnum, propertyTypeEnum, purposeEnum, sourceEnum, statusEnum, timelineEnum } from './validations';
+
+type Buyer = typeof buyers.$inferSelect;
+
+// Excel (.xlsx) import and export. Cells keep their types both ways: budgets
+// are numbers and dates are dates, so sheets sort and sum like any other.
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export type SheetValue = string | number | null;
+
+export interface SheetRow {
+  sheet: string;
+  rowNumber: number;
+  values: Record<string, SheetValue>;
+}
+
+// Template columns filled in from a dropdown
+const IMPORT_CHOICES: Partial<Record<ImportColumn, readonly string[]>> = {
+  city: cityEnum.options,
+  propertyType: propertyTypeEnum.options,
+  bhk: bhkEnum.options,
+  purpose: purposeEnum.options,
+  timeline: timelineEnum.options,
+  source: sourceEnum.options,
+  status: statusEnum.options,
+};
+
+// Rows of the template that carry the dropdowns; also the import's row limit
+const TEMPLATE_ROWS = 200;
+
+const BUDGET_FORMAT = '#,##0';
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm';
+
+// What a cell holds, as the import's row validation expects it. Dates become
+// ISO strings (just the day when there is no time), formulas their result and
+// hyperlinks (e.g. mailto: emails) their text.
+export function cellValue(value: ExcelJS.CellValue): SheetValue {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return value.trim() || null;
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if ('richText' in value) {
+    return value.richText.map((part) => part.text).join('').trim() || null;
+  }
+  if ('hyperlink' in value) {
+    return cellValue(value.text as ExcelJS.CellValue);
+  }
+  if ('formula' in value || 'sharedFormula' in value) {
+    return cellValue((value as ExcelJS.CellFormulaValue).result as ExcelJS.CellValue);
+  }
+  return null;
+}
+
+// Every data row of every sheet whose first row has a name column (fullName,
+// "Name", "Customer Name", ...), so notes or summary sheets in the same
+// workbook are left alone
+export async function readSpreadsheet(data: ArrayBuffer): Promise<SheetRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  const rows: SheetRow[] = [];
+  workbook.worksheets
+    .filter((sheet) => sheet.state === 'visible')
+    .forEach((sheet) => {
+      const headers: string[] = [];
+      sheet.getRow(1).eachCell((cell, column) => {
+        headers[column] = String(cellValue(cell.value) ?? '').trim();
+      });
+      const columns = suggestMapping(headers.filter(Boolean));
+      if (!Object.values(columns).some(({ field }) => field === 'fullName')) return;
+
+      sheet.eachRow((row, rowNumber) => {
+        if (rowNumber === 1) return;
+
+        const values: Record<string, SheetValue> = {};
+        row.eachCell((cell, column) => {
+          const header = headers[column];
+          const value = cellValue(cell.value);
+          if (header && value !== null) {
+            values[header] = value;
+          }
+        });
+
+        if (Object.keys(values).length > 0) {
+          rows.push({ sheet: sheet.name, rowNumber, values });
+        }
+      });
+    });
+
+  return rows;
+}
+
+// Leads as a workbook with the same columns as the CSV export
+export async function buyersWorkbook(rows: Buyer[]): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Buyers', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: column === 'notes' ? 40 : 18,
+    style: column === 'budgetMin' || column === 'budgetMax'
+      ? { numFmt: BUDGET_FORMAT }
+      : column === 'createdAt' || column === 'updatedAt'
+        ? { numFmt: DATE_FORMAT }
+        : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  rows.forEach((buyer) => {
+    sheet.addRow(Object.fromEntries(EXPORT_COLUMNS.map((column) => {
+      const value = buyer[column];
+      // Real date cells, even when the timestamps arrive as text
+      if (column === 'createdAt' || column === 'updatedAt') {
+        return [column, new Date(value as Date | string)];
+      }
+      return [column, Array.isArray(value) ? value.join(', ') : value];
+    })));
+  });
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: EXPORT_COLUMNS.length } };
+
+  return workbook.xlsx.writeBuffer();
+}
+
+// An import template with a sample lead and dropdowns for every column that
+// only takes certain values
+export async function importTemplate(): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Leads', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = IMPORT_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: column === 'notes' ? 40 : 18,
+    style: column === 'budgetMin' || column === 'budgetMax' ? { numFmt: BUDGET_FORMAT } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  sheet.addRow({
+    fullName: 'John Doe',
+    email: 'john@example.com',
+    phone: '+91 98765 43210',
+    altPhones: '0172 234 5678 ext. 204',
+    city: 'Chandigarh',
+    propertyType: 'Apartment',
+    bhk: '3',
+    purpose: 'Buy',
+    budgetMin: 5000000,
+    budgetMax: 7000000,
+    timeline: '3-6m',
+    source: 'Website',
+    notes: 'Looking for 3BHK in good locality',
+    tags: 'urgent, verified',
+    status: 'New',
+  });
+
+  IMPORT_COLUMNS.forEach((column, index) => {
+    const choices = IMPORT_CHOICES[column];
+    if (!choices) return;
+
+    for (let row = 2; row <= TEMPLATE_ROWS + 1; row++) {
+      sheet.getCell(row, index + 1).dataValidation = {
+        type: 'list',
+        allowBlank: true,
+        formulae: [`"${choices.join(',')}"`],
+        showErrorMessage: true,
+        errorTitle: `Invalid ${column}`,
+        error: `Pick one of: ${choices.join(', ')}`,
+      };
+    }
+  });
+
+  return workbook.xlsx.writeBuffer();
+}
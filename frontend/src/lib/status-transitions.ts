@@ -0,0 +1,74 @@
+import type { PipelineStatus } from './pipeline';
+
+// Which statuses a lead may move to from each status. Staying put is always
+// allowed; everything not listed here is rejected with a 422.
+export const statusTransitions: Record<PipelineStatus, PipelineStatus[]> = {
+  New: ['Qualified', 'Contacted', 'Dropped'],
+  Qualified: ['Contacted', 'Visited', 'Dropped'],
+  Contacted: ['Qualified', 'Visited', 'Negotiation', 'Dropped'],
+  Visited: ['Contacted', 'Negotiation', 'Dropped'],
+  Negotiation: ['Visited', 'Converted', 'Dropped'],
+  Converted: [],
+  Dropped: ['New', 'Contacted'],
+};
+
+export interface StageFields {
+  dropReason?: string | null;
+  dropNote?: string | null;
+  visitedAt?: string | Date | null;
+  dealValue?: number | null;
+}
+
+export interface MissingStageField {
+  field: keyof StageFields;
+  message: string;
+}
+
+export function allowedTransitions(from: PipelineStatus): PipelineStatus[] {
+  return statusTransitions[from];
+}
+
+export function canTransition(from: PipelineStatus, to: PipelineStatus): boolean {
+  return from === to || statusTransitions[from].includes(to);
+}
+
+// Explains why a transition is rejected, or null when it is allowed
+export function transitionError(from: PipelineStatus, to: PipelineStatus): string | null {
+  if (canTransition(from, to)) {
+    return null;
+  }
+
+  const allowed = statusTransitions[from];
+  return allowed.length === 0
+    ? `A ${from} lead cannot change status`
+    : `Cannot move a lead from ${from} to ${to}. From ${from} a lead can move to: ${allowed.join(', ')}`;
+}
+
+// Data a lead must carry to sit in the given status
+export function missingStageFields(status: PipelineStatus, data: StageFields): MissingStageField[] {
+  const missing: MissingStageField[] = [];
+
+  if (status === 'Dropped') {
+    if (!data.dropReason) {
+      missing.push({ field: 'dropReason', message: 'A drop reason is required for Dropped leads' });
+    } else if (data.dropReason === 'Other' && !data.dropNote?.trim()) {
+      missing.push({ field: 'dropNote', message: 'Describe the reason when dropping for Other' });
+    }
+  }
+
+  if (status === 'Visited' && !data.visitedAt) {
+    missing.push({ field: 'visitedAt', message: 'A visit date is required for Visited leads' });
+  }
+
+  if (status === 'Converted' && !data.dealValue) {
+    missing.push({ field: 'dealValue', message: 'A deal value is required for Converted leads' });
+  }
+
+  return missing;
+}
+
+// The drop reason only describes the current drop, so it is cleared when a
+// lead is reopened. Visit dates and deal values stay as a record.
+export function clearedStageFields(status: PipelineStatus) {
+  return status === 'Dropped' ? {} : { dropReason: null, dropNote: null };
+}
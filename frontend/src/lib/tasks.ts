@@ -0,0 +1,58 @@
+import { and, asc, eq, lt } from 'drizzle-orm';
+import { db } from './db';
+import { buyers, tasks } from './schema';
+import { notTrashed } from './trash';
+
+export type Task = typeof tasks.$inferSelect;
+export type TaskBucket = 'overdue' | 'today' | 'upcoming';
+
+// Start of the day after `now`, used as the cut-off for "due today"
+export function endOfDay(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(24, 0, 0, 0);
+  return end;
+}
+
+// Overdue means past its due time; today means due later today
+export function taskBucket(dueAt: Date, now: Date = new Date()): TaskBucket {
+  if (dueAt < now) {
+    return 'overdue';
+  }
+  if (dueAt < endOfDay(now)) {
+    return 'today';
+  }
+  return 'upcoming';
+}
+
+// Open tasks assigned to a member that are due by the end of today,
+// split into overdue and today for the "My tasks" view
+export async function getMyTasks(organizationId: string, assigneeId: string, now: Date = new Date()) {
+  const rows = await db
+    .select({
+      id: tasks.id,
+      type: tasks.type,
+      title: tasks.title,
+      dueAt: tasks.dueAt,
+      done: tasks.done,
+      buyer: {
+        id: buyers.id,
+        fullName: buyers.fullName,
+        phone: buyers.phone,
+      },
+    })
+    .from(tasks)
+    .innerJoin(buyers, eq(tasks.buyerId, buyers.id))
+    .where(and(
+      eq(tasks.organizationId, organizationId),
+      eq(tasks.assigneeId, assigneeId),
+      eq(tasks.done, false),
+      lt(tasks.dueAt, endOfDay(now)),
+      notTrashed()
+    ))
+    .orderBy(asc(tasks.dueAt));
+
+  return {
+    overdue: rows.filter((task) => taskBucket(task.dueAt, now) === 'overdue'),
+    today: rows.filter((task) => taskBucket(task.dueAt, now) === 'today'),
+  };
+}
@@ -0,0 +1,66 @@
+import { and, desc, eq, isNotNull, isNull, lt } from 'drizzle-orm';
+import { db } from './db';
+import { buyers, users } from './schema';
+
+// How long a deleted lead stays restorable before the purge job removes it
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function trashRetentionDays(value: string | undefined = process.env.TRASH_RETENTION_DAYS): number {
+  const days = Number(value);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// Leads deleted before this moment are due for purging
+export function purgeCutoff(now: Date = new Date(), retentionDays: number = trashRetentionDays()): Date {
+  return new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// When a trashed lead will be purged
+export function purgeDate(deletedAt: Date, retentionDays: number = trashRetentionDays()): Date {
+  return new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Condition every list, search and export query adds so trashed leads stay out of sight
+export function notTrashed() {
+  return isNull(buyers.deletedAt);
+}
+
+// Trashed leads in an organization, newest deletion first. Pass ownerId to
+// limit the list to one agent's leads.
+export async function getTrash(organizationId: string, ownerId?: string) {
+  return db
+    .select({
+      id: buyers.id,
+      fullName: buyers.fullName,
+      phone: buyers.phone,
+      city: buyers.city,
+      status: buyers.status,
+      ownerId: buyers.ownerId,
+      deletedAt: buyers.deletedAt,
+      deletedBy: {
+        id: users.id,
+        name: users.name,
+        email: users.email,
+      },
+    })
+    .from(buyers)
+    .leftJoin(users, eq(buyers.deletedBy, users.id))
+    .where(and(
+      eq(buyers.organizationId, organizationId),
+      isNotNull(buyers.deletedAt),
+      ownerId ? eq(buyers.ownerId, ownerId) : undefined
+    ))
+    .orderBy(desc(buyers.deletedAt));
+}
+
+// Permanently remove leads that have been in the trash longer than the
+// retention period. Tasks and site visits go with them; the history stays,
+// ending in the 'delete' entry that holds every field the lead had.
+export async function purgeTrash(now: Date = new Date(), retentionDays: number = trashRetentionDays()) {
+  const purged = await db
+    .delete(buyers)
+    .where(and(isNotNull(buyers.deletedAt), lt(buyers.deletedAt, purgeCutoff(now, retentionDays))))
+    .returning({ id: buyers.id });
+
+  return purged.map((buyer) => buyer.id);
+}
@@ -13,12 +13,125 @@ export function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-export function formatBudgetRange(min?: number, max?: number): string {
-  if (!min && !max) return 'Not specified';
-  if (min && max) return `${formatCurrency(min)} - ${formatCurrency(max)}`;
-  if (min) return `${formatCurrency(min)}+`;
-  if (max) return `Up to ${formatCurrency(max)}`;
-  return 'Not specified';
+// Indian shorthand units, as written in "45L", "1.2 Cr" or "50 lakh"
+const BUDGET_UNITS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  l: 1_00_000,
+  lac: 1_00_000,
+  lacs: 1_00_000,
+  lakh: 1_00_000,
+  lakhs: 1_00_000,
+  cr: 1_00_00_000,
+  crs: 1_00_00_000,
+  crore: 1_00_00_000,
+  crores: 1_00_00_000,
+};
+
+// Currency markers and a trailing "per month" carry no amount
+function stripBudgetNoise(input: string): string {
+  return input
+    .trim()
+    .toLowerCase()
+    .replace(/^(?:₹|rs\.?|inr)\s*/, '')
+    .replace(/\s*(?:\/\s*(?:month|mo)|per month|p\.?m\.?)$/, '')
+    .replace(/,/g, '');
+}
+
+// A budget amount in rupees from "4500000", "45,00,000", "45L", "₹1.2 Cr" or
+// "50 lakh"; null when the input isn't a positive amount
+export function parseBudget(input: string | number | null | undefined): number | null {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) && input > 0 ? Math.round(input) : null;
+  }
+  if (!input) return null;
+
+  const match = stripBudgetNoise(input).match(/^(\d+(?:\.\d+)?)\s*([a-z]*)\.?$/);
+  if (!match) return null;
+
+  const [, amount, unit] = match;
+  const multiplier = unit ? BUDGET_UNITS[unit] : 1;
+  if (!multiplier) return null;
+
+  const value = Math.round(Number(amount) * multiplier);
+  return value > 0 ? value : null;
+}
+
+export interface BudgetRange {
+  min?: number;
+  max?: number;
+}
+
+// A budget range from "50 lakh - 1 crore", "50-80L", "under 80L", "1Cr+" or a
+// single amount (which becomes both ends); null when it can't be read
+export function parseBudgetRange(input: string | null | undefined): BudgetRange | null {
+  const text = input?.trim().toLowerCase();
+  if (!text) return null;
+
+  const below = text.match(/^(?:under|below|up to|upto|max|<=?)\s*(.+)$/);
+  if (below) {
+    const max = parseBudget(below[1]);
+    return max ? { max } : null;
+  }
+
+  const above = text.match(/^(?:over|above|from|min|>=?)\s*(.+)$/) ?? text.match(/^(.+?)\s*\+$/);
+  if (above) {
+    const min = parseBudget(above[1]);
+    return min ? { min } : null;
+  }
+
+  const parts = text.split(/\s*(?:-|–|\bto\b)\s*/);
+  if (parts.length === 2) {
+    let [low, high] = parts;
+    // In "50-80 lakh" the unit of the upper bound applies to the lower one too
+    const unit = stripBudgetNoise(high).match(/[a-z]+$/)?.[0];
+    if (unit && /^[\d.]+$/.test(stripBudgetNoise(low))) {
+      low = `${stripBudgetNoise(low)} ${unit}`;
+    }
+    const min = parseBudget(low);
+    const max = parseBudget(high);
+    return min && max && min <= max ? { min, max } : null;
+  }
+
+  const amount = parseBudget(text);
+  return amount ? { min: amount, max: amount } : null;
+}
+
+export interface BudgetFormatOptions {
+  // 'compact' writes amounts in thousands, lakhs and crores: "₹45 L", "₹1.2 Cr"
+  notation?: 'standard' | 'compact';
+  // Rent budgets are monthly amounts
+  purpose?: string | null;
+}
+
+const COMPACT_UNITS: Array<[string, number]> = [
+  ['Cr', 1_00_00_000],
+  ['L', 1_00_000],
+  ['K', 1_000],
+];
+
+function formatBudgetAmount(amount: number, notation: BudgetFormatOptions['notation']): string {
+  if (notation === 'compact') {
+    const unit = COMPACT_UNITS.find(([, size]) => amount >= size);
+    if (unit) {
+      return `₹${Number((amount / unit[1]).toFixed(2))} ${unit[0]}`;
+    }
+  }
+  return formatCurrency(amount);
+}
+
+export function formatBudget(amount: number, { notation = 'standard', purpose }: BudgetFormatOptions = {}): string {
+  const formatted = formatBudgetAmount(amount, notation);
+  return purpose === 'Rent' ? `${formatted} per month` : formatted;
+}
+
+export function formatBudgetRange(min?: number, max?: number, { notation = 'standard', purpose }: BudgetFormatOptions = {}): string {
+  let range: string;
+  if (min && max) range = `${formatBudgetAmount(min, notation)} - ${formatBudgetAmount(max, notation)}`;
+  else if (min) range = `${formatBudgetAmount(min, notation)}+`;
+  else if (max) range = `Up to ${formatBudgetAmount(max, notation)}`;
+  else return 'Not specified';
+  return purpose === 'Rent' ? `${range} per month` : range;
 }
 
 export function formatDate(date: Date | string): string {
@@ -1,4 +1,10 @@
 import { z } from 'zod';
+import { roles } from './permissions';
+import { missingStageFields } from './status-transitions';
+import { MERGE_FIELDS } from './duplicates';
+import { MAX_ALT_PHONES, normalizePhone, splitPhones } from './phone';
+import { parseBudget } from './utils';
+import { LIST_COLUMN_KEYS, viewParams } from './views';
 
 // Enums
 export const cityEnum = z.enum(['Chandigarh', 'Mohali', 'Zirakpur', 'Panchkula', 'Other']);
@@ -8,9 +14,73 @@ export const purposeEnum = z.enum(['Buy', 'Rent']);
 export const timelineEnum = z.enum(['0-3m', '3-6m', '>6m', 'Exploring']);
 export const sourceEnum = z.enum(['Website', 'Referral', 'Walk-in', 'Call', 'Other']);
 export const statusEnum = z.enum(['New', 'Qualified', 'Contacted', 'Visited', 'Negotiation', 'Converted', 'Dropped']);
+export const roleEnum = z.enum(roles);
+export const taskTypeEnum = z.enum(['call', 'visit', 'email']);
+export const visitStatusEnum = z.enum(['scheduled', 'completed', 'cancelled']);
+export const propertyStatusEnum = z.enum(['Available', 'On Hold', 'Closed']);
+export const dropReasonEnum = z.enum(['Budget', 'Location', 'Bought Elsewhere', 'Not Responding', 'Not Interested', 'Other']);
+
+// Stage data carried by leads in Dropped, Visited and Converted
+const stageFields = {
+  dropReason: dropReasonEnum.nullish(),
+  dropNote: z.string()
+    .max(500, 'Drop note must be at most 500 characters')
+    .nullish(),
+  visitedAt: z.string().datetime().nullish(),
+  dealValue: z.number()
+    .int('Deal value must be a whole number')
+    .positive('Deal value must be positive')
+    .nullish(),
+};
+
+// Any common way of writing a number, stored in E.164
+const phoneNumber = z.string().transform((value, ctx) => {
+  const phone = normalizePhone(value);
+  if (!phone) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Enter a valid phone number, e.g. +91 98765 43210' });
+    return z.NEVER;
+  }
+  return phone;
+});
+
+const phoneFields = {
+  phone: phoneNumber,
+  altPhones: z.array(phoneNumber)
+    .max(MAX_ALT_PHONES, `At most ${MAX_ALT_PHONES + 1} phone numbers per lead`)
+    .default([]),
+};
+
+// Budgets may be typed in shorthand ("45L", "1.2 Cr"); a blank field means no budget
+const budgetAmount = z.preprocess(
+  (value) => typeof value === 'string' ? (value.trim() === '' ? undefined : parseBudget(value) ?? value) : value,
+  z.number({ invalid_type_error: 'Enter an amount such as 4500000, 45L or 1.2 Cr' })
+    .int('Budget must be a whole number')
+    .positive('Budget must be positive')
+    .optional()
+);
+
+// The phone field may hold several numbers ("98765 43210 / 98123 45678"): the
+// first stays the primary number and the rest join altPhones
+function splitPhoneField(input: unknown) {
+  if (!input || typeof input !== 'object' || typeof (input as { phone?: unknown }).phone !== 'string') {
+    return input;
+  }
+  const { phone, altPhones } = input as { phone: string; altPhones?: unknown };
+  const [primary = '', ...others] = splitPhones(phone);
+  const alternates = [...others, ...(Array.isArray(altPhones) ? altPhones : [])]
+    .filter((alternate, index, all) => alternate !== primary && all.indexOf(alternate) === index);
+  return { ...input, phone: primary, altPhones: alternates };
+}
+
+// Report every stage field the chosen status requires but is missing
+function requireStageFields(data: z.infer<z.ZodObject<typeof stageFields>> & { status: z.infer<typeof statusEnum> }, ctx: z.RefinementCtx) {
+  for (const { field, message } of missingStageFields(data.status, data)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [field] });
+  }
+}
 
 // Base buyer schema
-export const buyerSchema = z.object({
+export const buyerSchema = z.preprocess(splitPhoneField, z.object({
   fullName: z.string()
     .min(2, 'Full name must be at least 2 characters')
     .max(80, 'Full name must be at most 80 characters'),
@@ -18,23 +88,17 @@ export const buyerSchema = z.object({
     .email('Invalid email format')
     .optional()
     .or(z.literal('')),
-  phone: z.string()
-    .regex(/^\d{10,15}$/, 'Phone must be 10-15 digits'),
+  ...phoneFields,
   city: cityEnum,
   propertyType: propertyTypeEnum,
   bhk: bhkEnum.optional(),
   purpose: purposeEnum,
-  budgetMin: z.number()
-    .int('Budget must be a whole number')
-    .positive('Budget must be positive')
-    .optional(),
-  budgetMax: z.number()
-    .int('Budget must be a whole number')
-    .positive('Budget must be positive')
-    .optional(),
+  budgetMin: budgetAmount,
+  budgetMax: budgetAmount,
   timeline: timelineEnum,
   source: sourceEnum,
   status: statusEnum.default('New'),
+  ...stageFields,
   notes: z.string()
     .max(1000, 'Notes must be at most 1000 characters')
     .optional()
@@ -58,13 +122,23 @@ export const buyerSchema = z.object({
 }, {
   message: 'Maximum budget must be greater than or equal to minimum budget',
   path: ['budgetMax'],
-});
+}).superRefine(requireStageFields));
 
 // Create buyer schema (for new buyers)
 export const createBuyerSchema = buyerSchema;
 
+// A lead as stored (nulls, Date timestamps) checked against the buyer rules,
+// for leads the server puts together itself, such as merges and reverts
+export function storedBuyerIssues(buyer: Record<string, unknown>): z.ZodIssue[] {
+  const values = Object.fromEntries(Object.entries(buyer)
+    .filter(([, value]) => value !== null)
+    .map(([field, value]) => [field, value instanceof Date ? value.toISOString() : value]));
+  const result = buyerSchema.safeParse(values);
+  return result.success ? [] : result.error.errors;
+}
+
 // Update buyer schema (for editing existing buyers)
-export const updateBuyerSchema = z.object({
+export const updateBuyerSchema = z.preprocess(splitPhoneField, z.object({
   id: z.string().uuid(),
   fullName: z.string()
     .min(2, 'Full name must be at least 2 characters')
@@ -73,23 +147,17 @@ export const updateBuyerSchema = z.object({
     .email('Invalid email format')
     .optional()
     .or(z.literal('')),
-  phone: z.string()
-    .regex(/^\d{10,15}$/, 'Phone must be 10-15 digits'),
+  ...phoneFields,
   city: cityEnum,
   propertyType: propertyTypeEnum,
   bhk: bhkEnum.optional(),
   purpose: purposeEnum,
-  budgetMin: z.number()
-    .int('Budget must be a whole number')
-    .positive('Budget must be positive')
-    .optional(),
-  budgetMax: z.number()
-    .int('Budget must be a whole number')
-    .positive('Budget must be positive')
-    .optional(),
+  budgetMin: budgetAmount,
+  budgetMax: budgetAmount,
   timeline: timelineEnum,
   source: sourceEnum,
   status: statusEnum.default('New'),
+  ...stageFields,
   notes: z.string()
     .max(1000, 'Notes must be at most 1000 characters')
     .optional()
@@ -114,25 +182,53 @@ export const updateBuyerSchema = z.object({
 }, {
   message: 'Maximum budget must be greater than or equal to minimum budget',
   path: ['budgetMax'],
+}).superRefine(requireStageFields));
+
+// Status-only update from the pipeline board and quick actions
+export const updateBuyerStatusSchema = z.object({
+  status: statusEnum,
+  ...stageFields,
+  updatedAt: z.string().datetime(),
+}).superRefine(requireStageFields);
+
+// History paging and revert
+export const historyQuerySchema = z.object({
+  cursor: z.string().uuid().optional(),
+  limit: z.number().int().positive().max(50).default(20),
+});
+
+export const revertBuyerSchema = z.object({
+  updatedAt: z.string().datetime(),
+});
+
+export const mergeBuyersSchema = z.object({
+  survivorId: z.string().uuid(),
+  duplicateIds: z.array(z.string().uuid())
+    .min(1, 'Select at least one duplicate to merge')
+    .max(9, 'At most 10 leads can be merged at once'),
+  // For each field, the id of the lead whose value is kept
+  picks: z.record(z.enum(MERGE_FIELDS), z.string().uuid()).default({}),
+  // updatedAt of every lead as shown on the merge screen, for optimistic locking
+  versions: z.record(z.string().uuid(), z.string().datetime()),
+}).refine((data) => !data.duplicateIds.includes(data.survivorId), {
+  message: 'The surviving lead cannot also be merged away',
+  path: ['duplicateIds'],
+}).refine((data) => Object.values(data.picks).every((id) => id === data.survivorId || data.duplicateIds.includes(id)), {
+  message: 'Every kept value must come from one of the merged leads',
+  path: ['picks'],
 });
 
 // CSV import schema
-export const csvBuyerSchema = z.object({
+export const csvBuyerSchema = z.preprocess(splitPhoneField, z.object({
   fullName: z.string().min(2).max(80),
   email: z.string().email().optional().or(z.literal('').transform(() => undefined)),
-  phone: z.string().regex(/^\d{10,15}$/),
+  ...phoneFields,
   city: cityEnum,
   propertyType: propertyTypeEnum,
   bhk: bhkEnum.optional().or(z.literal('').transform(() => undefined)),
   purpose: purposeEnum,
-  budgetMin: z.union([
-    z.string().transform((val: string) => val ? parseInt(val) : undefined),
-    z.number().optional()
-  ]).optional(),
-  budgetMax: z.union([
-    z.string().transform((val: string) => val ? parseInt(val) : undefined),
-    z.number().optional()
-  ]).optional(),
+  budgetMin: budgetAmount,
+  budgetMax: budgetAmount,
   timeline: timelineEnum,
   source: sourceEnum,
   notes: z.string().max(1000).optional().or(z.literal('').transform(() => '')),
@@ -142,7 +238,8 @@ export const csvBuyerSchema = z.object({
     ),
     z.array(z.string())
   ]).optional().default([]),
-  status: statusEnum.default('New')
+  status: statusEnum.default('New'),
+  externalId: z.string().trim().max(100).optional().or(z.literal('').transform(() => undefined)),
 }).transform((data) => {
   // Ensure tags is always an array of strings
   const tags = Array.isArray(data.tags) 
@@ -171,19 +268,317 @@ export const csvBuyerSchema = z.object({
 }, {
   message: 'Maximum budget must be greater than or equal to minimum budget',
   path: ['budgetMax']
+}).superRefine(requireStageFields));
+
+// Import column mapping schemas
+export const importFieldEnum = z.enum(['fullName', 'email', 'phone', 'altPhones', 'city', 'propertyType', 'bhk',
+  'purpose', 'budget', 'budgetMin', 'budgetMax', 'timeline', 'source', 'status', 'notes', 'tags', 'externalId']);
+export const budgetUnitEnum = z.enum(['lakh', 'crore']);
+
+// Rows matching an existing lead are skipped as duplicates, update the lead
+// with the row's values, or only add to it (tags, notes and empty fields)
+export const importModeEnum = z.enum(['skip', 'update', 'merge']);
+export const importMatchEnum = z.enum(['phone', 'email', 'externalId']);
+
+export const importOptionsSchema = z.object({
+  mode: importModeEnum.default('skip'),
+  // Which column identifies the existing lead a row is about
+  matchBy: importMatchEnum.default('phone'),
 });
 
-// Search/filter schema
-export const searchSchema = z.object({
+export const columnMappingSchema = z.object({
+  // File header → the field its values fill; headers left out are ignored
+  columns: z.record(z.string().max(200), z.object({
+    field: importFieldEnum,
+    // Unit of bare numbers in a budget column, e.g. "Budget (Lakhs)"
+    unit: budgetUnitEnum.optional(),
+  })),
+  // Per field, file values (compared as valueKey) → the option they stand for,
+  // e.g. { city: { chd: 'Chandigarh' } }
+  aliases: z.record(importFieldEnum, z.record(z.string().max(200), z.string())).default({}),
+  // Lead source for rows that leave it blank, e.g. every lead of a portal's export
+  source: sourceEnum.optional(),
+}).superRefine((mapping, ctx) => {
+  const fields = Object.values(mapping.columns).map(({ field }) => field);
+  fields.forEach((field, index) => {
+    if (fields.indexOf(field) !== index) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `More than one column fills ${field}`,
+        path: ['columns'],
+      });
+    }
+  });
+});
+
+// A mapping saved for reuse, named after where the files come from (e.g. "99acres")
+export const importMappingSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(80, 'Name must be at most 80 characters'),
+  mapping: columnMappingSchema,
+});
+
+// Rows of an import dry run sent back after fixing them in the browser
+export const importRowsSchema = z.object({
+  rows: z.array(z.object({
+    sheet: z.string().optional(),
+    rowNumber: z.number().int().positive(),
+    values: z.record(z.string().max(2000)),
+  })).min(1, 'Pick at least one row to import'),
+  // Only check the rows again, without importing them
+  dryRun: z.boolean().default(false),
+}).merge(importOptionsSchema);
+
+// Property schema
+export const propertySchema = z.object({
+  title: z.string()
+    .trim()
+    .min(2, 'Title must be at least 2 characters')
+    .max(120, 'Title must be at most 120 characters'),
+  city: cityEnum,
+  locality: z.string()
+    .max(120, 'Locality must be at most 120 characters')
+    .optional()
+    .or(z.literal('')),
+  propertyType: propertyTypeEnum,
+  bhk: bhkEnum.optional(),
+  purpose: purposeEnum,
+  price: z.number()
+    .int('Price must be a whole number')
+    .positive('Price must be positive'),
+  areaSqft: z.number()
+    .int('Area must be a whole number')
+    .positive('Area must be positive')
+    .optional(),
+  status: propertyStatusEnum.default('Available'),
+  notes: z.string()
+    .max(1000, 'Notes must be at most 1000 characters')
+    .optional()
+    .or(z.literal('')),
+}).refine((data) => {
+  // BHK required for Apartment and Villa
+  if (['Apartment', 'Villa'].includes(data.propertyType) && !data.bhk) {
+    return false;
+  }
+  return true;
+}, {
+  message: 'BHK is required for Apartment and Villa properties',
+  path: ['bhk'],
+});
+
+// Filters arrive from the URL as comma-separated lists ("city=Mohali,Zirakpur")
+function listParam<T extends z.ZodTypeAny>(item: T) {
+  return z.preprocess(
+    (value) => typeof value === 'string' ? value.split(',').map((entry) => entry.trim()).filter(Boolean) : value,
+    z.array(item)
+  ).optional();
+}
+
+const dateParam = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be written as YYYY-MM-DD')
+  .optional();
+
+// Filters shared by the buyer list, the pipeline board and the export. List
+// filters match any of their values; tags match leads carrying all of them.
+export const buyerFiltersSchema = z.object({
   query: z.string().optional(),
-  city: cityEnum.optional(),
-  propertyType: propertyTypeEnum.optional(),
-  status: statusEnum.optional(),
-  timeline: timelineEnum.optional(),
+  city: listParam(cityEnum),
+  propertyType: listParam(propertyTypeEnum),
+  bhk: listParam(bhkEnum),
+  purpose: listParam(purposeEnum),
+  source: listParam(sourceEnum),
+  status: listParam(statusEnum),
+  timeline: listParam(timelineEnum),
+  tags: listParam(z.string()),
+  // Budget range in shorthand, e.g. "50L - 1Cr" or "under 80L"
+  budget: z.string().optional(),
+  // Inclusive calendar dates
+  createdFrom: dateParam,
+  createdTo: dateParam,
+  updatedFrom: dateParam,
+  updatedTo: dateParam,
+});
+
+// Search/filter schema
+export const searchSchema = buyerFiltersSchema.extend({
   page: z.number().int().positive().default(1),
   limit: z.number().int().positive().max(50).default(10),
-  sortBy: z.enum(['fullName', 'createdAt', 'updatedAt']).default('updatedAt'),
+  // Left out to rank searches by relevance and list everything else by last update
+  sortBy: z.enum(['relevance', 'fullName', 'createdAt', 'updatedAt', 'budgetMin', 'budgetMax']).optional(),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  // nextCursor of the previous page; pages by cursor instead of by number
+  cursor: z.string().max(500).optional(),
+  // How to total the matches: exactly, from the planner's estimate, or not at all
+  count: z.enum(['exact', 'estimate', 'none']).default('exact'),
+  columns: listParam(z.enum(LIST_COLUMN_KEYS)),
+  // Saved view the list was opened from
+  view: z.string().uuid().optional(),
+});
+
+// Saved view schemas
+export const savedViewSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(80, 'Name must be at most 80 characters'),
+  // Query string parameters of the list, e.g. { city: 'Mohali,Zirakpur', sortBy: 'budgetMax' }
+  params: z.record(z.string())
+    .transform((params) => viewParams(params))
+    .refine((params) => searchSchema.safeParse(params).success, 'The view contains invalid filters'),
+  shared: z.boolean().default(false),
+  // Also open the buyer list with this view from now on
+  makeDefault: z.boolean().default(false),
+});
+
+export const updateSavedViewSchema = z.object({
+  name: savedViewSchema.shape.name.optional(),
+  params: savedViewSchema.shape.params.optional(),
+  shared: z.boolean().optional(),
+});
+
+export const defaultViewSchema = z.object({
+  // null goes back to the unfiltered list
+  viewId: z.string().uuid().nullable(),
+});
+
+// Following a saved view for alerts about new matching leads
+export const viewAlertSchema = z.object({
+  // Also send an email, not just the in-app notification
+  email: z.boolean().default(false),
+});
+
+// Notification schemas
+export const markNotificationsReadSchema = z.object({
+  // Leave out to mark every notification read
+  ids: z.array(z.string().uuid()).min(1).max(100).optional(),
+});
+
+// Organization schemas
+export const organizationSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(2, 'Organization name must be at least 2 characters')
+    .max(120, 'Organization name must be at most 120 characters'),
+});
+
+export const addMemberSchema = z.object({
+  email: z.string()
+    .trim()
+    .toLowerCase()
+    .email('Invalid email format'),
+  role: roleEnum.default('agent'),
+});
+
+export const updateMemberSchema = z.object({
+  role: roleEnum,
+});
+
+export const switchOrganizationSchema = z.object({
+  organizationId: z.string().uuid(),
+});
+
+// Assignment schemas
+export const reassignBuyerSchema = z.object({
+  ownerId: z.string().uuid(),
+});
+
+export const bulkReassignSchema = z.object({
+  ids: z.array(z.string().uuid())
+    .min(1, 'Select at least one lead')
+    .max(100, 'At most 100 leads can be reassigned at once'),
+  ownerId: z.string().uuid(),
+});
+
+// Bulk actions on the buyer list
+export const BULK_LIMIT = 500;
+
+// Either leads picked on screen, each with the version that was shown, or
+// every lead matching the list's filters as it stood when loaded (asOf)
+const bulkSelection = {
+  ids: z.array(z.object({ id: z.string().uuid(), updatedAt: z.string().datetime() }))
+    .min(1, 'Select at least one lead')
+    .max(BULK_LIMIT, `At most ${BULK_LIMIT} leads can be changed at once`)
+    .optional(),
+  filters: buyerFiltersSchema.optional(),
+  asOf: z.string().datetime().optional(),
+};
+
+const bulkTags = z.array(z.string().trim().min(1, 'Tags cannot be blank').max(50, 'Tags must be at most 50 characters'))
+  .min(1, 'Enter at least one tag')
+  .max(20, 'At most 20 tags at once');
+
+export const bulkActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('status'), status: statusEnum, ...stageFields, ...bulkSelection }),
+  z.object({ action: z.literal('addTags'), tags: bulkTags, ...bulkSelection }),
+  z.object({ action: z.literal('removeTags'), tags: bulkTags, ...bulkSelection }),
+  z.object({ action: z.literal('reassign'), ownerId: z.string().uuid(), ...bulkSelection }),
+  z.object({ action: z.literal('delete'), ...bulkSelection }),
+  z.object({ action: z.literal('export'), ...bulkSelection }),
+]).superRefine((data, ctx) => {
+  if (!data.ids === !data.filters) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Select leads either by id or by filters', path: ['ids'] });
+  }
+  if (data.filters && !data.asOf) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'asOf is required when selecting by filters', path: ['asOf'] });
+  }
+  // Picked leads are checked against their own versions, which asOf would override
+  if (data.ids && data.asOf) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'asOf is only used when selecting by filters', path: ['asOf'] });
+  }
+  if (data.action === 'status') {
+    requireStageFields(data, ctx);
+  }
+});
+
+export const assignmentRuleSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(2, 'Rule name must be at least 2 characters')
+    .max(80, 'Rule name must be at most 80 characters'),
+  city: cityEnum.nullable().default(null),
+  propertyType: propertyTypeEnum.nullable().default(null),
+  agentIds: z.array(z.string().uuid()).min(1, 'Add at least one agent to the pool'),
+  priority: z.number().int().min(0).default(0),
+  active: z.boolean().default(true),
+});
+
+export const updateAssignmentRuleSchema = assignmentRuleSchema.partial();
+
+// Task schemas
+export const taskSchema = z.object({
+  type: taskTypeEnum,
+  title: z.string()
+    .trim()
+    .min(2, 'Title must be at least 2 characters')
+    .max(120, 'Title must be at most 120 characters'),
+  dueAt: z.string().datetime(),
+  assigneeId: z.string().uuid().optional(),
+});
+
+export const updateTaskSchema = taskSchema.partial().extend({
+  done: z.boolean().optional(),
+});
+
+// Site visit schemas
+export const visitSchema = z.object({
+  location: z.string()
+    .trim()
+    .min(2, 'Location must be at least 2 characters')
+    .max(200, 'Location must be at most 200 characters'),
+  scheduledAt: z.string().datetime(),
+  durationMinutes: z.number().int().min(15).max(480).default(60),
+  agentId: z.string().uuid().optional(),
+});
+
+export const updateVisitSchema = visitSchema.partial().extend({
+  status: visitStatusEnum.optional(),
+  outcomeNotes: z.string()
+    .max(1000, 'Outcome notes must be at most 1000 characters')
+    .optional(),
+  // When completing a visit, also move the lead to the Visited status
+  markVisited: z.boolean().optional(),
 });
 
 // Rate limiting schema
@@ -197,8 +592,33 @@ export const rateLimitSchema = z.object({
 export type Buyer = z.infer<typeof buyerSchema>;
 export type CreateBuyer = z.infer<typeof createBuyerSchema>;
 export type UpdateBuyer = z.infer<typeof updateBuyerSchema>;
+export type UpdateBuyerStatus = z.infer<typeof updateBuyerStatusSchema>;
+export type DropReason = z.infer<typeof dropReasonEnum>;
 export type CsvBuyer = z.infer<typeof csvBuyerSchema>;
+export type ImportField = z.infer<typeof importFieldEnum>;
+export type BudgetUnit = z.infer<typeof budgetUnitEnum>;
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+export type ImportMode = z.infer<typeof importModeEnum>;
+export type ImportMatch = z.infer<typeof importMatchEnum>;
+export type ImportOptions = z.infer<typeof importOptionsSchema>;
+export type ImportMappingInput = z.infer<typeof importMappingSchema>;
+export type BuyerFilters = z.infer<typeof buyerFiltersSchema>;
 export type SearchParams = z.infer<typeof searchSchema>;
+export type SavedViewInput = z.infer<typeof savedViewSchema>;
+export type UpdateSavedView = z.infer<typeof updateSavedViewSchema>;
+export type PropertyInput = z.infer<typeof propertySchema>;
+export type OrganizationInput = z.infer<typeof organizationSchema>;
+export type AddMember = z.infer<typeof addMemberSchema>;
+export type UpdateMember = z.infer<typeof updateMemberSchema>;
+export type BulkReassign = z.infer<typeof bulkReassignSchema>;
+export type BulkAction = z.infer<typeof bulkActionSchema>;
+export type MergeBuyers = z.infer<typeof mergeBuyersSchema>;
+export type AssignmentRuleInput = z.infer<typeof assignmentRuleSchema>;
+export type UpdateAssignmentRule = z.infer<typeof updateAssignmentRuleSchema>;
+export type TaskInput = z.infer<typeof taskSchema>;
+export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type VisitInput = z.infer<typeof visitSchema>;
+export type UpdateVisit = z.infer<typeof updateVisitSchema>;
 
 export type City = z.infer<typeof cityEnum>;
 export type PropertyType = z.infer<typeof propertyTypeEnum>;
@@ -207,3 +627,6 @@ export type Purpose = z.infer<typeof purposeEnum>;
 export type Timeline = z.infer<typeof timelineEnum>;
 export type Source = z.infer<typeof sourceEnum>;
 export type Status = z.infer<typeof statusEnum>;
+export type TaskType = z.infer<typeof taskTypeEnum>;
+export type VisitStatus = z.infer<typeof visitStatusEnum>;
+export type PropertyStatus = z.infer<typeof propertyStatusEnum>;
@@ -0,0 +1,93 @@
+// Saved views of the buyer list. A view is stored as the query string
+// parameters that produce it, so opening one is a plain navigation and the
+// URL of a view can be shared as is. Kept free of database imports so the
+// view switcher can use the same rules as the API.
+
+// Optional columns of the buyer table; name and actions are always shown
+export const LIST_COLUMNS = [
+  { key: 'contact', label: 'Contact' },
+  { key: 'property', label: 'Property' },
+  { key: 'budget', label: 'Budget' },
+  { key: 'timeline', label: 'Timeline' },
+  { key: 'status', label: 'Status' },
+  { key: 'updatedAt', label: 'Last Updated' },
+] as const;
+export type ListColumn = typeof LIST_COLUMNS[number]['key'];
+export const LIST_COLUMN_KEYS = LIST_COLUMNS.map((column) => column.key) as [ListColumn, ...ListColumn[]];
+
+// Parameters a view remembers. Paging is left out so a view opens on page 1.
+export const VIEW_PARAMS = [
+  'query',
+  'city',
+  'propertyType',
+  'bhk',
+  'purpose',
+  'source',
+  'status',
+  'timeline',
+  'tags',
+  'budget',
+  'createdFrom',
+  'createdTo',
+  'updatedFrom',
+  'updatedTo',
+  'sortBy',
+  'sortOrder',
+  'columns',
+] as const;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  ownerId: string;
+  shared: boolean;
+  params: Record<string, string>;
+  // Null unless the member follows the view for new-lead alerts; true when they go by email too
+  alertEmail?: boolean | null;
+}
+
+// The view-worthy part of the list's current query string
+export function viewParams(params: URLSearchParams | Record<string, string | undefined>): Record<string, string> {
+  const get = (key: string) => params instanceof URLSearchParams ? params.get(key) : params[key];
+  const picked: Record<string, string> = {};
+  for (const key of VIEW_PARAMS) {
+    const value = get(key);
+    if (value) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+}
+
+// The shareable URL of a view. The view id only marks which view is open;
+// the parameters alone decide what the list shows.
+export function viewHref(view: Pick<SavedView, 'id' | 'params'>): string {
+  const params = new URLSearchParams(viewParams(view.params));
+  params.set('view', view.id);
+  return `/buyers?${params.toString()}`;
+}
+
+// Whether the list still shows exactly what the view stores
+export function matchesView(view: Pick<SavedView, 'params'>, current: Record<string, string>): boolean {
+  const stored = viewParams(view.params);
+  const keys = Array.from(new Set(Object.keys(stored).concat(Object.keys(current))));
+  return keys.every((key) => stored[key] === current[key]);
+}
+
+// Columns to render, in table order; every column when none are chosen
+export function visibleColumns(columns: readonly string[] | undefined): ListColumn[] {
+  const chosen = LIST_COLUMN_KEYS.filter((key) => columns?.includes(key));
+  return chosen.length > 0 ? chosen : [...LIST_COLUMN_KEYS];
+}
+
+// What a saved search alert says and where it leads: straight to the lead
+// when only one matched, to the view otherwise
+export function alertMessage(
+  view: Pick<SavedView, 'id' | 'name' | 'params'>,
+  matches: Array<{ id: string; fullName: string }>
+): { title: string; href: string } {
+  if (matches.length === 1) {
+    return { title: `New lead ${matches[0].fullName} matches "${view.name}"`, href: `/buyers/${matches[0].id}` };
+  }
+  return { title: `${matches.length} new leads match "${view.name}"`, href: viewHref(view) };
+}
@@ -0,0 +1,88 @@
+import { and, asc, eq, gte, lt, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { buyers, siteVisits, users } from './schema';
+import { notTrashed } from './trash';
+import type { IcsEvent } from './ics';
+
+export type SiteVisit = typeof siteVisits.$inferSelect;
+
+// Weeks start on Monday at local midnight
+export function startOfWeek(date: Date = new Date()): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function visitToIcsEvent(visit: {
+  id: string;
+  location: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  status: SiteVisit['status'];
+  outcomeNotes: string | null;
+  updatedAt: Date;
+  buyer: { fullName: string; phone: string };
+}): IcsEvent {
+  const description = [`Buyer: ${visit.buyer.fullName} (${visit.buyer.phone})`];
+  if (visit.outcomeNotes) {
+    description.push(`Outcome: ${visit.outcomeNotes}`);
+  }
+
+  return {
+    uid: `${visit.id}@lead-intake`,
+    start: visit.scheduledAt,
+    end: new Date(visit.scheduledAt.getTime() + visit.durationMinutes * 60 * 1000),
+    summary: `Site visit: ${visit.buyer.fullName}`,
+    location: visit.location,
+    description: description.join('\n'),
+    status: visit.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: visit.updatedAt,
+  };
+}
+
+// Visits in an organization scheduled within [start, end), optionally for one agent
+export async function getVisitsBetween(organizationId: string, start: Date, end: Date, agentId?: string) {
+  const conditions: (SQL | undefined)[] = [
+    eq(siteVisits.organizationId, organizationId),
+    gte(siteVisits.scheduledAt, start),
+    lt(siteVisits.scheduledAt, end),
+    notTrashed(),
+  ];
+
+  if (agentId) {
+    conditions.push(eq(siteVisits.agentId, agentId));
+  }
+
+  return db
+    .select({
+      id: siteVisits.id,
+      location: siteVisits.location,
+      scheduledAt: siteVisits.scheduledAt,
+      durationMinutes: siteVisits.durationMinutes,
+      status: siteVisits.status,
+      outcomeNotes: siteVisits.outcomeNotes,
+      updatedAt: siteVisits.updatedAt,
+      buyer: {
+        id: buyers.id,
+        fullName: buyers.fullName,
+        phone: buyers.phone,
+      },
+      agent: {
+        id: users.id,
+        name: users.name,
+        email: users.email,
+      },
+    })
+    .from(siteVisits)
+    .innerJoin(buyers, eq(siteVisits.buyerId, buyers.id))
+    .innerJoin(users, eq(siteVisits.agentId, users.id))
+    .where(and(...conditions))
+    .orderBy(asc(siteVisits.scheduledAt));
+}
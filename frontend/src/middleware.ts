@@ -1,33 +1,102 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getToken } from 'next-auth/jwt'
+import { can, isRole, type Action } from '@/lib/permissions'
+
+// Pages that need more than read access, and the permission each one requires
+const pagePermissions: Array<{ pattern: RegExp; action: Action }> = [
+  { pattern: /^\/buyers\/new$/, action: 'buyer:create' },
+  { pattern: /^\/buyers\/import$/, action: 'buyer:import' },
+  { pattern: /^\/buyers\/[^/]+\/edit$/, action: 'buyer:update' },
+  { pattern: /^\/buyers\/trash$/, action: 'buyer:delete' },
+  { pattern: /^\/buyers\/duplicates(\/.*)?$/, action: 'buyer:delete' },
+  { pattern: /^\/properties\/new$/, action: 'property:manage' },
+  { pattern: /^\/properties\/[^/]+\/edit$/, action: 'property:manage' },
+];
+
+// Coarse role check for buyer and property API calls. Record-level rules
+// (agents only touching their own leads) are enforced again inside each route.
+function requiredApiAction(pathname: string, method: string): Action | null {
+  if (pathname.startsWith('/api/properties')) {
+    return method === 'GET' ? 'property:read' : 'property:manage';
+  }
+  // Saved views only ever show leads the member can already read
+  if (pathname.startsWith('/api/views')) return 'buyer:read';
+  if (!pathname.startsWith('/api/buyers')) return null;
+  if (pathname.startsWith('/api/buyers/export')) return 'buyer:export';
+  if (method === 'GET') return 'buyer:read';
+  if (pathname.startsWith('/api/buyers/import')) return 'buyer:import';
+  if (pathname.startsWith('/api/buyers/merge')) return 'buyer:delete';
+  // Bulk actions need different permissions per action; the route checks them
+  if (pathname.startsWith('/api/buyers/bulk')) return 'buyer:read';
+  if (pathname.endsWith('/reassign')) return 'buyer:reassign';
+  if (pathname.endsWith('/revert')) return 'buyer:update';
+  if (pathname.endsWith('/restore')) return 'buyer:delete';
+  if (method === 'POST') return 'buyer:create';
+  if (method === 'DELETE') return 'buyer:delete';
+  return 'buyer:update';
+}
 
 export async function middleware(request: NextRequest) {
-  const token = await getToken({ 
-    req: request, 
-    secret: process.env.NEXTAUTH_SECRET || "your-secret-key-here-change-this-in-production" 
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET || "your-secret-key-here-change-this-in-production"
   })
-  
+  const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api/');
+
   console.log('Middleware - token exists:', !!token);
-  console.log('Middleware - path:', request.nextUrl.pathname);
+  console.log('Middleware - path:', pathname);
   console.log('Middleware - token details:', token);
 
   // Allow access to auth pages without token
-  if (request.nextUrl.pathname.startsWith('/auth/')) {
+  if (pathname.startsWith('/auth/')) {
     return NextResponse.next();
   }
 
   // For protected routes, require token
   if (!token) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
     const signInUrl = new URL('/auth/signin', request.url);
-    signInUrl.searchParams.set('callbackUrl', request.nextUrl.pathname);
+    signInUrl.searchParams.set('callbackUrl', pathname);
     return NextResponse.redirect(signInUrl);
   }
 
+  // Tokens minted before roles existed fall through; routes re-check against the database
+  if (token.sub && isRole(token.role)) {
+    const actor = { userId: token.sub, role: token.role };
+
+    if (isApi) {
+      const action = requiredApiAction(pathname, request.method);
+      if (action && !can(actor, action)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    } else {
+      const page = pagePermissions.find(({ pattern }) => pattern.test(pathname));
+      if (page && !can(actor, page.action)) {
+        return NextResponse.redirect(new URL('/buyers', request.url));
+      }
+    }
+  }
+
   return NextResponse.next();
 }
 
 export const config = {
   matcher: [
     "/buyers/:path*",
+    "/organization/:path*",
+    "/tasks/:path*",
+    "/visits/:path*",
+    "/properties/:path*",
+    "/api/buyers/:path*",
+    "/api/organizations/:path*",
+    "/api/assignment-rules/:path*",
+    "/api/tasks/:path*",
+    "/api/visits/:path*",
+    "/api/properties/:path*",
+    "/api/views/:path*",
+    "/api/notifications/:path*",
   ],
 };